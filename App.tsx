@@ -1,31 +1,567 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import RacingGame from './components/RacingGame';
+import ReplayControls from './components/ReplayControls';
+import CalibrationWizard from './components/CalibrationWizard';
+import VisionSettingsPanel from './components/VisionSettingsPanel';
 import WebcamController from './components/WebcamController';
-import { ControlState, GameState } from './types';
-import { Play, RotateCcw, Trophy, AlertTriangle, Zap, Gauge, Flame } from 'lucide-react';
+import KeyboardController from './components/KeyboardController';
+import GamepadController from './components/GamepadController';
+import TouchController from './components/TouchController';
+import GestureCursor from './components/GestureCursor';
+import TrackSelect from './components/TrackSelect';
+import LapResults from './components/LapResults';
+import ProfileSelect from './components/ProfileSelect';
+import LeaderboardPanel from './components/LeaderboardPanel';
+import SharedStandings from './components/SharedStandings';
+import VersusResults, { PLAYER_COLORS } from './components/VersusResults';
+import OnlineLobby from './components/OnlineLobby';
+import AudioSettingsPanel from './components/AudioSettingsPanel';
+import { ControlState, GameState, InputDriverProps, InputSourceId } from './types';
+import { Replay, downloadReplay, parseReplay } from './services/replayService';
+import { FrameStats } from './services/gameLoop';
+import { RaceMode, RunResult, SimControls, SimState, createSeed, getRunResult } from './services/simulation';
+import {
+  canTimeAttack, formatRaceTime, getSelectedMode, getSelectedTrack, getTrackName, setSelectedMode, setSelectedTrack
+} from './services/trackService';
+import { getBestLap } from './services/timeAttackService';
+import { GhostSource, getGhostSource, getPersonalBest, savePersonalBest, setGhostSource } from './services/ghostService';
+import { GUEST_NAME, addEntry, createEntry } from './services/leaderboardService';
+import { getKioskServerUrl, setKioskServerUrl, submitRun } from './services/kioskServerClient';
+import {
+  IDLE_LOBBY, LobbyState, NetSession, RaceStart, createNetSession, getSignalingUrl, setSignalingUrl
+} from './services/netplayService';
+import { RemoteRacer } from './services/remoteRacer';
+import { startMusic, stopMusic } from './services/musicService';
+import {
+  PlayerProfile, applyProfile, captureProfileSettings, createProfile, deleteProfile, getActiveProfileId, listProfiles,
+  saveProfile, setActiveProfileId
+} from './services/profileService';
+import { CalibrationProfile, getCalibration, resetCalibration, saveCalibration } from './services/calibrationService';
+import { VisionSettings, getVisionSettings, saveVisionSettings } from './services/visionSettingsService';
+import {
+  HandSide, SMOOTHING_PRESETS, SmoothingPreset, getSmoothingPreset, getThrottleHand, setSmoothingPreset, setThrottleHand
+} from './services/gestureService';
+import {
+  INPUT_SOURCES, PAUSE_GRACE_OPTIONS, checkPauseGrace, createIdleControlState, getFallbackSource, getInputSource, loadPauseGrace,
+  loadPreferredSource, savePauseGrace, savePreferredSource
+} from './services/inputService';
+import { Play, RotateCcw, Trophy, AlertTriangle, Zap, Gauge, Flame, Camera, Keyboard, Gamepad2, Smartphone, Download, Upload, Crosshair, Cpu, Pause, Hand, Flag, Ghost, User, ListOrdered, Users, Globe, Volume2 } from 'lucide-react';
+
+const INPUT_DRIVERS: Record<InputSourceId, React.FC<InputDriverProps>> = {
+  webcam: WebcamController,
+  keyboard: KeyboardController,
+  gamepad: GamepadController,
+  touch: TouchController,
+};
+
+const INPUT_ICONS: Record<InputSourceId, React.ElementType> = {
+  webcam: Camera,
+  keyboard: Keyboard,
+  gamepad: Gamepad2,
+  touch: Smartphone,
+};
+
+// Gesture shortcuts (webcam only)
+const WHEEL_HOLD_MS = 2000; // Hold a level wheel this long to start, retry or resume
+const WHEEL_LEVEL = 0.25; // Steering below this counts as level
+
+// Resuming counts down so the player can get their hands back on the wheel
+const RESUME_COUNTDOWN = 3;
+
+type PauseReason = 'tracking' | 'hidden' | 'player';
 
 export default function App() {
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
-  const [lastScore, setLastScore] = useState(0);
-  const [controlState, setControlState] = useState<ControlState>({
-    steering: 0,
-    throttle: 0,
-    isTracking: false,
-    handsDetected: 0,
-    debugMessage: "Initializing..."
-  });
+  const [lastResult, setLastResult] = useState<RunResult | null>(null);
+  const [controlState, setControlState] = useState<ControlState>(createIdleControlState("Initializing..."));
+  const [inputSource, setInputSource] = useState<InputSourceId>(loadPreferredSource);
+  const [unavailableSources, setUnavailableSources] = useState<InputSourceId[]>([]);
+  const [inputNotice, setInputNotice] = useState<string | null>(null);
 
   const handleControlUpdate = useCallback((newControl: ControlState) => {
     setControlState(newControl);
   }, []);
 
-  const handleGameOver = useCallback((score: number) => {
-    setLastScore(score);
+  const selectInputSource = (id: InputSourceId) => {
+    setInputSource(id);
+    setUnavailableSources(sources => sources.filter(source => source !== id));
+    setInputNotice(null);
+    setControlState(createIdleControlState("Initializing..."));
+    savePreferredSource(id);
+  };
+
+  // Automatic fallback when the active driver can't run (camera denied, MediaPipe failed...)
+  const handleInputUnavailable = useCallback((reason: string) => {
+    const unavailable = [...unavailableSources, inputSource];
+    const fallback = getFallbackSource(unavailable);
+    setUnavailableSources(unavailable);
+    setInputSource(fallback);
+    setInputNotice(`${reason} - switched to ${getInputSource(fallback).label}`);
+    setControlState(createIdleControlState("Initializing..."));
+  }, [inputSource, unavailableSources]);
+
+  // Menu sub-panels
+  const [menuPanel, setMenuPanel] = useState<'main' | 'calibration' | 'vision' | 'tracks' | 'profiles' | 'leaderboard' | 'online' | 'audio'>('main');
+  const [driverRevision, setDriverRevision] = useState(0);
+
+  // Calibration
+  const [calibratedAt, setCalibratedAt] = useState(() => getCalibration().calibratedAt);
+  const isCalibrated = calibratedAt !== null;
+
+  const handleCalibrationComplete = (profile: CalibrationProfile) => {
+    saveCalibration(profile);
+    setCalibratedAt(profile.calibratedAt);
+    setMenuPanel('main');
+  };
+
+  const handleCalibrationReset = () => {
+    resetCalibration();
+    setCalibratedAt(null);
+  };
+
+  // New camera resolution / delegate: remount the webcam driver so it reopens the camera and reconfigures
+  const handleVisionSettingsSave = (settings: VisionSettings) => {
+    saveVisionSettings(settings);
+    setDriverRevision(n => n + 1);
+    setControlState(createIdleControlState("Initializing..."));
+    setMenuPanel('main');
+  };
+
+  // Gesture smoothing (latency vs. stability)
+  const [smoothing, setSmoothing] = useState<SmoothingPreset>(getSmoothingPreset);
+
+  const selectSmoothing = (preset: SmoothingPreset) => {
+    setSmoothingPreset(preset);
+    setSmoothing(preset);
+  };
+
+  // Which hand pinches for throttle (left-handed players)
+  const [throttleHand, setThrottleHandState] = useState<HandSide>(getThrottleHand);
+
+  const selectThrottleHand = (hand: HandSide) => {
+    setThrottleHand(hand);
+    setThrottleHandState(hand);
+  };
+
+  // Driver Profiles
+  // Switching driver applies their saved settings; settings changed while they're selected are saved back to them
+  const [profiles, setProfiles] = useState<PlayerProfile[]>([]);
+  const [activeProfile, setActiveProfile] = useState<PlayerProfile | null>(null);
+  const [profileError, setProfileError] = useState<string | null>(null);
+
+  const refreshProfiles = useCallback(async () => {
+    try {
+      const loaded = await listProfiles();
+      setProfiles(loaded);
+      setProfileError(null);
+      return loaded;
+    } catch (err) {
+      console.error("Failed to load profiles", err);
+      setProfileError(err instanceof Error ? err.message : "Could not load profiles");
+      return [];
+    }
+  }, []);
+
+  useEffect(() => {
+    const activeId = getActiveProfileId();
+    refreshProfiles().then(loaded => setActiveProfile(loaded.find(profile => profile.id === activeId) ?? null));
+  }, [refreshProfiles]);
+
+  const selectProfile = (profile: PlayerProfile | null) => {
+    setActiveProfileId(profile?.id ?? null);
+    setActiveProfile(profile);
+    setMenuPanel('main');
+    if (!profile) return; // Guests carry on with whatever is set
+    applyProfile(profile);
+    setCalibratedAt(getCalibration().calibratedAt);
+    setSmoothing(getSmoothingPreset());
+    setThrottleHandState(getThrottleHand());
+    setPauseGrace(loadPauseGrace());
+    selectInputSource(loadPreferredSource());
+    setDriverRevision(n => n + 1); // Picks up their vision settings
+  };
+
+  const addProfile = async (name: string) => {
+    const profile = await createProfile(name);
+    await refreshProfiles();
+    selectProfile(profile);
+  };
+
+  const removeProfile = async (profile: PlayerProfile) => {
+    try {
+      await deleteProfile(profile.id);
+      if (profile.id === activeProfile?.id) {
+        setActiveProfileId(null);
+        setActiveProfile(null);
+      }
+      await refreshProfiles();
+    } catch (err) {
+      console.error("Failed to delete profile", err);
+      setProfileError(err instanceof Error ? err.message : "Could not delete the profile");
+    }
+  };
+
+  const InputDriver = INPUT_DRIVERS[inputSource];
+  const activeSource = getInputSource(inputSource);
+
+  // Replays
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [activeReplay, setActiveReplay] = useState<Replay | null>(null);
+  const [replayPaused, setReplayPaused] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayPosition, setReplayPosition] = useState(0);
+  const [replaySeek, setReplaySeek] = useState<{ tick: number } | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+
+  const [newPersonalBest, setNewPersonalBest] = useState(false);
+  const [leaderboardPlace, setLeaderboardPlace] = useState<number | null>(null);
+
+  // Event server: runs are also posted to the shared standings, which check them by replaying them
+  const [kioskServerUrl, setKioskServerUrlState] = useState(getKioskServerUrl);
+  const [sharedRun, setSharedRun] = useState<{ id: string; place: number } | null>(null);
+  const [sharedError, setSharedError] = useState<string | null>(null);
+
+  const changeKioskServerUrl = (url: string) => {
+    setKioskServerUrl(url);
+    setKioskServerUrlState(getKioskServerUrl());
+  };
+
+  const handleGameOver = useCallback((result: RunResult, replay: Replay) => {
+    setLastResult(result);
+    setNewPersonalBest(savePersonalBest(result, replay));
+    setLeaderboardPlace(null);
+    addEntry(createEntry(result, activeProfile))
+      .then(setLeaderboardPlace)
+      .catch(err => console.error("Failed to save run to the leaderboard", err));
+    setSharedRun(null);
+    setSharedError(null);
+    if (kioskServerUrl) {
+      submitRun(kioskServerUrl, activeProfile?.name ?? GUEST_NAME, result, replay)
+        .then(({ run, place }) => setSharedRun({ id: run.id, place }))
+        .catch(err => {
+          console.error("Failed to send run to the leaderboard server", err);
+          setSharedError(err instanceof Error ? err.message : "Could not reach the leaderboard server");
+        });
+    }
+    setLastReplay(replay);
+    setReplayError(null);
     setGameState(GameState.GAME_OVER);
+  }, [activeProfile, kioskServerUrl]);
+
+  // Run Lifecycle
+  // Every START / TRY AGAIN is a new run: fresh world, 3-2-1 countdown, race, crash sequence, results.
+  // Time attack runs have no crash sequence: crashes cost time and the run goes on to the last lap.
+  // Starting doesn't wait for the input source; a race that begins untracked simply auto-pauses.
+  const [runId, setRunId] = useState(0);
+  const [trackId, setTrackId] = useState(getSelectedTrack);
+
+  const [selectedMode, setMode] = useState<RaceMode>(getSelectedMode);
+  const raceMode: RaceMode = canTimeAttack(trackId) ? selectedMode : 'race';
+
+  const selectTrack = (id: string) => {
+    setSelectedTrack(id);
+    setTrackId(id);
+    setMenuPanel('main');
+  };
+
+  const selectMode = (mode: RaceMode) => {
+    setSelectedMode(mode);
+    setMode(mode);
+  };
+  // Ghost: the personal best for this track and mode, or a run loaded from a file
+  const [ghostSource, setGhostSourceState] = useState<GhostSource>(getGhostSource);
+  const [ghostFile, setGhostFile] = useState<Replay | null>(null);
+  const [ghostError, setGhostError] = useState<string | null>(null);
+  const ghostInputRef = useRef<HTMLInputElement>(null);
+  const personalBest = useMemo(() => getPersonalBest(trackId, raceMode), [trackId, raceMode, lastResult]);
+  const ghostReplay = ghostSource === 'file' ? ghostFile : ghostSource === 'best' ? personalBest?.replay ?? null : null;
+
+  const selectGhostSource = (source: GhostSource) => {
+    setGhostSource(source);
+    setGhostSourceState(source);
+  };
+
+  // A ghost file brings its track and mode with it
+  const loadGhostFile = async (file: File) => {
+    try {
+      const replay = parseReplay(await file.text());
+      setSelectedTrack(replay.trackId);
+      setTrackId(replay.trackId);
+      selectMode(replay.mode);
+      setGhostFile(replay);
+      selectGhostSource('file');
+      setGhostError(null);
+    } catch (err) {
+      console.error("Failed to load ghost", err);
+      setGhostError(err instanceof Error ? err.message : "Could not read ghost file");
+    }
+  };
+
+  // Online: race someone on another machine (see netplayService). Both machines run both cars from the seed
+  // the host sends, and the opponent's result comes from our copy of their run, so the two screens agree on
+  // who won. Results are shared with versus. Online runs have no ghost and stay off the leaderboards.
+  const [signalingUrl, setSignalingUrlState] = useState(getSignalingUrl);
+  const [lobby, setLobby] = useState<LobbyState>(IDLE_LOBBY);
+  const [onlineRace, setOnlineRace] = useState<(RaceStart & { opponent: RemoteRacer; opponentName: string }) | null>(null);
+  const netSessionRef = useRef<NetSession | null>(null);
+  const playerName = activeProfile?.name ?? GUEST_NAME;
+
+  const changeSignalingUrl = (url: string) => {
+    setSignalingUrl(url);
+    setSignalingUrlState(getSignalingUrl());
+  };
+
+  useEffect(() => {
+    const session = createNetSession({
+      onLobbyChange: setLobby,
+      onRaceStart: (race, opponent, opponentName) => {
+        setOnlineRace({ ...race, opponent, opponentName });
+        setVersusResults([null, null]);
+        setRunId(id => id + 1);
+        setGameState(GameState.COUNTDOWN);
+      },
+      onOpponentRunOver: (state) => setVersusResults(results => [results[0], getRunResult(state)]),
+    });
+    netSessionRef.current = session;
+    return () => session.leave();
+  }, []);
+
+  const sendOnlineStep = useCallback((controls: SimControls, state: SimState) => {
+    netSessionRef.current?.sendStep(controls, state);
+  }, []);
+
+  // An opponent who leaves mid-race is out where our copy of their run got to
+  useEffect(() => {
+    if (lobby.status !== 'closed' || !onlineRace) return;
+    setVersusResults(results => [results[0], results[1] ?? getRunResult(onlineRace.opponent.getConfirmed())]);
+  }, [lobby.status, onlineRace]);
+
+  // Closing the lobby leaves the room, so the host can't start a race on a machine that has moved on
+  const lobbyOpen = gameState === GameState.MENU && menuPanel === 'online';
+  useEffect(() => {
+    if (!lobbyOpen && !onlineRace && lobby.status !== 'idle') netSessionRef.current?.leave();
+  }, [lobbyOpen, onlineRace, lobby.status]);
+
+  const returnToLobby = () => {
+    setOnlineRace(null);
+    setMenuPanel('online');
+    setGameState(GameState.MENU);
+  };
+
+  // Versus: two players share the webcam, each driving their own half of a split screen. Both cars start
+  // on the same seed, so they face the same road; each crashes or finishes on their own, and the race
+  // is over once both have.
+  const [versusSelected, setVersusSelected] = useState(false);
+  const versus = versusSelected && inputSource === 'webcam' && !onlineRace;
+  const [versusSeed, setVersusSeed] = useState(createSeed);
+  const [versusResults, setVersusResults] = useState<(RunResult | null)[]>([null, null]);
+  const versusOver = versusResults.every(result => result !== null);
+  const versusControls = [0, 1].map(player => ({ ...createIdleControlState(), ...controlState.players?.[player] }));
+
+  const handleVersusGameOver = useCallback((player: number, result: RunResult) => {
+    setVersusResults(results => results.map((previous, i) => i === player ? result : previous));
   }, []);
 
+  useEffect(() => {
+    if (versusOver && gameState === GameState.PLAYING) setGameState(GameState.GAME_OVER);
+  }, [versusResults, gameState]);
+
   const startGame = () => {
+    setOnlineRace(null);
+    setRunId(id => id + 1);
+    setVersusSeed(createSeed());
+    setVersusResults([null, null]);
+    setGameState(GameState.COUNTDOWN);
+  };
+
+  const handleCountdownComplete = useCallback(() => {
     setGameState(GameState.PLAYING);
+  }, []);
+
+  const handleCrash = useCallback(() => {
+    setGameState(GameState.CRASHED);
+  }, []);
+
+  // The soundtrack plays from the countdown until the results, starting afresh after a pause
+  const racing = gameState === GameState.COUNTDOWN || gameState === GameState.PLAYING || gameState === GameState.CRASHED;
+  useEffect(() => {
+    if (racing) startMusic();
+    else stopMusic();
+  }, [racing]);
+
+  // Pause & Resume
+  const [pauseReason, setPauseReason] = useState<PauseReason | null>(null);
+  const [resumeCountdown, setResumeCountdown] = useState<number | null>(null);
+  const [pauseGrace, setPauseGrace] = useState(loadPauseGrace);
+  const trackingLostRef = useRef<number | null>(null);
+
+  const selectPauseGrace = (ms: number) => {
+    savePauseGrace(ms);
+    setPauseGrace(ms);
+  };
+
+  useEffect(() => {
+    if (!activeProfile) return;
+    saveProfile({ ...activeProfile, ...captureProfileSettings() })
+      .catch(err => console.error("Failed to save profile settings", err));
+  }, [activeProfile, calibratedAt, inputSource, smoothing, throttleHand, pauseGrace, driverRevision]);
+
+  // Only players still racing need to stay tracked; resuming waits for every hand they drive with
+  const isRaceTracked = (allHands: boolean) => {
+    const handsNeeded = allHands && inputSource === 'webcam' ? getVisionSettings().numHands : 0;
+    const racers = versus ? versusControls.filter((_, player) => versusResults[player] === null)
+      : onlineRace && versusResults[0] ? [] : [controlState];
+    return racers.every(racer => racer.isTracking && racer.handsDetected >= handsNeeded);
+  };
+
+  const pauseGame = (reason: PauseReason) => {
+    setPauseReason(reason);
+    setResumeCountdown(null);
+    setGameState(GameState.PAUSED);
+  };
+
+  const resumeGame = () => {
+    setResumeCountdown(count => count ?? RESUME_COUNTDOWN);
+  };
+
+  // Quitting an online race leaves it, so the opponent isn't left waiting for a run that never ends
+  const quitToMenu = () => {
+    if (onlineRace) {
+      netSessionRef.current?.leave();
+      setOnlineRace(null);
+    }
+    setResumeCountdown(null);
+    setPauseReason(null);
+    setGameState(GameState.MENU);
+  };
+
+  useEffect(() => {
+    if (resumeCountdown === null) return;
+    if (resumeCountdown === 0) {
+      setResumeCountdown(null);
+      setPauseReason(null);
+      setGameState(GameState.PLAYING);
+      return;
+    }
+    const timer = setTimeout(() => setResumeCountdown(count => count === null ? null : count - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resumeCountdown]);
+
+  // Switching tabs pauses; coming back waits for the player rather than counting down on its own.
+  // Escape pauses and resumes by hand.
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (!document.hidden) return;
+      if (gameState === GameState.PLAYING) pauseGame('hidden');
+      else if (gameState === GameState.PAUSED) setResumeCountdown(null);
+    };
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.code !== 'Escape') return;
+      if (gameState === GameState.PLAYING) pauseGame('player');
+      else if (gameState === GameState.PAUSED) resumeGame();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('keydown', handleKey);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('keydown', handleKey);
+    };
+  }, [gameState]);
+
+  // Gesture Shortcuts
+  // With both hands raised there's no free hand for the mouse: holding a level wheel starts, retries
+  // or resumes. A hold only counts once the wheel has been let go since the screen appeared,
+  // so hands still up after a crash don't restart straight away.
+  const [wheelHold, setWheelHold] = useState(0);
+  const wheelHoldRef = useRef<{ start: number | null; armed: boolean }>({ start: null, armed: false });
+
+  useEffect(() => {
+    wheelHoldRef.current = { start: null, armed: false };
+    trackingLostRef.current = null;
+    setWheelHold(0);
+  }, [gameState]);
+
+  useEffect(() => {
+    const now = performance.now();
+
+    // Losing tracking mid-race pauses once the grace period runs out, instead of driving blind
+    if (gameState === GameState.PLAYING) {
+      const grace = checkPauseGrace(trackingLostRef.current, isRaceTracked(false), now, pauseGrace);
+      trackingLostRef.current = grace.lostSince;
+      if (grace.shouldPause) pauseGame('tracking');
+      return;
+    }
+
+    // ...and resumes with a countdown once every tracked hand is back
+    if (gameState === GameState.PAUSED && pauseReason === 'tracking') {
+      const ready = isRaceTracked(true);
+      if (ready && resumeCountdown === null) resumeGame();
+      if (!ready && resumeCountdown !== null) setResumeCountdown(null);
+      return;
+    }
+
+    if (inputSource !== 'webcam') return;
+    const canHold = (gameState === GameState.MENU && menuPanel === 'main')
+      || gameState === GameState.GAME_OVER
+      || (gameState === GameState.PAUSED && resumeCountdown === null);
+    if (!canHold) return;
+
+    const hold = wheelHoldRef.current;
+    const holding = controlState.isTracking && !!controlState.gesture && Math.abs(controlState.steering) < WHEEL_LEVEL;
+    if (!holding) {
+      hold.start = null;
+      hold.armed = true;
+      setWheelHold(0);
+      return;
+    }
+    if (!hold.armed) return;
+
+    hold.start ??= now;
+    const progress = Math.min(1, (now - hold.start) / WHEEL_HOLD_MS);
+    setWheelHold(progress);
+    if (progress >= 1) {
+      hold.armed = false;
+      setWheelHold(0);
+      if (gameState === GameState.PAUSED) resumeGame();
+      else if (onlineRace) returnToLobby();
+      else startGame();
+    }
+  }, [controlState]);
+
+  // One raised hand points; two hands are on the wheel
+  const cursorEnabled = inputSource === 'webcam'
+    && controlState.handsDetected === 1
+    && (gameState === GameState.MENU || gameState === GameState.GAME_OVER || gameState === GameState.PAUSED);
+
+  const holdProgressBar = wheelHold > 0 && (
+    <div className="absolute left-0 bottom-0 h-1 bg-white/80" style={{ width: `${wheelHold * 100}%` }} />
+  );
+
+  const watchReplay = (replay: Replay) => {
+    setActiveReplay(replay);
+    setReplayPaused(false);
+    setReplaySpeed(1);
+    setReplayPosition(0);
+    setReplaySeek(null);
+    setGameState(GameState.REPLAY);
+  };
+
+  const exitReplay = () => {
+    setActiveReplay(null);
+    setGameState(GameState.GAME_OVER);
+  };
+
+  const importReplay = async (file: File) => {
+    try {
+      const replay = parseReplay(await file.text());
+      setReplayError(null);
+      watchReplay(replay);
+    } catch (err) {
+      console.error("Failed to import replay", err);
+      setReplayError(err instanceof Error ? err.message : "Could not read replay file");
+    }
   };
 
   return (
@@ -33,11 +569,83 @@ export default function App() {
       
       {/* LEFT PANEL: GAME VIEW */}
       <div className="relative flex-1 h-2/3 md:h-full order-2 md:order-1">
-        <RacingGame 
-          controlState={controlState} 
-          gameState={gameState} 
-          onGameOver={handleGameOver} 
-        />
+        {versus && gameState !== GameState.REPLAY ? (
+          <div className="absolute inset-0 flex">
+            {versusControls.map((playerControls, player) => (
+              <div key={player} className="relative flex-1 h-full border-x border-black">
+                <RacingGame
+                  controlState={playerControls}
+                  gameState={gameState}
+                  runId={runId}
+                  trackId={trackId}
+                  mode={raceMode}
+                  seed={versusSeed}
+                  label={`P${player + 1}`}
+                  pan={player === 0 ? -0.6 : 0.6}
+                  onCountdownComplete={handleCountdownComplete}
+                  onGameOver={(result) => handleVersusGameOver(player, result)}
+                  onFrameStats={player === 0 ? setFrameStats : undefined}
+                />
+                {gameState === GameState.PLAYING && versusResults[player] && (
+                  <div className="absolute inset-0 bg-black/60 flex items-center justify-center pointer-events-none">
+                    <div className="text-center font-orbitron">
+                      <h2 className="text-4xl font-black" style={{ color: PLAYER_COLORS[player] }}>
+                        {versusResults[player]!.finished ? 'FINISHED!' : 'WRECKED'}
+                      </h2>
+                      <p className="mt-2 text-sm font-bold tracking-widest text-white/70">WAITING FOR P{2 - player}</p>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <RacingGame 
+            controlState={controlState} 
+            gameState={gameState} 
+            runId={runId}
+            trackId={onlineRace?.trackId ?? trackId}
+            mode={onlineRace?.mode ?? raceMode}
+            seed={onlineRace?.seed}
+            ghost={onlineRace ? null : ghostReplay}
+            opponent={onlineRace?.opponent}
+            opponentName={onlineRace?.opponentName}
+            onStep={onlineRace ? sendOnlineStep : undefined}
+            onCountdownComplete={handleCountdownComplete}
+            onCrash={onlineRace ? undefined : handleCrash}
+            onGameOver={onlineRace ? (result) => handleVersusGameOver(0, result) : handleGameOver}
+            replay={activeReplay}
+            replayPaused={replayPaused}
+            replaySpeed={replaySpeed}
+            replaySeek={replaySeek}
+            onReplayProgress={setReplayPosition}
+            onFrameStats={setFrameStats}
+          />
+        )}
+        {onlineRace && gameState === GameState.PLAYING && versusResults[0] && (
+          <div className="absolute inset-0 bg-black/60 flex items-center justify-center pointer-events-none">
+            <div className="text-center font-orbitron">
+              <h2 className="text-4xl font-black" style={{ color: PLAYER_COLORS[0] }}>
+                {versusResults[0].finished ? 'FINISHED!' : 'WRECKED'}
+              </h2>
+              <p className="mt-2 text-sm font-bold tracking-widest text-white/70">WAITING FOR {onlineRace.opponentName.toUpperCase()}</p>
+            </div>
+          </div>
+        )}
+
+        {/* REPLAY PLAYBACK */}
+        {gameState === GameState.REPLAY && activeReplay && (
+          <ReplayControls
+            duration={activeReplay.duration}
+            position={replayPosition}
+            paused={replayPaused}
+            speed={replaySpeed}
+            onTogglePause={() => setReplayPaused(p => !p)}
+            onSeek={(tick) => setReplaySeek({ tick })}
+            onSpeedChange={setReplaySpeed}
+            onExit={exitReplay}
+          />
+        )}
         
         {/* HUD OVERLAY (Minimal - Main stats are now on canvas) */}
         <div className="absolute top-4 left-4 right-4 flex justify-between items-start pointer-events-none">
@@ -47,21 +655,23 @@ export default function App() {
             </h1>
           </div>
           
-          <div className="text-right">
-            <div className="bg-black/50 backdrop-blur-md p-2 rounded border border-cyan-500/30">
-              <span className="text-cyan-400 font-bold block text-sm">STEERING</span>
-              <div className="w-32 h-2 bg-gray-700 rounded-full mt-1 overflow-hidden relative">
-                <div 
-                  className="absolute top-0 bottom-0 w-2 bg-cyan-400 transition-all duration-75"
-                  style={{ left: `${(controlState.steering + 1) * 50}%` }}
-                />
+          {!versus && (
+            <div className="text-right">
+              <div className="bg-black/50 backdrop-blur-md p-2 rounded border border-cyan-500/30">
+                <span className="text-cyan-400 font-bold block text-sm">STEERING</span>
+                <div className="w-32 h-2 bg-gray-700 rounded-full mt-1 overflow-hidden relative">
+                  <div 
+                    className="absolute top-0 bottom-0 w-2 bg-cyan-400 transition-all duration-75"
+                    style={{ left: `${(controlState.steering + 1) * 50}%` }}
+                  />
+                </div>
               </div>
             </div>
-          </div>
+          )}
         </div>
 
         {/* Direction Indicator */}
-        {gameState === GameState.PLAYING && Math.abs(controlState.steering) > 0.3 && (
+        {gameState === GameState.PLAYING && !versus && Math.abs(controlState.steering) > 0.3 && (
           <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 pointer-events-none">
              <h2 className="text-6xl font-black text-yellow-400/80 animate-pulse font-orbitron tracking-tighter">
                {controlState.steering < 0 ? '<< LEFT' : 'RIGHT >>'}
@@ -70,7 +680,87 @@ export default function App() {
         )}
 
         {/* MENU OVERLAY */}
-        {gameState === GameState.MENU && (
+        {gameState === GameState.MENU && menuPanel === 'calibration' && (
+          <div className="absolute inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
+            <CalibrationWizard
+              controlState={controlState}
+              onComplete={handleCalibrationComplete}
+              onCancel={() => setMenuPanel('main')}
+            />
+          </div>
+        )}
+
+        {gameState === GameState.MENU && menuPanel === 'vision' && (
+          <div className="absolute inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
+            <VisionSettingsPanel
+              onSave={handleVisionSettingsSave}
+              onCancel={() => setMenuPanel('main')}
+            />
+          </div>
+        )}
+
+        {gameState === GameState.MENU && menuPanel === 'tracks' && (
+          <div className="absolute inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
+            <TrackSelect
+              selectedTrack={trackId}
+              onSelect={selectTrack}
+              onCancel={() => setMenuPanel('main')}
+            />
+          </div>
+        )}
+
+        {gameState === GameState.MENU && menuPanel === 'profiles' && (
+          <div className="absolute inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
+            <ProfileSelect
+              profiles={profiles}
+              activeProfileId={activeProfile?.id ?? null}
+              onSelect={selectProfile}
+              onCreate={addProfile}
+              onDelete={removeProfile}
+              onCancel={() => setMenuPanel('main')}
+            />
+          </div>
+        )}
+
+        {gameState === GameState.MENU && menuPanel === 'leaderboard' && (
+          <div className="absolute inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
+            <LeaderboardPanel
+              trackId={trackId}
+              mode={raceMode}
+              onImported={refreshProfiles}
+              serverUrl={kioskServerUrl}
+              onServerUrlChange={changeKioskServerUrl}
+              onCancel={() => setMenuPanel('main')}
+            />
+          </div>
+        )}
+
+        {gameState === GameState.MENU && menuPanel === 'online' && (
+          <div className="absolute inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
+            <OnlineLobby
+              lobby={lobby}
+              playerName={playerName}
+              trackId={trackId}
+              mode={raceMode}
+              signalingUrl={signalingUrl}
+              onSignalingUrlChange={changeSignalingUrl}
+              onHost={() => netSessionRef.current?.host(getSignalingUrl(), playerName)}
+              onJoin={(code) => netSessionRef.current?.join(getSignalingUrl(), code, playerName)}
+              onReady={(ready) => netSessionRef.current?.setReady(ready)}
+              onStart={() => netSessionRef.current?.startRace(trackId, raceMode)}
+              onLeave={() => netSessionRef.current?.leave()}
+              onCancel={() => setMenuPanel('main')}
+            />
+          </div>
+        )}
+
+        {gameState === GameState.MENU && menuPanel === 'audio' && (
+          <div className="absolute inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
+            <AudioSettingsPanel onClose={() => setMenuPanel('main')} />
+          </div>
+        )}
+
+        {gameState === GameState.MENU && menuPanel === 'main' && (
           <div className="absolute inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
             <div className="max-w-md w-full p-8 bg-zinc-900/90 border border-cyan-500/50 rounded-2xl shadow-[0_0_50px_rgba(6,182,212,0.3)] text-center">
               <h1 className="text-5xl font-black text-white font-orbitron mb-2 tracking-wider">NEON<br/><span className="text-cyan-400">RACER</span></h1>
@@ -87,47 +777,454 @@ export default function App() {
                   <div className="flex items-center gap-2 text-yellow-400 mb-2 font-bold">
                     <Zap size={20} /> Throttle
                   </div>
-                  <p className="text-xs text-gray-400">Pinch Right Hand to drive.</p>
+                  <p className="text-xs text-gray-400">Pinch to drive, make a fist with the other hand to brake.</p>
                 </div>
                 <div className="col-span-2 bg-gradient-to-r from-blue-900/50 to-purple-900/50 p-4 rounded-lg border border-blue-500/50">
                    <div className="flex items-center justify-center gap-2 text-white mb-1 font-bold">
                     <Flame size={20} className="text-cyan-400" /> NEW: HYPER BOOST
                   </div>
-                  <p className="text-center text-xs text-gray-300">Collect <span className="text-cyan-400 font-bold">BLUE ORBS</span> to charge boost. Fill the bar for invincibility and extreme speed!</p>
+                  <p className="text-center text-xs text-gray-300">Collect <span className="text-cyan-400 font-bold">BLUE ORBS</span> to charge boost. Fill the bar, then point (or press boost) for invincibility and extreme speed!</p>
+                </div>
+              </div>
+
+              {/* Driver */}
+              <button
+                data-gesture-target
+                onClick={() => {
+                  refreshProfiles();
+                  setMenuPanel('profiles');
+                }}
+                className="w-full flex items-center justify-between mb-2 p-3 rounded-lg border border-gray-800 bg-black/50 hover:border-cyan-400 transition-colors"
+              >
+                <span className="text-xs font-bold text-gray-500 tracking-widest">DRIVER</span>
+                <span className="flex items-center gap-2 text-sm font-bold text-cyan-300">
+                  <User size={14} /> {playerName}
+                </span>
+              </button>
+              {profileError && (
+                <p className="mb-2 text-xs text-yellow-400 text-right">{profileError}</p>
+              )}
+
+              {/* Track */}
+              <button
+                data-gesture-target
+                onClick={() => setMenuPanel('tracks')}
+                className="w-full flex items-center justify-between mb-4 p-3 rounded-lg border border-gray-800 bg-black/50 hover:border-cyan-400 transition-colors"
+              >
+                <span className="text-xs font-bold text-gray-500 tracking-widest">TRACK</span>
+                <span className="flex items-center gap-2 text-sm font-bold text-cyan-300">
+                  <Flag size={14} /> {getTrackName(trackId).toUpperCase()}
+                </span>
+              </button>
+              <div className="flex justify-end gap-4 -mt-2 mb-4 text-xs">
+                <button
+                  data-gesture-target
+                  onClick={() => setMenuPanel('online')}
+                  className="flex items-center gap-1 text-cyan-400 font-bold hover:text-cyan-300"
+                >
+                  <Globe size={14} /> RACE ONLINE
+                </button>
+                <button
+                  data-gesture-target
+                  onClick={() => setMenuPanel('audio')}
+                  className="flex items-center gap-1 text-cyan-400 font-bold hover:text-cyan-300"
+                >
+                  <Volume2 size={14} /> AUDIO
+                </button>
+                <button
+                  data-gesture-target
+                  onClick={() => setMenuPanel('leaderboard')}
+                  className="flex items-center gap-1 text-cyan-400 font-bold hover:text-cyan-300"
+                >
+                  <ListOrdered size={14} /> LEADERBOARD
+                </button>
+              </div>
+              <div className="flex items-center justify-between -mt-2 mb-4 text-xs">
+                <span className="text-gray-500 font-bold">MODE</span>
+                <div className="flex gap-1">
+                  {([['race', 'RACE'], ['timeAttack', 'TIME ATTACK']] as [RaceMode, string][]).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      data-gesture-target
+                      disabled={mode === 'timeAttack' && !canTimeAttack(trackId)}
+                      onClick={() => selectMode(mode)}
+                      className={`px-2 py-0.5 rounded font-bold disabled:opacity-30 ${
+                        mode === raceMode ? 'bg-cyan-500 text-black' : 'bg-black/50 text-gray-500 hover:text-gray-300'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {inputSource === 'webcam' && (
+                <div className="flex items-center justify-between -mt-2 mb-4 text-xs">
+                  <span className="text-gray-500 font-bold flex items-center gap-1"><Users size={14} /> PLAYERS</span>
+                  <div className="flex gap-1">
+                    {([[false, '1P'], [true, '2P VERSUS']] as [boolean, string][]).map(([twoPlayers, label]) => (
+                      <button
+                        key={label}
+                        data-gesture-target
+                        onClick={() => setVersusSelected(twoPlayers)}
+                        className={`px-2 py-0.5 rounded font-bold ${
+                          twoPlayers === versus ? 'bg-cyan-500 text-black' : 'bg-black/50 text-gray-500 hover:text-gray-300'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between -mt-2 mb-4 text-xs">
+                <span className="text-gray-500 font-bold flex items-center gap-1"><Ghost size={14} /> GHOST</span>
+                <div className="flex gap-1">
+                  {(['off', 'best'] as GhostSource[]).map(source => (
+                    <button
+                      key={source}
+                      data-gesture-target
+                      onClick={() => selectGhostSource(source)}
+                      className={`px-2 py-0.5 rounded uppercase font-bold ${
+                        source === ghostSource ? 'bg-cyan-500 text-black' : 'bg-black/50 text-gray-500 hover:text-gray-300'
+                      }`}
+                    >
+                      {source === 'best' && personalBest
+                        ? `BEST ${personalBest.finished ? formatRaceTime(personalBest.time) : personalBest.score}`
+                        : source}
+                    </button>
+                  ))}
+                  <button
+                    data-gesture-target
+                    onClick={() => ghostInputRef.current?.click()}
+                    className={`px-2 py-0.5 rounded font-bold ${
+                      ghostSource === 'file' ? 'bg-cyan-500 text-black' : 'bg-black/50 text-gray-500 hover:text-gray-300'
+                    }`}
+                  >
+                    {ghostSource === 'file' ? 'FILE' : 'LOAD…'}
+                  </button>
+                  <input
+                    ref={ghostInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) loadGhostFile(file);
+                      e.target.value = '';
+                    }}
+                  />
                 </div>
               </div>
+              {versus && (
+                <p className="-mt-3 mb-4 text-xs text-gray-500 text-right">Versus races have no ghost</p>
+              )}
+              {ghostSource === 'best' && !personalBest && !versus && (
+                <p className="-mt-3 mb-4 text-xs text-gray-500 text-right">Your best run here becomes the ghost</p>
+              )}
+              {ghostError && (
+                <p className="-mt-3 mb-4 text-xs text-yellow-400 text-right">{ghostError}</p>
+              )}
+
+              {/* Input Source Selector */}
+              <div className="mb-4 text-left">
+                <span className="text-xs font-bold text-gray-500 tracking-widest">INPUT</span>
+                <div className="grid grid-cols-4 gap-2 mt-1">
+                  {INPUT_SOURCES.map(source => {
+                    const Icon = INPUT_ICONS[source.id];
+                    const selected = source.id === inputSource;
+                    return (
+                      <button
+                        key={source.id}
+                        onClick={() => selectInputSource(source.id)}
+                        className={`flex flex-col items-center gap-1 py-2 rounded-lg border text-xs font-bold transition-colors
+                          ${selected
+                            ? 'bg-cyan-500/20 border-cyan-400 text-cyan-300'
+                            : 'bg-black/50 border-gray-800 text-gray-500 hover:text-gray-300'
+                          }`}
+                      >
+                        <Icon size={18} />
+                        {source.label}
+                      </button>
+                    );
+                  })}
+                </div>
+                {inputNotice && (
+                  <div className="flex items-start justify-between gap-2 mt-2 p-2 rounded border border-yellow-500/30 bg-yellow-500/10">
+                    <p className="text-xs text-yellow-400 break-all">{inputNotice}</p>
+                    {unavailableSources.includes('webcam') && inputSource !== 'webcam' && (
+                      <button
+                        onClick={() => selectInputSource('webcam')}
+                        className="text-xs font-bold text-white whitespace-nowrap hover:text-cyan-300"
+                      >
+                        RETRY
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between mt-3 text-xs">
+                  <span className="text-gray-500 font-bold">AUTO-PAUSE AFTER</span>
+                  <div className="flex gap-1">
+                    {PAUSE_GRACE_OPTIONS.map(ms => (
+                      <button
+                        key={ms}
+                        data-gesture-target
+                        onClick={() => selectPauseGrace(ms)}
+                        className={`px-2 py-0.5 rounded font-bold ${
+                          ms === pauseGrace ? 'bg-cyan-500 text-black' : 'bg-black/50 text-gray-500 hover:text-gray-300'
+                        }`}
+                      >
+                        {ms / 1000}s
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Gesture Calibration & Vision Settings */}
+                {inputSource === 'webcam' && (
+                  <div className="flex items-center justify-between mt-3 text-xs">
+                    <div className="flex items-center gap-3">
+                      <button
+                        data-gesture-target
+                        onClick={() => setMenuPanel('calibration')}
+                        className="flex items-center gap-1 text-cyan-400 font-bold hover:text-cyan-300"
+                      >
+                        <Crosshair size={14} /> {isCalibrated ? 'RECALIBRATE' : 'CALIBRATE GESTURES'}
+                      </button>
+                      <button
+                        data-gesture-target
+                        onClick={() => setMenuPanel('vision')}
+                        className="flex items-center gap-1 text-cyan-400 font-bold hover:text-cyan-300"
+                      >
+                        <Cpu size={14} /> VISION
+                      </button>
+                    </div>
+                    {isCalibrated && (
+                      <button onClick={handleCalibrationReset} className="text-gray-500 hover:text-gray-300">
+                        Reset to defaults
+                      </button>
+                    )}
+                  </div>
+                )}
+                {inputSource === 'webcam' && (
+                  <div className="flex items-center justify-between mt-2 text-xs">
+                    <span className="text-gray-500 font-bold">SMOOTHING</span>
+                    <div className="flex gap-1">
+                      {(Object.keys(SMOOTHING_PRESETS) as SmoothingPreset[]).map(preset => (
+                        <button
+                          key={preset}
+                          data-gesture-target
+                          onClick={() => selectSmoothing(preset)}
+                          className={`px-2 py-0.5 rounded uppercase font-bold ${
+                            preset === smoothing ? 'bg-cyan-500 text-black' : 'bg-black/50 text-gray-500 hover:text-gray-300'
+                          }`}
+                        >
+                          {preset}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {inputSource === 'webcam' && (
+                  <div className="flex items-center justify-between mt-2 text-xs">
+                    <span className="text-gray-500 font-bold">THROTTLE HAND</span>
+                    <div className="flex gap-1">
+                      {(['left', 'right'] as HandSide[]).map(hand => (
+                        <button
+                          key={hand}
+                          data-gesture-target
+                          onClick={() => selectThrottleHand(hand)}
+                          className={`px-2 py-0.5 rounded uppercase font-bold ${
+                            hand === throttleHand ? 'bg-cyan-500 text-black' : 'bg-black/50 text-gray-500 hover:text-gray-300'
+                          }`}
+                        >
+                          {hand}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
 
               <button 
+                data-gesture-target
                 onClick={startGame}
-                disabled={!controlState.isTracking}
-                className={`w-full py-4 rounded-xl font-bold text-xl tracking-widest transition-all duration-300 flex items-center justify-center gap-2
-                  ${controlState.isTracking 
-                    ? 'bg-cyan-500 hover:bg-cyan-400 text-black shadow-[0_0_20px_rgba(6,182,212,0.6)]' 
-                    : 'bg-gray-800 text-gray-500 cursor-not-allowed'
-                  }`}
+                className="relative overflow-hidden w-full py-4 rounded-xl font-bold text-xl tracking-widest transition-all duration-300 flex items-center justify-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-black shadow-[0_0_20px_rgba(6,182,212,0.6)]"
               >
-                {controlState.isTracking ? <><Play fill="currentColor" /> START RACE</> : 'WAITING FOR HANDS...'}
+                <Play fill="currentColor" /> START RACE
+                {holdProgressBar}
               </button>
+              {!controlState.isTracking && (
+                <p className="mt-3 text-xs font-bold tracking-widest text-yellow-400 animate-pulse">{activeSource.waitingLabel}</p>
+              )}
+              {inputSource === 'webcam' && (
+                <p className="mt-3 text-xs text-gray-500 flex items-center justify-center gap-1">
+                  <Hand size={12} /> Hold the wheel level for 2s to start, or raise one hand to point and hover
+                </p>
+              )}
+              {versus && (
+                <p className="mt-1 text-xs text-gray-500">Stand side by side: player 1 on the left of the camera view, player 2 on the right</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* PAUSE OVERLAY */}
+        {gameState === GameState.PAUSED && (
+          <div className="absolute inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+            <div className="text-center">
+              {resumeCountdown !== null ? (
+                <div className="text-8xl font-black text-cyan-400 font-orbitron mb-4 animate-pulse">{resumeCountdown}</div>
+              ) : (
+                <Pause className="w-16 h-16 text-cyan-400 mx-auto mb-4" />
+              )}
+              <h2 className="text-5xl font-black text-white font-orbitron mb-2">{resumeCountdown !== null ? 'GET READY' : 'PAUSED'}</h2>
+              <p className="text-gray-300 mb-8">
+                {pauseReason === 'tracking'
+                  ? inputSource === 'webcam' ? `Tracking lost - show ${versus ? 'every' : 'both'} hands to resume.` : `${activeSource.label} lost - reconnect to resume.`
+                  : inputSource === 'webcam' ? 'Hold the wheel level for 2 seconds to resume.' : 'Press Escape or RESUME to continue.'}
+              </p>
+              <div className="flex items-center justify-center gap-3">
+                <button
+                  data-gesture-target
+                  onClick={resumeGame}
+                  disabled={resumeCountdown !== null}
+                  className="relative overflow-hidden disabled:opacity-50 flex items-center gap-2 bg-cyan-500 text-black px-8 py-3 rounded-full font-black hover:bg-cyan-400"
+                >
+                  <Play size={18} fill="currentColor" /> RESUME
+                  {holdProgressBar}
+                </button>
+                <button
+                  data-gesture-target
+                  onClick={quitToMenu}
+                  className="px-8 py-3 rounded-full border border-white/40 text-white font-black hover:bg-white/10"
+                >
+                  QUIT
+                </button>
+              </div>
             </div>
           </div>
         )}
 
         {/* GAME OVER OVERLAY */}
         {gameState === GameState.GAME_OVER && (
-          <div className="absolute inset-0 bg-red-900/80 backdrop-blur-md flex items-center justify-center z-50">
+          <div className={`absolute inset-0 ${versusOver ? 'bg-purple-900/80' : lastResult?.finished ? 'bg-cyan-900/80' : 'bg-red-900/80'} backdrop-blur-md flex items-center justify-center z-50`}>
             <div className="text-center animate-in fade-in zoom-in duration-300">
-              <AlertTriangle className="w-20 h-20 text-yellow-400 mx-auto mb-4" />
-              <h2 className="text-6xl font-black text-white font-orbitron mb-2">CRASHED!</h2>
-              <div className="flex items-center justify-center gap-2 text-2xl mb-8">
-                <Trophy className="text-yellow-400" />
-                <span className="font-mono text-white">SCORE: {lastScore}</span>
-              </div>
+              {versusOver ? (
+                <>
+                  <VersusResults
+                    results={versusResults as RunResult[]}
+                    names={onlineRace ? [playerName, onlineRace.opponentName] : undefined}
+                  />
+                  {onlineRace && lobby.status === 'closed' && (
+                    <p className="-mt-4 mb-6 text-sm text-yellow-300">{lobby.error}</p>
+                  )}
+                </>
+              ) : (
+                <>
+                  {newPersonalBest && (
+                    <p className="mb-2 text-sm font-black tracking-widest text-yellow-300 flex items-center justify-center gap-2">
+                      <Ghost size={16} /> NEW PERSONAL BEST - RACE YOUR GHOST!
+                    </p>
+                  )}
+                  {leaderboardPlace !== null && (
+                    <p className="mb-2 text-sm font-black tracking-widest text-yellow-300 flex items-center justify-center gap-2">
+                      <ListOrdered size={16} /> #{leaderboardPlace} ON THE LEADERBOARD
+                    </p>
+                  )}
+                  {lastResult?.finished ? (
+                    <>
+                      <Flag className="w-20 h-20 text-cyan-300 mx-auto mb-4" />
+                      <h2 className="text-6xl font-black text-white font-orbitron mb-2">FINISHED!</h2>
+                      <p className="text-sm font-bold tracking-widest text-white/70 mb-2">{getTrackName(lastResult.courseId).toUpperCase()}</p>
+                      {lastResult.mode === 'timeAttack' ? (
+                        <LapResults result={lastResult} bestLap={getBestLap(lastResult.courseId)} />
+                      ) : (
+                        <div className="flex items-center justify-center gap-6 text-2xl mb-8">
+                          <span className="font-mono text-white">TIME: {formatRaceTime(lastResult.time)}</span>
+                          <span className="flex items-center gap-2 font-mono text-white">
+                            <Trophy className="text-yellow-400" /> {lastResult.score}
+                          </span>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      <AlertTriangle className="w-20 h-20 text-yellow-400 mx-auto mb-4" />
+                      <h2 className="text-6xl font-black text-white font-orbitron mb-2">CRASHED!</h2>
+                      <div className="flex items-center justify-center gap-2 text-2xl mb-8">
+                        <Trophy className="text-yellow-400" />
+                        <span className="font-mono text-white">SCORE: {lastResult?.score ?? 0}</span>
+                      </div>
+                    </>
+                  )}
+                  {kioskServerUrl && lastResult && (
+                    <div className="w-80 mx-auto mb-6 p-3 rounded-xl bg-black/40 border border-white/20 text-left">
+                      <p className="mb-1 text-xs font-bold tracking-widest text-white/70">
+                        {sharedRun ? `EVENT STANDINGS · #${sharedRun.place}` : 'EVENT STANDINGS'}
+                      </p>
+                      {sharedError && <p className="mb-1 text-xs text-yellow-300">Run not counted: {sharedError}</p>}
+                      <SharedStandings
+                        serverUrl={kioskServerUrl}
+                        trackId={lastResult.courseId}
+                        mode={lastResult.mode}
+                        highlightId={sharedRun?.id}
+                      />
+                    </div>
+                  )}
+                </>
+              )}
               <button 
-                onClick={startGame}
-                className="bg-white text-red-900 px-8 py-3 rounded-full font-black hover:scale-105 transition-transform"
+                data-gesture-target
+                onClick={onlineRace ? returnToLobby : startGame}
+                className="relative overflow-hidden bg-white text-red-900 px-8 py-3 rounded-full font-black hover:scale-105 transition-transform"
               >
-                TRY AGAIN
+                {onlineRace ? 'BACK TO LOBBY' : 'TRY AGAIN'}
+                {holdProgressBar}
               </button>
+
+              {/* Replay Actions */}
+              <div className="flex items-center justify-center gap-2 mt-6">
+                {lastReplay && !versusOver && (
+                  <>
+                    <button
+                      data-gesture-target
+                      onClick={() => watchReplay(lastReplay)}
+                      className="flex items-center gap-1 px-4 py-2 rounded-full border border-white/40 text-white text-sm font-bold hover:bg-white/10"
+                    >
+                      <Play size={14} fill="currentColor" /> WATCH REPLAY
+                    </button>
+                    <button
+                      onClick={() => downloadReplay(lastReplay)}
+                      className="flex items-center gap-1 px-4 py-2 rounded-full border border-white/40 text-white text-sm font-bold hover:bg-white/10"
+                    >
+                      <Download size={14} /> EXPORT
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => replayInputRef.current?.click()}
+                  className="flex items-center gap-1 px-4 py-2 rounded-full border border-white/40 text-white text-sm font-bold hover:bg-white/10"
+                >
+                  <Upload size={14} /> IMPORT
+                </button>
+                <input
+                  ref={replayInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importReplay(file);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+              {replayError && (
+                <p className="text-sm text-yellow-300 mt-3">{replayError}</p>
+              )}
             </div>
           </div>
         )}
@@ -138,29 +1235,42 @@ export default function App() {
         <div className="p-4 border-b border-gray-800 bg-black/20">
           <h3 className="text-cyan-400 font-orbitron text-sm font-bold tracking-widest flex items-center gap-2">
             <div className={`w-2 h-2 rounded-full ${controlState.isTracking ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`} />
-            VISION ENGINE
+            {inputSource === 'webcam' ? 'VISION ENGINE' : `INPUT: ${activeSource.label.toUpperCase()}`}
           </h3>
         </div>
         
         <div className="relative flex-1 min-h-0 bg-black">
-          <WebcamController 
+          <InputDriver 
+            key={`${inputSource}-${driverRevision}`}
             onControlUpdate={handleControlUpdate} 
-            isActive={gameState !== GameState.GAME_OVER}
+            isActive={gameState !== GameState.REPLAY}
+            onUnavailable={handleInputUnavailable}
+            players={versus ? 2 : 1}
           />
           
           {/* Controls Overlay Info */}
           <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black via-black/80 to-transparent">
              <div className="text-xs font-mono text-gray-400 space-y-1">
-               <div className="flex justify-between">
-                 <span>HANDS:</span>
-                 <span className={controlState.handsDetected === 2 ? "text-green-400" : "text-yellow-500"}>
-                   {controlState.handsDetected}/2
-                 </span>
-               </div>
+               {inputSource === 'webcam' && (
+                 <div className="flex justify-between">
+                   <span>HANDS:</span>
+                   <span className={controlState.handsDetected === (versus ? 4 : 2) ? "text-green-400" : "text-yellow-500"}>
+                     {controlState.handsDetected}/{versus ? 4 : 2}
+                   </span>
+                 </div>
+               )}
                <div className="flex justify-between">
                  <span>STATUS:</span>
                  <span className="text-white">{controlState.debugMessage}</span>
                </div>
+               {frameStats && (
+                 <div className="flex justify-between">
+                   <span>RENDER:</span>
+                   <span className={frameStats.fps >= 55 ? "text-white" : "text-yellow-500"}>
+                     {Math.round(frameStats.fps)} FPS · {frameStats.frameMs.toFixed(1)}ms (max {frameStats.worstFrameMs.toFixed(0)})
+                   </span>
+                 </div>
+               )}
                <div className="mt-2 pt-2 border-t border-gray-800">
                  <div className="flex justify-between items-center">
                     <span>THROTTLE:</span>
@@ -173,6 +1283,8 @@ export default function App() {
           </div>
         </div>
       </div>
+
+      <GestureCursor pointer={controlState.pointer} enabled={cursorEnabled} />
     </div>
   );
 }
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { AudioSettings, DEFAULT_AUDIO_SETTINGS, getAudioSettings, playSound, saveAudioSettings } from '../services/audioService';
+import { Volume2, VolumeX, X } from 'lucide-react';
+
+interface AudioSettingsPanelProps {
+  onClose: () => void;
+}
+
+const CHANNELS: { key: 'master' | 'music' | 'sfx'; label: string }[] = [
+  { key: 'master', label: 'MASTER' },
+  { key: 'music', label: 'MUSIC' },
+  { key: 'sfx', label: 'EFFECTS' },
+];
+
+// Mixer levels apply as they're changed, so the player hears what they're setting
+const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<AudioSettings>(getAudioSettings);
+
+  const update = (next: AudioSettings) => {
+    saveAudioSettings(next);
+    setSettings(getAudioSettings());
+  };
+
+  return (
+    <div className="max-w-md w-full p-8 bg-zinc-900/90 border border-cyan-500/50 rounded-2xl shadow-[0_0_50px_rgba(6,182,212,0.3)]">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-black text-white font-orbitron tracking-wider flex items-center gap-2">
+          <Volume2 className="text-cyan-400" /> AUDIO
+        </h2>
+        <button data-gesture-target onClick={onClose} className="text-gray-500 hover:text-white">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="space-y-3 text-left">
+        {CHANNELS.map(({ key, label }) => (
+          <label key={key} className={`flex items-center gap-2 text-xs text-gray-400 font-mono ${settings.muted ? 'opacity-40' : ''}`}>
+            <span className="w-16">{label}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings[key]}
+              onChange={(e) => update({ ...settings, [key]: Number(e.target.value) })}
+              onPointerUp={() => playSound('collect')}
+              className="flex-1 accent-cyan-400"
+            />
+            <span className="w-8 text-right text-white">{Math.round(settings[key] * 100)}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mt-6">
+        <button
+          data-gesture-target
+          onClick={() => update(DEFAULT_AUDIO_SETTINGS)}
+          className="flex-1 py-3 rounded-xl font-bold bg-gray-800 text-white hover:bg-gray-700"
+        >
+          DEFAULTS
+        </button>
+        <button
+          data-gesture-target
+          onClick={() => update({ ...settings, muted: !settings.muted })}
+          className={`flex-1 py-3 rounded-xl font-bold flex items-center justify-center gap-2 ${
+            settings.muted ? 'bg-yellow-400 text-black hover:bg-yellow-300' : 'bg-cyan-500 text-black hover:bg-cyan-400'
+          }`}
+        >
+          {settings.muted ? <><VolumeX size={18} /> UNMUTE</> : <><Volume2 size={18} /> MUTE</>}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AudioSettingsPanel;
@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CalibrationProfile, CalibrationSamples, CalibrationStepId, deriveCalibration } from '../services/calibrationService';
+import { getThrottleHand } from '../services/gestureService';
+import { ControlState, GestureSample } from '../types';
+import { Check, Crosshair, RotateCcw, X } from 'lucide-react';
+
+interface CalibrationWizardProps {
+  controlState: ControlState;
+  onComplete: (profile: CalibrationProfile) => void;
+  onCancel: () => void;
+}
+
+const STEPS: { id: CalibrationStepId; title: string; instruction: string }[] = [
+  { id: 'neutral', title: 'NEUTRAL', instruction: 'Hold the wheel level, the way you would drive straight.' },
+  { id: 'left', title: 'FULL LEFT', instruction: 'Turn the wheel as far left as is comfortable.' },
+  { id: 'right', title: 'FULL RIGHT', instruction: 'Turn the wheel as far right as is comfortable.' },
+  { id: 'open', title: 'OPEN HAND', instruction: 'Keep both hands up. Spread your {hand} thumb and index finger wide.' },
+  { id: 'pinch', title: 'FULL PINCH', instruction: 'Keep both hands up. Pinch your {hand} thumb and index finger together.' },
+];
+
+// Each pose: settle for a moment, then sample while the player holds still
+const SETTLE_MS = 2000;
+const CAPTURE_MS = 1500;
+
+type Phase = 'waiting' | 'settling' | 'capturing';
+
+const emptySamples = (): CalibrationSamples => ({ neutral: [], left: [], right: [], open: [], pinch: [] });
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ controlState, onComplete, onCancel }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [phase, setPhase] = useState<Phase>('waiting');
+  const [phaseProgress, setPhaseProgress] = useState(0);
+  const [result, setResult] = useState<CalibrationProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const samplesRef = useRef<CalibrationSamples>(emptySamples());
+  const phaseStartRef = useRef(0);
+
+  const finished = stepIndex >= STEPS.length;
+  const step = STEPS[Math.min(stepIndex, STEPS.length - 1)];
+
+  // Driven by control updates, which arrive once per processed video frame
+  useEffect(() => {
+    if (finished) return;
+    const sample: GestureSample | undefined = controlState.gesture;
+    const now = performance.now();
+
+    // Losing a hand restarts the current pose
+    if (!sample) {
+      if (phase !== 'waiting') {
+        samplesRef.current[step.id] = [];
+        setPhase('waiting');
+        setPhaseProgress(0);
+      }
+      return;
+    }
+
+    if (phase === 'waiting') {
+      phaseStartRef.current = now;
+      setPhase('settling');
+      return;
+    }
+
+    const elapsed = now - phaseStartRef.current;
+
+    if (phase === 'settling') {
+      setPhaseProgress(Math.min(1, elapsed / SETTLE_MS));
+      if (elapsed >= SETTLE_MS) {
+        phaseStartRef.current = now;
+        setPhase('capturing');
+        setPhaseProgress(0);
+      }
+      return;
+    }
+
+    samplesRef.current[step.id].push(sample);
+    setPhaseProgress(Math.min(1, elapsed / CAPTURE_MS));
+    if (elapsed >= CAPTURE_MS) {
+      const next = stepIndex + 1;
+      setStepIndex(next);
+      setPhase('waiting');
+      setPhaseProgress(0);
+
+      if (next >= STEPS.length) {
+        try {
+          setResult(deriveCalibration(samplesRef.current));
+          setError(null);
+        } catch (err) {
+          setError(err instanceof Error ? err.message : "Calibration failed");
+        }
+      }
+    }
+  }, [controlState]);
+
+  const restart = () => {
+    samplesRef.current = emptySamples();
+    setStepIndex(0);
+    setPhase('waiting');
+    setPhaseProgress(0);
+    setResult(null);
+    setError(null);
+  };
+
+  return (
+    <div className="max-w-md w-full p-8 bg-zinc-900/90 border border-cyan-500/50 rounded-2xl shadow-[0_0_50px_rgba(6,182,212,0.3)] text-center">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-black text-white font-orbitron tracking-wider flex items-center gap-2">
+          <Crosshair className="text-cyan-400" /> CALIBRATE
+        </h2>
+        <button data-gesture-target onClick={onCancel} className="text-gray-500 hover:text-white">
+          <X size={20} />
+        </button>
+      </div>
+
+      {/* Step Indicators */}
+      <div className="flex gap-1 mb-6">
+        {STEPS.map((s, i) => (
+          <div
+            key={s.id}
+            className={`flex-1 h-1 rounded-full ${i < stepIndex ? 'bg-cyan-400' : i === stepIndex ? 'bg-cyan-400/50' : 'bg-gray-700'}`}
+          />
+        ))}
+      </div>
+
+      {!finished && (
+        <>
+          <span className="text-xs text-gray-500 font-mono">STEP {stepIndex + 1}/{STEPS.length}</span>
+          <h3 className="text-3xl font-black text-cyan-400 font-orbitron mb-2">{step.title}</h3>
+          <p className="text-gray-300 mb-6 min-h-[3rem]">{step.instruction.replace('{hand}', getThrottleHand())}</p>
+
+          <div className="text-sm font-bold tracking-widest mb-2 text-yellow-400">
+            {phase === 'waiting' && 'SHOW BOTH HANDS'}
+            {phase === 'settling' && 'GET READY...'}
+            {phase === 'capturing' && 'HOLD STILL'}
+          </div>
+          <div className="w-full h-2 bg-gray-800 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${phase === 'capturing' ? 'bg-cyan-400' : 'bg-yellow-400/60'}`}
+              style={{ width: `${phaseProgress * 100}%` }}
+            />
+          </div>
+        </>
+      )}
+
+      {finished && error && (
+        <>
+          <p className="text-yellow-400 mb-6">{error}</p>
+          <button
+            data-gesture-target
+            onClick={restart}
+            className="w-full py-3 rounded-xl font-bold bg-gray-800 text-white hover:bg-gray-700 flex items-center justify-center gap-2"
+          >
+            <RotateCcw size={18} /> TRY AGAIN
+          </button>
+        </>
+      )}
+
+      {finished && result && (
+        <>
+          <div className="grid grid-cols-2 gap-2 text-left text-xs font-mono text-gray-400 mb-6">
+            <span>LEFT LOCK</span><span className="text-white text-right">{result.leftAngle.toFixed(1)}°</span>
+            <span>NEUTRAL</span><span className="text-white text-right">{result.neutralAngle.toFixed(1)}°</span>
+            <span>RIGHT LOCK</span><span className="text-white text-right">{result.rightAngle.toFixed(1)}°</span>
+            <span>STEER DEAD ZONE</span><span className="text-white text-right">±{result.steeringDeadZone.toFixed(1)}°</span>
+            <span>PINCH RANGE</span><span className="text-white text-right">{result.minPinch.toFixed(3)} - {result.maxPinch.toFixed(3)}</span>
+          </div>
+          <div className="flex gap-2">
+            <button
+              data-gesture-target
+              onClick={restart}
+              className="flex-1 py-3 rounded-xl font-bold bg-gray-800 text-white hover:bg-gray-700"
+            >
+              REDO
+            </button>
+            <button
+              data-gesture-target
+              onClick={() => onComplete(result)}
+              className="flex-1 py-3 rounded-xl font-bold bg-cyan-500 text-black hover:bg-cyan-400 flex items-center justify-center gap-2"
+            >
+              <Check size={18} /> SAVE
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CalibrationWizard;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { VisionDiagnostics } from '../services/visionSettingsService';
+
+export interface FrameTiming {
+  latencyMs: number; // Camera frame captured -> landmarks back on the main thread
+  inferenceMs: number; // Time inside the model, measured in the worker
+  inferenceFps: number;
+  droppedFrames: number; // Camera frames skipped in the last window because the worker was busy
+  totalDropped: number;
+}
+
+interface FrameTimingPanelProps {
+  timing: FrameTiming | null;
+  diagnostics?: VisionDiagnostics | null;
+}
+
+const FrameTimingPanel: React.FC<FrameTimingPanelProps> = ({ timing, diagnostics }) => {
+  const rows: [string, string, boolean][] = timing
+    ? [
+        ['LATENCY', `${timing.latencyMs.toFixed(1)} ms`, timing.latencyMs > 66],
+        ['INFERENCE', `${timing.inferenceMs.toFixed(1)} ms`, timing.inferenceMs > 33],
+        ['VISION FPS', timing.inferenceFps.toFixed(1), timing.inferenceFps < 15],
+        ['DROPPED', `${timing.droppedFrames} (${timing.totalDropped} total)`, timing.droppedFrames > 0],
+      ]
+    : [];
+
+  return (
+    <div className="absolute top-9 right-2 z-10 w-44 p-2 rounded bg-black/80 border border-cyan-500/30 font-mono text-[10px] text-gray-400 space-y-0.5">
+      {diagnostics && (
+        <div className="pb-1 mb-1 border-b border-gray-800">
+          <div className="flex justify-between">
+            <span>DELEGATE</span>
+            <span className={diagnostics.fallbackReason ? 'text-yellow-400' : 'text-green-400'}>{diagnostics.delegate}</span>
+          </div>
+          <div className="text-gray-500 truncate" title={diagnostics.model}>{diagnostics.model}</div>
+          {diagnostics.fallbackReason && (
+            <div className="text-yellow-400/80 break-words">{diagnostics.fallbackReason}</div>
+          )}
+        </div>
+      )}
+      {timing ? rows.map(([label, value, warn]) => (
+        <div key={label} className="flex justify-between">
+          <span>{label}</span>
+          <span className={warn ? 'text-yellow-400' : 'text-green-400'}>{value}</span>
+        </div>
+      )) : (
+        <span>Waiting for frames...</span>
+      )}
+    </div>
+  );
+};
+
+export default FrameTimingPanel;
@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { readGamepad } from '../services/inputService';
+import { InputDriverProps } from '../types';
+import { Gamepad2 } from 'lucide-react';
+
+const GamepadController: React.FC<InputDriverProps> = ({ onControlUpdate, isActive }) => {
+  const requestRef = useRef<number | null>(null);
+  const [padName, setPadName] = useState<string | null>(null);
+
+  // Connection status for the panel; the loop below polls regardless
+  useEffect(() => {
+    const refresh = () => {
+      const pad = navigator.getGamepads?.().find(p => p && p.connected);
+      setPadName(pad ? pad.id : null);
+    };
+    window.addEventListener('gamepadconnected', refresh);
+    window.addEventListener('gamepaddisconnected', refresh);
+    refresh();
+    return () => {
+      window.removeEventListener('gamepadconnected', refresh);
+      window.removeEventListener('gamepaddisconnected', refresh);
+    };
+  }, []);
+
+  // Polling Loop - the Gamepad API has no input events, only snapshots
+  useEffect(() => {
+    if (!isActive) return;
+
+    const loop = () => {
+      const pad = navigator.getGamepads?.().find(p => p && p.connected);
+
+      if (pad) {
+        onControlUpdate({
+          ...readGamepad(pad),
+          isTracking: true,
+          handsDetected: 0,
+          debugMessage: "Gamepad Ready"
+        });
+      } else {
+        onControlUpdate({
+          steering: 0,
+          throttle: 0,
+          brake: 0,
+          boost: false,
+          isTracking: false,
+          handsDetected: 0,
+          debugMessage: "No Gamepad"
+        });
+      }
+
+      requestRef.current = requestAnimationFrame(loop);
+    };
+
+    requestRef.current = requestAnimationFrame(loop);
+    return () => {
+      if (requestRef.current) cancelAnimationFrame(requestRef.current);
+    };
+  }, [isActive, onControlUpdate]);
+
+  return (
+    <div className="relative w-full h-full flex flex-col items-center justify-center gap-4 bg-black border border-gray-800 text-center px-6">
+      <Gamepad2 className={`w-12 h-12 ${padName ? 'text-cyan-400' : 'text-gray-600 animate-pulse'}`} />
+      {padName ? (
+        <>
+          <span className="text-sm font-bold text-white break-all">{padName}</span>
+          <p className="text-xs text-gray-400">
+            <span className="text-cyan-400">Left stick</span> to steer, <span className="text-cyan-400">RT / A</span> to accelerate,
+            <span className="text-cyan-400"> LT / B</span> to brake, <span className="text-cyan-400">RB</span> to boost.
+          </p>
+        </>
+      ) : (
+        <p className="text-xs text-gray-400">Connect a controller and press any button.</p>
+      )}
+    </div>
+  );
+};
+
+export default GamepadController;
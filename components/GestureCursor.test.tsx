@@ -0,0 +1,84 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, render } from '@testing-library/react';
+import GestureCursor from './GestureCursor';
+
+// jsdom has no layout, so hit-testing is stubbed: whatever element the test names is "under" the cursor
+let now = 0;
+let hovered: Element | null = null;
+
+const renderMenu = (onClick: () => void, disabled = false) => {
+  const view = render(
+    <>
+      <button data-gesture-target disabled={disabled} onClick={onClick}>START</button>
+      <button onClick={onClick}>PLAIN</button>
+    </>
+  );
+  const [target, plain] = view.getAllByRole('button');
+  const hover = (element: Element | null, at: number) => {
+    hovered = element;
+    now = at;
+    view.rerender(
+      <>
+        <button data-gesture-target disabled={disabled} onClick={onClick}>START</button>
+        <button onClick={onClick}>PLAIN</button>
+        <GestureCursor pointer={{ x: 0.5, y: 0.5 + at * 1e-6 }} enabled />
+      </>
+    );
+  };
+  return { target, plain, hover };
+};
+
+describe('GestureCursor', () => {
+  beforeEach(() => {
+    now = 0;
+    hovered = null;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    document.elementFromPoint = vi.fn(() => hovered);
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+  });
+
+  it('clicks a target after hovering long enough, once', () => {
+    const onClick = vi.fn();
+    const { target, hover } = renderMenu(onClick);
+
+    hover(target, 0);
+    hover(target, 1000);
+    expect(onClick).not.toHaveBeenCalled();
+
+    hover(target, 1300);
+    hover(target, 3000);
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('restarts the dwell after leaving', () => {
+    const onClick = vi.fn();
+    const { target, hover } = renderMenu(onClick);
+
+    hover(target, 0);
+    hover(null, 1000);
+    hover(target, 1100);
+    hover(target, 2000);
+    expect(onClick).not.toHaveBeenCalled();
+  });
+
+  it('ignores unmarked controls', () => {
+    const onClick = vi.fn();
+    const { plain, hover } = renderMenu(onClick);
+    hover(plain, 0);
+    hover(plain, 5000);
+    expect(onClick).not.toHaveBeenCalled();
+  });
+
+  it('ignores disabled targets', () => {
+    const onClick = vi.fn();
+    const { target, hover } = renderMenu(onClick, true);
+    hover(target, 0);
+    hover(target, 5000);
+    expect(onClick).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Point } from '../types';
+
+interface GestureCursorProps {
+  pointer?: Point; // Normalized position in the player's (mirrored) view
+  enabled: boolean;
+}
+
+// Hover a control for this long to click it
+const DWELL_MS = 1200;
+// The central part of the camera image maps to the whole screen, so players don't have to reach the frame edges
+const CAMERA_MARGIN = 0.15;
+
+const toViewport = (value: number, size: number) =>
+  Math.max(0, Math.min(1, (value - CAMERA_MARGIN) / (1 - CAMERA_MARGIN * 2))) * size;
+
+// A hand-driven cursor for menus. Anything marked with data-gesture-target can be clicked by hovering over it.
+const GestureCursor: React.FC<GestureCursorProps> = ({ pointer, enabled }) => {
+  const [position, setPosition] = useState<Point | null>(null);
+  const [progress, setProgress] = useState(0);
+  const targetRef = useRef<HTMLElement | null>(null);
+  const dwellStartRef = useRef(0);
+  const clickedRef = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !pointer) {
+      targetRef.current = null;
+      clickedRef.current = null;
+      setPosition(null);
+      setProgress(0);
+      return;
+    }
+
+    const x = toViewport(pointer.x, window.innerWidth);
+    const y = toViewport(pointer.y, window.innerHeight);
+    setPosition({ x, y });
+
+    const hovered = document.elementFromPoint(x, y)?.closest<HTMLElement>('[data-gesture-target]') ?? null;
+    const target = hovered && !hovered.matches(':disabled') ? hovered : null;
+    const now = performance.now();
+
+    if (target !== targetRef.current) {
+      targetRef.current = target;
+      dwellStartRef.current = now;
+      // Leaving a control re-arms it
+      if (target !== clickedRef.current) clickedRef.current = null;
+    }
+
+    if (!target || target === clickedRef.current) {
+      setProgress(0);
+      return;
+    }
+
+    const elapsed = (now - dwellStartRef.current) / DWELL_MS;
+    setProgress(Math.min(1, elapsed));
+    if (elapsed >= 1) {
+      clickedRef.current = target;
+      target.click();
+    }
+  }, [pointer, enabled]);
+
+  if (!enabled || !position) return null;
+
+  const radius = 18;
+  const circumference = 2 * Math.PI * radius;
+
+  return (
+    <div
+      className="fixed z-[100] pointer-events-none -translate-x-1/2 -translate-y-1/2"
+      style={{ left: position.x, top: position.y }}
+    >
+      <svg width={48} height={48} viewBox="0 0 48 48">
+        <circle cx={24} cy={24} r={5} fill="#22d3ee" />
+        <circle cx={24} cy={24} r={radius} fill="none" stroke="rgba(255,255,255,0.25)" strokeWidth={3} />
+        <circle
+          cx={24}
+          cy={24}
+          r={radius}
+          fill="none"
+          stroke="#22d3ee"
+          strokeWidth={3}
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - progress)}
+          transform="rotate(-90 24 24)"
+        />
+      </svg>
+    </div>
+  );
+};
+
+export default GestureCursor;
@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { approach, isDrivingKey, readKeyboard } from '../services/inputService';
+import { InputDriverProps } from '../types';
+import { Keyboard } from 'lucide-react';
+
+// Steering ramps instead of snapping so the car doesn't jerk on a tap
+const STEER_RATE = 4;
+const THROTTLE_RATE = 3;
+
+const KeyboardController: React.FC<InputDriverProps> = ({ onControlUpdate, isActive }) => {
+  const keysRef = useRef<Set<string>>(new Set());
+  const requestRef = useRef<number | null>(null);
+  const [pressed, setPressed] = useState(() => readKeyboard(new Set()));
+
+  // Track held keys
+  useEffect(() => {
+    const handleDown = (e: KeyboardEvent) => {
+      if (!isDrivingKey(e.code)) return;
+      e.preventDefault(); // Arrow keys would otherwise scroll the page
+      keysRef.current.add(e.code);
+      setPressed(readKeyboard(keysRef.current));
+    };
+    const handleUp = (e: KeyboardEvent) => {
+      keysRef.current.delete(e.code);
+      setPressed(readKeyboard(keysRef.current));
+    };
+    // Releasing keys while the window is unfocused never fires keyup
+    const handleBlur = () => {
+      keysRef.current.clear();
+      setPressed(readKeyboard(keysRef.current));
+    };
+
+    window.addEventListener('keydown', handleDown);
+    window.addEventListener('keyup', handleUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleDown);
+      window.removeEventListener('keyup', handleUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // Emit Loop
+  useEffect(() => {
+    if (!isActive) return;
+
+    let steering = 0;
+    let throttle = 0;
+    let lastTime = 0;
+
+    const loop = (timestamp: number) => {
+      const dt = lastTime === 0 ? 0 : Math.min((timestamp - lastTime) / 1000, 0.1);
+      lastTime = timestamp;
+
+      const target = readKeyboard(keysRef.current);
+      steering = approach(steering, target.steering, STEER_RATE, dt);
+      throttle = approach(throttle, target.throttle, THROTTLE_RATE, dt);
+
+      onControlUpdate({
+        steering,
+        throttle,
+        brake: target.brake,
+        boost: target.boost,
+        isTracking: true,
+        handsDetected: 0,
+        debugMessage: "Keyboard Ready"
+      });
+
+      requestRef.current = requestAnimationFrame(loop);
+    };
+
+    requestRef.current = requestAnimationFrame(loop);
+    return () => {
+      if (requestRef.current) cancelAnimationFrame(requestRef.current);
+    };
+  }, [isActive, onControlUpdate]);
+
+  const keyClass = (active: boolean, width = 'w-10') =>
+    `${width} h-10 rounded border flex items-center justify-center font-mono text-sm font-bold transition-colors ${
+      active ? 'bg-cyan-500 border-cyan-300 text-black' : 'bg-zinc-800 border-gray-700 text-gray-400'
+    }`;
+
+  return (
+    <div className="relative w-full h-full flex flex-col items-center justify-center gap-6 bg-black border border-gray-800">
+      <Keyboard className="w-12 h-12 text-cyan-400" />
+      <div className="flex flex-col items-center gap-1">
+        <div className={keyClass(pressed.throttle > 0)}>W</div>
+        <div className="flex gap-1">
+          <div className={keyClass(pressed.steering < 0)}>A</div>
+          <div className={keyClass(pressed.brake > 0)}>S</div>
+          <div className={keyClass(pressed.steering > 0)}>D</div>
+        </div>
+        <div className={keyClass(pressed.boost, 'w-32')}>SHIFT</div>
+      </div>
+      <p className="text-xs text-gray-400 text-center px-6">
+        Arrow keys or WASD. <span className="text-cyan-400">Up</span> to accelerate, <span className="text-cyan-400">Down</span> to brake
+        (hold to reverse), <span className="text-cyan-400">Left/Right</span> to steer, <span className="text-cyan-400">Shift</span> to boost.
+      </p>
+    </div>
+  );
+};
+
+export default KeyboardController;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { CRASH_PENALTY, RunResult, SIM_STEP } from '../services/simulation';
+import { formatRaceTime } from '../services/trackService';
+import { LapRecord, formatDelta } from '../services/timeAttackService';
+
+interface LapResultsProps {
+  result: RunResult;
+  bestLap: LapRecord | null; // The track's record, which may have just been set by this run
+}
+
+// Time attack results: every lap against the run's fastest and the track record
+const LapResults: React.FC<LapResultsProps> = ({ result, bestLap }) => {
+  const fastest = Math.min(...result.lapTimes);
+  const newRecord = !!bestLap && bestLap.ticks === fastest;
+
+  return (
+    <div className="w-80 mx-auto mb-8 p-4 rounded-xl bg-black/40 border border-white/20 font-mono text-white text-left">
+      {result.lapTimes.map((ticks, i) => (
+        <div key={i} className={`flex justify-between py-1 ${ticks === fastest ? 'text-cyan-300 font-bold' : ''}`}>
+          <span>LAP {i + 1}</span>
+          <span>{formatRaceTime(ticks)}</span>
+        </div>
+      ))}
+      {result.penalties > 0 && (
+        <div className="flex justify-between py-1 text-red-300 text-sm">
+          <span>WIPEOUTS × {result.penalties}</span>
+          <span>incl. {formatDelta(Math.round(result.penalties * CRASH_PENALTY / SIM_STEP))}</span>
+        </div>
+      )}
+      <div className="flex justify-between pt-2 mt-1 border-t border-white/20 font-bold">
+        <span>TOTAL</span>
+        <span>{formatRaceTime(result.time)}</span>
+      </div>
+      {bestLap && (
+        <div className={`flex justify-between pt-1 text-sm ${newRecord ? 'text-yellow-300 font-bold' : 'text-white/60'}`}>
+          <span>{newRecord ? 'NEW TRACK RECORD' : 'TRACK RECORD'}</span>
+          <span>{formatRaceTime(bestLap.ticks)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LapResults;
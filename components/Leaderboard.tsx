@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { RaceMode, SPEED_TO_KMH } from '../services/simulation';
+import { formatRaceTime } from '../services/trackService';
+import { LeaderboardEntry, getLeaderboard } from '../services/leaderboardService';
+
+interface LeaderboardProps {
+  trackId: string;
+  mode: RaceMode;
+  highlightId?: string | null; // The run just set, if it made the table
+  revision?: number; // Bump to reload after adding or importing runs
+}
+
+// One track and mode's high-score table
+const Leaderboard: React.FC<LeaderboardProps> = ({ trackId, mode, highlightId = null, revision = 0 }) => {
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getLeaderboard(trackId, mode)
+      .then(loaded => {
+        if (cancelled) return;
+        setEntries(loaded);
+        setError(null);
+      })
+      .catch(err => {
+        console.error("Failed to load leaderboard", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "Could not load the leaderboard");
+      });
+    return () => { cancelled = true; };
+  }, [trackId, mode, revision]);
+
+  if (error) return <p className="text-xs text-yellow-400">{error}</p>;
+  if (!entries) return <p className="text-xs text-gray-500">Loading...</p>;
+  if (entries.length === 0) return <p className="text-xs text-gray-500">No runs yet - set the first one!</p>;
+
+  return (
+    <table className="w-full font-mono text-xs text-left text-white">
+      <thead className="text-gray-500">
+        <tr>
+          <th className="py-1">#</th>
+          <th>NAME</th>
+          <th className="text-right">RESULT</th>
+          <th className="text-right">TOP</th>
+          <th className="text-right">ORBS</th>
+          <th className="text-right">BOOST</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry, i) => (
+          <tr key={entry.id} className={entry.id === highlightId ? 'text-yellow-300 font-bold' : ''}>
+            <td className="py-1">{i + 1}</td>
+            <td className="truncate max-w-[8rem]">{entry.playerName}</td>
+            <td className="text-right">{entry.finished ? formatRaceTime(entry.time) : entry.score}</td>
+            <td className="text-right">{Math.floor(entry.stats.topSpeed * SPEED_TO_KMH)}</td>
+            <td className="text-right">{entry.stats.orbs}</td>
+            <td className="text-right">{entry.stats.boostTime.toFixed(1)}s</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+import Leaderboard from './Leaderboard';
+import { RaceMode } from '../services/simulation';
+import { getTrackName } from '../services/trackService';
+import { downloadArchive, exportArchive, importArchive, parseArchive } from '../services/leaderboardService';
+import { getKioskName, setKioskName } from '../services/kioskServerClient';
+import { Download, Server, Trophy, Upload, X } from 'lucide-react';
+
+interface LeaderboardPanelProps {
+  trackId: string;
+  mode: RaceMode;
+  onImported: () => void; // Imports can bring new driver profiles with them
+  serverUrl: string; // Kiosk leaderboard server, empty when not connected
+  onServerUrlChange: (url: string) => void;
+  onCancel: () => void;
+}
+
+// The menu's high-score table for the selected track and mode, with export/import to carry it between machines
+const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ trackId, mode, onImported, serverUrl, onServerUrlChange, onCancel }) => {
+  const [revision, setRevision] = useState(0);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [serverInput, setServerInput] = useState(serverUrl);
+  const [kioskInput, setKioskInput] = useState(getKioskName);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const saveServer = (e: React.FormEvent) => {
+    e.preventDefault();
+    setKioskName(kioskInput);
+    onServerUrlChange(serverInput);
+    setNotice(serverInput.trim() ? "Runs will be sent to the leaderboard server" : "Leaderboard server disconnected");
+  };
+
+  const exportTables = async () => {
+    try {
+      downloadArchive(await exportArchive());
+    } catch (err) {
+      console.error("Failed to export leaderboard", err);
+      setNotice(err instanceof Error ? err.message : "Could not export the leaderboard");
+    }
+  };
+
+  const importTables = async (file: File) => {
+    try {
+      const added = await importArchive(parseArchive(await file.text()));
+      setNotice(`Imported ${added} new run${added === 1 ? '' : 's'}`);
+      setRevision(n => n + 1);
+      onImported();
+    } catch (err) {
+      console.error("Failed to import leaderboard", err);
+      setNotice(err instanceof Error ? err.message : "Could not read leaderboard file");
+    }
+  };
+
+  return (
+    <div className="max-w-md w-full p-8 bg-zinc-900/90 border border-cyan-500/50 rounded-2xl shadow-[0_0_50px_rgba(6,182,212,0.3)]">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-2xl font-black text-white font-orbitron tracking-wider flex items-center gap-2">
+          <Trophy className="text-yellow-400" /> LEADERBOARD
+        </h2>
+        <button data-gesture-target onClick={onCancel} className="text-gray-500 hover:text-white">
+          <X size={20} />
+        </button>
+      </div>
+      <p className="mb-4 text-xs font-bold tracking-widest text-gray-500">
+        {getTrackName(trackId).toUpperCase()} · {mode === 'timeAttack' ? 'TIME ATTACK' : 'RACE'}
+      </p>
+
+      <div className="max-h-[50vh] overflow-y-auto">
+        <Leaderboard trackId={trackId} mode={mode} revision={revision} />
+      </div>
+
+      <div className="flex items-center justify-end gap-2 mt-6">
+        <button
+          onClick={exportTables}
+          className="flex items-center gap-1 px-4 py-2 rounded-full border border-white/40 text-white text-sm font-bold hover:bg-white/10"
+        >
+          <Download size={14} /> EXPORT
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 px-4 py-2 rounded-full border border-white/40 text-white text-sm font-bold hover:bg-white/10"
+        >
+          <Upload size={14} /> IMPORT
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importTables(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {notice && <p className="mt-3 text-xs text-yellow-300 text-right">{notice}</p>}
+      <p className="mt-3 text-xs text-gray-500">Export saves every track's table and driver to a file; importing one merges it into this machine's.</p>
+
+      {/* Kiosk Server */}
+      <form onSubmit={saveServer} className="mt-6 pt-4 border-t border-gray-800 space-y-2">
+        <span className="text-xs font-bold text-gray-500 tracking-widest flex items-center gap-1">
+          <Server size={14} /> EVENT SERVER
+        </span>
+        <p className="text-xs text-gray-500">Share standings with the other kiosks: runs are sent to the server and checked there.</p>
+        <input
+          value={serverInput}
+          onChange={(e) => setServerInput(e.target.value)}
+          placeholder="http://192.168.1.10:8787 (blank for none)"
+          className="w-full px-3 py-2 rounded-lg bg-black/50 border border-gray-800 text-white text-sm focus:border-cyan-400 outline-none"
+        />
+        <div className="flex gap-2">
+          <input
+            value={kioskInput}
+            onChange={(e) => setKioskInput(e.target.value)}
+            placeholder="This kiosk's name"
+            className="flex-1 px-3 py-2 rounded-lg bg-black/50 border border-gray-800 text-white text-sm focus:border-cyan-400 outline-none"
+          />
+          <button type="submit" className="px-4 rounded-lg bg-cyan-500 text-black text-sm font-bold hover:bg-cyan-400">
+            SAVE
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default LeaderboardPanel;
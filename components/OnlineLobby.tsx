@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { RaceMode } from '../services/simulation';
+import { getTrackName } from '../services/trackService';
+import { LobbyState } from '../services/netplayService';
+import { Check, Globe, Play, X } from 'lucide-react';
+
+interface OnlineLobbyProps {
+  lobby: LobbyState;
+  playerName: string;
+  trackId: string; // What the host will start; the guest races whatever the host picked
+  mode: RaceMode;
+  signalingUrl: string;
+  onSignalingUrlChange: (url: string) => void;
+  onHost: () => void;
+  onJoin: (code: string) => void;
+  onReady: (ready: boolean) => void;
+  onStart: () => void;
+  onLeave: () => void;
+  onCancel: () => void;
+}
+
+const STATUS_TEXT: Record<LobbyState['status'], string> = {
+  idle: '',
+  connecting: 'Reaching the signaling server...',
+  waiting: 'Waiting for someone to join...',
+  linking: 'Connecting to the other player...',
+  connected: '',
+  closed: '',
+};
+
+// Hosting or joining an online race, then readying up; the host starts once both players are ready
+const OnlineLobby: React.FC<OnlineLobbyProps> = ({
+  lobby, playerName, trackId, mode, signalingUrl, onSignalingUrlChange, onHost, onJoin, onReady, onStart, onLeave, onCancel
+}) => {
+  const [code, setCode] = useState('');
+  const [serverInput, setServerInput] = useState(signalingUrl);
+  const inRoom = lobby.status !== 'idle' && lobby.status !== 'closed';
+  const connected = lobby.status === 'connected';
+
+  const connect = (action: () => void) => {
+    if (serverInput !== signalingUrl) onSignalingUrlChange(serverInput);
+    action();
+  };
+
+  const join = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) connect(() => onJoin(code));
+  };
+
+  const playerRow = (name: string, ready: boolean, you: boolean) => (
+    <div className="flex items-center justify-between p-3 rounded-lg bg-black/50 border border-gray-800">
+      <span className="text-sm font-bold text-white">
+        {name} {you && <span className="text-xs text-gray-500">(YOU)</span>}
+      </span>
+      <span className={`flex items-center gap-1 text-xs font-bold tracking-widest ${ready ? 'text-green-400' : 'text-gray-500'}`}>
+        {ready && <Check size={14} />} {ready ? 'READY' : 'NOT READY'}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="max-w-md w-full p-8 bg-zinc-900/90 border border-cyan-500/50 rounded-2xl shadow-[0_0_50px_rgba(6,182,212,0.3)]">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-2xl font-black text-white font-orbitron tracking-wider flex items-center gap-2">
+          <Globe className="text-cyan-400" /> ONLINE RACE
+        </h2>
+        <button data-gesture-target onClick={onCancel} className="text-gray-500 hover:text-white">
+          <X size={20} />
+        </button>
+      </div>
+      <p className="mb-6 text-xs text-gray-500">Race someone on another machine. You drive as <span className="font-bold text-cyan-300">{playerName}</span>.</p>
+
+      {!inRoom ? (
+        <div className="space-y-4">
+          <button
+            data-gesture-target
+            onClick={() => connect(onHost)}
+            className="w-full py-3 rounded-xl bg-cyan-500 text-black font-black tracking-widest hover:bg-cyan-400"
+          >
+            HOST A RACE
+          </button>
+          <form onSubmit={join} className="flex gap-2">
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="Room code"
+              maxLength={4}
+              className="flex-1 px-3 py-2 rounded-lg bg-black/50 border border-gray-800 text-white font-mono tracking-[0.3em] uppercase focus:border-cyan-400 outline-none"
+            />
+            <button type="submit" disabled={!code.trim()} className="px-6 rounded-lg bg-cyan-500 text-black text-sm font-bold hover:bg-cyan-400 disabled:opacity-30">
+              JOIN
+            </button>
+          </form>
+          {lobby.error && <p className="text-xs text-yellow-300">{lobby.error}</p>}
+          <label className="block pt-4 border-t border-gray-800">
+            <span className="text-xs font-bold text-gray-500 tracking-widest">SIGNALING SERVER</span>
+            <input
+              value={serverInput}
+              onChange={(e) => setServerInput(e.target.value)}
+              className="mt-2 w-full px-3 py-2 rounded-lg bg-black/50 border border-gray-800 text-white text-sm focus:border-cyan-400 outline-none"
+            />
+          </label>
+          <p className="text-xs text-gray-500">Run <span className="font-mono text-gray-400">npm run signaling:server</span> on one machine; both players need to be on the same network.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {lobby.code && (
+            <div className="text-center">
+              <p className="text-xs font-bold text-gray-500 tracking-widest">ROOM CODE</p>
+              <p className="text-4xl font-black font-mono tracking-[0.3em] text-cyan-300">{lobby.code}</p>
+            </div>
+          )}
+          {STATUS_TEXT[lobby.status] && (
+            <p className="text-center text-xs font-bold tracking-widest text-yellow-400 animate-pulse">{STATUS_TEXT[lobby.status]}</p>
+          )}
+          {connected && (
+            <>
+              {playerRow(playerName, lobby.ready, true)}
+              {playerRow(lobby.opponentName ?? '???', lobby.opponentReady, false)}
+              <p className="text-xs text-gray-500 text-right">{lobby.pingMs === null ? 'Measuring ping...' : `Ping ${lobby.pingMs} ms`}</p>
+              <p className="text-xs font-bold tracking-widest text-gray-500">
+                {lobby.isHost
+                  ? `${getTrackName(trackId).toUpperCase()} · ${mode === 'timeAttack' ? 'TIME ATTACK' : 'RACE'}`
+                  : 'THE HOST PICKS THE TRACK'}
+              </p>
+              <button
+                data-gesture-target
+                onClick={() => onReady(!lobby.ready)}
+                className={`w-full py-3 rounded-xl font-black tracking-widest border ${
+                  lobby.ready ? 'border-green-400 text-green-400 hover:bg-green-400/10' : 'border-white/40 text-white hover:bg-white/10'
+                }`}
+              >
+                {lobby.ready ? 'NOT READY' : 'READY'}
+              </button>
+              {lobby.isHost && (
+                <button
+                  data-gesture-target
+                  onClick={onStart}
+                  disabled={!lobby.ready || !lobby.opponentReady}
+                  className="w-full py-3 rounded-xl bg-cyan-500 text-black font-black tracking-widest hover:bg-cyan-400 disabled:opacity-30 flex items-center justify-center gap-2"
+                >
+                  <Play size={18} fill="currentColor" /> START RACE
+                </button>
+              )}
+            </>
+          )}
+          <button
+            data-gesture-target
+            onClick={onLeave}
+            className="w-full py-2 rounded-xl text-sm font-bold text-gray-400 hover:text-white"
+          >
+            LEAVE
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OnlineLobby;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { MAX_NAME_LENGTH, PlayerProfile } from '../services/profileService';
+import { GUEST_NAME } from '../services/leaderboardService';
+import { Check, Plus, Trash2, User, X } from 'lucide-react';
+
+interface ProfileSelectProps {
+  profiles: PlayerProfile[];
+  activeProfileId: string | null;
+  onSelect: (profile: PlayerProfile | null) => void; // null plays as a guest
+  onCreate: (name: string) => Promise<void>; // Rejects with a player-facing message
+  onDelete: (profile: PlayerProfile) => void;
+  onCancel: () => void;
+}
+
+const ProfileSelect: React.FC<ProfileSelectProps> = ({ profiles, activeProfileId, onSelect, onCreate, onDelete, onCancel }) => {
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const optionClass = (selected: boolean) =>
+    `flex-1 p-3 rounded-lg border text-left transition-colors ${
+      selected ? 'bg-cyan-500/20 border-cyan-400' : 'bg-black/50 border-gray-800 hover:border-gray-600'
+    }`;
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await onCreate(name);
+      setName('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not create the profile");
+    }
+  };
+
+  return (
+    <div className="max-w-md w-full p-8 bg-zinc-900/90 border border-cyan-500/50 rounded-2xl shadow-[0_0_50px_rgba(6,182,212,0.3)]">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-black text-white font-orbitron tracking-wider flex items-center gap-2">
+          <User className="text-cyan-400" /> DRIVERS
+        </h2>
+        <button data-gesture-target onClick={onCancel} className="text-gray-500 hover:text-white">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+        <button data-gesture-target onClick={() => onSelect(null)} className={`w-full ${optionClass(activeProfileId === null)}`}>
+          <div className="flex items-center justify-between font-bold text-white">
+            <span>{GUEST_NAME}</span>
+            {activeProfileId === null && <Check size={16} className="text-cyan-400" />}
+          </div>
+          <p className="text-xs text-gray-400 mt-1">Settings aren't saved to a profile.</p>
+        </button>
+
+        {profiles.map(profile => (
+          <div key={profile.id} className="flex items-stretch gap-2">
+            <button data-gesture-target onClick={() => onSelect(profile)} className={optionClass(profile.id === activeProfileId)}>
+              <div className="flex items-center justify-between font-bold text-white">
+                <span>{profile.name}</span>
+                {profile.id === activeProfileId && <Check size={16} className="text-cyan-400" />}
+              </div>
+              <p className="text-xs text-gray-500 font-mono mt-1">
+                {profile.inputSource.toUpperCase()} · {profile.calibration.calibratedAt ? 'CALIBRATED' : 'DEFAULT GESTURES'}
+              </p>
+            </button>
+            <button
+              onClick={() => onDelete(profile)}
+              className="px-3 rounded-lg border border-gray-800 bg-black/50 text-gray-500 hover:text-red-400"
+              aria-label={`Delete ${profile.name}`}
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={create} className="flex gap-2 mt-4">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={MAX_NAME_LENGTH}
+          placeholder="New driver name"
+          className="flex-1 px-3 py-2 rounded-lg bg-black/50 border border-gray-800 text-white text-sm focus:border-cyan-400 outline-none"
+        />
+        <button type="submit" className="flex items-center gap-1 px-3 rounded-lg bg-cyan-500 text-black text-sm font-bold hover:bg-cyan-400">
+          <Plus size={16} /> ADD
+        </button>
+      </form>
+      {error && <p className="mt-2 text-xs text-yellow-400">{error}</p>}
+      <p className="mt-3 text-xs text-gray-500">
+        A driver keeps their own calibration, input and settings. Changes made while they're selected are saved to them.
+      </p>
+    </div>
+  );
+};
+
+export default ProfileSelect;
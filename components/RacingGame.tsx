@@ -1,18 +1,42 @@
 import React, { useEffect, useRef } from 'react';
 import { ControlState, GameState } from '../types';
+import {
+  EntityType, RaceMode, RunResult, SimControls, SimEntity, SimEvent, SimState, SPEED_TO_KMH, TIME_ATTACK_LAPS,
+  createSeed, createSimState, getRunResult, isRunOver, step
+} from '../services/simulation';
+import { PLAYER_Z, RUMBLE_LENGTH, ROAD_WIDTH, SEGMENT_LENGTH, Viewport, createRoadView, placeOnRoad, project, projectedSize } from '../services/road';
+import { Replay, ReplayRecorder, createReplayRecorder, simulateReplayTo } from '../services/replayService';
+import { FrameStats, createFrameClock } from '../services/gameLoop';
+import { formatRaceTime, loadCourse } from '../services/trackService';
+import { LapTracer, createLapTracer, formatDelta, getBestLap, saveBestLap } from '../services/timeAttackService';
+import { Ghost, createGhost } from '../services/ghostService';
+import { RemoteRacer } from '../services/remoteRacer';
+import { SoundEffect, clampPan, createEngineSound, playSound } from '../services/audioService';
+import { reportMusicIntensity } from '../services/musicService';
 
 interface RacingGameProps {
   controlState: ControlState;
   gameState: GameState;
-  onGameOver: (score: number) => void;
-}
-
-interface Entity {
-  id: number;
-  x: number;
-  y: number;
-  type: 'rock' | 'oil' | 'orb';
-  active: boolean;
+  runId: number; // A new id starts a new run from a fresh world
+  trackId: string; // Read when a new run starts
+  mode: RaceMode; // Likewise
+  ghost?: Replay | null; // Likewise; raced alongside when it was recorded on the same track and mode
+  seed?: number; // Likewise; both halves of a versus race share one, otherwise every run gets a fresh one
+  label?: string; // Versus: whose half of the screen this is
+  pan?: number; // Versus: the side of the stereo field this half's sounds play from, -1 to 1; read on mount
+  opponent?: RemoteRacer | null; // Online: the other player's car, drawn wherever their run is at our tick
+  opponentName?: string;
+  onStep?: (controls: SimControls, state: SimState) => void; // Online: every live tick, to send to the opponent
+  onCountdownComplete: () => void;
+  onCrash?: () => void; // Versus halves leave it out and play their crash sequence while the other races on
+  onGameOver: (result: RunResult, replay: Replay) => void;
+  // Playback (GameState.REPLAY only)
+  replay?: Replay | null;
+  replayPaused?: boolean;
+  replaySpeed?: number;
+  replaySeek?: { tick: number } | null;
+  onReplayProgress?: (tick: number) => void;
+  onFrameStats?: (stats: FrameStats) => void;
 }
 
 interface Particle {
@@ -26,67 +50,66 @@ interface Particle {
   size: number;
 }
 
-const RacingGame: React.FC<RacingGameProps> = ({ controlState, gameState, onGameOver }) => {
+// Road Scenery
+const GROUND_COLOR = '#0f0f1a';
+const GRID_SEGMENTS = 5; // Segments between lines across the ground
+const GRID_SPACING = ROAD_WIDTH * 1.5; // World units between lines along the ground
+const GRID_LINES = 8; // Either side of the road
+const SKYLINE_PERIOD = 1200;
+
+// World sizes (radius, or half-width for traffic and barriers; oil and speed pads lie flat on the road)
+const ENTITY_SIZE: Record<EntityType, number> = {
+  rock: 100, oil: 300, orb: 60, traffic: 180, speedPad: 300, shield: 70, barrier: 700
+};
+const FLAT_ENTITIES: EntityType[] = ['oil', 'speedPad'];
+const WHOOSH_ENTITIES: EntityType[] = ['rock', 'traffic', 'barrier']; // Heard as they pass the car
+const WHOOSH_RANGE = 1; // Road-space gap beyond which a passing obstacle is silent
+const CAR_WORLD_WIDTH = 300;
+
+// Top speed without a boost; the soundtrack builds towards it and only goes all out when boosting
+const MUSIC_FULL_SPEED = 1.5;
+
+// Run lifecycle timing
+const COUNTDOWN_SECONDS = 3;
+const CRASH_SEQUENCE_SECONDS = 1.5;
+
+const RacingGame: React.FC<RacingGameProps> = ({
+  controlState, gameState, runId, trackId, mode, ghost, seed, label, pan = 0, opponent, opponentName, onStep,
+  onCountdownComplete, onCrash, onGameOver, replay, replayPaused = false, replaySpeed = 1, replaySeek, onReplayProgress,
+  onFrameStats
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const audioCtxRef = useRef<AudioContext | null>(null);
   
+  const simRef = useRef<SimState>(createSimState(createSeed()));
+  const recorderRef = useRef<ReplayRecorder>(createReplayRecorder(simRef.current.seed));
+  const replayReaderRef = useRef<((tick: number) => SimControls) | null>(null);
+  const tracerRef = useRef<LapTracer>(createLapTracer(null));
+  const ghostRef = useRef<Ghost | null>(null);
+
+  // The render loop runs once per mount and reads the latest props from here,
+  // so control updates and state changes never tear it down
+  const propsRef = useRef({
+    controlState, gameState, trackId, mode, ghost, seed, label, opponent, opponentName, replay, replayPaused, replaySpeed,
+    onStep, onCountdownComplete, onCrash, onGameOver, onReplayProgress, onFrameStats
+  });
+  propsRef.current = {
+    controlState, gameState, trackId, mode, ghost, seed, label, opponent, opponentName, replay, replayPaused, replaySpeed,
+    onStep, onCountdownComplete, onCrash, onGameOver, onReplayProgress, onFrameStats
+  };
+  const clockRef = useRef(createFrameClock());
+
+  // Render-only state: cosmetic particles and lifecycle timers never feed back into the simulation
   const stateRef = useRef({
-    playerX: 0, 
-    speed: 0,
-    roadOffset: 0,
-    score: 0,
-    distance: 0,
-    boost: 0, // 0 to 100
-    isBoosting: false,
-    entities: [] as Entity[],
     particles: [] as Particle[],
-    lastTime: 0,
-    entityIdCounter: 0,
-    bgOffset: 0,
+    countdownElapsed: 0,
+    countdownBeeps: 0, // Countdown numbers already announced
+    crashElapsed: 0,
+    resultsSent: false,
+    ahead: new Set<number>(), // Obstacles still in front of the car, to hear them whoosh past
+    banner: null as { text: string; color: string; until: number } | null, // Call-outs, until is a timestamp
+    bursts: [] as { x: number; z: number; color: string }[], // Explosions waiting to be placed on the road
   });
 
-  // Sound Synthesis
-  const playSound = (type: 'collect' | 'crash' | 'boost' | 'start') => {
-    if (!audioCtxRef.current) {
-      audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-    }
-    const ctx = audioCtxRef.current;
-    if (ctx.state === 'suspended') ctx.resume();
-
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
-    osc.connect(gain);
-    gain.connect(ctx.destination);
-
-    const now = ctx.currentTime;
-
-    if (type === 'collect') {
-      osc.type = 'sine';
-      osc.frequency.setValueAtTime(800, now);
-      osc.frequency.exponentialRampToValueAtTime(1200, now + 0.1);
-      gain.gain.setValueAtTime(0.3, now);
-      gain.gain.exponentialRampToValueAtTime(0.01, now + 0.1);
-      osc.start(now);
-      osc.stop(now + 0.1);
-    } else if (type === 'crash') {
-      osc.type = 'sawtooth';
-      osc.frequency.setValueAtTime(100, now);
-      osc.frequency.exponentialRampToValueAtTime(10, now + 0.3);
-      gain.gain.setValueAtTime(0.5, now);
-      gain.gain.exponentialRampToValueAtTime(0.01, now + 0.3);
-      osc.start(now);
-      osc.stop(now + 0.3);
-    } else if (type === 'boost') {
-      osc.type = 'square';
-      osc.frequency.setValueAtTime(200, now);
-      osc.frequency.linearRampToValueAtTime(600, now + 0.5);
-      gain.gain.setValueAtTime(0.1, now);
-      gain.gain.linearRampToValueAtTime(0.0, now + 0.5);
-      osc.start(now);
-      osc.stop(now + 0.5);
-    }
-  };
-
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -94,11 +117,19 @@ const RacingGame: React.FC<RacingGameProps> = ({ controlState, gameState, onGame
     if (!ctx) return;
 
     let animationFrameId: number;
+    let reportedStats: FrameStats | null = null;
+    let replayThrottle = 0;
+
+    // Sounds play from where they happen across the road, squeezed into this half's side in a versus race
+    const engine = createEngineSound(pan);
+    const sound = (type: SoundEffect, { pitch = 1, x, volume = 1 }: { pitch?: number; x?: number; volume?: number } = {}) => {
+      const across = x === undefined ? 0 : x - simRef.current.playerX;
+      playSound(type, { pitch, volume, pan: clampPan(pan + across * (1 - Math.abs(pan))) });
+    };
 
-    const ROAD_WIDTH_PCT = 0.5;
+    // Car art is drawn at this size, then scaled to its projected width
     const CAR_WIDTH = 50;
     const CAR_HEIGHT = 80;
-    const HORIZON_Y = canvas.height * 0.35;
 
     const createExplosion = (x: number, y: number, color: string) => {
       for (let i = 0; i < 20; i++) {
@@ -115,406 +146,617 @@ const RacingGame: React.FC<RacingGameProps> = ({ controlState, gameState, onGame
     };
 
     const gameLoop = (timestamp: number) => {
-      if (stateRef.current.lastTime === 0) stateRef.current.lastTime = timestamp;
-      const dt = Math.min((timestamp - stateRef.current.lastTime) / 1000, 0.1);
-      stateRef.current.lastTime = timestamp;
-      
-      const state = stateRef.current; // Declared here for access in update and render
+      const {
+        controlState, gameState, label, opponent, opponentName, replay, replayPaused, replaySpeed,
+        onStep, onCountdownComplete, onCrash, onGameOver, onReplayProgress, onFrameStats
+      } = propsRef.current;
+      const clock = clockRef.current;
+      const dt = clock.advance(timestamp);
+
+      // Stats refresh a couple of times a second; only pass them on when they change
+      const stats = clock.getStats();
+      if (stats !== reportedStats) {
+        reportedStats = stats;
+        onFrameStats?.(stats);
+      }
 
       const w = canvas.width;
       const h = canvas.height;
       const centerX = w / 2;
-      
-      // Dynamic Horizon
       const horizonY = h * 0.35;
-      const roadBottomW = w * 0.9;
-      const roadTopW = w * 0.1;
-
-      // --- UPDATE LOGIC ---
-      if (gameState === GameState.PLAYING) {
-        const { steering, throttle } = controlState;
-
-        // Physics Constants
-        const steeringSensitivity = 1.8; 
-        const acceleration = 0.8;
-        const friction = 0.3;
-        let maxSpeed = 1.5;
-
-        // Boost Logic
-        if (state.isBoosting) {
-          maxSpeed = 2.5;
-          state.boost -= 20 * dt; // Drain boost
-          if (state.boost <= 0) {
-            state.boost = 0;
-            state.isBoosting = false;
+      const viewport: Viewport = { width: w, height: h, horizonY };
+
+      const handleEvent = (event: SimEvent) => {
+        const bursts = stateRef.current.bursts;
+        if (event.type === 'collect') {
+          sound('collect', { x: event.x });
+          bursts.push({ x: event.x, z: event.z, color: '#00ffff' });
+        } else if (event.type === 'smash') {
+          bursts.push({ x: event.x, z: event.z, color: '#ffffff' });
+          sound('collect', { x: event.x }); // satisfying smash sound
+        } else if (event.type === 'boost') {
+          sound('boost');
+        } else if (event.type === 'slip') {
+          sound('skid');
+        } else if (event.type === 'surge') {
+          sound('boost', { pitch: 2, x: event.x });
+          bursts.push({ x: event.x, z: event.z, color: '#ffcc00' });
+        } else if (event.type === 'shield') {
+          sound('collect', { x: event.x });
+          bursts.push({ x: event.x, z: event.z, color: '#00ff88' });
+        } else if (event.type === 'crash') {
+          sound('crash');
+          const crashZ = simRef.current.position + PLAYER_Z;
+          bursts.push({ x: event.x, z: crashZ, color: '#ffaa00' }, { x: event.x, z: crashZ, color: '#ff0055' });
+          // Results wait until the crash sequence has played out
+          if (gameState === GameState.PLAYING) onCrash?.();
+        } else if (event.type === 'wipeout') {
+          // Time attack: no crash sequence, just the bill
+          sound('crash');
+          const crashZ = simRef.current.position + PLAYER_Z;
+          bursts.push({ x: event.x, z: crashZ, color: '#ffaa00' }, { x: event.x, z: crashZ, color: '#ff0055' });
+          stateRef.current.banner = { text: `WIPEOUT ${formatDelta(event.penalty)}`, color: '#ff3366', until: timestamp + 1500 };
+        } else if (event.type === 'checkpoint') {
+          sound('start');
+          const total = simRef.current.course.checkpoints.length;
+          const bestSplit = tracerRef.current.getBest()?.splits[event.index];
+          const gap = simRef.current.mode === 'timeAttack' && bestSplit !== undefined ? `  ${formatDelta(event.split - bestSplit)}` : '';
+          const color = gap && event.split > bestSplit! ? '#ff3366' : '#00ffff';
+          stateRef.current.banner = { text: `CHECKPOINT ${event.index + 1}/${total}${gap}`, color, until: timestamp + 1500 };
+        } else if (event.type === 'lap') {
+          if (event.lap < TIME_ATTACK_LAPS) {
+            sound('start', { pitch: 1.5 });
+            const best = tracerRef.current.getBest();
+            const text = best && best.ticks === event.ticks
+              ? `BEST LAP ${formatRaceTime(event.ticks)}`
+              : event.lap === TIME_ATTACK_LAPS - 1 ? 'FINAL LAP' : `LAP ${event.lap + 1}/${TIME_ATTACK_LAPS}`;
+            stateRef.current.banner = { text, color: '#00ffff', until: timestamp + 2000 };
           }
-          // Boost Trail particles
-          if (Math.random() > 0.5) {
-             const px = centerX + state.playerX * (w * ROAD_WIDTH_PCT / 2);
-             state.particles.push({
-               x: px + (Math.random() - 0.5) * 30,
-               y: h - 20,
-               vx: (Math.random() - 0.5) * 50,
-               vy: 200, // Move down fast
-               life: 0.5,
-               maxLife: 0.5,
-               color: '#00ffff',
-               size: 3
-             });
+        } else if (event.type === 'finish') {
+          sound('start', { pitch: 2 });
+          if (gameState === GameState.PLAYING && !stateRef.current.resultsSent) {
+            stateRef.current.resultsSent = true;
+            onGameOver(getRunResult(simRef.current), recorderRef.current.finish(simRef.current));
           }
         }
-
-        // Speed Update
-        if (throttle > 0.1 || state.isBoosting) {
-          const targetThrottle = state.isBoosting ? 1.0 : throttle;
-          state.speed += targetThrottle * acceleration * dt;
-        } else {
-          state.speed -= friction * dt;
+      };
+
+      // --- RUN LIFECYCLE ---
+      // Timers advance with the capped frame delta, so a backgrounded tab freezes them rather than skipping ahead.
+      // The crash sequence follows this car's own wreck, so a versus half plays it out while the race goes on.
+      const run = stateRef.current;
+      const wrecked = gameState === GameState.CRASHED || (gameState === GameState.PLAYING && simRef.current.crashed);
+      if (gameState === GameState.COUNTDOWN) {
+        run.countdownElapsed += dt;
+        const beeps = Math.min(COUNTDOWN_SECONDS + 1, Math.floor(run.countdownElapsed) + 1);
+        for (; run.countdownBeeps < beeps; run.countdownBeeps++) {
+          sound('start', { pitch: run.countdownBeeps === COUNTDOWN_SECONDS ? 2 : 1 });
         }
-        state.speed = Math.max(0, Math.min(maxSpeed, state.speed));
-
-        // Player X Update
-        if (state.speed > 0.05) {
-          state.playerX += steering * steeringSensitivity * dt;
-          state.playerX = Math.max(-1.2, Math.min(1.2, state.playerX)); // Slight allowance off-road
+        if (run.countdownElapsed >= COUNTDOWN_SECONDS) onCountdownComplete();
+      } else if (gameState === GameState.PLAYING && run.countdownElapsed < COUNTDOWN_SECONDS + 1) {
+        run.countdownElapsed += dt; // Keeps GO! on screen for the first second of the race
+      }
+      if (wrecked) {
+        run.crashElapsed += dt;
+        if (run.crashElapsed >= CRASH_SEQUENCE_SECONDS && !run.resultsSent) {
+          run.resultsSent = true;
+          onGameOver(getRunResult(simRef.current), recorderRef.current.finish(simRef.current));
         }
+      }
 
-        // World Movement
-        const speedMultiplier = state.isBoosting ? 1500 : 1000;
-        state.roadOffset += state.speed * speedMultiplier * dt;
-        state.bgOffset += steering * state.speed * 50 * dt; // Parallax background
-        state.distance += state.speed * dt;
-        state.score += Math.floor(state.speed * 10 * (state.isBoosting ? 2 : 1));
-
-        // Spawning
-        const difficultyMultiplier = 1 + (state.distance / 500);
-        // Obstacles (Rocks/Oil)
-        if (Math.random() < 0.02 * state.speed * difficultyMultiplier) {
-          state.entities.push({
-            id: state.entityIdCounter++,
-            x: (Math.random() * 2 - 1) * 0.9,
-            y: horizonY, // Spawn at horizon
-            type: Math.random() > 0.7 ? 'oil' : 'rock',
-            active: true
-          });
-        }
-        // Powerups (Orbs)
-        if (Math.random() < 0.008) {
-           state.entities.push({
-            id: state.entityIdCounter++,
-            x: (Math.random() * 2 - 1) * 0.9,
-            y: horizonY,
-            type: 'orb',
-            active: true
-          });
-        }
+      // --- UPDATE LOGIC ---
+      const isReplay = gameState === GameState.REPLAY && !!replay && !!replayReaderRef.current;
+      const simulating = gameState === GameState.PLAYING || (isReplay && !replayPaused);
+
+      if (simulating) {
+        // Fixed-timestep simulation, decoupled from the display refresh rate
+        clock.accumulate(isReplay ? dt * replaySpeed : dt);
+        while (!isRunOver(simRef.current) && clock.takeStep()) {
+          if (isReplay && simRef.current.tick >= replay!.duration) {
+            clock.clearAccumulator();
+            break;
+          }
 
-        // Entity Updates
-        // Projection helper
-        const project = (roadX: number, roadY: number) => {
-            // roadY is 0 at horizon, 1 at bottom
-            // We store entity Y as screen Y initially? No, let's store Z (depth)
-            // But to keep existing logic simple, let's adapt.
-            // Existing logic had linear Y. Perspective needs Z.
-            // Let's stick to a pseudo-3D Y for now: objects move from horizonY to h.
-            return roadY;
-        };
+          // Live runs record what they feed the simulation; replays feed back the recording
+          let controls: SimControls = controlState;
+          if (isReplay) {
+            controls = replayReaderRef.current!(simRef.current.tick);
+            replayThrottle = controls.throttle;
+          } else {
+            recorderRef.current.record(simRef.current.tick, controlState);
+          }
 
-        for (let i = state.entities.length - 1; i >= 0; i--) {
-          const ent = state.entities[i];
-          // Move towards bottom. Speed depends on closeness (pseudo perspective speedup)
-          // Simple exponential speedup to fake perspective
-          const progress = (ent.y - horizonY) / (h - horizonY);
-          const moveSpeed = state.speed * speedMultiplier * dt * (0.1 + progress * 2); 
-          ent.y += moveSpeed;
-
-          // Scale checks based on Y
-          const scale = 0.2 + 0.8 * progress; // 0.2 at horizon, 1.0 at bottom
-          
-          // Collision Logic
-          // Player is at bottom
-          if (ent.y > h - 150 && ent.y < h + 50 && ent.active) {
-            // Horizontal check
-            // Road width at bottom is w * ROAD_WIDTH_PCT.
-            // Entity X is -1 to 1 relative to road center.
-            const roadWAtPlayer = w * ROAD_WIDTH_PCT;
-            const entScreenX = centerX + ent.x * (roadWAtPlayer / 2);
-            const playerScreenX = centerX + state.playerX * (roadWAtPlayer / 2);
-            
-            const hitDist = CAR_WIDTH * 0.8;
-            
-            if (Math.abs(entScreenX - playerScreenX) < hitDist) {
-              if (ent.type === 'orb') {
-                ent.active = false;
-                state.boost = Math.min(100, state.boost + 25);
-                state.score += 500;
-                playSound('collect');
-                createExplosion(entScreenX, ent.y, '#00ffff');
-                
-                // Trigger Boost?
-                if (state.boost >= 100 && !state.isBoosting) {
-                  state.isBoosting = true;
-                  state.boost = 100;
-                  playSound('boost');
-                }
-              } else if (!state.isBoosting) {
-                // Crash
-                playSound('crash');
-                createExplosion(playerScreenX, h - 100, '#ffaa00');
-                onGameOver(state.score);
-              } else {
-                // Destroy obstacle in boost mode
-                ent.active = false;
-                state.score += 100;
-                createExplosion(entScreenX, ent.y, '#ffffff');
-                playSound('collect'); // satisfying smash sound
-              }
-            }
+          const result = step(simRef.current, controls);
+          simRef.current = result.state;
+          if (result.state.mode === 'timeAttack') {
+            // Laps finished live count towards the track's best; replays only compare
+            const lap = tracerRef.current.update(result.state);
+            if (lap && !isReplay) saveBestLap(result.state.course.id, lap);
+          }
+          if (!isReplay) {
+            ghostRef.current?.advanceTo(result.state.tick);
+            onStep?.(controls, result.state);
           }
+          result.events.forEach(handleEvent);
+        }
+        if (isRunOver(simRef.current)) clock.clearAccumulator();
+        if (isReplay) onReplayProgress?.(simRef.current.tick);
+      }
 
-          if (ent.y > h + 100 || !ent.active) {
-            state.entities.splice(i, 1);
+      // --- AUDIO ---
+      // The engine revs on the grid and runs through the race and replays; it dies with the car
+      const current = simRef.current;
+      if (!isRunOver(current) && (gameState === GameState.COUNTDOWN || simulating)) {
+        engine.update(current.speed, isReplay ? replayThrottle : controlState.throttle, current.isBoosting);
+      } else {
+        engine.silence();
+      }
+      if (gameState === GameState.PLAYING && !isRunOver(current)) {
+        const boosted = current.isBoosting || current.surge > 0;
+        reportMusicIntensity(boosted ? 1 : 0.65 * Math.min(1, Math.abs(current.speed) / MUSIC_FULL_SPEED));
+      }
+      // Obstacles whoosh past on their side of the car, louder the closer they came
+      if (simulating) {
+        const carZ = current.position + PLAYER_Z;
+        const ahead = new Set<number>();
+        for (const ent of current.entities) {
+          if (ent.z > carZ) {
+            ahead.add(ent.id);
+          } else if (run.ahead.has(ent.id) && WHOOSH_ENTITIES.includes(ent.type)) {
+            const gap = Math.abs(ent.x - current.playerX);
+            if (gap < WHOOSH_RANGE) sound('whoosh', { x: ent.x, volume: 1 - gap / WHOOSH_RANGE });
           }
         }
+        run.ahead = ahead;
+      }
 
-        // Particle Updates
-        for (let i = state.particles.length - 1; i >= 0; i--) {
-          const p = state.particles[i];
+      // Particle Updates - keep running through the crash sequence
+      if (simulating || wrecked) {
+        const particles = stateRef.current.particles;
+        for (let i = particles.length - 1; i >= 0; i--) {
+          const p = particles[i];
           p.x += p.vx * dt;
           p.y += p.vy * dt;
           p.life -= dt;
-          if (p.life <= 0) state.particles.splice(i, 1);
+          if (p.life <= 0) particles.splice(i, 1);
         }
       }
 
+      const state = simRef.current;
+      const { course } = state;
+      const view = createRoadView(course.road, state.position, state.playerX, viewport);
+      // A race passes each gate once; time attack gates come round every lap, the line at the start of the loop
+      const lapSegments = course.road.segments.length;
+      const timeAttack = state.mode === 'timeAttack';
+      const gateSegment = (index: number) => timeAttack ? ((index % lapSegments) + lapSegments) % lapSegments : index;
+      const checkpointSegments = course.checkpoints.map(z => Math.round(z / SEGMENT_LENGTH));
+      const finishSegment = timeAttack ? 0 : course.finishZ === null ? null : Math.round(course.finishZ / SEGMENT_LENGTH);
+      const { camera } = view;
+
       // --- RENDER ---
+      // Crash sequence: screen shake that settles as the sequence plays out
+      const crashFade = wrecked
+        ? Math.max(0, 1 - run.crashElapsed / CRASH_SEQUENCE_SECONDS)
+        : 0;
+      ctx.save();
+      if (crashFade > 0) {
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, w, h);
+        ctx.translate((Math.random() - 0.5) * 24 * crashFade, (Math.random() - 0.5) * 24 * crashFade);
+      }
+
       // 1. Sky Gradient
       const gradSky = ctx.createLinearGradient(0, 0, 0, horizonY);
       gradSky.addColorStop(0, '#0a0a12');
       gradSky.addColorStop(1, '#2d1b4e');
       ctx.fillStyle = gradSky;
-      ctx.fillRect(0, 0, w, horizonY);
+      ctx.fillRect(0, 0, w, h);
 
-      // 2. Retro Sun
+      // 2. Retro Sun - drifts against the curves, wrapping round once it leaves the screen
+      const sunWrap = w + 200;
+      const sunX = ((centerX - state.bgOffset) % sunWrap + sunWrap) % sunWrap - 100;
       const sunY = horizonY - 50;
       ctx.save();
       ctx.shadowBlur = 40;
       ctx.shadowColor = '#ff0055';
-      const gradSun = ctx.createLinearGradient(centerX, sunY - 80, centerX, sunY + 80);
+      const gradSun = ctx.createLinearGradient(sunX, sunY - 80, sunX, sunY + 80);
       gradSun.addColorStop(0, '#ffff00');
       gradSun.addColorStop(1, '#ff0055');
       ctx.fillStyle = gradSun;
       ctx.beginPath();
-      ctx.arc(centerX, sunY, 80, 0, Math.PI * 2);
+      ctx.arc(sunX, sunY, 80, 0, Math.PI * 2);
       ctx.fill();
       // Sun cuts
       ctx.fillStyle = '#2d1b4e'; // Sky color to mask
       for(let i=0; i<5; i++) {
         const h = 8 + i * 3;
         const y = sunY + 20 + i * 15;
-        ctx.fillRect(centerX - 90, y, 180, h * 0.4);
+        ctx.fillRect(sunX - 90, y, 180, h * 0.4);
       }
       ctx.restore();
 
-      // 3. Moving Grid Floor
-      ctx.fillStyle = '#0f0f1a';
-      ctx.fillRect(0, horizonY, w, h - horizonY);
-      
-      ctx.save();
+      // 3. Distant skyline, scrolling faster than the sun
+      ctx.fillStyle = '#1a0f2e';
       ctx.beginPath();
-      ctx.strokeStyle = '#ff00aa';
-      ctx.lineWidth = 1;
-      ctx.globalAlpha = 0.3;
-      
-      // Vertical Grid Lines (Perspective)
-      const fov = 300;
-      for (let x = -w; x < w * 2; x += 100) {
-         // Simple perspective projection roughly
-         ctx.moveTo(x + state.bgOffset, horizonY);
-         // Fan out
-         const distFromCenter = x - centerX;
-         ctx.lineTo(centerX + (distFromCenter + state.bgOffset) * 4, h);
-      }
-      
-      // Horizontal Grid Lines (Moving)
-      const gridSpeed = state.speed * 1000;
-      const gridSpacing = 100;
-      const gridOffset = (state.roadOffset % gridSpacing);
-      
-      // We want lines to get closer together near horizon
-      // Pseudo-3D Z approach
-      for (let z = 0; z < 1000; z+=100) {
-         const effectiveZ = z - gridOffset;
-         if (effectiveZ < 10) continue;
-         const screenY = h - (50000 / (effectiveZ + 200)); // simple projection math
-         if (screenY < horizonY) continue;
-         
-         ctx.moveTo(0, screenY);
-         ctx.lineTo(w, screenY);
+      ctx.moveTo(0, horizonY);
+      const skylineShift = ((state.bgOffset * 2) % SKYLINE_PERIOD + SKYLINE_PERIOD) % SKYLINE_PERIOD;
+      for (let x = -skylineShift; x <= w + SKYLINE_PERIOD; x += 40) {
+        const phase = (x + skylineShift) / SKYLINE_PERIOD * Math.PI * 2;
+        ctx.lineTo(x, horizonY - 30 - 25 * Math.sin(phase * 3) * Math.sin(phase * 5 + 1));
       }
-      ctx.stroke();
-      ctx.restore();
-
-      // 4. Road
-      ctx.save();
-      ctx.beginPath();
-      // Trapezoid Road
-      const p1 = { x: centerX - roadTopW, y: horizonY };
-      const p2 = { x: centerX + roadTopW, y: horizonY };
-      const p3 = { x: centerX + roadBottomW * 0.6, y: h }; // slightly narrower at bottom than full screen
-      const p4 = { x: centerX - roadBottomW * 0.6, y: h };
-      
-      // Clip road area
-      ctx.moveTo(p1.x, p1.y);
-      ctx.lineTo(p2.x, p2.y);
-      ctx.lineTo(p3.x, p3.y);
-      ctx.lineTo(p4.x, p4.y);
+      ctx.lineTo(w, horizonY);
       ctx.closePath();
-      ctx.clip();
+      ctx.fill();
 
-      // Draw Road Surface
-      ctx.fillStyle = '#222';
-      ctx.fillRect(0, 0, w, h);
-      
-      // Moving Lane Lines
-      ctx.strokeStyle = state.isBoosting ? '#00ffff' : '#ffffff';
-      ctx.lineWidth = 4;
-      ctx.beginPath();
-      // Draw centered lane markers with perspective logic
-      let laneOffset = -(state.roadOffset % 200);
-      for (let i = 0; i < 20; i++) {
-        const z = i * 200 + laneOffset;
-        if (z < 10) continue;
-        const scale = 1000 / (z + 1000);
-        const y = h - (h - horizonY) * (1 - scale * 0.5); // fake mapping
-        // Better linear interpolation for road strip
-        // t goes 0 (horizon) to 1 (bottom)
-        const t = (i * 0.1) - (state.roadOffset % 100) / 1000;
-        // Simple manual drawing
-        const ly = horizonY + (h - horizonY) * ((i % 10) / 10 + (state.roadOffset % 100)/1000 * 0.1);
-        // This is getting messy, let's revert to simple 2D drawing projected to the trapezoid clip
-      }
-      // Re-do simple lines:
-      const laneCount = 8;
-      const phase = (state.roadOffset % 100) / 100; // 0 to 1
-      for (let i = 0; i < laneCount; i++) {
-        const t = (i + phase) / laneCount; // 0 (near) to 1 (far) - wait, 0 should be horizon
-        // Let's go t=0 at horizon, t=1 at bottom
-        const t2 = Math.pow((i + 1 - phase) / laneCount, 3); // exponential for perspective
-        const y = horizonY + (h - horizonY) * t2;
-        const yNext = horizonY + (h - horizonY) * Math.pow((i + 1.6 - phase) / laneCount, 3);
-        const bw = 2 + t2 * 10;
-        
-        if (t2 > 0 && t2 < 1) {
-           ctx.fillStyle = state.isBoosting ? '#00ffff' : '#fff';
-           ctx.fillRect(centerX - bw/2, y, bw, (yNext - y) * 0.5);
+      ctx.fillStyle = GROUND_COLOR;
+      ctx.fillRect(0, horizonY, w, h - horizonY);
+
+      // 4. Road, near to far. Each segment only shows above the road already drawn in front of it,
+      // so the crest of a hill hides whatever lies beyond.
+      for (let n = 0; n < view.segments.length; n++) {
+        const seg = view.segments[n];
+        const { p1, p2, off1, off2, y1, y2, z1, z2 } = seg;
+        if (!seg.visible || !p1 || !p2) continue;
+        const partlyHidden = p1.y > seg.clip;
+        if (partlyHidden) {
+          ctx.save();
+          ctx.beginPath();
+          ctx.rect(0, 0, w, seg.clip);
+          ctx.clip();
+        }
+
+        // Ground
+        ctx.fillStyle = GROUND_COLOR;
+        ctx.fillRect(0, p2.y, w, p1.y - p2.y + 1);
+
+        // Grid: lines across every few segments, and lines along the ground that follow the bends
+        ctx.strokeStyle = '#ff00aa';
+        ctx.globalAlpha = 0.3;
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        if (seg.index % GRID_SEGMENTS === 0) {
+          ctx.moveTo(0, p1.y);
+          ctx.lineTo(w, p1.y);
+        }
+        for (let k = -GRID_LINES; k <= GRID_LINES; k++) {
+          const a = project(k * GRID_SPACING + off1, y1, z1, camera, viewport);
+          const b = project(k * GRID_SPACING + off2, y2, z2, camera, viewport);
+          if (!a || !b) continue;
+          ctx.moveTo(a.x, a.y);
+          ctx.lineTo(b.x, b.y);
+        }
+        ctx.stroke();
+        ctx.globalAlpha = 1.0;
+
+        // Tarmac, neon rumble strips and the centre line
+        const stripe = Math.floor(seg.index / RUMBLE_LENGTH) % 2 === 0;
+        const r1 = projectedSize(p1, ROAD_WIDTH, viewport);
+        const r2 = projectedSize(p2, ROAD_WIDTH, viewport);
+        const quad = (x1: number, w1: number, x2: number, w2: number, color: string) => {
+          ctx.fillStyle = color;
+          ctx.beginPath();
+          ctx.moveTo(x1 - w1, p1.y);
+          ctx.lineTo(x1 + w1, p1.y);
+          ctx.lineTo(x2 + w2, p2.y);
+          ctx.lineTo(x2 - w2, p2.y);
+          ctx.closePath();
+          ctx.fill();
+        };
+        const edgeColor = state.isBoosting ? '#00ffff' : '#ff0055';
+        quad(p1.x, r1 * 1.08, p2.x, r2 * 1.08, stripe ? edgeColor : '#111');
+        quad(p1.x, r1, p2.x, r2, stripe ? '#222' : '#262626');
+        if (stripe) {
+          quad(p1.x, r1 * 0.02, p2.x, r2 * 0.02, state.isBoosting ? '#00ffff' : '#fff');
+        }
+
+        // Chequered finish line, glowing checkpoint gates
+        if (gateSegment(seg.index) === finishSegment) {
+          const squares = 8;
+          for (let i = 0; i < squares; i++) {
+            const a = -1 + (2 * i) / squares;
+            const b = a + 2 / squares;
+            ctx.fillStyle = i % 2 === 0 ? '#fff' : '#000';
+            ctx.beginPath();
+            ctx.moveTo(p1.x + a * r1, p1.y);
+            ctx.lineTo(p1.x + b * r1, p1.y);
+            ctx.lineTo(p2.x + b * r2, p2.y);
+            ctx.lineTo(p2.x + a * r2, p2.y);
+            ctx.closePath();
+            ctx.fill();
+          }
+        } else if (checkpointSegments.includes(gateSegment(seg.index))) {
+          ctx.globalAlpha = 0.6;
+          quad(p1.x, r1, p2.x, r2, '#00ffff');
+          ctx.globalAlpha = 1.0;
         }
+
+        if (partlyHidden) ctx.restore();
       }
-      ctx.restore();
 
-      // Road Borders (Neon)
-      ctx.beginPath();
-      ctx.strokeStyle = state.isBoosting ? '#00ffff' : '#ff0055';
-      ctx.lineWidth = 4;
-      ctx.shadowBlur = 10;
-      ctx.shadowColor = ctx.strokeStyle;
-      ctx.moveTo(p1.x, p1.y);
-      ctx.lineTo(p4.x, p4.y);
-      ctx.moveTo(p2.x, p2.y);
-      ctx.lineTo(p3.x, p3.y);
-      ctx.stroke();
-      ctx.shadowBlur = 0;
-
-      // 5. Entities
-      state.entities.forEach(ent => {
-        // Simple projection scale
-        const progress = (ent.y - horizonY) / (h - horizonY);
-        const scale = 0.5 + progress * 2.5;
-        const roadW = roadTopW * 2 + (roadBottomW * 0.6 * 2 - roadTopW * 2) * progress;
-        const screenX = centerX + ent.x * (roadW / 2);
-        
+      // 5. Entities and the player car, far to near, each clipped by the road in front of it
+      const drawEntity = (ent: SimEntity) => {
+        const placed = placeOnRoad(view, ent.x, ent.z);
+        if (!placed) return;
+        const { point, clip } = placed;
+        const size = projectedSize(point, ENTITY_SIZE[ent.type], viewport);
+        if (point.y - size * 2 > clip) return; // Entirely behind a hill
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(0, 0, w, clip);
+        ctx.clip();
+        const screenX = point.x;
+        const screenY = point.y - (FLAT_ENTITIES.includes(ent.type) ? 0 : size);
+
         if (ent.type === 'orb') {
           // Glow
           ctx.shadowBlur = 20;
           ctx.shadowColor = '#00ffff';
           ctx.fillStyle = '#fff';
           ctx.beginPath();
-          ctx.arc(screenX, ent.y, 10 * scale, 0, Math.PI * 2);
+          ctx.arc(screenX, screenY, size, 0, Math.PI * 2);
           ctx.fill();
           ctx.fillStyle = '#00ffff';
           ctx.beginPath();
-          ctx.arc(screenX, ent.y, 6 * scale, 0, Math.PI * 2);
+          ctx.arc(screenX, screenY, size * 0.6, 0, Math.PI * 2);
           ctx.fill();
           ctx.shadowBlur = 0;
         } else if (ent.type === 'rock') {
           ctx.fillStyle = '#444';
           ctx.beginPath();
-          ctx.arc(screenX, ent.y, 15 * scale, 0, Math.PI * 2);
+          ctx.arc(screenX, screenY, size, 0, Math.PI * 2);
           ctx.fill();
           // Highlight
           ctx.fillStyle = '#666';
           ctx.beginPath();
-          ctx.arc(screenX - 5*scale, ent.y - 5*scale, 5 * scale, 0, Math.PI * 2);
+          ctx.arc(screenX - size / 3, screenY - size / 3, size / 3, 0, Math.PI * 2);
           ctx.fill();
+        } else if (ent.type === 'oil') {
+          // Slick with a rainbow sheen
+          ctx.fillStyle = '#111';
+          ctx.globalAlpha = 0.85;
+          ctx.beginPath();
+          ctx.ellipse(screenX, screenY, size, size / 4, 0, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.strokeStyle = '#6633aa';
+          ctx.lineWidth = Math.max(1, size / 30);
+          ctx.beginPath();
+          ctx.ellipse(screenX - size / 4, screenY, size / 3, size / 12, 0, 0, Math.PI * 2);
+          ctx.stroke();
+          ctx.globalAlpha = 1.0;
+        } else if (ent.type === 'speedPad') {
+          // Glowing chevrons pointing down the road
+          ctx.fillStyle = 'rgba(255, 204, 0, 0.25)';
+          ctx.fillRect(screenX - size, screenY - size / 4, size * 2, size / 4);
+          ctx.strokeStyle = '#ffcc00';
+          ctx.lineWidth = Math.max(1, size / 15);
+          ctx.shadowBlur = 10;
+          ctx.shadowColor = '#ffcc00';
+          for (let i = -1; i <= 1; i++) {
+            const cx = screenX + i * size * 0.6;
+            ctx.beginPath();
+            ctx.moveTo(cx - size / 4, screenY - size / 16);
+            ctx.lineTo(cx, screenY - size / 5);
+            ctx.lineTo(cx + size / 4, screenY - size / 16);
+            ctx.stroke();
+          }
+          ctx.shadowBlur = 0;
+        } else if (ent.type === 'shield') {
+          // Green hexagon
+          ctx.shadowBlur = 20;
+          ctx.shadowColor = '#00ff88';
+          ctx.strokeStyle = '#00ff88';
+          ctx.fillStyle = 'rgba(0, 255, 136, 0.3)';
+          ctx.lineWidth = Math.max(1, size / 6);
+          ctx.beginPath();
+          for (let i = 0; i < 6; i++) {
+            const angle = (i / 6) * Math.PI * 2 + timestamp / 500;
+            const px = screenX + Math.cos(angle) * size;
+            const py = screenY + Math.sin(angle) * size;
+            if (i === 0) ctx.moveTo(px, py); else ctx.lineTo(px, py);
+          }
+          ctx.closePath();
+          ctx.fill();
+          ctx.stroke();
+          ctx.shadowBlur = 0;
+        } else if (ent.type === 'traffic') {
+          // Another car, seen from behind
+          const bodyH = size * 0.9;
+          const baseY = point.y;
+          ctx.fillStyle = '#1a1a2e';
+          ctx.fillRect(screenX - size, baseY - bodyH, size * 2, bodyH);
+          ctx.strokeStyle = '#ffcc00';
+          ctx.lineWidth = Math.max(1, size / 25);
+          ctx.strokeRect(screenX - size, baseY - bodyH, size * 2, bodyH);
+          ctx.fillStyle = '#111';
+          ctx.fillRect(screenX - size * 0.7, baseY - bodyH * 1.4, size * 1.4, bodyH * 0.4);
+          ctx.shadowBlur = 10;
+          ctx.shadowColor = '#ff0000';
+          ctx.fillStyle = '#ff2233';
+          ctx.fillRect(screenX - size * 0.9, baseY - bodyH * 0.6, size * 0.3, bodyH * 0.2);
+          ctx.fillRect(screenX + size * 0.6, baseY - bodyH * 0.6, size * 0.3, bodyH * 0.2);
+          ctx.shadowBlur = 0;
         } else {
-           // Oil
-           ctx.fillStyle = '#111';
-           ctx.globalAlpha = 0.8;
-           ctx.beginPath();
-           ctx.ellipse(screenX, ent.y, 20 * scale, 10 * scale, 0, 0, Math.PI * 2);
-           ctx.fill();
-           ctx.globalAlpha = 1.0;
+          // Barrier: a striped beam across part of the road
+          const beamH = size * 0.15;
+          const baseY = point.y - beamH * 0.5;
+          const stripes = 8;
+          for (let i = 0; i < stripes; i++) {
+            ctx.fillStyle = i % 2 === 0 ? '#ff0055' : '#fff';
+            ctx.fillRect(screenX - size + (i * size * 2) / stripes, baseY - beamH, (size * 2) / stripes, beamH);
+          }
+          ctx.fillStyle = '#333';
+          ctx.fillRect(screenX - size * 0.9, baseY, size * 0.08, beamH * 0.5);
+          ctx.fillRect(screenX + size * 0.82, baseY, size * 0.08, beamH * 0.5);
         }
-      });
+        ctx.restore();
+      };
+
+      const byDistance = [...state.entities].sort((a, b) => b.z - a.z);
+      byDistance.filter(ent => ent.z > view.playerZ).forEach(drawEntity);
+
+      // Other cars on the road: the ghost is a see-through outline wherever the recorded run is at this tick,
+      // an online opponent a solid car wherever their run is, corrections eased in
+      const rivals: { playerX: number; z: number; text: string; color: string; fill: string; alpha: number }[] = [];
+      const ghostState = gameState !== GameState.REPLAY ? ghostRef.current?.getState() : undefined;
+      if (ghostState && !isRunOver(ghostState)) {
+        rivals.push({
+          playerX: ghostState.playerX, z: ghostState.position + PLAYER_Z,
+          text: 'GHOST', color: '#ff66ff', fill: 'rgba(255, 102, 255, 0.25)', alpha: 0.45
+        });
+      }
+      const opponentView = opponent && gameState !== GameState.REPLAY ? opponent.view(state.tick, dt) : null;
+      if (opponentView && !opponentView.state.crashed) {
+        rivals.push({
+          playerX: opponentView.playerX, z: opponentView.position + PLAYER_Z,
+          text: (opponentName || 'OPPONENT').toUpperCase(), color: '#fb923c', fill: 'rgba(251, 146, 60, 0.85)', alpha: 1
+        });
+      }
+      const drawRival = (rival: typeof rivals[number]) => {
+        const placed = placeOnRoad(view, rival.playerX, rival.z);
+        if (!placed || placed.point.y - 40 > placed.clip) return;
+        const { point, clip } = placed;
+        const scale = projectedSize(point, CAR_WORLD_WIDTH, viewport) / CAR_WIDTH;
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(0, 0, w, clip);
+        ctx.clip();
+        ctx.translate(point.x, point.y - (CAR_HEIGHT / 2) * scale);
+        ctx.scale(scale, scale);
+        ctx.globalAlpha = rival.alpha;
+        ctx.shadowBlur = 15;
+        ctx.shadowColor = rival.color;
+        ctx.fillStyle = rival.fill;
+        ctx.fillRect(-CAR_WIDTH/2, -CAR_HEIGHT/2, CAR_WIDTH, CAR_HEIGHT);
+        ctx.strokeStyle = rival.color;
+        ctx.lineWidth = 3;
+        ctx.strokeRect(-CAR_WIDTH/2, -CAR_HEIGHT/2, CAR_WIDTH, CAR_HEIGHT);
+        ctx.shadowBlur = 0;
+        ctx.globalAlpha = 0.8;
+        ctx.fillStyle = rival.color;
+        ctx.font = 'bold 14px Orbitron';
+        ctx.textAlign = 'center';
+        ctx.fillText(rival.text, 0, -CAR_HEIGHT/2 - 10);
+        ctx.restore();
+      };
+      // Furthest first, so nearer cars draw over them
+      rivals.sort((a, b) => b.z - a.z);
+      rivals.filter(rival => rival.z >= view.playerZ).forEach(drawRival);
 
       // 6. Player Car
-      const playerScreenY = h - 100;
-      const playerRoadW = roadTopW * 2 + (roadBottomW * 0.6 * 2 - roadTopW * 2) * ((playerScreenY - horizonY)/(h - horizonY));
-      const playerScreenX = centerX + state.playerX * (playerRoadW / 2);
+      const car = placeOnRoad(view, state.playerX, view.playerZ);
+      if (car) {
+        const carScale = projectedSize(car.point, CAR_WORLD_WIDTH, viewport) / CAR_WIDTH;
+        ctx.save();
+        ctx.translate(car.point.x, car.point.y - (CAR_HEIGHT / 2) * carScale);
+        ctx.scale(carScale, carScale);
+        // Flickers while shielded after a time attack respawn
+        if (state.respawn > 0) ctx.globalAlpha = Math.floor(timestamp / 100) % 2 === 0 ? 0.3 : 0.8;
+        // The wrecked car spins out, slowing as the sequence ends
+        const spin = wrecked ? run.crashElapsed * (8 - run.crashElapsed * 2) : 0;
+        // On oil the car spins towards the way it's sliding, straightening as grip returns
+        const slide = state.slip > 0 ? Math.sin(state.slip * 8) * Math.sign(state.slipDrift) * state.slip : 0;
+        ctx.rotate(controlState.steering * 0.3 + spin + slide);
+
+        // Shield bubble, flickering as it runs out
+        if (state.shield > 0 && (state.shield > 1 || Math.floor(timestamp / 100) % 2 === 0)) {
+          ctx.strokeStyle = '#00ff88';
+          ctx.lineWidth = 3;
+          ctx.shadowBlur = 20;
+          ctx.shadowColor = '#00ff88';
+          ctx.beginPath();
+          ctx.ellipse(0, 0, CAR_WIDTH, CAR_HEIGHT * 0.75, 0, 0, Math.PI * 2);
+          ctx.stroke();
+          ctx.shadowBlur = 0;
+        }
 
-      ctx.save();
-      ctx.translate(playerScreenX, playerScreenY);
-      ctx.rotate(controlState.steering * 0.3);
+        // Shadow
+        ctx.fillStyle = 'rgba(0,0,0,0.5)';
+        ctx.beginPath();
+        ctx.ellipse(0, 20, CAR_WIDTH, CAR_HEIGHT/3, 0, 0, Math.PI * 2);
+        ctx.fill();
+
+        // Body
+        ctx.shadowBlur = state.isBoosting ? 30 : 10;
+        ctx.shadowColor = state.isBoosting ? '#00ffff' : '#ff0055';
+        ctx.fillStyle = '#000';
+        ctx.fillRect(-CAR_WIDTH/2, -CAR_HEIGHT/2, CAR_WIDTH, CAR_HEIGHT);
+
+        // Neon Trim
+        ctx.strokeStyle = state.isBoosting ? '#ffffff' : '#00ffff';
+        ctx.lineWidth = 3;
+        ctx.strokeRect(-CAR_WIDTH/2, -CAR_HEIGHT/2, CAR_WIDTH, CAR_HEIGHT);
+
+        // Engine Glow
+        ctx.fillStyle = state.isBoosting ? '#fff' : '#ff5500';
+        ctx.fillRect(-10, CAR_HEIGHT/2 - 5, 20, 10);
+
+        // Brake Lights
+        if (state.isBraking) {
+          ctx.shadowBlur = 20;
+          ctx.shadowColor = '#ff0000';
+          ctx.fillStyle = '#ff2233';
+          ctx.fillRect(-CAR_WIDTH/2 + 3, CAR_HEIGHT/2 - 6, 10, 6);
+          ctx.fillRect(CAR_WIDTH/2 - 13, CAR_HEIGHT/2 - 6, 10, 6);
+        }
 
-      // Shadow
-      ctx.fillStyle = 'rgba(0,0,0,0.5)';
-      ctx.beginPath();
-      ctx.ellipse(0, 20, CAR_WIDTH, CAR_HEIGHT/3, 0, 0, Math.PI * 2);
-      ctx.fill();
+        // Windshield
+        ctx.fillStyle = '#111';
+        ctx.shadowBlur = 0;
+        ctx.fillRect(-CAR_WIDTH/2 + 5, -CAR_HEIGHT/2 + 10, CAR_WIDTH - 10, 20);
+
+        ctx.restore();
+
+        // Boost Trail particles (gold for a speed pad surge)
+        if (simulating && (state.isBoosting || state.surge > 0) && Math.random() > 0.5) {
+          stateRef.current.particles.push({
+            x: car.point.x + (Math.random() - 0.5) * 30,
+            y: car.point.y,
+            vx: (Math.random() - 0.5) * 50,
+            vy: 200, // Move down fast
+            life: 0.5,
+            maxLife: 0.5,
+            color: state.isBoosting ? '#00ffff' : '#ffcc00',
+            size: 3
+          });
+        }
+      }
 
-      // Body
-      ctx.shadowBlur = state.isBoosting ? 30 : 10;
-      ctx.shadowColor = state.isBoosting ? '#00ffff' : '#ff0055';
-      ctx.fillStyle = '#000';
-      ctx.fillRect(-CAR_WIDTH/2, -CAR_HEIGHT/2, CAR_WIDTH, CAR_HEIGHT);
-      
-      // Neon Trim
-      ctx.strokeStyle = state.isBoosting ? '#ffffff' : '#00ffff';
-      ctx.lineWidth = 3;
-      ctx.strokeRect(-CAR_WIDTH/2, -CAR_HEIGHT/2, CAR_WIDTH, CAR_HEIGHT);
-
-      // Engine Glow
-      ctx.fillStyle = state.isBoosting ? '#fff' : '#ff5500';
-      ctx.fillRect(-10, CAR_HEIGHT/2 - 5, 20, 10);
-      
-      // Windshield
-      ctx.fillStyle = '#111';
-      ctx.shadowBlur = 0;
-      ctx.fillRect(-CAR_WIDTH/2 + 5, -CAR_HEIGHT/2 + 10, CAR_WIDTH - 10, 20);
+      rivals.filter(rival => rival.z < view.playerZ).forEach(drawRival);
+      byDistance.filter(ent => ent.z <= view.playerZ).forEach(drawEntity);
 
-      ctx.restore();
+      // Bursts from this frame's events, now that there's a view to place them in
+      for (const burst of run.bursts) {
+        const placed = placeOnRoad(view, burst.x, burst.z);
+        if (placed) createExplosion(placed.point.x, placed.point.y, burst.color);
+      }
+      run.bursts = [];
 
       // 7. Particles
-      state.particles.forEach(p => {
+      stateRef.current.particles.forEach(p => {
         ctx.fillStyle = p.color;
         ctx.globalAlpha = p.life / p.maxLife;
         ctx.fillRect(p.x, p.y, p.size, p.size);
       });
       ctx.globalAlpha = 1.0;
+      ctx.restore();
 
+      // Crash flash
+      if (crashFade > 0) {
+        ctx.fillStyle = `rgba(255, 0, 60, ${0.4 * crashFade})`;
+        ctx.fillRect(0, 0, w, h);
+        ctx.fillStyle = '#fff';
+        ctx.font = 'bold 64px Orbitron';
+        ctx.textAlign = 'center';
+        ctx.globalAlpha = Math.min(1, crashFade * 2);
+        ctx.fillText("WRECKED", w / 2, h / 2);
+        ctx.globalAlpha = 1.0;
+      }
 
       // --- HUD ON CANVAS ---
-      if (gameState === GameState.PLAYING) {
+      const hudVisible = gameState === GameState.PLAYING || gameState === GameState.REPLAY
+        || gameState === GameState.PAUSED || gameState === GameState.COUNTDOWN;
+      if (hudVisible) {
         // Boost Bar
         const barW = 200;
         const barH = 20;
@@ -525,7 +767,8 @@ const RacingGame: React.FC<RacingGameProps> = ({ controlState, gameState, onGame
         ctx.fillStyle = '#fff';
         ctx.font = 'bold 16px Orbitron';
         ctx.textAlign = 'center';
-        ctx.fillText(state.isBoosting ? "HYPER BOOST ACTIVE!" : "BOOST", w/2, barY - 10);
+        const boostReady = !state.isBoosting && state.boost >= 100;
+        ctx.fillText(state.isBoosting ? "HYPER BOOST ACTIVE!" : boostReady ? "BOOST READY - FIRE!" : "BOOST", w/2, barY - 10);
 
         // BG
         ctx.fillStyle = '#333';
@@ -541,8 +784,8 @@ const RacingGame: React.FC<RacingGameProps> = ({ controlState, gameState, onGame
         ctx.fillRect(barX, barY, fillW, barH);
         ctx.shadowBlur = 0;
         
-        // Border
-        ctx.strokeStyle = '#fff';
+        // Border - pulses while a full bar waits to be fired
+        ctx.strokeStyle = boostReady && Math.floor(timestamp / 250) % 2 === 0 ? '#00ffff' : '#fff';
         ctx.lineWidth = 2;
         ctx.strokeRect(barX, barY, barW, barH);
 
@@ -554,8 +797,70 @@ const RacingGame: React.FC<RacingGameProps> = ({ controlState, gameState, onGame
         
         ctx.textAlign = 'left';
         ctx.fillStyle = '#00ffff';
-        const displaySpeed = Math.floor(state.speed * 180);
-        ctx.fillText(`SPEED: ${displaySpeed} KM/H`, 20, 40);
+        const displaySpeed = Math.floor(Math.abs(state.speed) * SPEED_TO_KMH);
+        ctx.fillText(`SPEED: ${displaySpeed} KM/H${state.speed < 0 ? ' [R]' : ''}`, 20, 40);
+
+        if (gameState === GameState.REPLAY) {
+          ctx.fillStyle = '#ff0055';
+          ctx.font = 'bold 16px Orbitron';
+          ctx.fillText(`● REPLAY  SEED ${state.seed}`, 20, 70);
+        } else if (label) {
+          ctx.fillStyle = '#fff';
+          ctx.font = 'bold 20px Orbitron';
+          ctx.fillText(label, 20, 70);
+        }
+
+        // Race clock and checkpoints on a track with a finish
+        ctx.textAlign = 'right';
+        ctx.font = '20px Orbitron';
+        ctx.fillStyle = '#fff';
+        if (timeAttack) {
+          // Lap clock, best lap and the live gap to it
+          const best = tracerRef.current.getBest();
+          const delta = tracerRef.current.getDelta(state);
+          ctx.fillText(`LAP ${Math.min(state.lap + 1, TIME_ATTACK_LAPS)}/${TIME_ATTACK_LAPS}`, w - 20, 70);
+          ctx.fillText(`TIME ${formatRaceTime(state.clock - state.lapStart)}`, w - 20, 96);
+          if (best) ctx.fillText(`BEST ${formatRaceTime(best.ticks)}`, w - 20, 122);
+          if (delta !== null) {
+            ctx.font = 'bold 28px Orbitron';
+            ctx.fillStyle = delta <= 0 ? '#00ff88' : '#ff3366';
+            ctx.fillText(formatDelta(delta), w - 20, 156);
+          }
+        } else if (course.finishZ !== null) {
+          ctx.fillText(`TIME ${formatRaceTime(state.clock)}`, w - 20, 70);
+          if (course.checkpoints.length > 0) {
+            ctx.fillText(`CP ${state.checkpoint}/${course.checkpoints.length}`, w - 20, 96);
+          }
+        }
+      }
+
+      const banner = run.banner;
+      if (banner && timestamp < banner.until) {
+        ctx.textAlign = 'center';
+        ctx.font = 'bold 36px Orbitron';
+        ctx.fillStyle = banner.color;
+        ctx.shadowBlur = 20;
+        ctx.shadowColor = banner.color;
+        ctx.fillText(banner.text, w / 2, horizonY - 40);
+        ctx.shadowBlur = 0;
+      }
+
+      // Start countdown: 3-2-1, then GO as the race begins
+      if (gameState === GameState.COUNTDOWN || (gameState === GameState.PLAYING && run.countdownElapsed < COUNTDOWN_SECONDS + 1)) {
+        const remaining = COUNTDOWN_SECONDS - Math.floor(run.countdownElapsed);
+        const pop = 1 - (run.countdownElapsed % 1); // Each number shrinks into place
+        ctx.save();
+        ctx.translate(w / 2, h / 2);
+        ctx.scale(1 + pop * 0.5, 1 + pop * 0.5);
+        ctx.font = 'bold 120px Orbitron';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.shadowBlur = 30;
+        ctx.shadowColor = remaining > 0 ? '#ff0055' : '#00ffff';
+        ctx.fillStyle = '#fff';
+        if (remaining <= 0) ctx.globalAlpha = pop;
+        ctx.fillText(remaining > 0 ? String(remaining) : "GO!", 0, 0);
+        ctx.restore();
       }
 
       animationFrameId = requestAnimationFrame(gameLoop);
@@ -565,22 +870,56 @@ const RacingGame: React.FC<RacingGameProps> = ({ controlState, gameState, onGame
 
     return () => {
       cancelAnimationFrame(animationFrameId);
-      if (audioCtxRef.current) audioCtxRef.current.close();
-      audioCtxRef.current = null;
+      engine.stop();
     };
-  }, [controlState, gameState, onGameOver]);
+  }, []);
+
+  // Every run starts from a fresh seeded world so its recording can be replayed from tick 0.
+  // Only a new run id resets; pausing and resuming carry on with the same world.
+  useEffect(() => {
+    const { trackId, mode, ghost, seed } = propsRef.current;
+    simRef.current = createSimState(seed ?? createSeed(), loadCourse(trackId), mode);
+    tracerRef.current = createLapTracer(getBestLap(trackId));
+    ghostRef.current = ghost && ghost.trackId === trackId && ghost.mode === mode ? createGhost(ghost) : null;
+    recorderRef.current = createReplayRecorder(simRef.current.seed);
+    stateRef.current = {
+      ...stateRef.current,
+      particles: [],
+      countdownElapsed: 0,
+      countdownBeeps: 0,
+      crashElapsed: 0,
+      resultsSent: false,
+      ahead: new Set(),
+      banner: null,
+    };
+    clockRef.current.clearAccumulator();
+  }, [runId]);
 
-  // Handle Resize
+  // Load the replay world from its seed, and rebuild it when scrubbing
   useEffect(() => {
+    if (gameState !== GameState.REPLAY || !replay) return;
+    const { state, read } = simulateReplayTo(replay, replaySeek?.tick ?? 0);
+    simRef.current = state;
+    replayReaderRef.current = read;
+    tracerRef.current = createLapTracer(getBestLap(replay.trackId));
+    stateRef.current.particles = [];
+    stateRef.current.ahead = new Set();
+    clockRef.current.clearAccumulator();
+    onReplayProgress?.(state.tick);
+  }, [gameState, replay, replaySeek]);
+
+  // Handle Resize - the canvas matches its box, which is half the view in a versus race
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
     const handleResize = () => {
-      if (canvasRef.current) {
-        canvasRef.current.width = window.innerWidth;
-        canvasRef.current.height = window.innerHeight;
-      }
+      canvas.width = canvas.clientWidth;
+      canvas.height = canvas.clientHeight;
     };
-    window.addEventListener('resize', handleResize);
+    const observer = new ResizeObserver(handleResize);
+    observer.observe(canvas);
     handleResize();
-    return () => window.removeEventListener('resize', handleResize);
+    return () => observer.disconnect();
   }, []);
 
   return <canvas ref={canvasRef} className="block w-full h-full bg-zinc-900" />;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { REPLAY_SPEEDS, formatReplayTime } from '../services/replayService';
+import { Pause, Play, X } from 'lucide-react';
+
+interface ReplayControlsProps {
+  duration: number;
+  position: number;
+  paused: boolean;
+  speed: number;
+  onTogglePause: () => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  duration, position, paused, speed, onTogglePause, onSeek, onSpeedChange, onExit
+}) => {
+  return (
+    <div className="absolute bottom-4 left-4 right-4 z-40 bg-black/70 backdrop-blur-md border border-cyan-500/40 rounded-xl p-3 flex items-center gap-3">
+      <button
+        onClick={onTogglePause}
+        className="w-10 h-10 rounded-full bg-cyan-500 text-black flex items-center justify-center hover:bg-cyan-400"
+      >
+        {paused ? <Play size={18} fill="currentColor" /> : <Pause size={18} fill="currentColor" />}
+      </button>
+
+      <span className="font-mono text-xs text-gray-300 w-24 text-center">
+        {formatReplayTime(position)} / {formatReplayTime(duration)}
+      </span>
+
+      {/* Scrub Bar */}
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        value={position}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="flex-1 accent-cyan-400"
+      />
+
+      <div className="flex gap-1">
+        {REPLAY_SPEEDS.map(option => (
+          <button
+            key={option}
+            onClick={() => onSpeedChange(option)}
+            className={`px-2 py-1 rounded text-xs font-mono font-bold ${
+              option === speed ? 'bg-cyan-500 text-black' : 'bg-zinc-800 text-gray-400 hover:text-white'
+            }`}
+          >
+            {option}x
+          </button>
+        ))}
+      </div>
+
+      <button onClick={onExit} className="text-gray-400 hover:text-white">
+        <X size={20} />
+      </button>
+    </div>
+  );
+};
+
+export default ReplayControls;
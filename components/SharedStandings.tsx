@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { RaceMode } from '../services/simulation';
+import { formatRaceTime } from '../services/trackService';
+import { fetchStandings, watchServer } from '../services/kioskServerClient';
+import type { ServerRun } from '../server/protocol';
+
+interface SharedStandingsProps {
+  serverUrl: string;
+  trackId: string;
+  mode: RaceMode;
+  highlightId?: string | null; // This machine's latest run
+}
+
+// The event-wide standings from the kiosk server, updated live as other machines post runs
+const SharedStandings: React.FC<SharedStandingsProps> = ({ serverUrl, trackId, mode, highlightId = null }) => {
+  const [runs, setRuns] = useState<ServerRun[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [live, setLive] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    let wasDown = false;
+    const load = () => fetchStandings(serverUrl, trackId, mode)
+      .then(loaded => {
+        if (cancelled) return;
+        setRuns(loaded);
+        setError(null);
+      })
+      .catch(err => {
+        console.error("Failed to load shared standings", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "Could not reach the leaderboard server");
+      });
+    load();
+    const stopWatching = watchServer(serverUrl, message => {
+      if (message.type === 'run' && message.run.trackId === trackId && message.run.mode === mode) setRuns(message.standings);
+    }, connected => {
+      if (cancelled) return;
+      setLive(connected);
+      // Runs posted while the feed was down never reached us
+      if (connected && wasDown) load();
+      wasDown = !connected;
+    });
+    return () => {
+      cancelled = true;
+      stopWatching();
+    };
+  }, [serverUrl, trackId, mode, highlightId]);
+
+  if (error) return <p className="text-xs text-yellow-300">{error}</p>;
+  if (!runs) return <p className="text-xs text-white/60">Loading event standings...</p>;
+
+  return (
+    <div>
+      {!live && <p className="text-xs text-yellow-300 mb-1">Live updates lost, reconnecting...</p>}
+      <table className="w-full font-mono text-xs text-left text-white">
+        <tbody>
+          {runs.map((run, i) => (
+            <tr key={run.id} className={run.id === highlightId ? 'text-yellow-300 font-bold' : ''}>
+              <td className="py-0.5 pr-2">{i + 1}</td>
+              <td className="truncate max-w-[8rem]">{run.playerName}</td>
+              <td className="text-white/50">{run.kiosk}</td>
+              <td className="text-right">{run.finished ? formatRaceTime(run.time) : run.score}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default SharedStandings;
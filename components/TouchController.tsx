@@ -0,0 +1,136 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { InputDriverProps } from '../types';
+
+const TouchController: React.FC<InputDriverProps> = ({ onControlUpdate, isActive }) => {
+  const padRef = useRef<HTMLDivElement>(null);
+  const steeringRef = useRef(0);
+  const throttleRef = useRef(0);
+  const brakeRef = useRef(0);
+  const boostRef = useRef(false);
+  const requestRef = useRef<number | null>(null);
+  const [display, setDisplay] = useState({ steering: 0, throttle: 0, brake: 0, boost: false });
+
+  const updateSteering = (clientX: number) => {
+    const pad = padRef.current;
+    if (!pad) return;
+    const rect = pad.getBoundingClientRect();
+    // Center of the pad is straight ahead, edges are full lock
+    const normalized = ((clientX - rect.left) / rect.width) * 2 - 1;
+    steeringRef.current = Math.max(-1, Math.min(1, normalized));
+    setDisplay(d => ({ ...d, steering: steeringRef.current }));
+  };
+
+  const releaseSteering = () => {
+    steeringRef.current = 0;
+    setDisplay(d => ({ ...d, steering: 0 }));
+  };
+
+  const setThrottle = (value: number) => {
+    throttleRef.current = value;
+    setDisplay(d => ({ ...d, throttle: value }));
+  };
+
+  const setBrake = (value: number) => {
+    brakeRef.current = value;
+    setDisplay(d => ({ ...d, brake: value }));
+  };
+
+  const setBoost = (value: boolean) => {
+    boostRef.current = value;
+    setDisplay(d => ({ ...d, boost: value }));
+  };
+
+  // Emit Loop
+  useEffect(() => {
+    if (!isActive) return;
+
+    const loop = () => {
+      onControlUpdate({
+        steering: steeringRef.current,
+        throttle: throttleRef.current,
+        brake: brakeRef.current,
+        boost: boostRef.current,
+        isTracking: true,
+        handsDetected: 0,
+        debugMessage: "Touch Ready"
+      });
+      requestRef.current = requestAnimationFrame(loop);
+    };
+
+    requestRef.current = requestAnimationFrame(loop);
+    return () => {
+      if (requestRef.current) cancelAnimationFrame(requestRef.current);
+    };
+  }, [isActive, onControlUpdate]);
+
+  return (
+    <div className="relative w-full h-full flex gap-3 p-4 pb-28 bg-black border border-gray-800 select-none touch-none">
+      {/* Steering Pad - drag horizontally */}
+      <div
+        ref={padRef}
+        className="relative flex-1 rounded-xl bg-zinc-800/60 border border-cyan-500/30 overflow-hidden"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          updateSteering(e.clientX);
+        }}
+        onPointerMove={(e) => {
+          if (e.currentTarget.hasPointerCapture(e.pointerId)) updateSteering(e.clientX);
+        }}
+        onPointerUp={releaseSteering}
+        onPointerCancel={releaseSteering}
+      >
+        <div className="absolute inset-y-0 left-1/2 w-px bg-gray-600" />
+        <div
+          className="absolute top-1/2 w-10 h-10 -mt-5 -ml-5 rounded-full bg-cyan-400 shadow-[0_0_15px_rgba(34,211,238,0.8)]"
+          style={{ left: `${(display.steering + 1) * 50}%` }}
+        />
+        <span className="absolute top-2 left-0 right-0 text-center text-xs font-bold text-cyan-400 tracking-widest">STEER</span>
+      </div>
+
+      {/* Pedals - hold */}
+      <div className="w-24 flex flex-col gap-3">
+        <button
+          className={`h-14 rounded-xl border font-black tracking-widest text-xs transition-colors ${
+            display.boost ? 'bg-cyan-400 border-cyan-200 text-black' : 'bg-zinc-800/60 border-cyan-500/40 text-cyan-400'
+          }`}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            setBoost(true);
+          }}
+          onPointerUp={() => setBoost(false)}
+          onPointerCancel={() => setBoost(false)}
+        >
+          BOOST
+        </button>
+        <button
+          className={`flex-[2] rounded-xl border font-black tracking-widest transition-colors ${
+            display.throttle > 0 ? 'bg-yellow-400 border-yellow-200 text-black' : 'bg-zinc-800/60 border-yellow-500/40 text-yellow-400'
+          }`}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            setThrottle(1);
+          }}
+          onPointerUp={() => setThrottle(0)}
+          onPointerCancel={() => setThrottle(0)}
+        >
+          GAS
+        </button>
+        <button
+          className={`flex-1 rounded-xl border font-black tracking-widest text-sm transition-colors ${
+            display.brake > 0 ? 'bg-red-500 border-red-300 text-black' : 'bg-zinc-800/60 border-red-500/40 text-red-400'
+          }`}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            setBrake(1);
+          }}
+          onPointerUp={() => setBrake(0)}
+          onPointerCancel={() => setBrake(0)}
+        >
+          BRAKE
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TouchController;
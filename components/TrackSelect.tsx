@@ -0,0 +1,54 @@
+import React from 'react';
+import { BUILT_IN_TRACKS, ENDLESS_TRACK_ID } from '../services/trackService';
+import { Check, Flag, Infinity as InfinityIcon, X } from 'lucide-react';
+
+interface TrackSelectProps {
+  selectedTrack: string;
+  onSelect: (id: string) => void;
+  onCancel: () => void;
+}
+
+const TrackSelect: React.FC<TrackSelectProps> = ({ selectedTrack, onSelect, onCancel }) => {
+  const optionClass = (selected: boolean) =>
+    `w-full p-3 rounded-lg border text-left transition-colors ${
+      selected ? 'bg-cyan-500/20 border-cyan-400' : 'bg-black/50 border-gray-800 hover:border-gray-600'
+    }`;
+
+  return (
+    <div className="max-w-md w-full p-8 bg-zinc-900/90 border border-cyan-500/50 rounded-2xl shadow-[0_0_50px_rgba(6,182,212,0.3)]">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-black text-white font-orbitron tracking-wider flex items-center gap-2">
+          <Flag className="text-cyan-400" /> TRACKS
+        </h2>
+        <button data-gesture-target onClick={onCancel} className="text-gray-500 hover:text-white">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+        <button data-gesture-target onClick={() => onSelect(ENDLESS_TRACK_ID)} className={optionClass(selectedTrack === ENDLESS_TRACK_ID)}>
+          <div className="flex items-center justify-between font-bold text-white">
+            <span className="flex items-center gap-2"><InfinityIcon size={16} className="text-cyan-400" /> ENDLESS</span>
+            {selectedTrack === ENDLESS_TRACK_ID && <Check size={16} className="text-cyan-400" />}
+          </div>
+          <p className="text-xs text-gray-400 mt-1">A random road that never ends. Survive and chase a high score.</p>
+        </button>
+
+        {BUILT_IN_TRACKS.map(track => (
+          <button key={track.id} data-gesture-target onClick={() => onSelect(track.id)} className={optionClass(selectedTrack === track.id)}>
+            <div className="flex items-center justify-between font-bold text-white">
+              <span>{track.name.toUpperCase()}</span>
+              {selectedTrack === track.id && <Check size={16} className="text-cyan-400" />}
+            </div>
+            <p className="text-xs text-gray-400 mt-1">{track.description}</p>
+            <p className="text-xs text-gray-500 font-mono mt-1">
+              {track.finish} SEGMENTS · {track.checkpoints.length} CHECKPOINTS
+            </p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TrackSelect;
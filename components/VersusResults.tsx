@@ -0,0 +1,46 @@
+import React from 'react';
+import { RunResult } from '../services/simulation';
+import { compareRuns } from '../services/ranking';
+import { formatRaceTime } from '../services/trackService';
+import { Trophy } from 'lucide-react';
+
+export const PLAYER_COLORS = ['#22d3ee', '#f472b6'];
+
+interface VersusResultsProps {
+  results: RunResult[]; // Player 1 first
+  names?: string[]; // Online races show who was driving; versus halves are P1 and P2
+}
+
+// Both players' runs side by side; the winner is decided the way the leaderboards rank runs
+const VersusResults: React.FC<VersusResultsProps> = ({ results, names = ['P1', 'P2'] }) => {
+  const [first, second] = results.map(result => ({ ...result, recordedAt: '' }));
+  const outcome = compareRuns(first, second);
+  const winner = outcome < 0 ? 0 : outcome > 0 ? 1 : null;
+
+  return (
+    <>
+      <h2 className="text-6xl font-black text-white font-orbitron mb-6">
+        {winner === null ? 'DRAW!' : <><span style={{ color: PLAYER_COLORS[winner] }}>{names[winner]}</span> WINS!</>}
+      </h2>
+      <div className="flex justify-center gap-4 mb-8">
+        {results.map((result, player) => (
+          <div
+            key={player}
+            className={`w-56 p-4 rounded-xl bg-black/40 border font-mono text-white ${
+              player === winner ? 'border-yellow-400' : 'border-white/20'
+            }`}
+          >
+            <p className="text-3xl font-black font-orbitron" style={{ color: PLAYER_COLORS[player] }}>{names[player]}</p>
+            <p className="mb-3 text-xs font-bold tracking-widest text-white/70">{result.finished ? 'FINISHED' : 'CRASHED'}</p>
+            {result.finished && <p className="text-xl">{formatRaceTime(result.time)}</p>}
+            <p className="flex items-center justify-center gap-2 text-xl">
+              <Trophy size={18} className="text-yellow-400" /> {result.score}
+            </p>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+};
+
+export default VersusResults;
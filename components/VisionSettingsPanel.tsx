@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_VISION_SETTINGS, DelegatePreference, HAND_COUNT_OPTIONS, RESOLUTION_OPTIONS,
+  VisionSettings, formatResolution, getVisionSettings
+} from '../services/visionSettingsService';
+import { getVisionDiagnostics } from '../services/gestureService';
+import { Check, Cpu, X } from 'lucide-react';
+
+interface VisionSettingsPanelProps {
+  onSave: (settings: VisionSettings) => void;
+  onCancel: () => void;
+}
+
+const DELEGATES: DelegatePreference[] = ['auto', 'GPU', 'CPU'];
+
+const THRESHOLDS: { key: 'minHandDetectionConfidence' | 'minHandPresenceConfidence' | 'minTrackingConfidence'; label: string }[] = [
+  { key: 'minHandDetectionConfidence', label: 'DETECTION' },
+  { key: 'minHandPresenceConfidence', label: 'PRESENCE' },
+  { key: 'minTrackingConfidence', label: 'TRACKING' },
+];
+
+const VisionSettingsPanel: React.FC<VisionSettingsPanelProps> = ({ onSave, onCancel }) => {
+  const [draft, setDraft] = useState<VisionSettings>(getVisionSettings);
+  const diagnostics = getVisionDiagnostics();
+
+  const optionClass = (selected: boolean) =>
+    `flex-1 py-1.5 rounded text-xs font-bold transition-colors ${
+      selected ? 'bg-cyan-500 text-black' : 'bg-black/50 text-gray-500 hover:text-gray-300'
+    }`;
+
+  return (
+    <div className="max-w-md w-full p-8 bg-zinc-900/90 border border-cyan-500/50 rounded-2xl shadow-[0_0_50px_rgba(6,182,212,0.3)]">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-black text-white font-orbitron tracking-wider flex items-center gap-2">
+          <Cpu className="text-cyan-400" /> VISION
+        </h2>
+        <button data-gesture-target onClick={onCancel} className="text-gray-500 hover:text-white">
+          <X size={20} />
+        </button>
+      </div>
+
+      {diagnostics && (
+        <div className="mb-4 p-2 rounded bg-black/50 border border-gray-800 font-mono text-xs text-gray-400">
+          ACTIVE: <span className="text-white">{diagnostics.delegate}</span> · {diagnostics.model}
+          {!diagnostics.gpuAvailable && <span className="block text-yellow-400">No GPU available - CPU only</span>}
+        </div>
+      )}
+
+      <div className="space-y-4 text-left">
+        <div>
+          <span className="text-xs font-bold text-gray-500 tracking-widest">DELEGATE</span>
+          <div className="flex gap-1 mt-1">
+            {DELEGATES.map(delegate => (
+              <button key={delegate} data-gesture-target onClick={() => setDraft({ ...draft, delegate })} className={optionClass(draft.delegate === delegate)}>
+                {delegate.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <span className="text-xs font-bold text-gray-500 tracking-widest">CAMERA RESOLUTION</span>
+          <div className="flex gap-1 mt-1">
+            {RESOLUTION_OPTIONS.map(resolution => (
+              <button
+                key={formatResolution(resolution)}
+                data-gesture-target
+                onClick={() => setDraft({ ...draft, resolution })}
+                className={optionClass(formatResolution(draft.resolution) === formatResolution(resolution))}
+              >
+                {formatResolution(resolution)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <span className="text-xs font-bold text-gray-500 tracking-widest">HANDS TRACKED</span>
+          <div className="flex gap-1 mt-1">
+            {HAND_COUNT_OPTIONS.map(numHands => (
+              <button key={numHands} data-gesture-target onClick={() => setDraft({ ...draft, numHands })} className={optionClass(draft.numHands === numHands)}>
+                {numHands}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <span className="text-xs font-bold text-gray-500 tracking-widest">CONFIDENCE THRESHOLDS</span>
+          {THRESHOLDS.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2 mt-1 text-xs text-gray-400 font-mono">
+              <span className="w-20">{label}</span>
+              <input
+                type="range"
+                min={0.1}
+                max={0.9}
+                step={0.05}
+                value={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: Number(e.target.value) })}
+                className="flex-1 accent-cyan-400"
+              />
+              <span className="w-8 text-right text-white">{draft[key].toFixed(2)}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2 mt-6">
+        <button
+          data-gesture-target
+          onClick={() => setDraft(DEFAULT_VISION_SETTINGS)}
+          className="flex-1 py-3 rounded-xl font-bold bg-gray-800 text-white hover:bg-gray-700"
+        >
+          DEFAULTS
+        </button>
+        <button
+          data-gesture-target
+          onClick={() => onSave(draft)}
+          className="flex-1 py-3 rounded-xl font-bold bg-cyan-500 text-black hover:bg-cyan-400 flex items-center justify-center gap-2"
+        >
+          <Check size={18} /> APPLY
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VisionSettingsPanel;
@@ -0,0 +1,189 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, render, screen, waitFor } from '@testing-library/react';
+import WebcamController from './WebcamController';
+import { setThrottleHand } from '../services/gestureService';
+import { ControlState } from '../types';
+import { FakeHandLandmarker, createFakeHandLandmarker } from '../test/fakeHandLandmarker';
+import { HandFixtureName, loadHandFixture, versusFixture } from '../test/handFixtures';
+
+// The real service talks to a worker running WASM; swap in the fake landmarker and keep the math
+let landmarker: FakeHandLandmarker;
+let loadError: Error | null = null;
+let detectError: Error | null = null;
+
+vi.mock('../services/gestureService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../services/gestureService')>();
+  return {
+    ...actual,
+    initializeHandLandmarker: async () => {
+      if (loadError) throw loadError;
+      return { delegate: 'CPU', model: 'fake', gpuAvailable: false, fallbackReason: null, numHands: 2 };
+    },
+    detectHands: async (_frame: ImageBitmap, timestamp: number) => {
+      if (detectError) throw detectError;
+      return landmarker.detectForVideo(_frame, timestamp);
+    }
+  };
+});
+
+// --- Browser Stand-ins ---
+// jsdom has no camera, no decoded video and no 2D canvas
+
+const stopTrack = vi.fn();
+
+const fakeContext = new Proxy({} as Record<string | symbol, unknown>, {
+  get: (target, prop) => prop in target ? target[prop] : () => fakeContext,
+  set: (target, prop, value) => { target[prop] = value; return true; }
+});
+
+const installBrowserStubs = () => {
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: { getUserMedia: vi.fn(async () => ({ getTracks: () => [{ stop: stopTrack }] })) }
+  });
+  vi.stubGlobal('createImageBitmap', vi.fn(async () => ({ close: () => {} })));
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => fakeContext as never);
+
+  // A playing video: always a fresh frame available
+  vi.spyOn(HTMLMediaElement.prototype, 'readyState', 'get').mockReturnValue(4);
+  vi.spyOn(HTMLMediaElement.prototype, 'currentTime', 'get').mockImplementation(() => performance.now());
+  vi.spyOn(HTMLVideoElement.prototype, 'videoWidth', 'get').mockReturnValue(640);
+  vi.spyOn(HTMLVideoElement.prototype, 'videoHeight', 'get').mockReturnValue(480);
+};
+
+const startCamera = async () => {
+  const video = document.querySelector('video')!;
+  await waitFor(() => expect(video.srcObject).toBeTruthy());
+  video.dispatchEvent(new Event('loadeddata'));
+};
+
+const renderDriver = async (poses: HandFixtureName[], isActive = true, players = 1) => {
+  landmarker = createFakeHandLandmarker(poses.map(loadHandFixture));
+  const onControlUpdate = vi.fn<(state: ControlState) => void>();
+  const onUnavailable = vi.fn();
+  const view = render(
+    <WebcamController onControlUpdate={onControlUpdate} isActive={isActive} onUnavailable={onUnavailable} players={players} />
+  );
+  await startCamera();
+  return { ...view, onControlUpdate, onUnavailable };
+};
+
+const lastUpdate = (onControlUpdate: { mock: { calls: [ControlState][] } }) =>
+  onControlUpdate.mock.calls[onControlUpdate.mock.calls.length - 1][0];
+
+describe('WebcamController', () => {
+  beforeEach(() => {
+    loadError = null;
+    detectError = null;
+    installBrowserStubs();
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('drives straight with both hands level', async () => {
+    const { onControlUpdate } = await renderDriver(['neutral']);
+
+    await waitFor(() => expect(onControlUpdate).toHaveBeenCalled());
+    const state = lastUpdate(onControlUpdate);
+    expect(state).toMatchObject({ isTracking: true, handsDetected: 2, debugMessage: 'Drive Mode', throttle: 0 });
+    expect(state.steering).toBeCloseTo(0, 2);
+    expect(state.gesture?.steeringAngle).toBeCloseTo(0, 1);
+  });
+
+  it('settles on the turned wheel after a few frames', async () => {
+    const { onControlUpdate } = await renderDriver(['neutral', 'right-turn']);
+
+    await waitFor(() => expect(lastUpdate(onControlUpdate).steering).toBeGreaterThan(0.9));
+    expect(landmarker.calls.length).toBeGreaterThan(2);
+  });
+
+  it('keeps steering the right way when the hands cross', async () => {
+    const { onControlUpdate } = await renderDriver(['left-turn', 'crossed-hands']);
+
+    await waitFor(() => expect(onControlUpdate.mock.calls.length).toBeGreaterThan(3));
+    const steering = onControlUpdate.mock.calls.map(([state]) => state.steering);
+    expect(Math.max(...steering)).toBeLessThan(-0.9);
+  });
+
+  it('drives with one hand when the other is out of frame', async () => {
+    const { onControlUpdate } = await renderDriver(['one-hand-tilt-left']);
+
+    await waitFor(() => expect(onControlUpdate).toHaveBeenCalled());
+    const state = lastUpdate(onControlUpdate);
+    expect(state).toMatchObject({ isTracking: true, handsDetected: 1, debugMessage: 'One Hand Mode' });
+    expect(state.steering).toBeLessThan(0);
+    expect(state.gesture).toBeUndefined();
+    // Mirrored: the player's right hand sits on the right of their view
+    expect(state.pointer!.x).toBeGreaterThan(0.5);
+  });
+
+  it('brakes and boosts from the steering hand', async () => {
+    const { onControlUpdate } = await renderDriver(['brake-fist']);
+    await waitFor(() => expect(lastUpdate(onControlUpdate).brake).toBeGreaterThan(0.9));
+    expect(lastUpdate(onControlUpdate).boost).toBe(false);
+
+    landmarker.play([loadHandFixture('boost-point')]);
+    await waitFor(() => expect(lastUpdate(onControlUpdate).boost).toBe(true));
+  });
+
+  it('takes throttle from the left hand for left-handed players', async () => {
+    setThrottleHand('left');
+    const { onControlUpdate } = await renderDriver(['pinch']);
+
+    await waitFor(() => expect(onControlUpdate).toHaveBeenCalled());
+    expect(lastUpdate(onControlUpdate).throttle).toBe(0);
+    setThrottleHand('right');
+  });
+
+  it('drives two players from four hands in versus', async () => {
+    const { onControlUpdate } = await renderDriver([], true, 2);
+    landmarker.play([versusFixture(loadHandFixture('left-turn'), loadHandFixture('right-turn'))]);
+
+    await waitFor(() => expect(lastUpdate(onControlUpdate).players?.[1].steering).toBeGreaterThan(0.9));
+    const state = lastUpdate(onControlUpdate);
+    expect(state).toMatchObject({ isTracking: true, handsDetected: 4, debugMessage: 'P1: Drive Mode · P2: Drive Mode' });
+    expect(state.players![0]).toMatchObject({ isTracking: true, handsDetected: 2 });
+    expect(state.players![0].steering).toBeLessThan(-0.9);
+    expect(state.steering).toBe(state.players![0].steering);
+  });
+
+  it('does not run inference while inactive', async () => {
+    const { onControlUpdate } = await renderDriver(['neutral'], false);
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(landmarker.calls).toHaveLength(0);
+    expect(onControlUpdate).not.toHaveBeenCalled();
+  });
+
+  it('releases the camera on unmount', async () => {
+    const { unmount } = await renderDriver(['neutral']);
+    unmount();
+    expect(stopTrack).toHaveBeenCalled();
+  });
+
+  it('reports a vision engine that fails to load', async () => {
+    loadError = new Error('model missing');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { onUnavailable } = await renderDriver(['neutral']);
+
+    await waitFor(() => expect(onUnavailable).toHaveBeenCalledWith('Vision engine failed to load: model missing'));
+    expect(screen.getByText('RETRY')).toBeTruthy();
+  });
+
+  it('reports once when detection keeps failing', async () => {
+    detectError = new Error('Vision worker crashed');
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { onUnavailable } = await renderDriver(['neutral']);
+
+    await waitFor(() => expect(onUnavailable).toHaveBeenCalledWith('Hand detection stopped: Vision worker crashed'));
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(onUnavailable).toHaveBeenCalledTimes(1);
+    expect(logError).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('RETRY')).toBeTruthy();
+  });
+});
@@ -1,125 +1,286 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { initializeHandLandmarker, processVideoFrame, calculateSteering, calculateThrottle } from '../services/gestureService';
-import { ControlState } from '../types';
-import { Camera, RefreshCw } from 'lucide-react';
-
-interface WebcamControllerProps {
-  onControlUpdate: (control: ControlState) => void;
-  isActive: boolean;
-}
-
-const WebcamController: React.FC<WebcamControllerProps> = ({ onControlUpdate, isActive }) => {
+import { initializeHandLandmarker, detectHands, HandDetection, calculateSteering, calculateThrottle, measureSteeringAngle, measurePinchDistance, createGestureFilter, GestureReading, createHandTracker, calculateSingleHandSteering, getThrottleHand, calculateBrake, detectBoostGesture, createOneEuroFilter, SMOOTHING_PRESETS, getSmoothingPreset, PlayerHands, splitHandsByPlayer } from '../services/gestureService';
+import { GestureSample, InputDriverProps, PlayerControls, Point } from '../types';
+import FrameTimingPanel, { FrameTiming } from './FrameTimingPanel';
+import { VisionDiagnostics, getVisionSettings } from '../services/visionSettingsService';
+import { Activity, AlertTriangle, Camera, RefreshCw } from 'lucide-react';
+
+// Inference rate is capped independently of both the camera and the game's frame rate
+const MAX_INFERENCE_FPS = 30;
+const TIMING_WINDOW_MS = 500;
+// A dropped frame is harmless; this many failed detections in a row means detection has stopped
+const MAX_DETECTION_FAILURES = 5;
+
+const WebcamController: React.FC<InputDriverProps> = ({ onControlUpdate, isActive, onUnavailable, players = 1 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [loading, setLoading] = useState(true);
   const [cameraPermission, setCameraPermission] = useState<boolean | null>(null);
+  const [visionError, setVisionError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<VisionDiagnostics | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
   const requestRef = useRef<number | null>(null);
+  const [timing, setTiming] = useState<FrameTiming | null>(null);
+  const [showTiming, setShowTiming] = useState(false);
 
   // Initialize MediaPipe
   useEffect(() => {
     let mounted = true;
-    initializeHandLandmarker()
-      .then(() => {
-        if (mounted) setLoading(false);
+    setLoading(true);
+    setVisionError(null);
+    initializeHandLandmarker(players)
+      .then((result) => {
+        if (!mounted) return;
+        setDiagnostics(result);
+        setLoading(false);
       })
       .catch((err) => {
         console.error("Failed to load MediaPipe", err);
+        if (!mounted) return;
+        const message = err instanceof Error ? err.message : String(err);
+        setLoading(false);
+        setVisionError(message);
+        onUnavailable?.(`Vision engine failed to load: ${message}`);
       });
     return () => { mounted = false; };
-  }, []);
+  }, [loadAttempt, players]);
 
   // Initialize Camera
   useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
     const startCamera = async () => {
       if (!videoRef.current) return;
       try {
-        const stream = await navigator.mediaDevices.getUserMedia({
+        const { resolution } = getVisionSettings();
+        stream = await navigator.mediaDevices.getUserMedia({
           video: {
-            width: 640,
-            height: 480,
+            width: resolution.width,
+            height: resolution.height,
             frameRate: { ideal: 30 } // Optimize for performance
           }
         });
+        // Switched to another input source while the permission prompt was open
+        if (cancelled || !videoRef.current) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
         videoRef.current.srcObject = stream;
         videoRef.current.addEventListener('loadeddata', () => {
           setCameraPermission(true);
         });
       } catch (err) {
         console.error("Camera error", err);
+        if (cancelled) return;
         setCameraPermission(false);
+        onUnavailable?.("Camera access denied");
       }
     };
 
     startCamera();
+    // Release the camera when another input source takes over
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
   }, []);
 
   // Processing Loop
+  // Video frames are handed to the vision worker one at a time. While an inference is in flight,
+  // new camera frames are skipped (counted as dropped) rather than queued, so latency never builds up.
   useEffect(() => {
-    if (!isActive || loading || !cameraPermission) return;
+    if (!isActive || loading || visionError || !cameraPermission) return;
 
+    let active = true;
     let lastVideoTime = -1;
-
-    const renderLoop = () => {
+    let inFlight = false;
+    let lastInferenceStart = 0;
+    let failures = 0;
+    const gestureFilters = Array.from({ length: players }, () => createGestureFilter());
+    const handTrackers = Array.from({ length: players }, () => createHandTracker());
+    const pointerFilterX = createOneEuroFilter();
+    const pointerFilterY = createOneEuroFilter();
+    const stats = { latencySum: 0, inferenceSum: 0, processed: 0, dropped: 0, totalDropped: 0, windowStart: performance.now() };
+
+    const handleDetection = (results: HandDetection | null) => {
       const video = videoRef.current;
       const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!video || !canvas || !ctx) return;
 
-      if (video && canvas && video.currentTime !== lastVideoTime) {
-        lastVideoTime = video.currentTime;
-        const results = processVideoFrame(video, Date.now());
-
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          // Clear and set dimensions to match video
-          canvas.width = video.videoWidth;
-          canvas.height = video.videoHeight;
-          ctx.clearRect(0, 0, canvas.width, canvas.height);
-          
-          // Mirror transform for drawing to match the mirrored video css
-          ctx.save();
-          ctx.scale(-1, 1);
-          ctx.translate(-canvas.width, 0);
-
-          let steering = 0;
-          let throttle = 0;
-          let handsDetected = 0;
-          let debugMsg = "Show Hands";
-
-          if (results && results.landmarks) {
-            handsDetected = results.landmarks.length;
-            
-            // Logic for 2 hands (Steering)
-            if (results.landmarks.length === 2) {
-              const sortedHands = [...results.landmarks].sort((a, b) => a[9].x - b[9].x);
-              const rightHandRaw = sortedHands[0]; // Lower X (Left of image) -> User's Right Hand
-              const leftHandRaw = sortedHands[1];  // Higher X (Right of image) -> User's Left Hand
-
-              steering = calculateSteering(leftHandRaw, rightHandRaw); 
-              throttle = calculateThrottle(rightHandRaw);
-              debugMsg = "Drive Mode";
-
-              // Visuals
-              drawRealisticWheel(ctx, leftHandRaw, rightHandRaw, canvas.width, canvas.height, steering);
-              
-            } else if (results.landmarks.length === 1) {
-              debugMsg = "Need 2 Hands";
-              drawHandDebug(ctx, results.landmarks[0], canvas.width, canvas.height);
-            }
-          }
+      // Clear and set dimensions to match video
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      
+      // Mirror transform for drawing to match the mirrored video css
+      ctx.save();
+      ctx.scale(-1, 1);
+      ctx.translate(-canvas.width, 0);
+
+      const landmarks = results?.landmarks ?? [];
+      const handednesses = results?.handednesses ?? [];
+      // Versus: each player drives with the hands on their half of the view
+      const groups: PlayerHands[] = players === 2
+        ? splitHandsByPlayer(landmarks, handednesses)
+        : [{ landmarks, handednesses }];
+      const throttleHand = getThrottleHand();
+      const now = performance.now();
+      let pointer: Point | undefined;
+
+      const drivers = groups.map((group, player) => {
+        const hands = handTrackers[player].update(group.landmarks, group.handednesses, now);
+        let debugMsg = "Show Hands";
+        let gesture: GestureSample | undefined;
+        let reading: GestureReading | null = null;
+
+        // Menu cursor follows an index fingertip, preferring the throttle hand (and player 1)
+        const pointingHand = hands[throttleHand] ?? hands.left ?? hands.right;
+        const fingertip = pointingHand?.[8];
+        if (fingertip && !pointer) {
+          const config = SMOOTHING_PRESETS[getSmoothingPreset()];
+          pointer = {
+            x: pointerFilterX.filter(1 - fingertip.x, now, config), // Mirror to match the on-screen video
+            y: pointerFilterY.filter(fingertip.y, now, config)
+          };
+        }
+
+        // Logic for 2 hands (Steering)
+        if (hands.left && hands.right) {
+          const leftHandRaw = hands.left;
+          const rightHandRaw = hands.right;
+          const pinchHand = throttleHand === 'left' ? leftHandRaw : rightHandRaw;
+          const steeringHand = throttleHand === 'left' ? rightHandRaw : leftHandRaw;
+
+          reading = {
+            steering: calculateSteering(leftHandRaw, rightHandRaw),
+            throttle: calculateThrottle(pinchHand),
+            brake: calculateBrake(steeringHand),
+            boost: detectBoostGesture(steeringHand),
+            confidence: hands.confidence
+          };
+          gesture = {
+            steeringAngle: measureSteeringAngle(leftHandRaw, rightHandRaw),
+            pinchDistance: measurePinchDistance(pinchHand)
+          };
+          debugMsg = "Drive Mode";
+
+          // Visuals
+          drawRealisticWheel(ctx, leftHandRaw, rightHandRaw, canvas.width, canvas.height, reading.steering);
           
-          // Always draw HUD (Speedometer) if tracking
-          if (handsDetected === 2) {
-             drawSpeedometer(ctx, canvas.width, canvas.height, throttle);
-          }
+        } else if (hands.left || hands.right) {
+          // One hand does everything: tilt to steer, pinch for throttle. No free hand for brake or boost.
+          const hand = (hands.left ?? hands.right)!;
+          reading = {
+            steering: calculateSingleHandSteering(hand),
+            throttle: calculateThrottle(hand),
+            brake: 0,
+            boost: false,
+            confidence: hands.confidence
+          };
+          debugMsg = "One Hand Mode";
+          drawHandDebug(ctx, hand, canvas.width, canvas.height);
+        }
+
+        // Smooth jitter, reject low-confidence frames and bridge brief dropouts
+        const filtered = gestureFilters[player].update(reading, now);
+        if (filtered.status === 'held') {
+          debugMsg = reading ? "Low Confidence" : "Holding...";
+        } else if (filtered.status === 'lost' && reading) {
+          debugMsg = "Low Confidence";
+        }
+
+        // Always draw HUD (Speedometer) if tracking, in the player's own corner
+        if (filtered.status !== 'lost') {
+          const gaugeX = player === 0 ? canvas.width - 80 : 80;
+          drawSpeedometer(ctx, gaugeX, canvas.height, filtered.throttle, filtered.brake, filtered.boost);
+        }
+
+        const controls: PlayerControls = {
+          steering: filtered.steering,
+          throttle: filtered.throttle,
+          brake: filtered.brake,
+          boost: filtered.boost,
+          isTracking: filtered.status !== 'lost',
+          handsDetected: group.landmarks.length
+        };
+        return { controls, debugMsg, gesture };
+      });
 
-          ctx.restore();
+      if (!pointer) {
+        pointerFilterX.reset();
+        pointerFilterY.reset();
+      }
+
+      ctx.restore();
+
+      // Menus and gesture shortcuts follow player 1; a versus race reads each player's own controls
+      const [first] = drivers;
+      onControlUpdate({
+        ...first.controls,
+        isTracking: drivers.some(driver => driver.controls.isTracking),
+        handsDetected: landmarks.length,
+        debugMessage: players === 2 ? drivers.map((driver, i) => `P${i + 1}: ${driver.debugMsg}`).join(' · ') : first.debugMsg,
+        gesture: first.gesture,
+        pointer,
+        players: players === 2 ? drivers.map(driver => driver.controls) : undefined
+      });
+    };
+
+    const recordTiming = (latencyMs: number, inferenceMs: number) => {
+      stats.latencySum += latencyMs;
+      stats.inferenceSum += inferenceMs;
+      stats.processed++;
+
+      const now = performance.now();
+      const elapsed = now - stats.windowStart;
+      if (elapsed < TIMING_WINDOW_MS) return;
+
+      setTiming({
+        latencyMs: stats.latencySum / stats.processed,
+        inferenceMs: stats.inferenceSum / stats.processed,
+        inferenceFps: stats.processed / (elapsed / 1000),
+        droppedFrames: stats.dropped,
+        totalDropped: stats.totalDropped
+      });
+      stats.latencySum = 0;
+      stats.inferenceSum = 0;
+      stats.processed = 0;
+      stats.dropped = 0;
+      stats.windowStart = now;
+    };
+
+    const renderLoop = () => {
+      const video = videoRef.current;
 
-          onControlUpdate({
-            steering,
-            throttle,
-            isTracking: handsDetected === 2,
-            handsDetected,
-            debugMessage: debugMsg
-          });
+      if (video && video.readyState >= 2 && video.currentTime !== lastVideoTime) {
+        lastVideoTime = video.currentTime;
+        const now = performance.now();
+
+        if (inFlight) {
+          stats.dropped++;
+          stats.totalDropped++;
+        } else if (now - lastInferenceStart >= 1000 / MAX_INFERENCE_FPS) {
+          inFlight = true;
+          lastInferenceStart = now;
+
+          createImageBitmap(video)
+            .then(frame => detectHands(frame, now))
+            .then(results => {
+              if (!active) return;
+              failures = 0;
+              recordTiming(performance.now() - now, results.inferenceMs);
+              handleDetection(results);
+            })
+            .catch(err => {
+              if (!active || ++failures !== MAX_DETECTION_FAILURES) return;
+              console.error("Hand detection failed", err);
+              const message = err instanceof Error ? err.message : String(err);
+              setVisionError(message);
+              onUnavailable?.(`Hand detection stopped: ${message}`);
+            })
+            .finally(() => { inFlight = false; });
         }
       }
 
@@ -128,9 +289,10 @@ const WebcamController: React.FC<WebcamControllerProps> = ({ onControlUpdate, is
 
     requestRef.current = requestAnimationFrame(renderLoop);
     return () => {
+      active = false;
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
     };
-  }, [isActive, loading, cameraPermission, onControlUpdate]);
+  }, [isActive, loading, visionError, cameraPermission, onControlUpdate, players]);
 
 
   // Draw a cool sci-fi steering yoke
@@ -218,8 +380,7 @@ const WebcamController: React.FC<WebcamControllerProps> = ({ onControlUpdate, is
     ctx.restore();
   };
 
-  const drawSpeedometer = (ctx: CanvasRenderingContext2D, w: number, h: number, throttle: number) => {
-      const cx = w - 80;
+  const drawSpeedometer = (ctx: CanvasRenderingContext2D, cx: number, h: number, throttle: number, brake: number, boost: boolean) => {
       const cy = h - 60;
       const r = 50;
 
@@ -243,6 +404,15 @@ const WebcamController: React.FC<WebcamControllerProps> = ({ onControlUpdate, is
       ctx.lineCap = 'round';
       ctx.stroke();
 
+      // Brake fills the gauge backwards from the top end in red
+      if (brake > 0.05) {
+        ctx.beginPath();
+        ctx.arc(cx, cy, r - 14, startAngle + totalAngle * (1 - brake), startAngle + totalAngle);
+        ctx.lineWidth = 6;
+        ctx.strokeStyle = '#ff3344';
+        ctx.stroke();
+      }
+
       // Text
       ctx.save();
       ctx.translate(cx, cy);
@@ -256,8 +426,14 @@ const WebcamController: React.FC<WebcamControllerProps> = ({ onControlUpdate, is
       ctx.fillText(Math.floor(throttle * 100).toString() + '%', 0, 10);
       
       ctx.font = '10px Inter';
-      ctx.fillStyle = '#aaa';
-      ctx.fillText('POWER', 0, 25);
+      ctx.fillStyle = brake > 0.05 ? '#ff3344' : '#aaa';
+      ctx.fillText(brake > 0.05 ? 'BRAKE' : 'POWER', 0, 25);
+
+      if (boost) {
+        ctx.font = 'bold 14px Orbitron';
+        ctx.fillStyle = '#00ffff';
+        ctx.fillText('BOOST', 0, -r - 12);
+      }
       ctx.restore();
   };
 
@@ -287,6 +463,25 @@ const WebcamController: React.FC<WebcamControllerProps> = ({ onControlUpdate, is
         className="absolute inset-0 w-full h-full object-cover transform scale-x-[-1]"
       />
 
+      {/* Frame Timing */}
+      <button
+        onClick={() => setShowTiming(v => !v)}
+        className={`absolute top-2 right-2 z-10 p-1 rounded ${showTiming ? 'text-cyan-400 bg-black/60' : 'text-gray-500 hover:text-gray-300'}`}
+        title="Frame timing"
+      >
+        <Activity size={16} />
+      </button>
+      {showTiming && <FrameTimingPanel timing={timing} diagnostics={diagnostics} />}
+
+      {/* Active delegate, so a silent CPU fallback is visible */}
+      {diagnostics && (
+        <div className={`absolute top-2 left-2 z-10 px-1.5 py-0.5 rounded bg-black/60 font-mono text-[10px] ${
+          diagnostics.fallbackReason ? 'text-yellow-400' : 'text-gray-400'
+        }`} title={diagnostics.fallbackReason ?? undefined}>
+          {diagnostics.delegate} · {diagnostics.numHands} HAND{diagnostics.numHands > 1 ? 'S' : ''}
+        </div>
+      )}
+
       {loading && (
         <div className="absolute inset-0 flex items-center justify-center bg-black/80 z-20">
           <div className="text-cyan-400 animate-pulse flex flex-col items-center">
@@ -296,7 +491,23 @@ const WebcamController: React.FC<WebcamControllerProps> = ({ onControlUpdate, is
         </div>
       )}
 
-      {!cameraPermission && !loading && (
+      {visionError && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/90 z-30 text-center p-4">
+          <div className="text-red-500 flex flex-col items-center">
+            <AlertTriangle className="w-12 h-12 mb-2" />
+            <span className="font-bold">Vision Engine Unavailable</span>
+            <p className="text-xs text-gray-400 mt-2 break-all">{visionError}</p>
+            <button
+              onClick={() => setLoadAttempt(n => n + 1)}
+              className="mt-4 px-4 py-2 rounded-lg bg-gray-800 text-white text-sm font-bold hover:bg-gray-700 flex items-center gap-2"
+            >
+              <RefreshCw size={14} /> RETRY
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!cameraPermission && !loading && !visionError && (
         <div className="absolute inset-0 flex items-center justify-center bg-black/90 z-20 text-center p-4">
            <div className="text-red-500 flex flex-col items-center">
             <Camera className="w-12 h-12 mb-2" />
@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { VISION_ASSET_BASE } from './services/gestureService';
+import './index.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -13,3 +15,13 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// Offline / installable PWA. Skipped in dev so hot reload never serves stale bundles.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    const swUrl = `${import.meta.env.BASE_URL}sw.js?visionBase=${encodeURIComponent(VISION_ASSET_BASE)}`;
+    navigator.serviceWorker.register(swUrl).catch((err) => {
+      console.error("Service worker registration failed", err);
+    });
+  });
+}
@@ -0,0 +1,90 @@
+// Offline support for kiosk installs.
+// The app shell, the built JS/CSS bundles and fonts, and the vision assets are all precached on install:
+// the worker registers after the page has loaded, so nothing that page fetched went through it.
+// Anything else from our origin is cached the first time it loads.
+
+// Both filled in by the precache plugin in vite.config.ts when the app is built
+const BUILD_VERSION = 'dev';
+const BUILD_ASSETS = [];
+
+// A new build gets a new cache; activate deletes the old one along with its stale bundles
+const CACHE_NAME = `neon-racer-${BUILD_VERSION}`;
+const scope = new URL(self.registration.scope);
+const visionBase = new URL(
+  new URL(self.location.href).searchParams.get('visionBase') || 'vision/',
+  scope
+);
+
+const PRECACHE_URLS = [
+  scope.href,
+  new URL('manifest.webmanifest', scope).href,
+  new URL('icon.svg', scope).href,
+  ...BUILD_ASSETS.map(asset => new URL(asset, scope).href),
+  new URL('hand_landmarker.task', visionBase).href,
+  new URL('wasm/vision_wasm_internal.js', visionBase).href,
+  new URL('wasm/vision_wasm_internal.wasm', visionBase).href,
+  new URL('wasm/vision_wasm_nosimd_internal.js', visionBase).href,
+  new URL('wasm/vision_wasm_nosimd_internal.wasm', visionBase).href,
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+
+  // gestureService checks assets with HEAD before loading them; answer from cache when offline
+  if (request.method === 'HEAD') {
+    event.respondWith(
+      caches.match(request.url).then(cached => cached
+        ? new Response(null, { status: cached.status, headers: cached.headers })
+        : fetch(request))
+    );
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  // Page loads: network first so new deploys show up, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then(cache => cache.put(scope.href, copy));
+          return response;
+        })
+        .catch(() => caches.match(scope.href))
+    );
+    return;
+  }
+
+  // Assets: cache first
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin && url.origin !== visionBase.origin) return;
+
+  event.respondWith(
+    caches.match(request).then(cached => {
+      if (cached) return cached;
+      return fetch(request).then(response => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+        }
+        return response;
+      });
+    })
+  );
+});
@@ -0,0 +1,48 @@
+// Copies the MediaPipe WASM fileset out of node_modules and downloads the hand model
+// into public/vision, so the built app never needs a CDN at runtime.
+// Runs before dev/build; existing files are left alone, so it also works offline once seeded.
+import { copyFile, mkdir, readdir, stat, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const target = join(root, 'public', 'vision');
+const wasmSource = join(root, 'node_modules', '@mediapipe', 'tasks-vision', 'wasm');
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+const exists = async (path) => {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const copyWasm = async () => {
+  await mkdir(join(target, 'wasm'), { recursive: true });
+  for (const file of await readdir(wasmSource)) {
+    await copyFile(join(wasmSource, file), join(target, 'wasm', file));
+  }
+  console.log('vision: copied WASM fileset');
+};
+
+const downloadModel = async () => {
+  const modelPath = join(target, 'hand_landmarker.task');
+  if (await exists(modelPath)) return;
+
+  console.log(`vision: downloading ${MODEL_URL}`);
+  const response = await fetch(MODEL_URL);
+  if (!response.ok) throw new Error(`Model download failed: HTTP ${response.status}`);
+  await writeFile(modelPath, Buffer.from(await response.arrayBuffer()));
+  console.log('vision: saved hand_landmarker.task');
+};
+
+try {
+  await copyWasm();
+  await downloadModel();
+} catch (err) {
+  console.error(`vision: ${err.message}`);
+  console.error('vision: place hand_landmarker.task in public/vision manually to run offline');
+  process.exitCode = 1;
+}
@@ -0,0 +1,85 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import { LeaderboardServer, createLeaderboardServer } from './app';
+import { createMemoryStore } from './store';
+import { RunSubmission, ServerMessage, Tournament } from './protocol';
+import { recordRun } from '../test/recordedRuns';
+
+const ADMIN = { Authorization: 'Bearer secret', 'Content-Type': 'application/json' };
+
+describe('leaderboard server', () => {
+  let leaderboard: LeaderboardServer;
+  let base: string;
+
+  const post = (path: string, body: unknown, headers: Record<string, string> = { 'Content-Type': 'application/json' }) =>
+    fetch(`${base}${path}`, { method: 'POST', headers, body: JSON.stringify(body) });
+
+  const submission = (playerName: string, seed: number): RunSubmission => {
+    const { replay, result } = recordRun(seed);
+    return { playerName, kiosk: 'k1', replay, claimed: { score: result.score, time: result.time, finished: result.finished } };
+  };
+
+  beforeAll(async () => {
+    leaderboard = createLeaderboardServer({ store: createMemoryStore(), adminToken: 'secret' });
+    base = `http://127.0.0.1:${await leaderboard.listen(0, '127.0.0.1')}`;
+  });
+
+  afterAll(() => leaderboard.close());
+
+  it('ranks verified runs, pushes them live and turns away tampered ones', async () => {
+    const socket = new WebSocket(`${base.replace('http', 'ws')}/live`);
+    await new Promise(resolve => socket.once('open', resolve));
+    const pushed = new Promise<ServerMessage>(resolve => socket.once('message', data => resolve(JSON.parse(String(data)))));
+
+    const honest = submission('ACE', 7);
+    const response = await post('/runs', honest);
+    expect(response.status).toBe(201);
+    const { run, place } = await response.json();
+    expect(place).toBe(1);
+    expect(await pushed).toMatchObject({ type: 'run', place: 1, run: { id: run.id } });
+    socket.close();
+
+    const again = await post('/runs', { ...honest, playerName: 'BOB' });
+    expect(again.status).toBe(409);
+
+    const tampered = await post('/runs', { ...honest, claimed: { ...honest.claimed, score: 999999 } });
+    expect(tampered.status).toBe(422);
+    expect((await tampered.json()).error).toMatch(/Claimed a score/);
+
+    const standings = await (await fetch(`${base}/standings?trackId=endless&mode=race`)).json();
+    expect(standings.runs.map((r: { id: string }) => r.id)).toEqual([run.id]);
+  });
+
+  it('answers at most a page of standings however many are asked for', async () => {
+    await post('/runs', submission('CAT', 3));
+    await post('/runs', submission('DAN', 5));
+    const standings = async (limit: string) =>
+      (await (await fetch(`${base}/standings?trackId=endless&mode=race&limit=${limit}`)).json()).runs.length;
+
+    expect(await standings('1')).toBe(1);
+    expect(await standings('-5')).toBe(1);
+    expect(await standings('1e9')).toBe(3);
+    expect(await standings('lots')).toBe(3);
+  });
+
+  it('runs tournament heats for admins only, counting runs set while a heat is open', async () => {
+    const request = { name: 'Cup', trackId: 'endless', mode: 'race', players: ['ACE', 'BOB'] };
+    expect((await post('/tournaments', request)).status).toBe(401);
+    expect((await post('/tournaments', { ...request, trackId: 'nowhere' }, ADMIN)).status).toBe(400);
+    expect((await post('/tournaments', { ...request, players: 'ACE' }, ADMIN)).status).toBe(400);
+
+    const { tournament } = await (await post('/tournaments', request, ADMIN)).json() as { tournament: Tournament };
+    const [heat] = tournament.heats;
+    expect((await post(`/tournaments/${tournament.id}/heats/${heat.id}/open`, {}, ADMIN)).status).toBe(200);
+
+    expect((await post('/runs', submission('ACE', 13))).status).toBe(201);
+    expect((await post('/runs', submission('BOB', 11))).status).toBe(201);
+    const closed = await (await post(`/tournaments/${tournament.id}/heats/${heat.id}/close`, {}, ADMIN)).json();
+    expect(closed.tournament.winner).toMatch(/ACE|BOB/);
+
+    const details = await (await fetch(`${base}/tournaments/${tournament.id}`)).json();
+    expect(details.standings[heat.id]).toHaveLength(2);
+    expect((await post(`/tournaments/${tournament.id}/heats/${heat.id}/open`, {}, ADMIN)).status).toBe(409);
+  });
+});
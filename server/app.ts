@@ -0,0 +1,252 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import { WebSocket, WebSocketServer } from 'ws';
+import type { RaceMode } from '../services/simulation';
+import { rankRuns } from '../services/ranking';
+import { loadCourse } from '../services/trackService';
+import { LeaderboardStore } from './store';
+import { ServerMessage, ServerRun, SubmitResponse, TournamentRequest } from './protocol';
+import { closeHeat, createTournament, findOpenHeat, heatStandings, openHeat } from './tournament';
+import { verifyRun } from './verify';
+
+// The kiosk leaderboard server.
+//
+//   GET  /standings?trackId=&mode=&limit=     { runs }, at most MAX_LIMIT
+//   POST /runs                                RunSubmission -> SubmitResponse (422 if it doesn't verify, 409 if it's in already)
+//   GET  /tournaments                         { tournaments }
+//   POST /tournaments                         TournamentRequest -> { tournament }
+//   GET  /tournaments/:id                     { tournament, standings: { [heatId]: runs } }
+//   POST /tournaments/:id/heats/:heatId/open  { tournament }
+//   POST /tournaments/:id/heats/:heatId/close { tournament }
+//   WS   /live                                ServerMessage for every new run and tournament change
+//
+// With an admin token set, creating tournaments and opening/closing heats need `Authorization: Bearer <token>`.
+
+export interface LeaderboardServerOptions {
+  store: LeaderboardStore;
+  adminToken?: string;
+}
+
+export interface LeaderboardServer {
+  server: Server;
+  listen: (port: number, host?: string) => Promise<number>; // Resolves with the port actually bound
+  close: () => Promise<void>;
+}
+
+const MAX_BODY_BYTES = 2 * 1024 * 1024; // Long runs make big input logs
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+const RACE_MODES: RaceMode[] = ['race', 'timeAttack'];
+
+// Thrown by handlers to answer with an error status and message
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isRaceMode = (value: unknown): value is RaceMode => RACE_MODES.includes(value as RaceMode);
+
+const isOptionalNumber = (value: unknown): value is number | undefined => value === undefined || typeof value === 'number';
+
+// Anything that isn't a whole number of runs gets the default
+const parseLimit = (value: string | null): number => {
+  const limit = Number(value);
+  return Number.isInteger(limit) ? Math.min(MAX_LIMIT, Math.max(1, limit)) : DEFAULT_LIMIT;
+};
+
+const readJson = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, "Request is too large"));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new HttpError(400, "Request body is not valid JSON"));
+    }
+  });
+  req.on('error', reject);
+});
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+export const createLeaderboardServer = ({ store, adminToken }: LeaderboardServerOptions): LeaderboardServer => {
+  const server = createServer();
+  const live = new WebSocketServer({ server, path: '/live' });
+
+  const broadcast = (message: ServerMessage) => {
+    const data = JSON.stringify(message);
+    live.clients.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) client.send(data);
+    });
+  };
+
+  const requireAdmin = (req: IncomingMessage) => {
+    if (adminToken && req.headers.authorization !== `Bearer ${adminToken}`) throw new HttpError(401, "Admin token required");
+  };
+
+  const getTournament = async (id: string) => {
+    const tournament = await store.getTournament(id);
+    if (!tournament) throw new HttpError(404, `No tournament ${id}`);
+    return tournament;
+  };
+
+  // Game rules broken by a request (a bad bracket, a heat that isn't open) are the client's fault
+  const rules = <T>(apply: () => T): T => {
+    try {
+      return apply();
+    } catch (err) {
+      throw new HttpError(409, err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Takes the request body as it came; verifyRun checks its shape along with the run itself
+  const submitRun = async (submission: unknown): Promise<SubmitResponse> => {
+    let verified;
+    try {
+      verified = verifyRun(submission);
+    } catch (err) {
+      throw new HttpError(422, err instanceof Error ? err.message : String(err));
+    }
+
+    const { playerName, kiosk, replay, replayHash, result } = verified;
+    const { courseId: trackId, mode } = result;
+    const heat = findOpenHeat(await store.listTournaments(), { playerName, trackId, mode });
+    const run: ServerRun = {
+      id: randomUUID(),
+      playerName,
+      kiosk,
+      trackId,
+      mode,
+      seed: replay.seed,
+      score: result.score,
+      time: result.time,
+      finished: result.finished,
+      lapTimes: result.lapTimes,
+      penalties: result.penalties,
+      stats: result.stats,
+      heatId: heat?.id ?? null,
+      recordedAt: new Date().toISOString(),
+    };
+    if (!await store.addRun(run, replayHash)) throw new HttpError(409, "This run has already been submitted");
+
+    const ranked = rankRuns(await store.getRuns({ trackId, mode }));
+    const place = ranked.findIndex(other => other.id === run.id) + 1;
+    broadcast({ type: 'run', run, place, standings: ranked.slice(0, DEFAULT_LIMIT) });
+    return { run, place };
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const path = url.pathname.split('/').filter(Boolean);
+    const method = req.method ?? 'GET';
+
+    if (method === 'GET' && url.pathname === '/standings') {
+      const trackId = url.searchParams.get('trackId') ?? '';
+      const mode = url.searchParams.get('mode');
+      if (!trackId || !isRaceMode(mode)) throw new HttpError(400, "Standings need a trackId and a mode");
+      const limit = parseLimit(url.searchParams.get('limit'));
+      return send(res, 200, { runs: rankRuns(await store.getRuns({ trackId, mode }), limit) });
+    }
+
+    if (method === 'POST' && url.pathname === '/runs') {
+      return send(res, 201, await submitRun(await readJson(req)));
+    }
+
+    if (path[0] === 'tournaments') {
+      if (path.length === 1 && method === 'GET') {
+        return send(res, 200, { tournaments: await store.listTournaments() });
+      }
+      if (path.length === 1 && method === 'POST') {
+        requireAdmin(req);
+        const body = await readJson(req);
+        if (!isRecord(body)) throw new HttpError(400, "Tournament request is empty");
+        const { name, trackId, mode, players, heatSize, advance } = body;
+        if (typeof name !== 'string' || typeof trackId !== 'string' || !isRaceMode(mode)
+            || !Array.isArray(players) || !players.every(player => typeof player === 'string')) {
+          throw new HttpError(400, "Tournament needs a name, a trackId, a mode and a list of players");
+        }
+        if (!isOptionalNumber(heatSize) || !isOptionalNumber(advance)) {
+          throw new HttpError(400, "Heat size and players going through must be numbers");
+        }
+        try {
+          loadCourse(trackId);
+        } catch (err) {
+          throw new HttpError(400, err instanceof Error ? err.message : String(err));
+        }
+        const request: TournamentRequest = { name, trackId, mode, players, heatSize, advance };
+        const tournament = rules(() => createTournament(request));
+        await store.saveTournament(tournament);
+        broadcast({ type: 'tournament', tournament });
+        return send(res, 201, { tournament });
+      }
+      if (path.length === 2 && method === 'GET') {
+        const tournament = await getTournament(path[1]);
+        const standings: Record<string, ServerRun[]> = {};
+        for (const heat of tournament.heats) {
+          standings[heat.id] = heatStandings(heat, await store.getRuns({ heatId: heat.id }));
+        }
+        return send(res, 200, { tournament, standings });
+      }
+      if (path.length === 5 && path[2] === 'heats' && method === 'POST' && (path[4] === 'open' || path[4] === 'close')) {
+        requireAdmin(req);
+        const current = await getTournament(path[1]);
+        const heatId = path[3];
+        const runs = path[4] === 'close' ? await store.getRuns({ heatId }) : [];
+        const tournament = rules(() => path[4] === 'open' ? openHeat(current, heatId) : closeHeat(current, heatId, runs));
+        await store.saveTournament(tournament);
+        broadcast({ type: 'tournament', tournament });
+        return send(res, 200, { tournament });
+      }
+    }
+
+    throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+  };
+
+  server.on('request', (req: IncomingMessage, res: ServerResponse) => {
+    // Kiosks load the game from their own origin
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    route(req, res).catch(err => {
+      if (err instanceof HttpError) {
+        send(res, err.status, { error: err.message });
+      } else {
+        console.error("Leaderboard server error", err);
+        send(res, 500, { error: "Internal server error" });
+      }
+    });
+  });
+
+  return {
+    server,
+    listen: (port, host) => new Promise(resolve => {
+      server.listen(port, host, () => resolve((server.address() as AddressInfo).port));
+    }),
+    close: () => new Promise(resolve => {
+      live.clients.forEach(client => client.terminate());
+      live.close();
+      server.close(() => resolve());
+    }),
+  };
+};
@@ -0,0 +1,24 @@
+import { createLeaderboardServer } from './app';
+import { createMemoryStore, createSqliteStore } from './store';
+
+// Entry point: `npm run leaderboard:server`.
+//   PORT                     Port to listen on (default 8787)
+//   LEADERBOARD_DB           SQLite file to keep standings in; without it they only last until the server stops
+//   LEADERBOARD_ADMIN_TOKEN  Required to run tournaments, when set
+
+const port = Number(process.env.PORT) || 8787;
+const dbFile = process.env.LEADERBOARD_DB;
+const store = dbFile ? createSqliteStore(dbFile) : createMemoryStore();
+const leaderboard = createLeaderboardServer({ store, adminToken: process.env.LEADERBOARD_ADMIN_TOKEN });
+
+leaderboard.listen(port, '0.0.0.0').then(bound => {
+  console.log(`Leaderboard server on port ${bound}, ${dbFile ? `saving to ${dbFile}` : 'in memory'}`);
+});
+
+const shutdown = async () => {
+  await leaderboard.close();
+  await store.close();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
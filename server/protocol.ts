@@ -0,0 +1,93 @@
+import type { RaceMode, RunResult, RunStats } from '../services/simulation';
+import type { Replay } from '../services/replayService';
+import type { RankedRun } from '../services/ranking';
+
+// What the game says to the servers in server/: the kiosk leaderboard, over HTTP and the /live WebSocket,
+// and the signaling server that pairs two machines for an online race.
+
+// A finished run as a kiosk posts it. The replay is the seed plus the whole input log,
+// so the server can race it again and only keep results it reproduces.
+export interface RunSubmission {
+  playerName: string;
+  kiosk: string; // Which machine it was set on, for the standings display
+  replay: Replay;
+  claimed: Pick<RunResult, 'score' | 'time' | 'finished'>;
+}
+
+export interface ServerRun extends RankedRun {
+  id: string;
+  playerName: string;
+  kiosk: string;
+  trackId: string;
+  mode: RaceMode;
+  seed: number;
+  lapTimes: number[];
+  penalties: number;
+  stats: RunStats;
+  heatId: string | null; // Set when the player was racing an open tournament heat
+}
+
+export interface SubmitResponse {
+  run: ServerRun;
+  place: number; // In its track and mode's standings, 1 is top
+}
+
+// --- Tournaments ---
+// Players race in heats; the best few of each heat go through to the next round until one heat is left.
+
+export type HeatStatus = 'waiting' | 'open' | 'closed';
+
+export interface Heat {
+  id: string;
+  round: number; // From 1
+  players: string[];
+  status: HeatStatus; // Runs only count towards a heat while it's open
+  qualifiers: string[]; // Set when it closes, best first
+}
+
+export interface Tournament {
+  id: string;
+  name: string;
+  trackId: string;
+  mode: RaceMode;
+  heatSize: number;
+  advance: number; // Players going through from each heat
+  heats: Heat[];
+  winner: string | null;
+  createdAt: string;
+}
+
+export interface TournamentRequest {
+  name: string;
+  trackId: string;
+  mode: RaceMode;
+  players: string[];
+  heatSize?: number;
+  advance?: number;
+}
+
+// Pushed to every /live client
+export type ServerMessage =
+  | { type: 'run'; run: ServerRun; place: number; standings: ServerRun[] }
+  | { type: 'tournament'; tournament: Tournament };
+
+// --- Signaling ---
+// One player hosts a room and reads its code out; the other joins with it. The server then relays
+// their WebRTC offer, answer and ICE candidates until the data channel between them is open.
+
+export type SignalPayload =
+  | { description: RTCSessionDescriptionInit }
+  | { candidate: RTCIceCandidateInit };
+
+export type SignalRequest =
+  | { type: 'host'; name: string }
+  | { type: 'join'; code: string; name: string }
+  | { type: 'signal'; payload: SignalPayload };
+
+export type SignalResponse =
+  | { type: 'hosted'; code: string }
+  | { type: 'joined'; code: string; peerName: string } // To the guest
+  | { type: 'peer-joined'; peerName: string } // To the host, who then makes the offer
+  | { type: 'signal'; payload: SignalPayload }
+  | { type: 'peer-left' }
+  | { type: 'error'; message: string };
@@ -0,0 +1,72 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import { SignalingServer, createSignalingServer } from './signaling';
+import { SignalRequest, SignalResponse } from './protocol';
+
+// A test client that queues what the server sends so each reply can be awaited in order
+const connect = async (url: string) => {
+  const socket = new WebSocket(url);
+  const inbox: SignalResponse[] = [];
+  const waiting: ((message: SignalResponse) => void)[] = [];
+  socket.on('message', data => {
+    const message = JSON.parse(String(data));
+    const resolve = waiting.shift();
+    if (resolve) resolve(message); else inbox.push(message);
+  });
+  await new Promise(resolve => socket.once('open', resolve));
+  return {
+    send: (request: SignalRequest) => socket.send(JSON.stringify(request)),
+    next: () => inbox.length > 0 ? Promise.resolve(inbox.shift()!) : new Promise<SignalResponse>(resolve => waiting.push(resolve)),
+    close: () => socket.close(),
+  };
+};
+
+describe('signaling server', () => {
+  let signaling: SignalingServer;
+  let url: string;
+
+  beforeAll(async () => {
+    signaling = createSignalingServer();
+    url = `ws://127.0.0.1:${await signaling.listen(0, '127.0.0.1')}`;
+  });
+
+  afterAll(() => signaling.close());
+
+  it('pairs a guest with a host by room code and relays their signals', async () => {
+    const host = await connect(url);
+    const guest = await connect(url);
+
+    host.send({ type: 'host', name: 'ACE' });
+    const hosted = await host.next();
+    expect(hosted).toMatchObject({ type: 'hosted', code: expect.stringMatching(/^[A-Z]{4}$/) });
+    const { code } = hosted as { code: string };
+
+    guest.send({ type: 'join', code: code.toLowerCase(), name: 'BOB' });
+    expect(await guest.next()).toEqual({ type: 'joined', code, peerName: 'ACE' });
+    expect(await host.next()).toEqual({ type: 'peer-joined', peerName: 'BOB' });
+
+    const offer = { description: { type: 'offer' as const, sdp: 'v=0' } };
+    host.send({ type: 'signal', payload: offer });
+    expect(await guest.next()).toEqual({ type: 'signal', payload: offer });
+
+    guest.close();
+    expect(await host.next()).toEqual({ type: 'peer-left' });
+    host.close();
+  });
+
+  it('turns away unknown codes and full rooms', async () => {
+    const [host, guest, third] = await Promise.all([connect(url), connect(url), connect(url)]);
+    third.send({ type: 'join', code: 'ZZZZ', name: 'CAT' });
+    expect(await third.next()).toEqual({ type: 'error', message: 'No race with code ZZZZ' });
+
+    host.send({ type: 'host', name: 'ACE' });
+    const { code } = await host.next() as { code: string };
+    guest.send({ type: 'join', code, name: 'BOB' });
+    await guest.next();
+    third.send({ type: 'join', code, name: 'CAT' });
+    expect(await third.next()).toMatchObject({ type: 'error', message: expect.stringMatching(/already has two players/) });
+
+    [host, guest, third].forEach(client => client.close());
+  });
+});
@@ -0,0 +1,117 @@
+import { Server, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { SignalRequest, SignalResponse } from './protocol';
+
+// The online race signaling server: pairs two players in a room and relays what their browsers need
+// to open a WebRTC data channel. The race itself then goes peer to peer; the server only stays around
+// to tell a player when the other one has gone.
+//
+//   WS /   SignalRequest in, SignalResponse out
+//
+// Rooms hold two players and disappear once both have left.
+
+export interface SignalingServer {
+  server: Server;
+  listen: (port: number, host?: string) => Promise<number>; // Resolves with the port actually bound
+  close: () => Promise<void>;
+}
+
+const CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // No I or O, which read as 1 and 0
+const CODE_LENGTH = 4;
+const MAX_NAME_LENGTH = 16;
+
+interface Room {
+  code: string;
+  host: WebSocket;
+  hostName: string; // Passed on to the guest when they join
+  guest: WebSocket | null;
+}
+
+const send = (socket: WebSocket | null, message: SignalResponse) => {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const cleanName = (name: unknown): string => String(name ?? '').trim().slice(0, MAX_NAME_LENGTH);
+
+export const createSignalingServer = (): SignalingServer => {
+  const server = createServer((_req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' }).end("Connect with a WebSocket");
+  });
+  const sockets = new WebSocketServer({ server });
+  const rooms = new Map<string, Room>();
+  const roomOf = new Map<WebSocket, Room>();
+
+  const createCode = (): string => {
+    let code: string;
+    do {
+      code = Array.from({ length: CODE_LENGTH }, () => CODE_LETTERS[Math.floor(Math.random() * CODE_LETTERS.length)]).join('');
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const leave = (socket: WebSocket) => {
+    const room = roomOf.get(socket);
+    if (!room) return;
+    roomOf.delete(socket);
+    const other = socket === room.host ? room.guest : room.host;
+    if (other) {
+      send(other, { type: 'peer-left' });
+      roomOf.delete(other);
+    }
+    rooms.delete(room.code);
+  };
+
+  const handle = (socket: WebSocket, request: SignalRequest) => {
+    if (request.type === 'host') {
+      const hostName = cleanName(request.name);
+      if (!hostName) throw new Error("Enter a name to host a race");
+      leave(socket);
+      const room: Room = { code: createCode(), host: socket, hostName, guest: null };
+      rooms.set(room.code, room);
+      roomOf.set(socket, room);
+      send(socket, { type: 'hosted', code: room.code });
+    } else if (request.type === 'join') {
+      const name = cleanName(request.name);
+      if (!name) throw new Error("Enter a name to join a race");
+      const room = rooms.get(String(request.code ?? '').trim().toUpperCase());
+      if (!room) throw new Error(`No race with code ${request.code}`);
+      if (room.guest) throw new Error(`Race ${room.code} already has two players`);
+      if (room.host === socket) throw new Error("You're hosting that race");
+      leave(socket);
+      room.guest = socket;
+      roomOf.set(socket, room);
+      send(socket, { type: 'joined', code: room.code, peerName: room.hostName });
+      send(room.host, { type: 'peer-joined', peerName: name });
+    } else if (request.type === 'signal') {
+      const room = roomOf.get(socket);
+      if (!room?.guest) throw new Error("Nobody to signal yet");
+      send(socket === room.host ? room.guest : room.host, { type: 'signal', payload: request.payload });
+    } else {
+      throw new Error(`Unknown request: ${(request as { type?: unknown }).type}`);
+    }
+  };
+
+  sockets.on('connection', (socket) => {
+    socket.on('message', (data) => {
+      try {
+        handle(socket, JSON.parse(String(data)));
+      } catch (err) {
+        send(socket, { type: 'error', message: err instanceof Error ? err.message : "Bad request" });
+      }
+    });
+    socket.on('close', () => leave(socket));
+  });
+
+  return {
+    server,
+    listen: (port, host) => new Promise(resolve => {
+      server.listen(port, host, () => resolve((server.address() as AddressInfo).port));
+    }),
+    close: () => new Promise(resolve => {
+      sockets.clients.forEach(client => client.terminate());
+      sockets.close();
+      server.close(() => resolve());
+    }),
+  };
+};
@@ -0,0 +1,18 @@
+import { createSignalingServer } from './signaling';
+
+// Entry point: `npm run signaling:server`.
+//   SIGNALING_PORT  Port to listen on (default 8788)
+
+const port = Number(process.env.SIGNALING_PORT) || 8788;
+const signaling = createSignalingServer();
+
+signaling.listen(port, '0.0.0.0').then(bound => {
+  console.log(`Signaling server on port ${bound}`);
+});
+
+const shutdown = async () => {
+  await signaling.close();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
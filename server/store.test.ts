@@ -0,0 +1,49 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from 'vitest';
+import { LeaderboardStore, createMemoryStore, createSqliteStore } from './store';
+import { createTournament } from './tournament';
+import { ServerRun } from './protocol';
+
+const run = (id: string, values: Partial<ServerRun> = {}): ServerRun => ({
+  id, playerName: 'ACE', kiosk: 'k1', trackId: 'neon-boulevard', mode: 'race', seed: 1, score: 100, time: 600,
+  finished: true, lapTimes: [], penalties: 0, stats: { distance: 10, topSpeed: 1.5, orbs: 2, boostTime: 1 },
+  heatId: null, recordedAt: '2026-01-01T00:00:00.000Z', ...values,
+});
+
+describe.each([
+  ['in memory', createMemoryStore],
+  ['SQLite', () => createSqliteStore(':memory:')],
+])('%s store', (_, createStore: () => LeaderboardStore) => {
+  let store: LeaderboardStore;
+  afterEach(() => store.close());
+
+  it('keeps runs per track and mode, and per heat', async () => {
+    store = createStore();
+    await store.addRun(run('a'), 'hash-a');
+    await store.addRun(run('b', { mode: 'timeAttack', heatId: 'h1' }), 'hash-b');
+    await store.addRun(run('c', { trackId: 'overdrive' }), 'hash-c');
+
+    expect(await store.getRuns({ trackId: 'neon-boulevard', mode: 'race' })).toEqual([run('a')]);
+    expect((await store.getRuns({ heatId: 'h1' })).map(r => r.id)).toEqual(['b']);
+  });
+
+  it('turns away a run whose replay is already in', async () => {
+    store = createStore();
+    expect(await store.addRun(run('a'), 'same')).toBe(true);
+    expect(await store.addRun(run('b', { playerName: 'BOB' }), 'same')).toBe(false);
+    expect((await store.getRuns({ trackId: 'neon-boulevard', mode: 'race' })).map(r => r.id)).toEqual(['a']);
+  });
+
+  it('saves tournaments over their previous state', async () => {
+    store = createStore();
+    const older = { ...createTournament({ name: 'Old', trackId: 't', mode: 'race', players: ['A', 'B'] }), createdAt: '2026-01-01' };
+    const newer = createTournament({ name: 'New', trackId: 't', mode: 'race', players: ['A', 'B'] });
+    await store.saveTournament(older);
+    await store.saveTournament(newer);
+    await store.saveTournament({ ...older, winner: 'A' });
+
+    expect((await store.getTournament(older.id))?.winner).toBe('A');
+    expect(await store.getTournament('missing')).toBeNull();
+    expect((await store.listTournaments()).map(t => t.name)).toEqual(['New', 'Old']);
+  });
+});
@@ -0,0 +1,108 @@
+import Database from 'better-sqlite3';
+import type { RaceMode } from '../services/simulation';
+import { ServerRun, Tournament } from './protocol';
+
+// Where the server keeps runs and tournaments. The server only talks to this interface, so an event
+// can run in memory for a one-off, or on a SQLite file that survives restarts.
+
+export type RunQuery = { trackId: string; mode: RaceMode } | { heatId: string };
+
+export interface LeaderboardStore {
+  // Resolves false, storing nothing, when a run with the same replay hash is already in
+  addRun: (run: ServerRun, replayHash: string) => Promise<boolean>;
+  getRuns: (query: RunQuery) => Promise<ServerRun[]>; // Unranked
+  saveTournament: (tournament: Tournament) => Promise<void>;
+  getTournament: (id: string) => Promise<Tournament | null>;
+  listTournaments: () => Promise<Tournament[]>; // Newest first
+  close: () => Promise<void>;
+}
+
+const matches = (run: ServerRun, query: RunQuery): boolean =>
+  'heatId' in query ? run.heatId === query.heatId : run.trackId === query.trackId && run.mode === query.mode;
+
+const newestFirst = (a: Tournament, b: Tournament) => b.createdAt.localeCompare(a.createdAt);
+
+// --- In Memory ---
+
+export const createMemoryStore = (): LeaderboardStore => {
+  const runs: ServerRun[] = [];
+  const replayHashes = new Set<string>();
+  const tournaments = new Map<string, Tournament>();
+
+  return {
+    addRun: async (run, replayHash) => {
+      if (replayHashes.has(replayHash)) return false;
+      replayHashes.add(replayHash);
+      runs.push(run);
+      return true;
+    },
+    getRuns: async (query) => runs.filter(run => matches(run, query)),
+    saveTournament: async (tournament) => {
+      tournaments.set(tournament.id, tournament);
+    },
+    getTournament: async (id) => tournaments.get(id) ?? null,
+    listTournaments: async () => [...tournaments.values()].sort(newestFirst),
+    close: async () => {},
+  };
+};
+
+// --- SQLite ---
+// Records are stored as JSON, with the columns the queries need pulled out alongside
+
+export const createSqliteStore = (filename: string): LeaderboardStore => {
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS runs (
+      id TEXT PRIMARY KEY,
+      track_id TEXT NOT NULL,
+      mode TEXT NOT NULL,
+      heat_id TEXT,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS runs_by_table ON runs (track_id, mode);
+    CREATE INDEX IF NOT EXISTS runs_by_heat ON runs (heat_id);
+    CREATE TABLE IF NOT EXISTS replays (
+      hash TEXT PRIMARY KEY,
+      run_id TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS tournaments (
+      id TEXT PRIMARY KEY,
+      created_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+  `);
+
+  const insertRun = db.prepare('INSERT INTO runs (id, track_id, mode, heat_id, data) VALUES (?, ?, ?, ?, ?)');
+  const insertReplay = db.prepare('INSERT OR IGNORE INTO replays (hash, run_id) VALUES (?, ?)');
+  const runsByTable = db.prepare('SELECT data FROM runs WHERE track_id = ? AND mode = ?');
+  const runsByHeat = db.prepare('SELECT data FROM runs WHERE heat_id = ?');
+  const upsertTournament = db.prepare(
+    'INSERT INTO tournaments (id, created_at, data) VALUES (?, ?, ?) ON CONFLICT (id) DO UPDATE SET data = excluded.data'
+  );
+  const tournamentById = db.prepare('SELECT data FROM tournaments WHERE id = ?');
+  const allTournaments = db.prepare('SELECT data FROM tournaments ORDER BY created_at DESC');
+
+  const parseRows = <T>(rows: unknown[]): T[] => (rows as { data: string }[]).map(row => JSON.parse(row.data));
+
+  const addRun = db.transaction((run: ServerRun, replayHash: string): boolean => {
+    if (insertReplay.run(replayHash, run.id).changes === 0) return false;
+    insertRun.run(run.id, run.trackId, run.mode, run.heatId, JSON.stringify(run));
+    return true;
+  });
+
+  return {
+    addRun: async (run, replayHash) => addRun(run, replayHash),
+    getRuns: async (query) => parseRows<ServerRun>(
+      'heatId' in query ? runsByHeat.all(query.heatId) : runsByTable.all(query.trackId, query.mode)
+    ),
+    saveTournament: async (tournament) => {
+      upsertTournament.run(tournament.id, tournament.createdAt, JSON.stringify(tournament));
+    },
+    getTournament: async (id) => parseRows<Tournament>(tournamentById.all(id))[0] ?? null,
+    listTournaments: async () => parseRows<Tournament>(allTournaments.all()),
+    close: async () => {
+      db.close();
+    },
+  };
+};
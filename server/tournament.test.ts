@@ -0,0 +1,64 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { closeHeat, createTournament, findOpenHeat, heatStandings, openHeat } from './tournament';
+import { ServerRun, Tournament } from './protocol';
+
+const players = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+
+let runCount = 0;
+const run = (playerName: string, heatId: string, time: number): ServerRun => ({
+  id: `run-${runCount++}`, playerName, kiosk: 'k1', trackId: 'neon-boulevard', mode: 'timeAttack', seed: 1,
+  score: 0, time, finished: true, lapTimes: [], penalties: 0, stats: { distance: 0, topSpeed: 0, orbs: 0, boostTime: 0 },
+  heatId, recordedAt: new Date(runCount).toISOString(),
+});
+
+const create = (count: number) => createTournament({ name: 'Cup', trackId: 'neon-boulevard', mode: 'timeAttack', players: players.slice(0, count) });
+
+// Opens and closes a heat with the given finishing order (fastest first)
+const race = (tournament: Tournament, heatIndex: number, order: string[]) => {
+  const heat = tournament.heats[heatIndex];
+  const opened = openHeat(tournament, heat.id);
+  return closeHeat(opened, heat.id, order.map((player, i) => run(player, heat.id, 1000 + i)));
+};
+
+describe('tournaments', () => {
+  it('draw even heats with the seeds spread out', () => {
+    const tournament = create(8);
+    expect(tournament.heats.map(heat => heat.players)).toEqual([['A', 'D', 'E', 'H'], ['B', 'C', 'F', 'G']]);
+    expect(create(5).heats.map(heat => heat.players.length)).toEqual([3, 2]);
+  });
+
+  it('refuse brackets that cannot run', () => {
+    expect(() => create(1)).toThrow(/at least two players/);
+    expect(() => createTournament({ name: 'Cup', trackId: 't', mode: 'race', players: ['A', 'A'] })).toThrow(/unique/);
+    expect(() => createTournament({ name: 'Cup', trackId: 't', mode: 'race', players, advance: 4 })).toThrow(/Between 1 and 3/);
+  });
+
+  it('send the best of each heat through to a final, whose winner takes the tournament', () => {
+    let tournament = race(create(8), 0, ['E', 'A', 'D', 'H']);
+    expect(tournament.heats[0].qualifiers).toEqual(['E', 'A']);
+    expect(tournament.heats).toHaveLength(2); // Round 1 isn't over yet
+
+    tournament = race(tournament, 1, ['B', 'G', 'C']);
+    const final = tournament.heats[2];
+    expect(final.round).toBe(2);
+    expect(final.players.sort()).toEqual(['A', 'B', 'E', 'G']);
+
+    tournament = race(tournament, 2, ['G', 'E', 'A', 'B']);
+    expect(tournament.winner).toBe('G');
+    expect(tournament.heats[2].qualifiers).toEqual(['G', 'E', 'A', 'B']);
+  });
+
+  it('count only open heats, and each player\'s best run in them', () => {
+    const drawn = create(4);
+    const tournament = openHeat(drawn, drawn.heats[0].id);
+    const heat = tournament.heats[0];
+    expect(findOpenHeat([tournament], { playerName: 'A', trackId: 'neon-boulevard', mode: 'timeAttack' })).toBe(heat);
+    expect(findOpenHeat([tournament], { playerName: 'A', trackId: 'neon-boulevard', mode: 'race' })).toBeNull();
+    expect(findOpenHeat([tournament], { playerName: 'Z', trackId: 'neon-boulevard', mode: 'timeAttack' })).toBeNull();
+
+    const standings = heatStandings(heat, [run('A', heat.id, 1200), run('B', heat.id, 1100), run('A', heat.id, 1000), run('Z', heat.id, 1)]);
+    expect(standings.map(r => [r.playerName, r.time])).toEqual([['A', 1000], ['B', 1100]]);
+    expect(() => openHeat(tournament, heat.id)).toThrow(/already open/);
+  });
+});
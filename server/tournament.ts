@@ -0,0 +1,114 @@
+import { randomUUID } from 'node:crypto';
+import { rankRuns } from '../services/ranking';
+import { Heat, ServerRun, Tournament, TournamentRequest } from './protocol';
+
+// Tournament brackets. Pure functions: each returns a new Tournament and leaves the old one alone.
+
+const DEFAULT_HEAT_SIZE = 4;
+const DEFAULT_ADVANCE = 2;
+
+// Spreads players over as few heats as fit, snaking so the heats come out even and the
+// first-listed players (seeds) end up in different heats
+const drawHeats = (players: string[], heatSize: number, round: number): Heat[] => {
+  const count = Math.ceil(players.length / heatSize);
+  const heats: Heat[] = Array.from({ length: count }, () => ({
+    id: randomUUID(), round, players: [], status: 'waiting', qualifiers: [],
+  }));
+  players.forEach((player, i) => {
+    const lap = Math.floor(i / count);
+    const index = lap % 2 === 0 ? i % count : count - 1 - (i % count);
+    heats[index].players.push(player);
+  });
+  return heats;
+};
+
+export const createTournament = (request: TournamentRequest, now: Date = new Date()): Tournament => {
+  const heatSize = request.heatSize ?? DEFAULT_HEAT_SIZE;
+  const advance = request.advance ?? DEFAULT_ADVANCE;
+  const players = request.players.map(player => player.trim()).filter(Boolean);
+
+  if (!request.name?.trim()) throw new Error("A tournament needs a name");
+  if (players.length < 2) throw new Error("A tournament needs at least two players");
+  if (new Set(players).size !== players.length) throw new Error("Player names must be unique");
+  if (!Number.isInteger(heatSize) || heatSize < 2) throw new Error("Heats need room for at least two players");
+  if (!Number.isInteger(advance) || advance < 1 || advance >= heatSize) {
+    throw new Error(`Between 1 and ${heatSize - 1} players can go through from each heat`);
+  }
+
+  return {
+    id: randomUUID(),
+    name: request.name.trim(),
+    trackId: request.trackId,
+    mode: request.mode,
+    heatSize,
+    advance,
+    heats: drawHeats(players, heatSize, 1),
+    winner: null,
+    createdAt: now.toISOString(),
+  };
+};
+
+const findHeat = (tournament: Tournament, heatId: string): Heat => {
+  const heat = tournament.heats.find(candidate => candidate.id === heatId);
+  if (!heat) throw new Error(`No heat ${heatId} in ${tournament.name}`);
+  return heat;
+};
+
+const replaceHeat = (tournament: Tournament, heat: Heat): Heat[] =>
+  tournament.heats.map(candidate => candidate.id === heat.id ? heat : candidate);
+
+// Each player's best run in the heat, best first. Players who haven't set a run aren't listed.
+export const heatStandings = (heat: Heat, runs: ServerRun[]): ServerRun[] => {
+  const best: ServerRun[] = [];
+  for (const run of rankRuns(runs.filter(candidate => candidate.heatId === heat.id))) {
+    if (heat.players.includes(run.playerName) && !best.some(other => other.playerName === run.playerName)) best.push(run);
+  }
+  return best;
+};
+
+export const openHeat = (tournament: Tournament, heatId: string): Tournament => {
+  const heat = findHeat(tournament, heatId);
+  if (heat.status !== 'waiting') throw new Error(`Heat is already ${heat.status}`);
+  return { ...tournament, heats: replaceHeat(tournament, { ...heat, status: 'open' }) };
+};
+
+// Closing a heat settles who goes through. When that finishes a round the next one is drawn;
+// a round of one heat is the final, and its order is the tournament's result.
+export const closeHeat = (tournament: Tournament, heatId: string, runs: ServerRun[]): Tournament => {
+  const heat = findHeat(tournament, heatId);
+  if (heat.status !== 'open') throw new Error(`Heat is ${heat.status}, not open`);
+
+  const roundHeats = tournament.heats.filter(candidate => candidate.round === heat.round);
+  const isFinal = roundHeats.length === 1;
+  const finishingOrder = heatStandings(heat, runs).map(run => run.playerName);
+  const closed: Heat = {
+    ...heat,
+    status: 'closed',
+    qualifiers: isFinal ? finishingOrder : finishingOrder.slice(0, tournament.advance),
+  };
+  const heats = replaceHeat(tournament, closed);
+
+  if (isFinal) return { ...tournament, heats, winner: closed.qualifiers[0] ?? null };
+
+  const round = heats.filter(candidate => candidate.round === heat.round);
+  if (round.some(candidate => candidate.status !== 'closed')) return { ...tournament, heats };
+
+  const through = round.flatMap(candidate => candidate.qualifiers);
+  if (through.length < 2) return { ...tournament, heats, winner: through[0] ?? null };
+  // Short heats can send everyone through; rather than run the same round again, that makes it the final
+  const entered = round.reduce((sum, candidate) => sum + candidate.players.length, 0);
+  const heatSize = through.length < entered ? tournament.heatSize : through.length;
+  return { ...tournament, heats: [...heats, ...drawHeats(through, heatSize, heat.round + 1)] };
+};
+
+// The open heat a player's run counts towards, if they're racing one on this track and mode
+export const findOpenHeat = (
+  tournaments: Tournament[], run: Pick<ServerRun, 'playerName' | 'trackId' | 'mode'>
+): Heat | null => {
+  for (const tournament of tournaments) {
+    if (tournament.trackId !== run.trackId || tournament.mode !== run.mode) continue;
+    const heat = tournament.heats.find(candidate => candidate.status === 'open' && candidate.players.includes(run.playerName));
+    if (heat) return heat;
+  }
+  return null;
+};
@@ -0,0 +1,48 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { verifyRun } from './verify';
+import { RunSubmission } from './protocol';
+import { recordRun } from '../test/recordedRuns';
+
+const submission = (seed: number): RunSubmission => {
+  const { replay, result } = recordRun(seed);
+  return { playerName: 'ACE', kiosk: 'k1', replay, claimed: { score: result.score, time: result.time, finished: result.finished } };
+};
+
+describe('run verification', () => {
+  const honest = submission(7);
+
+  it('accepts a run its replay reproduces', () => {
+    const verified = verifyRun({ ...honest, playerName: ' ACE ' });
+    expect(verified.result.score).toBe(honest.claimed.score);
+    expect(verified.playerName).toBe('ACE');
+  });
+
+  it('hashes a replay by its inputs, not its metadata', () => {
+    const { replayHash } = verifyRun(honest);
+    expect(verifyRun({ ...honest, playerName: 'BOB', replay: { ...honest.replay, recordedAt: 'later' } }).replayHash).toBe(replayHash);
+    expect(verifyRun(submission(11)).replayHash).not.toBe(replayHash);
+  });
+
+  it('rejects a claimed score or time the replay does not reach', () => {
+    expect(() => verifyRun({ ...honest, claimed: { ...honest.claimed, score: honest.claimed.score + 1000 } }))
+      .toThrow(/Claimed a score/);
+    expect(() => verifyRun({ ...honest, claimed: { ...honest.claimed, finished: true } })).toThrow(/finish/);
+  });
+
+  it('rejects an input log that was edited or cut short', () => {
+    const { replay } = honest;
+    const edited = { ...replay, frames: replay.frames.map(frame => ({ ...frame, steering: -frame.steering })) };
+    expect(() => verifyRun({ ...honest, replay: edited })).toThrow();
+    const duration = replay.duration - 30;
+    const cut = { ...replay, duration, frames: replay.frames.filter(frame => frame.tick < duration) };
+    expect(() => verifyRun({ ...honest, replay: cut })).toThrow(/doesn't end/);
+  });
+
+  it('rejects unusable names and replay files', () => {
+    expect(() => verifyRun(null)).toThrow(/empty/);
+    expect(() => verifyRun({ ...honest, playerName: ' ' })).toThrow(/player name/);
+    expect(() => verifyRun({ ...honest, claimed: 'all of them' })).toThrow(/claimed result/);
+    expect(() => verifyRun({ ...honest, replay: { ...honest.replay, version: 3 } })).toThrow(/can't be played back/);
+  });
+});
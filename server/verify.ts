@@ -0,0 +1,51 @@
+import { createHash } from 'node:crypto';
+import { RunResult, SIM_STEP, getRunResult, isRunOver } from '../services/simulation';
+import { Replay, parseReplay, simulateReplayTo } from '../services/replayService';
+
+// Anti-tamper: a submitted run only counts if racing its replay again gives the result it claims.
+// The simulation is deterministic, so an honest kiosk always matches to the tick.
+
+// Verifying blocks the server while it re-races the run, about 0.1s per minute of driving.
+// Three time-attack laps take a few minutes and crashing ends a race, so ten minutes is plenty.
+const MAX_RUN_TICKS = Math.round((10 * 60) / SIM_STEP);
+const MAX_NAME_LENGTH = 16; // Same as driver profiles
+
+export interface VerifiedRun {
+  playerName: string; // Trimmed
+  kiosk: string;
+  replay: Replay;
+  replayHash: string; // The same inputs on the same seed always hash the same, so a run can't be posted twice
+  result: RunResult;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Only what decides the run: the recording's score and timestamp can be changed without racing again
+const hashReplay = ({ seed, trackId, mode, duration, frames }: Replay): string =>
+  createHash('sha256').update(JSON.stringify({ seed, trackId, mode, duration, frames })).digest('hex');
+
+// Throws with the reason a submission was turned away; returns the re-simulated result otherwise
+export const verifyRun = (submission: unknown): VerifiedRun => {
+  if (!isRecord(submission)) throw new Error("Run submission is empty");
+  const { playerName, kiosk, claimed } = submission;
+  if (typeof playerName !== 'string' || !playerName.trim() || playerName.length > MAX_NAME_LENGTH) {
+    throw new Error("Run needs a player name of 1-16 characters");
+  }
+  if (typeof kiosk !== 'string') throw new Error("Run needs a kiosk name");
+  if (!isRecord(claimed)) throw new Error("Run is missing its claimed result");
+
+  const replay = parseReplay(JSON.stringify(submission.replay)); // Same checks as importing a replay file
+  if (replay.duration > MAX_RUN_TICKS) throw new Error("Replay is too long to verify");
+
+  const { state } = simulateReplayTo(replay, replay.duration);
+  if (!isRunOver(state) || state.tick !== replay.duration) {
+    throw new Error("Replay doesn't end where the run did");
+  }
+
+  const result = getRunResult(state);
+  if (result.finished !== claimed.finished) throw new Error("Replay doesn't finish the way the run claims");
+  if (result.score !== claimed.score) throw new Error(`Claimed a score of ${claimed.score}, but the replay scores ${result.score}`);
+  if (result.time !== claimed.time) throw new Error(`Claimed a time of ${claimed.time} ticks, but the replay takes ${result.time}`);
+  return { playerName: playerName.trim(), kiosk, replay, replayHash: hashReplay(replay), result };
+};
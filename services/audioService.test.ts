@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_AUDIO_SETTINGS, engineTone, getAudioSettings, playSound, saveAudioSettings } from './audioService';
+
+describe('audio settings', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('keep volumes between 0 and 1 and persist them', () => {
+    saveAudioSettings({ master: 1.5, music: -0.2, sfx: 0.4, muted: true });
+    expect(getAudioSettings()).toEqual({ master: 1, music: 0, sfx: 0.4, muted: true });
+    expect(JSON.parse(localStorage.getItem('neonRacer.audio')!)).toEqual(getAudioSettings());
+  });
+
+  it('fall back to the defaults for anything unreadable', async () => {
+    localStorage.setItem('neonRacer.audio', JSON.stringify({ master: 'loud', music: 0.2 }));
+    vi.resetModules();
+    const { getAudioSettings: reload } = await import('./audioService');
+    expect(reload()).toEqual({ ...DEFAULT_AUDIO_SETTINGS, music: 0.2 });
+  });
+
+  it('play silently where there is no Web Audio', () => {
+    expect(() => playSound('whoosh', { pan: -1 })).not.toThrow();
+  });
+});
+
+describe('engineTone', () => {
+  it('climbs through each gear and drops back at the shift', () => {
+    const low = engineTone(0.01, 1, false).frequency;
+    const beforeShift = engineTone(0.49, 1, false).frequency;
+    const afterShift = engineTone(0.51, 1, false).frequency;
+    expect(beforeShift).toBeGreaterThan(low);
+    expect(afterShift).toBeLessThan(beforeShift);
+    expect(afterShift).toBeGreaterThan(low);
+  });
+
+  it('gets louder and brighter on the throttle and under boost', () => {
+    const coasting = engineTone(1, 0, false);
+    const flatOut = engineTone(1, 1, false);
+    const boosted = engineTone(1, 1, true);
+    expect(flatOut.gain).toBeGreaterThan(coasting.gain);
+    expect(flatOut.cutoff).toBeGreaterThan(coasting.cutoff);
+    expect(boosted.cutoff).toBeGreaterThan(flatOut.cutoff);
+  });
+
+  it('reverses on the same note as going forwards', () => {
+    expect(engineTone(-0.2, 0, false)).toEqual(engineTone(0.2, 0, false));
+  });
+});
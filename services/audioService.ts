@@ -0,0 +1,272 @@
+// Everything the game plays goes through one AudioContext and a small mixer:
+//
+//   effects, engines ── sfx bus ───┐
+//                                  ├── master ── speakers
+//   soundtrack ──────── music bus ─┘
+//
+// The context is shared by every RacingGame on screen (a versus race draws two) and is only created
+// when the first sound plays, since browsers won't start audio before the player has touched the page.
+// Sounds are synthesised as they're needed; there are no audio files.
+
+// --- Mixer settings ---
+
+export interface AudioSettings {
+  master: number; // Volumes 0-1
+  music: number;
+  sfx: number;
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { master: 0.8, music: 0.5, sfx: 0.8, muted: false };
+
+const STORAGE_KEY = 'neonRacer.audio';
+
+const clampVolume = (volume: unknown, fallback: number): number =>
+  typeof volume === 'number' && Number.isFinite(volume) ? Math.min(1, Math.max(0, volume)) : fallback;
+
+const cleanSettings = (settings: Partial<AudioSettings>): AudioSettings => ({
+  master: clampVolume(settings.master, DEFAULT_AUDIO_SETTINGS.master),
+  music: clampVolume(settings.music, DEFAULT_AUDIO_SETTINGS.music),
+  sfx: clampVolume(settings.sfx, DEFAULT_AUDIO_SETTINGS.sfx),
+  muted: settings.muted === true,
+});
+
+const loadAudioSettings = (): AudioSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? cleanSettings(JSON.parse(stored)) : DEFAULT_AUDIO_SETTINGS;
+  } catch (err) {
+    console.error("Ignoring corrupt audio settings", err);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+};
+
+let activeSettings: AudioSettings = loadAudioSettings();
+
+export const getAudioSettings = (): AudioSettings => activeSettings;
+
+export const saveAudioSettings = (settings: AudioSettings) => {
+  activeSettings = cleanSettings(settings);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(activeSettings));
+  applySettings();
+};
+
+// Sliders feel even when their square drives the gain, which is closer to how loudness is heard
+export const volumeToGain = (volume: number): number => volume * volume;
+
+// --- Context ---
+
+export interface Mixer {
+  ctx: AudioContext;
+  master: GainNode;
+  music: GainNode;
+  sfx: GainNode;
+  noise: AudioBuffer; // A second of white noise for drums, wind and skids
+}
+
+let mixer: Mixer | null = null;
+
+const applySettings = () => {
+  if (!mixer) return;
+  const { master, music, sfx, muted } = activeSettings;
+  const now = mixer.ctx.currentTime;
+  mixer.master.gain.setTargetAtTime(muted ? 0 : volumeToGain(master), now, 0.02);
+  mixer.music.gain.setTargetAtTime(volumeToGain(music), now, 0.02);
+  mixer.sfx.gain.setTargetAtTime(volumeToGain(sfx), now, 0.02);
+};
+
+// Null where there's no Web Audio (tests, very old browsers): the game just plays silent
+export const getMixer = (): Mixer | null => {
+  if (!mixer) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) return null;
+    const ctx: AudioContext = new AudioContextClass();
+    const master = ctx.createGain();
+    const music = ctx.createGain();
+    const sfx = ctx.createGain();
+    music.connect(master);
+    sfx.connect(master);
+    master.connect(ctx.destination);
+
+    const noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const samples = noise.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+
+    mixer = { ctx, master, music, sfx, noise };
+    applySettings();
+  }
+  if (mixer.ctx.state === 'suspended') mixer.ctx.resume();
+  return mixer;
+};
+
+// Left (-1) to right (1), for a position across the road relative to the car
+export const clampPan = (pan: number): number => Math.min(1, Math.max(-1, pan));
+
+// --- Sound effects ---
+
+export type SoundEffect = 'collect' | 'crash' | 'boost' | 'start' | 'skid' | 'whoosh';
+
+export interface SoundOptions {
+  pitch?: number;
+  pan?: number;
+  volume?: number; // 0-1, on top of the SFX volume
+}
+
+export const playSound = (type: SoundEffect, { pitch = 1, pan = 0, volume = 1 }: SoundOptions = {}) => {
+  const audio = getMixer();
+  if (!audio) return;
+  const { ctx } = audio;
+  const now = ctx.currentTime;
+
+  const panner = ctx.createStereoPanner();
+  panner.pan.value = clampPan(pan);
+  panner.connect(audio.sfx);
+  const gain = ctx.createGain();
+  gain.connect(panner);
+
+  if (type === 'whoosh') {
+    // An obstacle passing: a burst of wind swept down as it goes by
+    const source = ctx.createBufferSource();
+    source.buffer = audio.noise;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.Q.value = 1.5;
+    filter.frequency.setValueAtTime(2400 * pitch, now);
+    filter.frequency.exponentialRampToValueAtTime(500 * pitch, now + 0.35);
+    gain.gain.setValueAtTime(0.001, now);
+    gain.gain.exponentialRampToValueAtTime(0.35 * volume, now + 0.05);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + 0.35);
+    source.connect(filter);
+    filter.connect(gain);
+    source.start(now);
+    source.stop(now + 0.35);
+    return;
+  }
+
+  const osc = ctx.createOscillator();
+  osc.connect(gain);
+
+  if (type === 'collect') {
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(800 * pitch, now);
+    osc.frequency.exponentialRampToValueAtTime(1200 * pitch, now + 0.1);
+    gain.gain.setValueAtTime(0.3 * volume, now);
+    gain.gain.exponentialRampToValueAtTime(0.01, now + 0.1);
+    osc.start(now);
+    osc.stop(now + 0.1);
+  } else if (type === 'crash') {
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(100 * pitch, now);
+    osc.frequency.exponentialRampToValueAtTime(10, now + 0.3);
+    gain.gain.setValueAtTime(0.5 * volume, now);
+    gain.gain.exponentialRampToValueAtTime(0.01, now + 0.3);
+    osc.start(now);
+    osc.stop(now + 0.3);
+  } else if (type === 'boost') {
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(200 * pitch, now);
+    osc.frequency.linearRampToValueAtTime(600 * pitch, now + 0.5);
+    gain.gain.setValueAtTime(0.1 * volume, now);
+    gain.gain.linearRampToValueAtTime(0.0, now + 0.5);
+    osc.start(now);
+    osc.stop(now + 0.5);
+  } else if (type === 'skid') {
+    // Tyres losing grip: a wavering squeal
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(900 * pitch, now);
+    osc.frequency.linearRampToValueAtTime(600 * pitch, now + 0.2);
+    osc.frequency.linearRampToValueAtTime(850 * pitch, now + 0.4);
+    osc.frequency.linearRampToValueAtTime(500 * pitch, now + 0.7);
+    gain.gain.setValueAtTime(0.08 * volume, now);
+    gain.gain.linearRampToValueAtTime(0.0, now + 0.7);
+    osc.start(now);
+    osc.stop(now + 0.7);
+  } else if (type === 'start') {
+    // Countdown beep; GO is pitched up and held longer
+    const length = pitch > 1 ? 0.4 : 0.15;
+    osc.type = 'triangle';
+    osc.frequency.setValueAtTime(440 * pitch, now);
+    gain.gain.setValueAtTime(0.3 * volume, now);
+    gain.gain.exponentialRampToValueAtTime(0.01, now + length);
+    osc.start(now);
+    osc.stop(now + length);
+  }
+};
+
+// --- Engine ---
+
+export interface EngineTone {
+  frequency: number; // Hz of the exhaust note
+  gain: number;
+  cutoff: number; // Hz; the engine sounds brighter under load
+}
+
+const GEAR_SPAN = 0.5; // Speed per gear: the note climbs through each one and drops back at the shift
+const TOP_GEAR = 4;
+
+export const engineTone = (speed: number, throttle: number, boosting: boolean): EngineTone => {
+  const pace = Math.abs(speed);
+  const gear = Math.min(Math.floor(pace / GEAR_SPAN), TOP_GEAR);
+  const revs = Math.min(1, (pace - gear * GEAR_SPAN) / GEAR_SPAN);
+  return {
+    frequency: 48 + gear * 10 + revs * 60 + throttle * 12,
+    gain: 0.05 + throttle * 0.06 + Math.min(1, pace) * 0.04 + (boosting ? 0.03 : 0),
+    cutoff: (400 + throttle * 1200 + pace * 600) * (boosting ? 1.5 : 1),
+  };
+};
+
+export interface EngineSound {
+  update: (speed: number, throttle: number, boosting: boolean) => void; // Once a frame while the car is running
+  silence: () => void;
+  stop: () => void;
+}
+
+// A looping engine note for one car: a sawtooth with a square an octave down, through a low-pass filter
+export const createEngineSound = (pan = 0): EngineSound => {
+  let voice: { oscillators: OscillatorNode[]; filter: BiquadFilterNode; gain: GainNode } | null = null;
+
+  const start = () => {
+    const audio = getMixer();
+    if (!audio) return null;
+    const { ctx } = audio;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.Q.value = 4;
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = clampPan(pan);
+    filter.connect(gain);
+    gain.connect(panner);
+    panner.connect(audio.sfx);
+    const oscillators = (['sawtooth', 'square'] as OscillatorType[]).map(type => {
+      const osc = ctx.createOscillator();
+      osc.type = type;
+      osc.connect(filter);
+      osc.start();
+      return osc;
+    });
+    return { oscillators, filter, gain };
+  };
+
+  return {
+    update: (speed, throttle, boosting) => {
+      voice ??= start();
+      if (!voice) return;
+      const tone = engineTone(speed, throttle, boosting);
+      const now = voice.gain.context.currentTime;
+      voice.oscillators[0].frequency.setTargetAtTime(tone.frequency, now, 0.05);
+      voice.oscillators[1].frequency.setTargetAtTime(tone.frequency / 2, now, 0.05);
+      voice.filter.frequency.setTargetAtTime(tone.cutoff, now, 0.05);
+      voice.gain.gain.setTargetAtTime(tone.gain, now, 0.05);
+    },
+    silence: () => {
+      voice?.gain.gain.setTargetAtTime(0, voice.gain.context.currentTime, 0.1);
+    },
+    stop: () => {
+      voice?.oscillators.forEach(osc => osc.stop());
+      voice?.gain.disconnect();
+      voice = null;
+    },
+  };
+};
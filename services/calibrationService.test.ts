@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CALIBRATION_VERSION, CalibrationSamples, DEFAULT_CALIBRATION, cleanCalibration, deriveCalibration, getCalibration,
+  resetCalibration, saveCalibration
+} from './calibrationService';
+import { GestureSample } from '../types';
+
+// Ten frames of a pose, wobbling a little the way a held hand does
+const pose = (steeringAngle: number, pinchDistance: number, wobble = 0): GestureSample[] =>
+  Array.from({ length: 10 }, (_, i) => ({
+    steeringAngle: steeringAngle + (i % 2 ? wobble : -wobble),
+    pinchDistance: pinchDistance + (i % 2 ? wobble / 100 : -wobble / 100),
+  }));
+
+const samples = (values: Partial<CalibrationSamples> = {}): CalibrationSamples => ({
+  neutral: pose(2, 0.1, 1),
+  left: pose(-38, 0.1),
+  right: pose(50, 0.1),
+  open: pose(0, 0.18, 0.5),
+  pinch: pose(0, 0.02),
+  ...values,
+});
+
+describe('deriveCalibration', () => {
+  it('takes each pose from the median of its frames', () => {
+    const profile = deriveCalibration(samples());
+    expect(profile).toMatchObject({ version: CALIBRATION_VERSION, neutralAngle: 2, leftAngle: -38, rightAngle: 50, minPinch: 0.02 });
+    expect(profile.maxPinch).toBeCloseTo(0.18);
+    expect(profile.calibratedAt).not.toBeNull();
+  });
+
+  it('ignores a single wild frame', () => {
+    const neutral = pose(2, 0.1);
+    neutral[3] = { steeringAngle: 170, pinchDistance: 0.1 };
+    expect(deriveCalibration(samples({ neutral })).neutralAngle).toBe(2);
+  });
+
+  it('sizes the dead zones from the resting wobble, within limits', () => {
+    const steady = deriveCalibration(samples({ neutral: pose(0, 0.1, 0) }));
+    const shaky = deriveCalibration(samples({ neutral: pose(0, 0.1, 3) }));
+    const trembling = deriveCalibration(samples({ neutral: pose(0, 0.1, 30) }));
+    expect(steady.steeringDeadZone).toBe(1);
+    expect(shaky.steeringDeadZone).toBeCloseTo(4.5);
+    expect(trembling.steeringDeadZone).toBe(10);
+    expect(shaky.throttleDeadZone).toBeGreaterThan(0);
+    expect(shaky.throttleDeadZone).toBeLessThanOrEqual(0.2);
+  });
+
+  it('turns away poses too close together to steer or accelerate with', () => {
+    expect(() => deriveCalibration(samples({ left: pose(-5, 0.1) }))).toThrow(/further left/);
+    expect(() => deriveCalibration(samples({ right: pose(8, 0.1) }))).toThrow(/further right/);
+    expect(() => deriveCalibration(samples({ pinch: pose(0, 0.17) }))).toThrow(/Open your hand wider/);
+    expect(() => deriveCalibration(samples({ open: pose(0, 0.18).slice(0, 3) }))).toThrow(/"open" pose/);
+  });
+});
+
+describe('stored calibration', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    resetCalibration();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const reload = async (stored: string) => {
+    localStorage.setItem('neonRacer.calibration', stored);
+    vi.resetModules();
+    return (await import('./calibrationService')).getCalibration();
+  };
+
+  it('survives a reload', async () => {
+    const profile = deriveCalibration(samples());
+    saveCalibration(profile);
+    expect(getCalibration()).toBe(profile);
+    expect(await reload(localStorage.getItem('neonRacer.calibration')!)).toEqual(profile);
+  });
+
+  it('throws away a calibration from an older version', async () => {
+    const old = { ...deriveCalibration(samples()), version: 1, neutralAngle: 178 };
+    expect(await reload(JSON.stringify(old))).toEqual(DEFAULT_CALIBRATION);
+  });
+
+  it('falls back to the defaults for a file that is not JSON', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await reload('{ not json')).toEqual(DEFAULT_CALIBRATION);
+  });
+
+  it('replaces missing or unusable fields with the defaults', () => {
+    const profile = deriveCalibration(samples());
+    const cleaned = cleanCalibration({ ...profile, leftAngle: 'far', minPinch: 0.5, throttleDeadZone: 7, calibratedAt: 3 });
+    expect(cleaned).toMatchObject({
+      neutralAngle: profile.neutralAngle,
+      leftAngle: DEFAULT_CALIBRATION.leftAngle,
+      rightAngle: profile.rightAngle,
+      throttleDeadZone: 0.2,
+      steeringDeadZone: profile.steeringDeadZone,
+      calibratedAt: null,
+    });
+    // Angles and pinch distances go as sets, so the range between them never collapses
+    expect(cleaned).toMatchObject({ minPinch: DEFAULT_CALIBRATION.minPinch, maxPinch: DEFAULT_CALIBRATION.maxPinch });
+    expect(cleanCalibration({ ...profile, rightAngle: -60 })).toMatchObject({
+      neutralAngle: DEFAULT_CALIBRATION.neutralAngle,
+      leftAngle: DEFAULT_CALIBRATION.leftAngle,
+      rightAngle: DEFAULT_CALIBRATION.rightAngle,
+    });
+    expect(cleanCalibration(null)).toEqual(DEFAULT_CALIBRATION);
+    expect(cleanCalibration({ version: CALIBRATION_VERSION })).toEqual(DEFAULT_CALIBRATION);
+  });
+});
@@ -0,0 +1,143 @@
+import { GestureSample } from '../types';
+
+export interface CalibrationProfile {
+  version: number;
+  neutralAngle: number; // Degrees measured while holding the wheel level
+  leftAngle: number; // Degrees at full left lock (negative)
+  rightAngle: number; // Degrees at full right lock (positive)
+  steeringDeadZone: number; // Degrees around neutral that count as straight
+  minPinch: number; // Distance treated as full throttle
+  maxPinch: number; // Distance treated as idle
+  throttleDeadZone: number; // 0-1, ignores tremor of a relaxed open hand
+  calibratedAt: string | null;
+}
+
+// 2: steering angles are measured from the player's left hand, so a level wheel reads 0 rather than ±180
+export const CALIBRATION_VERSION = 2;
+
+// Matches the original hard-coded tuning
+export const DEFAULT_CALIBRATION: CalibrationProfile = {
+  version: CALIBRATION_VERSION,
+  neutralAngle: 0,
+  leftAngle: -45,
+  rightAngle: 45,
+  steeringDeadZone: 0,
+  minPinch: 0.03,
+  maxPinch: 0.15,
+  throttleDeadZone: 0,
+  calibratedAt: null,
+};
+
+const STORAGE_KEY = 'neonRacer.calibration';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const finiteOr = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+// Makes stored or imported data safe to steer with: another version or anything that isn't an object
+// gives the defaults, and a missing or out-of-order field falls back with the fields it pairs with,
+// so steering and throttle never divide by a zero or negative range.
+export const cleanCalibration = (data: unknown): CalibrationProfile => {
+  if (!data || typeof data !== 'object') return DEFAULT_CALIBRATION;
+  const stored = data as Partial<Record<keyof CalibrationProfile, unknown>>;
+  if (stored.version !== CALIBRATION_VERSION) return DEFAULT_CALIBRATION;
+
+  const neutralAngle = finiteOr(stored.neutralAngle, DEFAULT_CALIBRATION.neutralAngle);
+  const leftAngle = finiteOr(stored.leftAngle, DEFAULT_CALIBRATION.leftAngle);
+  const rightAngle = finiteOr(stored.rightAngle, DEFAULT_CALIBRATION.rightAngle);
+  const anglesUsable = leftAngle < neutralAngle && neutralAngle < rightAngle;
+  const minPinch = finiteOr(stored.minPinch, DEFAULT_CALIBRATION.minPinch);
+  const maxPinch = finiteOr(stored.maxPinch, DEFAULT_CALIBRATION.maxPinch);
+  const pinchUsable = minPinch >= 0 && minPinch < maxPinch;
+
+  return {
+    version: CALIBRATION_VERSION,
+    neutralAngle: anglesUsable ? neutralAngle : DEFAULT_CALIBRATION.neutralAngle,
+    leftAngle: anglesUsable ? leftAngle : DEFAULT_CALIBRATION.leftAngle,
+    rightAngle: anglesUsable ? rightAngle : DEFAULT_CALIBRATION.rightAngle,
+    steeringDeadZone: clamp(finiteOr(stored.steeringDeadZone, DEFAULT_CALIBRATION.steeringDeadZone), 0, 10),
+    minPinch: pinchUsable ? minPinch : DEFAULT_CALIBRATION.minPinch,
+    maxPinch: pinchUsable ? maxPinch : DEFAULT_CALIBRATION.maxPinch,
+    throttleDeadZone: clamp(finiteOr(stored.throttleDeadZone, DEFAULT_CALIBRATION.throttleDeadZone), 0, 0.2),
+    calibratedAt: typeof stored.calibratedAt === 'string' ? stored.calibratedAt : null,
+  };
+};
+
+const loadCalibration = (): CalibrationProfile => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? cleanCalibration(JSON.parse(stored)) : DEFAULT_CALIBRATION;
+  } catch (err) {
+    console.error("Ignoring corrupt calibration profile", err);
+    return DEFAULT_CALIBRATION;
+  }
+};
+
+let activeCalibration: CalibrationProfile = loadCalibration();
+
+export const getCalibration = (): CalibrationProfile => activeCalibration;
+
+export const saveCalibration = (profile: CalibrationProfile) => {
+  activeCalibration = profile;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+};
+
+export const resetCalibration = () => {
+  activeCalibration = DEFAULT_CALIBRATION;
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+// --- Derivation from wizard samples ---
+
+export type CalibrationStepId = 'neutral' | 'left' | 'right' | 'open' | 'pinch';
+
+export type CalibrationSamples = Record<CalibrationStepId, GestureSample[]>;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Spread that ignores the odd outlier frame (90th percentile of deviation from the median)
+const jitter = (values: number[]): number => {
+  const center = median(values);
+  const deviations = values.map(v => Math.abs(v - center)).sort((a, b) => a - b);
+  return deviations[Math.floor(deviations.length * 0.9)] ?? 0;
+};
+
+// Throws with a player-facing message when the poses are too close together to be usable
+export const deriveCalibration = (samples: CalibrationSamples): CalibrationProfile => {
+  for (const [step, values] of Object.entries(samples)) {
+    if (values.length < 5) throw new Error(`Not enough tracking data for the "${step}" pose`);
+  }
+
+  const neutralAngles = samples.neutral.map(s => s.steeringAngle);
+  const neutralAngle = median(neutralAngles);
+  const leftAngle = median(samples.left.map(s => s.steeringAngle));
+  const rightAngle = median(samples.right.map(s => s.steeringAngle));
+
+  if (neutralAngle - leftAngle < 10) throw new Error("Turn further left - the full-left pose was too close to neutral");
+  if (rightAngle - neutralAngle < 10) throw new Error("Turn further right - the full-right pose was too close to neutral");
+
+  const openPinches = samples.open.map(s => s.pinchDistance);
+  const maxPinch = median(openPinches);
+  const minPinch = median(samples.pinch.map(s => s.pinchDistance));
+  const pinchRange = maxPinch - minPinch;
+
+  if (pinchRange < 0.03) throw new Error("Open your hand wider - the open and pinch poses looked the same");
+
+  return {
+    version: CALIBRATION_VERSION,
+    neutralAngle,
+    leftAngle,
+    rightAngle,
+    // 1.5x the resting wobble, but never so wide it swallows real steering
+    steeringDeadZone: clamp(jitter(neutralAngles) * 1.5, 1, 10),
+    minPinch,
+    maxPinch,
+    throttleDeadZone: clamp((jitter(openPinches) * 1.5) / pinchRange, 0, 0.2),
+    calibratedAt: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,76 @@
+// The game's IndexedDB database: player profiles and the leaderboard.
+// Small settings stay in localStorage; this is for records that grow with every run.
+
+const DB_NAME = 'neonRacer';
+const DB_VERSION = 1;
+
+export type StoreName = 'profiles' | 'runs';
+
+let opening: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("This browser has no IndexedDB, so profiles and the leaderboard can't be saved"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore('profiles', { keyPath: 'id' });
+      // One table per track and mode
+      db.createObjectStore('runs', { keyPath: 'id' }).createIndex('table', ['trackId', 'mode']);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(err => {
+    opening = null; // Let the next call try again
+    throw err;
+  });
+  return opening;
+};
+
+const settle = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Runs one request against a store in its own transaction
+export const withStore = async <T>(
+  name: StoreName, mode: IDBTransactionMode, use: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return settle(use(db.transaction(name, mode).objectStore(name)));
+};
+
+// Adds the records whose id isn't stored yet, checking and writing every store in one transaction,
+// so an import lands whole or not at all. Returns how many records were new in each store.
+export const addMissing = async (
+  batches: Partial<Record<StoreName, { id: string }[]>>
+): Promise<Partial<Record<StoreName, number>>> => {
+  const names = Object.keys(batches) as StoreName[];
+  const added: Partial<Record<StoreName, number>> = {};
+  if (names.length === 0) return added;
+
+  const db = await openDatabase();
+  const tx = db.transaction(names, 'readwrite');
+  names.forEach(name => {
+    const store = tx.objectStore(name);
+    const keys = store.getAllKeys();
+    keys.onsuccess = () => {
+      const existing = new Set(keys.result);
+      const records = batches[name]!.filter(record => !existing.has(record.id));
+      records.forEach(record => store.put(record));
+      added[name] = records.length;
+    };
+  });
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return added;
+};
+
+export const createId = (): string =>
+  `${Date.now().toString(36)}-${Math.floor(Math.random() * 0xFFFFFFFF).toString(36)}`;
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { ENTITY_BEHAVIOURS, ENTITY_TYPES, pickSpawnType } from './entities';
+
+describe('entity spawning', () => {
+  it('picks each type in its group in proportion to its weight', () => {
+    const counts: Record<string, number> = {};
+    const rolls = 1000;
+    for (let i = 0; i < rolls; i++) {
+      const type = pickSpawnType('hazard', i / rolls);
+      counts[type] = (counts[type] ?? 0) + 1;
+    }
+    const hazards = ENTITY_TYPES.filter(type => ENTITY_BEHAVIOURS[type].spawn.group === 'hazard');
+    const total = hazards.reduce((sum, type) => sum + ENTITY_BEHAVIOURS[type].spawn.weight, 0);
+    hazards.forEach(type => {
+      expect(counts[type] / rolls).toBeCloseTo(ENTITY_BEHAVIOURS[type].spawn.weight / total, 2);
+    });
+  });
+
+  it('never picks from the other group', () => {
+    expect(pickSpawnType('pickup', 0)).toBe('orb');
+    expect(ENTITY_BEHAVIOURS[pickSpawnType('pickup', 0.999)].spawn.group).toBe('pickup');
+  });
+});
@@ -0,0 +1,80 @@
+// What each kind of thing on the road does to the car.
+// The simulation has one handler per effect; everything else about an entity type is data in this table,
+// so a new type that reuses an effect (a bigger rock, a faster truck) is one more entry here.
+
+export type EntityType = 'rock' | 'oil' | 'orb' | 'traffic' | 'speedPad' | 'shield' | 'barrier';
+
+export type EntityEffect =
+  // Wrecks the car, unless it's boosting or shielded, which smash straight through
+  | { type: 'crash' }
+  // Grip goes for a while: steering stops answering and the car spins, sliding away from the patch's centre
+  | { type: 'slip'; seconds: number; drift: number; speedLoss: number }
+  // Fills the boost bar
+  | { type: 'charge'; boost: number }
+  // Kicks the car up to a speed above its normal top speed, which it holds for a while
+  | { type: 'surge'; speed: number; seconds: number }
+  // Obstacles are smashed instead of crashing for a while
+  | { type: 'shield'; seconds: number };
+
+export interface EntityBehaviour {
+  hitRadius: number; // Road-space distance between centres that counts as a hit
+  speed: number; // Units of speed (see WORLD_SPEED) it drives along the road at; 0 stands still
+  effect: EntityEffect;
+  consumed: boolean; // Gone once hit
+  score: number; // For hitting it without coming to grief (collecting, smashing)
+  // Endless road spawning: hazards appear more often the faster and further the car goes, pickups steadily.
+  // Within a group each type is picked in proportion to its weight.
+  spawn: { group: 'hazard' | 'pickup'; weight: number };
+}
+
+export const ENTITY_BEHAVIOURS: Record<EntityType, EntityBehaviour> = {
+  rock: {
+    hitRadius: 0.125, speed: 0, consumed: true, score: 100,
+    effect: { type: 'crash' },
+    spawn: { group: 'hazard', weight: 0.55 },
+  },
+  oil: {
+    hitRadius: 0.15, speed: 0, consumed: false, score: 0,
+    effect: { type: 'slip', seconds: 1.2, drift: 0.5, speedLoss: 0.4 },
+    spawn: { group: 'hazard', weight: 0.25 },
+  },
+  traffic: {
+    hitRadius: 0.2, speed: 0.6, consumed: true, score: 250,
+    effect: { type: 'crash' },
+    spawn: { group: 'hazard', weight: 0.12 },
+  },
+  barrier: {
+    hitRadius: 0.35, speed: 0, consumed: true, score: 150,
+    effect: { type: 'crash' },
+    spawn: { group: 'hazard', weight: 0.08 },
+  },
+  orb: {
+    hitRadius: 0.125, speed: 0, consumed: true, score: 500,
+    effect: { type: 'charge', boost: 25 },
+    spawn: { group: 'pickup', weight: 0.7 },
+  },
+  speedPad: {
+    hitRadius: 0.15, speed: 0, consumed: false, score: 50,
+    effect: { type: 'surge', speed: 2.1, seconds: 1.5 },
+    spawn: { group: 'pickup', weight: 0.2 },
+  },
+  shield: {
+    hitRadius: 0.125, speed: 0, consumed: true, score: 200,
+    effect: { type: 'shield', seconds: 5 },
+    spawn: { group: 'pickup', weight: 0.1 },
+  },
+};
+
+export const ENTITY_TYPES = Object.keys(ENTITY_BEHAVIOURS) as EntityType[];
+
+// Weighted pick within a spawn group; roll is uniform in [0, 1)
+export const pickSpawnType = (group: 'hazard' | 'pickup', roll: number): EntityType => {
+  const candidates = ENTITY_TYPES.filter(type => ENTITY_BEHAVIOURS[type].spawn.group === group);
+  const total = candidates.reduce((sum, type) => sum + ENTITY_BEHAVIOURS[type].spawn.weight, 0);
+  let remaining = roll * total;
+  for (const type of candidates) {
+    remaining -= ENTITY_BEHAVIOURS[type].spawn.weight;
+    if (remaining < 0) return type;
+  }
+  return candidates[candidates.length - 1];
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { FrameClock, MAX_FRAME_DELTA, createFrameClock } from './gameLoop';
+
+const STEP = 1 / 60;
+
+// Drives the clock like requestAnimationFrame would, returning how many steps each frame ran
+const runFrames = (clock: FrameClock, frameMs: number, frames: number, start = 0) => {
+  const steps: number[] = [];
+  for (let i = 0; i <= frames; i++) {
+    clock.accumulate(clock.advance(start + i * frameMs));
+    let count = 0;
+    while (clock.takeStep()) count++;
+    steps.push(count);
+  }
+  return steps;
+};
+
+describe('frame clock', () => {
+  it('runs one fixed step per frame at 60Hz', () => {
+    const steps = runFrames(createFrameClock(STEP), 1000 / 60, 60);
+    expect(steps[0]).toBe(0);
+    expect(steps.slice(1).reduce((a, b) => a + b, 0)).toBe(60);
+  });
+
+  it('keeps simulated time in step with a 144Hz display', () => {
+    const steps = runFrames(createFrameClock(STEP), 1000 / 144, 144);
+    expect(steps.reduce((a, b) => a + b, 0)).toBeGreaterThanOrEqual(59);
+    expect(Math.max(...steps)).toBe(1);
+  });
+
+  it('clamps long gaps instead of fast-forwarding through them', () => {
+    const clock = createFrameClock(STEP);
+    clock.advance(0);
+    expect(clock.advance(5000)).toBe(MAX_FRAME_DELTA);
+  });
+
+  it('drops banked time on request', () => {
+    const clock = createFrameClock(STEP);
+    clock.accumulate(STEP * 3.5);
+    clock.clearAccumulator();
+    expect(clock.takeStep()).toBe(false);
+  });
+
+  it('reports fps and frame times once a window has elapsed', () => {
+    const clock = createFrameClock(STEP);
+    expect(clock.getStats().fps).toBe(0);
+    runFrames(clock, 20, 30);
+    const stats = clock.getStats();
+    expect(stats.fps).toBeCloseTo(50, 0);
+    expect(stats.frameMs).toBeCloseTo(20, 1);
+    expect(stats.worstFrameMs).toBe(20);
+    expect(stats.stepsPerFrame).toBeGreaterThan(1);
+  });
+});
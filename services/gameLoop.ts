@@ -0,0 +1,87 @@
+import { SIM_STEP } from './simulation';
+
+// Frame timing for the render loop: turns rAF timestamps into capped frame deltas, banks them into
+// whole fixed simulation steps, and keeps rolling FPS / frame-time numbers for the stats readout.
+
+export interface FrameStats {
+  fps: number;
+  frameMs: number; // Average frame time over the last window
+  worstFrameMs: number; // Longest single frame in the last window
+  stepsPerFrame: number; // Average simulation steps run per rendered frame
+}
+
+export interface FrameClock {
+  advance: (timestamp: number) => number;
+  accumulate: (seconds: number) => void;
+  takeStep: () => boolean;
+  clearAccumulator: () => void;
+  getStats: () => FrameStats;
+}
+
+export const MAX_FRAME_DELTA = 0.1; // Seconds; longer gaps (background tabs, breakpoints) are clamped
+const STATS_WINDOW_MS = 500;
+
+export const createFrameClock = (stepSize: number = SIM_STEP): FrameClock => {
+  let lastTime: number | null = null;
+  let accumulator = 0;
+
+  let windowStart: number | null = null;
+  let windowFrames = 0;
+  let windowSteps = 0;
+  let windowWorst = 0;
+  let stats: FrameStats = { fps: 0, frameMs: 0, worstFrameMs: 0, stepsPerFrame: 0 };
+
+  // Returns the capped delta in seconds since the previous frame; the first frame is 0
+  const advance = (timestamp: number): number => {
+    if (lastTime === null || windowStart === null) {
+      lastTime = timestamp;
+      windowStart = timestamp;
+      return 0;
+    }
+    const elapsedMs = Math.max(0, timestamp - lastTime);
+    lastTime = timestamp;
+
+    windowFrames++;
+    windowWorst = Math.max(windowWorst, elapsedMs);
+    const windowMs = timestamp - windowStart;
+    if (windowMs >= STATS_WINDOW_MS) {
+      stats = {
+        fps: (windowFrames * 1000) / windowMs,
+        frameMs: windowMs / windowFrames,
+        worstFrameMs: windowWorst,
+        stepsPerFrame: windowSteps / windowFrames,
+      };
+      windowStart = timestamp;
+      windowFrames = 0;
+      windowSteps = 0;
+      windowWorst = 0;
+    }
+
+    return Math.min(elapsedMs / 1000, MAX_FRAME_DELTA);
+  };
+
+  const accumulate = (seconds: number) => {
+    accumulator += seconds;
+  };
+
+  // Consumes one fixed step if enough time is banked
+  const takeStep = (): boolean => {
+    if (accumulator < stepSize) return false;
+    accumulator -= stepSize;
+    windowSteps++;
+    return true;
+  };
+
+  // Drops banked time, e.g. when the simulation stops mid-frame or a new world is loaded
+  const clearAccumulator = () => {
+    accumulator = 0;
+  };
+
+  return {
+    advance,
+    accumulate,
+    takeStep,
+    clearAccumulator,
+    getStats: (): FrameStats => stats,
+  };
+};
@@ -0,0 +1,315 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  GestureReading, SMOOTHING_PRESETS, calculateBrake, calculateSingleHandSteering, calculateSteering, calculateThrottle,
+  createGestureFilter, createHandTracker, detectBoostGesture, detectHands, initializeHandLandmarker,
+  measurePinchDistance, measureSteeringAngle, splitHandsByPlayer
+} from './gestureService';
+import { CalibrationProfile, DEFAULT_CALIBRATION } from './calibrationService';
+import { HandFixtureName, loadHandFixture, versusFixture } from '../test/handFixtures';
+import type { Category } from '@mediapipe/tasks-vision';
+
+const trackFixture = (name: HandFixtureName) => {
+  const fixture = loadHandFixture(name);
+  return createHandTracker().update(fixture.landmarks, fixture.handednesses, 0);
+};
+
+const driveFixture = (name: HandFixtureName, calibration: CalibrationProfile = DEFAULT_CALIBRATION) => {
+  const { left, right } = trackFixture(name);
+  if (!left || !right) throw new Error(`Fixture ${name} needs both hands`);
+  return {
+    angle: measureSteeringAngle(left, right),
+    steering: calculateSteering(left, right, calibration),
+    throttle: calculateThrottle(right, calibration)
+  };
+};
+
+// Swaps the handedness labels, keeping the scores - what the classifier does when it misfires
+const mislabel = (categories: Category[][]): Category[][] =>
+  categories.map(([category]) => {
+    const categoryName = category.categoryName === 'Left' ? 'Right' : 'Left';
+    return [{ ...category, categoryName, displayName: categoryName, score: 0.6 }];
+  });
+
+describe('createHandTracker', () => {
+  it('identifies hands by handedness, not by position', () => {
+    const fixture = loadHandFixture('crossed-hands');
+    const { left, right } = trackFixture('crossed-hands');
+    // The player's right hand has crossed over to the image's right side
+    expect(right).toEqual(fixture.landmarks[1]);
+    expect(left).toEqual(fixture.landmarks[0]);
+    expect(right![9].x).toBeGreaterThan(left![9].x);
+  });
+
+  it('reports the weaker handedness score as confidence', () => {
+    expect(trackFixture('neutral').confidence).toBeCloseTo(0.95);
+    expect(trackFixture('low-confidence').confidence).toBeCloseTo(0.3);
+  });
+
+  it('falls back to image position when there are no labels', () => {
+    const fixture = loadHandFixture('neutral');
+    const { left, right } = createHandTracker().update([...fixture.landmarks].reverse(), [], 0);
+    expect(right![9].x).toBeLessThan(left![9].x);
+  });
+
+  it('keeps identities through a brief handedness misfire', () => {
+    const tracker = createHandTracker();
+    const fixture = loadHandFixture('neutral');
+    const first = tracker.update(fixture.landmarks, fixture.handednesses, 0);
+    const second = tracker.update(fixture.landmarks, mislabel(fixture.handednesses), 33);
+    expect(second.right).toBe(first.right);
+    expect(second.left).toBe(first.left);
+  });
+
+  it('trusts the labels again once the history is stale', () => {
+    const tracker = createHandTracker();
+    const fixture = loadHandFixture('neutral');
+    const first = tracker.update(fixture.landmarks, fixture.handednesses, 0);
+    const later = tracker.update(fixture.landmarks, mislabel(fixture.handednesses), 1000);
+    expect(later.right).toBe(first.left);
+  });
+
+  it('follows a single hand as it crosses the frame', () => {
+    const tracker = createHandTracker();
+    const fixture = loadHandFixture('neutral');
+    tracker.update(fixture.landmarks, fixture.handednesses, 0);
+
+    // The left hand drops out and the right hand drifts over with an unsure label
+    const right = fixture.landmarks[0];
+    const moved = right.map(point => ({ ...point, x: point.x + 0.05 }));
+    const { left: none, right: tracked } = tracker.update([moved], [[{ ...fixture.handednesses[1][0], score: 0.55 }]], 33);
+    expect(none).toBeNull();
+    expect(tracked).toBe(moved);
+  });
+
+  it('puts a single labelled hand on its own side', () => {
+    const { left, right, confidence } = trackFixture('one-hand');
+    expect(left).toBeNull();
+    expect(right).not.toBeNull();
+    expect(confidence).toBeCloseTo(0.95);
+  });
+
+  it('finds nothing in an empty frame', () => {
+    expect(createHandTracker().update([], [], 0)).toEqual({ left: null, right: null, confidence: 0 });
+  });
+});
+
+describe('splitHandsByPlayer', () => {
+  const steerPlayers = (players: ReturnType<typeof splitHandsByPlayer>) =>
+    players.map(player => {
+      const { left, right } = createHandTracker().update(player.landmarks, player.handednesses, 0);
+      return calculateSteering(left!, right!);
+    });
+
+  it('gives each player the hands on their half of the view', () => {
+    const frame = versusFixture(loadHandFixture('left-turn'), loadHandFixture('right-turn'));
+    const players = splitHandsByPlayer(frame.landmarks, frame.handednesses);
+
+    expect(players.map(player => player.landmarks.length)).toEqual([2, 2]);
+    const [first, second] = steerPlayers(players);
+    expect(first).toBeLessThan(-0.9);
+    expect(second).toBeGreaterThan(0.9);
+  });
+
+  it('sends a hand reaching over the middle back to the player short of one', () => {
+    const frame = versusFixture(loadHandFixture('neutral'), loadHandFixture('neutral'));
+    const [stray] = loadHandFixture('one-hand').landmarks;
+    const shift = 0.52 - stray[9].x;
+    const landmarks = [...frame.landmarks.slice(0, 3), stray.map(point => ({ ...point, x: point.x + shift }))];
+
+    const [first, second] = splitHandsByPlayer(landmarks);
+    expect(first.landmarks).toHaveLength(2);
+    expect(second.landmarks).toHaveLength(2);
+    expect(second.landmarks).toContain(landmarks[3]);
+    expect(second.handednesses).toEqual([[], []]);
+  });
+});
+
+describe('steering', () => {
+  it('reads a level wheel as straight ahead', () => {
+    const { angle, steering } = driveFixture('neutral');
+    expect(angle).toBeCloseTo(0, 1);
+    expect(steering).toBeCloseTo(0, 2);
+  });
+
+  it('turns left when the left hand drops', () => {
+    const { angle, steering } = driveFixture('left-turn');
+    expect(angle).toBeCloseTo(-45, 0);
+    expect(steering).toBeCloseTo(-1, 2);
+  });
+
+  it('turns right when the right hand drops', () => {
+    const { angle, steering } = driveFixture('right-turn');
+    expect(angle).toBeCloseTo(45, 0);
+    expect(steering).toBeCloseTo(1, 2);
+  });
+
+  it('scales partial turns against the lock', () => {
+    const { angle, steering } = driveFixture('slight-right');
+    expect(steering).toBeCloseTo(angle / 45, 3);
+    expect(steering).toBeGreaterThan(0.2);
+    expect(steering).toBeLessThan(0.5);
+  });
+
+  it('stays at full left lock when the hands cross over', () => {
+    expect(driveFixture('crossed-hands').steering).toBe(-1);
+  });
+
+  it('applies the calibrated neutral offset and dead zone', () => {
+    const { angle } = driveFixture('slight-right');
+    const calibration = { ...DEFAULT_CALIBRATION, neutralAngle: angle };
+    expect(driveFixture('slight-right', calibration).steering).toBeCloseTo(0, 3);
+
+    const deadZone = { ...DEFAULT_CALIBRATION, steeringDeadZone: angle + 1 };
+    expect(driveFixture('slight-right', deadZone).steering).toBe(0);
+  });
+
+  it('uses separate left and right locks', () => {
+    const calibration = { ...DEFAULT_CALIBRATION, leftAngle: -90, rightAngle: 30 };
+    expect(driveFixture('left-turn', calibration).steering).toBeCloseTo(-0.5, 1);
+    expect(driveFixture('right-turn', calibration).steering).toBe(1);
+  });
+});
+
+describe('single-hand steering', () => {
+  it('is straight with an upright hand', () => {
+    const { right } = trackFixture('one-hand');
+    expect(calculateSingleHandSteering(right!, DEFAULT_CALIBRATION)).toBeCloseTo(0, 2);
+  });
+
+  it('turns toward the way the fingers lean', () => {
+    const { right } = trackFixture('one-hand-tilt-left');
+    const steering = calculateSingleHandSteering(right!, DEFAULT_CALIBRATION);
+    expect(steering).toBeLessThan(-0.5);
+    expect(steering).toBeGreaterThanOrEqual(-1);
+  });
+});
+
+describe('throttle', () => {
+  it('idles with an open hand', () => {
+    expect(driveFixture('neutral').throttle).toBe(0);
+  });
+
+  it('is full with a closed pinch', () => {
+    expect(driveFixture('pinch').throttle).toBe(1);
+  });
+
+  it('is proportional in between', () => {
+    expect(driveFixture('half-pinch').throttle).toBeCloseTo(0.5, 2);
+  });
+
+  it('respects the calibrated dead zone', () => {
+    const calibration = { ...DEFAULT_CALIBRATION, throttleDeadZone: 0.6 };
+    expect(driveFixture('half-pinch', calibration).throttle).toBe(0);
+    expect(driveFixture('pinch', calibration).throttle).toBe(1);
+  });
+
+  it('can come from the left hand', () => {
+    const { left } = trackFixture('pinch');
+    expect(calculateThrottle(left!, DEFAULT_CALIBRATION)).toBe(0);
+  });
+
+  it('is zero when the fingertips are missing', () => {
+    expect(measurePinchDistance([])).toBe(Infinity);
+    expect(calculateThrottle([])).toBe(0);
+  });
+});
+
+describe('brake and boost poses', () => {
+  it('does nothing with an open steering hand', () => {
+    const { left } = trackFixture('neutral');
+    expect(calculateBrake(left!)).toBe(0);
+    expect(detectBoostGesture(left!)).toBe(false);
+  });
+
+  it('brakes fully with a fist', () => {
+    const { left } = trackFixture('brake-fist');
+    expect(calculateBrake(left!)).toBe(1);
+    expect(detectBoostGesture(left!)).toBe(false);
+  });
+
+  it('fires boost when pointing, without braking', () => {
+    const { left } = trackFixture('boost-point');
+    expect(detectBoostGesture(left!)).toBe(true);
+    expect(calculateBrake(left!)).toBe(0);
+  });
+
+  it('ignores a hand with missing landmarks', () => {
+    expect(calculateBrake([])).toBe(0);
+    expect(detectBoostGesture([])).toBe(false);
+  });
+});
+
+describe('createGestureFilter', () => {
+  const config = SMOOTHING_PRESETS.balanced;
+  const reading = (values: Partial<GestureReading>): GestureReading =>
+    ({ steering: 0, throttle: 0, brake: 0, boost: false, confidence: 1, ...values });
+
+  it('holds the last value through a short dropout, then lets go', () => {
+    const filter = createGestureFilter();
+    filter.update(reading({ steering: 0.5, throttle: 1, boost: true }), 0, config);
+
+    // Boost is a trigger, so a held reading must not keep firing it
+    const held = filter.update(null, config.holdMs - 10, config);
+    expect(held).toEqual({ steering: 0.5, throttle: 1, brake: 0, boost: false, status: 'held' });
+
+    const lost = filter.update(null, config.holdMs + 10, config);
+    expect(lost).toEqual({ steering: 0, throttle: 0, brake: 0, boost: false, status: 'lost' });
+  });
+
+  it('rejects readings below the confidence threshold', () => {
+    const filter = createGestureFilter();
+    const result = filter.update(reading({ steering: 1, throttle: 1, confidence: config.minConfidence - 0.1 }), 0, config);
+    expect(result.status).toBe('lost');
+  });
+
+  it('smooths a sudden jump', () => {
+    const filter = createGestureFilter();
+    filter.update(reading({}), 0, config);
+    const next = filter.update(reading({ steering: 1 }), 33, config);
+    expect(next.steering).toBeGreaterThan(0);
+    expect(next.steering).toBeLessThan(1);
+  });
+});
+
+describe('vision worker', () => {
+  // Answers the init request and nothing else, so detections stay pending until the test acts
+  class FakeWorker extends EventTarget {
+    static instances: FakeWorker[] = [];
+    terminated = false;
+    constructor() {
+      super();
+      FakeWorker.instances.push(this);
+    }
+    postMessage(request: { type: string }) {
+      if (request.type !== 'init') return;
+      const diagnostics = { delegate: 'CPU', model: 'fake', gpuAvailable: false, fallbackReason: null, numHands: 2 };
+      queueMicrotask(() => this.dispatchEvent(new MessageEvent('message', { data: { type: 'ready', diagnostics } })));
+    }
+    terminate() {
+      this.terminated = true;
+    }
+  }
+
+  const frame = () => ({ close: () => {} }) as unknown as ImageBitmap;
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('fails pending detections when the worker crashes, then loads a new one', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.stubGlobal('fetch', vi.fn(async () => ({ ok: true, status: 200 })));
+    await initializeHandLandmarker();
+    const [crashed] = FakeWorker.instances;
+
+    const detection = detectHands(frame(), 0);
+    crashed.dispatchEvent(new ErrorEvent('error', { message: 'out of memory' }));
+
+    await expect(detection).rejects.toThrow('out of memory');
+    expect(crashed.terminated).toBe(true);
+    await expect(detectHands(frame(), 1)).rejects.toThrow('not initialized');
+
+    await initializeHandLandmarker();
+    expect(FakeWorker.instances).toHaveLength(2);
+  });
+});
@@ -1,102 +1,554 @@
-import { HandLandmarker, FilesetResolver, NormalizedLandmark } from "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/+esm";
+import type { Category, NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { CalibrationProfile, getCalibration } from "./calibrationService";
+import { VisionDiagnostics, VisionSettings, getVisionSettings } from "./visionSettingsService";
 
-let handLandmarker: HandLandmarker | undefined = undefined;
-let runningMode: "IMAGE" | "VIDEO" = "VIDEO";
+// Vision assets are served from our own origin so the game runs on offline kiosks.
+// `npm run vision:assets` copies the WASM fileset and model into public/vision.
+// Override with VITE_VISION_ASSET_BASE to serve them from another path or host.
+export const VISION_ASSET_BASE: string =
+  import.meta.env.VITE_VISION_ASSET_BASE ?? `${import.meta.env.BASE_URL}vision/`;
 
-export const initializeHandLandmarker = async (): Promise<void> => {
-  if (handLandmarker) return;
+export const VISION_WASM_PATH = `${VISION_ASSET_BASE}wasm`;
+export const VISION_MODEL_PATH = `${VISION_ASSET_BASE}hand_landmarker.task`;
+export const VISION_MODEL_VARIANT = "hand_landmarker float16";
 
-  const vision = await FilesetResolver.forVisionTasks(
-    "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm"
-  );
+// --- Vision Worker Client ---
+// Inference runs in services/visionWorker.ts so it can't stall the game's frames.
+
+export interface HandDetection {
+  landmarks: NormalizedLandmark[][];
+  handednesses: Category[][];
+  inferenceMs: number; // Time spent inside detectForVideo, excluding messaging
+}
+
+export type VisionWorkerRequest =
+  | { type: 'init'; wasmPath: string; modelPath: string; modelVariant: string; settings: VisionSettings }
+  | { type: 'detect'; id: number; frame: ImageBitmap; timestamp: number };
+
+export type VisionWorkerResponse =
+  | { type: 'ready'; diagnostics: VisionDiagnostics }
+  | { type: 'error'; message: string }
+  | { type: 'result'; id: number; landmarks: NormalizedLandmark[][]; handednesses: Category[][]; inferenceMs: number }
+  | { type: 'detectError'; id: number; message: string };
+
+let worker: Worker | null = null;
+let initPromise: Promise<VisionDiagnostics> | null = null;
+let appliedSettings: VisionSettings | null = null;
+let diagnostics: VisionDiagnostics | null = null;
+let nextRequestId = 0;
+const pendingDetections = new Map<number, { resolve: (d: HandDetection) => void; reject: (e: Error) => void }>();
+
+// Fail with a readable message instead of an opaque WASM/fetch error deep inside MediaPipe
+const assertAssetAvailable = async (url: string, label: string) => {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'HEAD' });
+  } catch {
+    throw new Error(`Could not reach ${label} at ${url}`);
+  }
+  if (!response.ok) {
+    throw new Error(`${label} missing at ${url} (HTTP ${response.status})`);
+  }
+};
+
+const handleWorkerMessage = (event: MessageEvent<VisionWorkerResponse>) => {
+  const message = event.data;
+  if (message.type === 'result') {
+    pendingDetections.get(message.id)?.resolve({
+      landmarks: message.landmarks,
+      handednesses: message.handednesses,
+      inferenceMs: message.inferenceMs
+    });
+    pendingDetections.delete(message.id);
+  } else if (message.type === 'detectError') {
+    pendingDetections.get(message.id)?.reject(new Error(message.message));
+    pendingDetections.delete(message.id);
+  }
+};
+
+// A crash after loading would leave detections waiting forever. Fail them and forget the worker,
+// so the next initializeHandLandmarker starts a fresh one.
+const handleWorkerCrash = (visionWorker: Worker, event: ErrorEvent) => {
+  if (worker !== visionWorker) return; // Still loading; configureHandLandmarker reports that itself
+  const error = new Error(event.message || "Vision worker crashed");
+  pendingDetections.forEach(({ reject }) => reject(error));
+  pendingDetections.clear();
+  worker = null;
+  initPromise = null;
+  appliedSettings = null;
+  diagnostics = null;
+  visionWorker.terminate();
+};
+
+const createWorker = async (): Promise<Worker> => {
+  await assertAssetAvailable(VISION_MODEL_PATH, "Hand model");
+  await assertAssetAvailable(`${VISION_WASM_PATH}/vision_wasm_internal.wasm`, "Vision WASM");
+
+  const visionWorker = new Worker(new URL('./visionWorker.ts', import.meta.url), { type: 'module' });
+  visionWorker.addEventListener('message', handleWorkerMessage);
+  visionWorker.addEventListener('error', (event) => handleWorkerCrash(visionWorker, event));
+  return visionWorker;
+};
+
+// Sends the current settings to the worker, which picks a delegate and reports what it chose
+const configureHandLandmarker = async (settings: VisionSettings): Promise<VisionDiagnostics> => {
+  const isNewWorker = !worker;
+  const visionWorker = worker ?? await createWorker();
+
+  try {
+    const result = await new Promise<VisionDiagnostics>((resolve, reject) => {
+      const handleInit = (event: MessageEvent<VisionWorkerResponse>) => {
+        if (event.data.type === 'ready') resolve(event.data.diagnostics);
+        else if (event.data.type === 'error') reject(new Error(event.data.message));
+        else return;
+        visionWorker.removeEventListener('message', handleInit);
+      };
+      visionWorker.addEventListener('message', handleInit);
+      visionWorker.addEventListener('error', (event) => reject(new Error(event.message || "Vision worker crashed")), { once: true });
+      visionWorker.postMessage({
+        type: 'init',
+        wasmPath: VISION_WASM_PATH,
+        modelPath: VISION_MODEL_PATH,
+        modelVariant: VISION_MODEL_VARIANT,
+        settings
+      } satisfies VisionWorkerRequest);
+    });
+    worker = visionWorker;
+    return result;
+  } catch (err) {
+    if (isNewWorker) visionWorker.terminate();
+    throw err;
+  }
+};
+
+// Loads the landmarker, or re-applies settings if they changed since the last load.
+// Each player gets the saved hand count, so a versus race looks for up to four hands.
+// Concurrent callers share one load; a failed load can be retried.
+export const initializeHandLandmarker = (players = 1): Promise<VisionDiagnostics> => {
+  if (initPromise) return initPromise;
+
+  const saved = getVisionSettings();
+  const numHands = saved.numHands * players;
+  if (diagnostics && appliedSettings === saved && diagnostics.numHands === numHands) return Promise.resolve(diagnostics);
+
+  initPromise = configureHandLandmarker({ ...saved, numHands })
+    .then((result) => {
+      appliedSettings = saved;
+      diagnostics = result;
+      return result;
+    })
+    .finally(() => {
+      initPromise = null;
+    });
+  return initPromise;
+};
+
+export const getVisionDiagnostics = (): VisionDiagnostics | null => diagnostics;
+
+// The frame is transferred to the worker and closed there; don't use it after calling this
+export const detectHands = (frame: ImageBitmap, timestamp: number): Promise<HandDetection> => {
+  if (!worker) {
+    frame.close();
+    return Promise.reject(new Error("Hand landmarker not initialized"));
+  }
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pendingDetections.set(id, { resolve, reject });
+    worker!.postMessage({ type: 'detect', id, frame, timestamp } satisfies VisionWorkerRequest, [frame]);
+  });
+};
 
-  handLandmarker = await HandLandmarker.createFromOptions(vision, {
-    baseOptions: {
-      modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-      delegate: "GPU",
+// --- Hand Identity ---
+// Which hand is which comes from MediaPipe's handedness classifier, not from where the hands are,
+// so crossing hands on a hard turn doesn't swap them. MediaPipe assumes a mirrored selfie image;
+// our frames are raw, so its "Left" label is the player's right hand.
+// The classifier flickers on edge-on or overlapping hands, so each frame's labels are weighed
+// against where each hand was a moment ago.
+
+export type HandSide = 'left' | 'right';
+
+export interface TrackedHands {
+  left: NormalizedLandmark[] | null;
+  right: NormalizedLandmark[] | null;
+  confidence: number; // Lowest handedness score of the hands found
+}
+
+const TRACK_TIMEOUT_MS = 300; // Older positions say nothing about who is who
+const CONTINUITY_SCALE = 0.1; // Image fraction; movement beyond this is no longer evidence of identity
+
+// 1 = certainly the player's right hand, 0 = certainly their left, 0.5 = no idea
+const rightness = (category: Category | undefined): number => {
+  if (!category) return 0.5;
+  return category.categoryName === 'Left' ? category.score : 1 - category.score;
+};
+
+const distance = (a: NormalizedLandmark, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const clampUnit = (value: number) => Math.max(-1, Math.min(1, value));
+
+export const createHandTracker = () => {
+  let previous: Record<HandSide, { x: number; y: number; timestamp: number } | null> = { left: null, right: null };
+
+  return {
+    update: (
+      landmarks: NormalizedLandmark[][],
+      handednesses: Category[][] = [],
+      timestamp: number = performance.now()
+    ): TrackedHands => {
+      const hands = landmarks.slice(0, 2).map((hand, i) => ({
+        hand,
+        point: hand[9],
+        category: handednesses[i]?.[0]
+      }));
+      const tracked: TrackedHands = { left: null, right: null, confidence: 0 };
+      if (hands.length === 0) return tracked;
+
+      const recent = (side: HandSide) => {
+        const last = previous[side];
+        return last && timestamp - last.timestamp <= TRACK_TIMEOUT_MS ? last : null;
+      };
+      const lastLeft = recent('left');
+      const lastRight = recent('right');
+
+      if (hands.length === 2) {
+        const [a, b] = hands;
+        // Positive: `a` is the player's right hand
+        let evidence = rightness(a.category) - rightness(b.category);
+        if (lastLeft && lastRight) {
+          const keep = distance(a.point, lastRight) + distance(b.point, lastLeft);
+          const swap = distance(a.point, lastLeft) + distance(b.point, lastRight);
+          evidence += clampUnit((swap - keep) / CONTINUITY_SCALE);
+        } else if (evidence === 0) {
+          // No labels and no history: the player's right hand is usually on the image's left
+          evidence = b.point.x - a.point.x;
+        }
+        const [right, left] = evidence >= 0 ? [a, b] : [b, a];
+        tracked.right = right.hand;
+        tracked.left = left.hand;
+        tracked.confidence = Math.min(a.category?.score ?? 1, b.category?.score ?? 1);
+      } else {
+        const [only] = hands;
+        // Positive: the player's right hand
+        let evidence = 2 * rightness(only.category) - 1;
+        if (lastLeft && lastRight) {
+          evidence += clampUnit((distance(only.point, lastLeft) - distance(only.point, lastRight)) / CONTINUITY_SCALE);
+        } else if (lastRight) {
+          // Staying close to the hand we just saw is evidence; being far from it isn't
+          evidence += Math.max(0, 1 - distance(only.point, lastRight) / CONTINUITY_SCALE);
+        } else if (lastLeft) {
+          evidence -= Math.max(0, 1 - distance(only.point, lastLeft) / CONTINUITY_SCALE);
+        }
+        tracked[evidence >= 0 ? 'right' : 'left'] = only.hand;
+        tracked.confidence = only.category?.score ?? 1;
+      }
+
+      for (const side of ['left', 'right'] as HandSide[]) {
+        const hand = tracked[side];
+        if (hand) previous[side] = { x: hand[9].x, y: hand[9].y, timestamp };
+      }
+      return tracked;
     },
-    runningMode: runningMode,
-    numHands: 2,
-    minHandDetectionConfidence: 0.5,
-    minHandPresenceConfidence: 0.5,
-    minTrackingConfidence: 0.5
+    reset: () => {
+      previous = { left: null, right: null };
+    }
+  };
+};
+
+// --- Versus ---
+// Two players share the camera, one either side of it. Hands are split by which half of the view
+// they're in, then each player's pair goes through their own tracker. Someone reaching over the
+// middle can't take a third hand: the hand nearest the middle goes back to the player short of one.
+
+export interface PlayerHands {
+  landmarks: NormalizedLandmark[][];
+  handednesses: Category[][];
+}
+
+// Player 1 stands on the left of the mirrored view, which is the right half of the raw image
+export const splitHandsByPlayer = (
+  landmarks: NormalizedLandmark[][],
+  handednesses: Category[][] = []
+): [PlayerHands, PlayerHands] => {
+  const sides: [number[], number[]] = [[], []];
+  landmarks.forEach((hand, i) => sides[hand[9].x >= 0.5 ? 0 : 1].push(i));
+
+  const fromMiddle = (i: number) => Math.abs(landmarks[i][9].x - 0.5);
+  for (const [crowded, short] of [[0, 1], [1, 0]]) {
+    while (sides[crowded].length > 2 && sides[short].length < 2) {
+      const nearest = sides[crowded].reduce((a, b) => fromMiddle(a) <= fromMiddle(b) ? a : b);
+      sides[crowded] = sides[crowded].filter(i => i !== nearest);
+      sides[short].push(nearest);
+    }
+  }
+
+  const player = (indices: number[]): PlayerHands => ({
+    landmarks: indices.map(i => landmarks[i]),
+    handednesses: indices.map(i => handednesses[i] ?? [])
   });
+  return [player(sides[0]), player(sides[1])];
 };
 
-export const processVideoFrame = (video: HTMLVideoElement, timestamp: number) => {
-  if (!handLandmarker) return null;
-  return handLandmarker.detectForVideo(video, timestamp);
+// Which hand pinches for throttle; the other hand only steers
+const THROTTLE_HAND_KEY = 'neonRacer.throttleHand';
+
+let throttleHand: HandSide = localStorage.getItem(THROTTLE_HAND_KEY) === 'left' ? 'left' : 'right';
+
+export const getThrottleHand = (): HandSide => throttleHand;
+
+export const setThrottleHand = (hand: HandSide) => {
+  throttleHand = hand;
+  localStorage.setItem(THROTTLE_HAND_KEY, hand);
 };
 
 // Math helpers for steering logic
-export const calculateSteering = (leftHand: NormalizedLandmark[], rightHand: NormalizedLandmark[]): number => {
+export const measureSteeringAngle = (leftHand: NormalizedLandmark[], rightHand: NormalizedLandmark[]): number => {
   // Landmark 9 is the Middle Finger MCP (Knuckle) - stable point for "wheel" holding
-  // Landmark 0 is Wrist - also stable.
-  // Using Landmark 9 (Middle MCP) as requested in system prompt logic mostly, 
-  // but let's stick to the prompt's request: "Angle between Left Hand (Landmark 9) and Right Hand (Landmark 9)"
-  
   const leftPoint = leftHand[9];
   const rightPoint = rightHand[9];
 
   if (!leftPoint || !rightPoint) return 0;
 
-  // Calculate slope
+  // Slope from the player's left hand to their right hand, in degrees. Image y grows downwards,
+  // so a level wheel is 0, left hand low (turning left) is negative, right hand low is positive.
   const dy = rightPoint.y - leftPoint.y;
-  const dx = rightPoint.x - leftPoint.x;
-
-  // Angle in radians
-  const angle = Math.atan2(dy, dx);
-  
-  // Convert to degrees for easier logic tuning
-  const degrees = angle * (180 / Math.PI);
-
-  // Normal holding is horizontal -> 0 degrees.
-  // Turn Left -> Left hand down, Right hand up -> dy is negative -> negative angle.
-  // Turn Right -> Left hand up, Right hand down -> dy is positive -> positive angle.
-  // Wait! In screen space, Y increases downwards. 
-  // Left Hand (Left side of screen) at x=0.3, y=0.5. Right Hand (Right side) at x=0.7, y=0.5.
-  // Turn Left (steering wheel counter-clockwise): Left hand goes DOWN (Higher Y), Right hand goes UP (Lower Y).
-  // Left Y = 0.7, Right Y = 0.3. 
-  // dy = Right.y - Left.y = 0.3 - 0.7 = -0.4.
-  // atan2(-0.4, 0.4) = -45 degrees.
-  // So: Negative Angle = Left Turn. Positive Angle = Right Turn.
-
-  // Clamp and Normalize
-  // Max turn usually around 45 degrees
-  const maxAngle = 45;
-  let clamped = Math.max(-maxAngle, Math.min(maxAngle, degrees));
-  
-  // Normalize to -1 to 1
-  return clamped / maxAngle; 
-};
-
-export const calculateThrottle = (hand: NormalizedLandmark[]): number => {
+  const dx = leftPoint.x - rightPoint.x;
+  return Math.atan2(dy, dx) * (180 / Math.PI);
+};
+
+export const calculateSteering = (
+  leftHand: NormalizedLandmark[],
+  rightHand: NormalizedLandmark[],
+  calibration: CalibrationProfile = getCalibration()
+): number => {
+  if (!leftHand[9] || !rightHand[9]) return 0;
+
+  // Measured relative to the player's own "level" pose
+  const relative = measureSteeringAngle(leftHand, rightHand) - calibration.neutralAngle;
+  const deadZone = calibration.steeringDeadZone;
+  if (Math.abs(relative) <= deadZone) return 0;
+
+  // Left and right locks are calibrated separately - few people turn symmetrically
+  const lock = relative < 0
+    ? calibration.neutralAngle - calibration.leftAngle
+    : calibration.rightAngle - calibration.neutralAngle;
+
+  // Normalize to -1 to 1, starting from the edge of the dead zone
+  const normalized = (Math.abs(relative) - deadZone) / Math.max(1, lock - deadZone);
+  return Math.sign(relative) * Math.min(1, normalized);
+};
+
+// One-hand fallback: steer by tilting the visible hand like a joystick.
+// Upright fingers are straight ahead; leaning them toward the player's right steers right.
+const SINGLE_HAND_LOCK = 35; // Degrees of tilt for full lock
+
+export const measureHandTilt = (hand: NormalizedLandmark[]): number => {
+  const wrist = hand[0];
+  const knuckle = hand[9];
+  if (!wrist || !knuckle) return 0;
+  // Raw image: the player's right is toward lower x
+  return Math.atan2(wrist.x - knuckle.x, wrist.y - knuckle.y) * (180 / Math.PI);
+};
+
+export const calculateSingleHandSteering = (
+  hand: NormalizedLandmark[],
+  calibration: CalibrationProfile = getCalibration()
+): number => {
+  const tilt = measureHandTilt(hand);
+  const deadZone = calibration.steeringDeadZone;
+  if (Math.abs(tilt) <= deadZone) return 0;
+  return Math.sign(tilt) * Math.min(1, (Math.abs(tilt) - deadZone) / Math.max(1, SINGLE_HAND_LOCK - deadZone));
+};
+
+export const measurePinchDistance = (hand: NormalizedLandmark[]): number => {
   // Distance between Thumb Tip (4) and Index Tip (8)
   const thumbTip = hand[4];
   const indexTip = hand[8];
 
-  if (!thumbTip || !indexTip) return 0;
+  if (!thumbTip || !indexTip) return Infinity;
 
-  const dist = Math.sqrt(
+  return Math.sqrt(
     Math.pow(thumbTip.x - indexTip.x, 2) + Math.pow(thumbTip.y - indexTip.y, 2)
   );
+};
+
+export const calculateThrottle = (
+  hand: NormalizedLandmark[],
+  calibration: CalibrationProfile = getCalibration()
+): number => {
+  const dist = measurePinchDistance(hand);
+  if (!isFinite(dist)) return 0;
 
-  // Calibration: 
-  // Pinch (Closed) ~ 0.02 - 0.05
-  // Open ~ 0.15 - 0.2
   // Logic: "Pinch to Accelerate" (Like pressing a gas pedal down)
-  // OR "Open to Accelerate"?
-  // The prompt says "Acceleration: Distance between...".
-  // Let's implement: The smaller the distance (pinch), the higher the throttle. 
+  // The smaller the distance (pinch), the higher the throttle. 
   // It feels more like "squeezing the throttle".
-
-  const minPinch = 0.03; // Fully pressed
-  const maxPinch = 0.15; // Fully released
+  const { minPinch, maxPinch, throttleDeadZone } = calibration;
 
   // Map dist to 0-1
   // If dist < minPinch -> 1.0 (Full Throttle)
   // If dist > maxPinch -> 0.0 (Idle)
-  
-  let throttle = 1 - ((dist - minPinch) / (maxPinch - minPinch));
-  return Math.max(0, Math.min(1, throttle));
+  const raw = Math.max(0, Math.min(1, 1 - ((dist - minPinch) / (maxPinch - minPinch))));
+
+  // Ignore the tremor of a relaxed hand, then rescale so full pinch is still 1.0
+  if (raw <= throttleDeadZone) return 0;
+  return (raw - throttleDeadZone) / (1 - throttleDeadZone);
+};
+
+// --- Brake & Boost Poses ---
+// Read from the hand that isn't pinching for throttle. Each finger's extension is its tip-to-wrist
+// distance over its knuckle-to-wrist distance, so it doesn't depend on how far the hand is from the camera:
+// roughly 1.8 when straight, 1.3-1.5 loosely gripping a wheel, 1.0 or less curled into a fist.
+const FINGERS = [[5, 8], [9, 12], [13, 16], [17, 20]]; // [knuckle, tip]: index, middle, ring, pinky
+const FIST_EXTENSION = 1.05; // Every finger at least this curled = full brake
+const GRIP_EXTENSION = 1.3; // Any finger straighter than this = no brake
+const POINT_EXTENSION = 1.6;
+
+export const measureFingerExtension = (hand: NormalizedLandmark[]): number[] => {
+  const wrist = hand[0];
+  return FINGERS.map(([knuckle, tip]) => {
+    if (!wrist || !hand[knuckle] || !hand[tip]) return Infinity;
+    return distance(hand[tip], wrist) / Math.max(1e-6, distance(hand[knuckle], wrist));
+  });
+};
+
+// Squeeze the steering hand into a fist to brake
+export const calculateBrake = (hand: NormalizedLandmark[]): number => {
+  const loosest = Math.max(...measureFingerExtension(hand));
+  if (!isFinite(loosest)) return 0;
+  return Math.max(0, Math.min(1, (GRIP_EXTENSION - loosest) / (GRIP_EXTENSION - FIST_EXTENSION)));
+};
+
+// Point the index finger of the steering hand (other fingers curled) to fire HYPER BOOST
+export const detectBoostGesture = (hand: NormalizedLandmark[]): boolean => {
+  const [index, ...others] = measureFingerExtension(hand);
+  return isFinite(index) && index >= POINT_EXTENSION && Math.max(...others) <= GRIP_EXTENSION;
+};
+
+// --- Temporal Filtering ---
+// Raw landmarks jitter a few pixels every frame and occasionally vanish for a frame or two.
+// A One Euro filter smooths slow movement heavily while letting fast turns through,
+// and a short hold bridges dropouts so a single missed frame doesn't snap steering to 0.
+
+export type SmoothingPreset = 'responsive' | 'balanced' | 'smooth';
+
+export interface SmoothingConfig {
+  minCutoff: number; // Hz - lower is smoother when holding still
+  beta: number; // How quickly the cutoff opens up during fast movement
+  dCutoff: number; // Hz - cutoff for the speed estimate itself
+  holdMs: number; // How long to keep the last good value when hands drop out
+  minConfidence: number; // Handedness score below which a frame is rejected
+}
+
+export const SMOOTHING_PRESETS: Record<SmoothingPreset, SmoothingConfig> = {
+  responsive: { minCutoff: 3.0, beta: 0.5, dCutoff: 1.0, holdMs: 150, minConfidence: 0.5 },
+  balanced: { minCutoff: 1.5, beta: 0.3, dCutoff: 1.0, holdMs: 250, minConfidence: 0.6 },
+  smooth: { minCutoff: 0.7, beta: 0.1, dCutoff: 1.0, holdMs: 400, minConfidence: 0.7 },
+};
+
+const SMOOTHING_KEY = 'neonRacer.smoothing';
+
+let smoothingPreset: SmoothingPreset = (() => {
+  const stored = localStorage.getItem(SMOOTHING_KEY);
+  return stored && stored in SMOOTHING_PRESETS ? stored as SmoothingPreset : 'balanced';
+})();
+
+export const getSmoothingPreset = (): SmoothingPreset => smoothingPreset;
+
+export const setSmoothingPreset = (preset: SmoothingPreset) => {
+  smoothingPreset = preset;
+  localStorage.setItem(SMOOTHING_KEY, preset);
+};
+
+const smoothingAlpha = (cutoff: number, dt: number): number => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+export const createOneEuroFilter = () => {
+  let prevValue: number | null = null;
+  let prevDerivative = 0;
+  let prevTimestamp = 0;
+
+  return {
+    filter: (value: number, timestamp: number, config: SmoothingConfig): number => {
+      if (prevValue === null) {
+        prevValue = value;
+        prevTimestamp = timestamp;
+        return value;
+      }
+
+      const dt = Math.max((timestamp - prevTimestamp) / 1000, 1e-3);
+      prevTimestamp = timestamp;
+
+      const derivative = (value - prevValue) / dt;
+      prevDerivative += smoothingAlpha(config.dCutoff, dt) * (derivative - prevDerivative);
+
+      const cutoff = config.minCutoff + config.beta * Math.abs(prevDerivative);
+      prevValue += smoothingAlpha(cutoff, dt) * (value - prevValue);
+      return prevValue;
+    },
+    reset: () => {
+      prevValue = null;
+      prevDerivative = 0;
+    }
+  };
+};
+
+export interface GestureReading {
+  steering: number;
+  throttle: number;
+  brake: number;
+  boost: boolean;
+  confidence: number; // Lowest handedness score of the hands involved
+}
+
+export type GestureStatus = 'live' | 'held' | 'lost';
+
+export interface FilteredGesture {
+  steering: number;
+  throttle: number;
+  brake: number;
+  boost: boolean; // Only while live - a held or lost reading never fires boost
+  status: GestureStatus;
+}
+
+// Combines smoothing, confidence rejection and dropout hold. Pass null when no usable hands were found.
+export const createGestureFilter = () => {
+  const steeringFilter = createOneEuroFilter();
+  const throttleFilter = createOneEuroFilter();
+  const brakeFilter = createOneEuroFilter();
+  let last: FilteredGesture | null = null;
+  let lastGoodTimestamp = 0;
+
+  return {
+    update: (
+      reading: GestureReading | null,
+      timestamp: number,
+      config: SmoothingConfig = SMOOTHING_PRESETS[smoothingPreset]
+    ): FilteredGesture => {
+      const usable = reading !== null && reading.confidence >= config.minConfidence;
+
+      if (usable) {
+        lastGoodTimestamp = timestamp;
+        last = {
+          steering: steeringFilter.filter(reading.steering, timestamp, config),
+          throttle: throttleFilter.filter(reading.throttle, timestamp, config),
+          brake: brakeFilter.filter(reading.brake, timestamp, config),
+          boost: reading.boost,
+          status: 'live'
+        };
+        return last;
+      }
+
+      // Bridge short dropouts with the last good value
+      if (last && timestamp - lastGoodTimestamp <= config.holdMs) {
+        return { ...last, boost: false, status: 'held' };
+      }
+
+      steeringFilter.reset();
+      throttleFilter.reset();
+      brakeFilter.reset();
+      last = null;
+      return { steering: 0, throttle: 0, brake: 0, boost: false, status: 'lost' };
+    }
+  };
 };
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createGhost, getPersonalBest, isBetterRun, savePersonalBest } from './ghostService';
+import { createReplayRecorder, simulateReplayTo } from './replayService';
+import { RunResult, createSimState, getRunResult, step } from './simulation';
+import { loadCourse } from './trackService';
+import { createIdleControlState } from './inputService';
+import { ControlState } from '../types';
+
+const drive = (tick: number): ControlState =>
+  ({ ...createIdleControlState(), isTracking: true, throttle: 1, steering: Math.sin(tick / 40) * 0.3 });
+
+const record = (seed: number, ticks: number) => {
+  const recorder = createReplayRecorder(seed);
+  let state = createSimState(seed, loadCourse('neon-boulevard'), 'timeAttack');
+  while (state.tick < ticks) {
+    recorder.record(state.tick, drive(state.tick));
+    state = step(state, drive(state.tick)).state;
+  }
+  return { replay: recorder.finish(state), result: getRunResult(state) };
+};
+
+const result = (values: Partial<RunResult>): RunResult => ({
+  score: 0, ticks: 0, time: 0, finished: false, courseId: 'neon-boulevard', mode: 'race', lapTimes: [], penalties: 0,
+  stats: { distance: 0, topSpeed: 0, orbs: 0, boostTime: 0 }, ...values,
+});
+
+describe('ghost', () => {
+  it('follows the recorded run tick for tick', () => {
+    const { replay } = record(3, 400);
+    const ghost = createGhost(replay);
+    ghost.advanceTo(150);
+    expect(ghost.advanceTo(250)).toEqual(simulateReplayTo(replay, 250).state);
+  });
+
+  it('stops where the recording ends', () => {
+    const { replay } = record(3, 100);
+    expect(createGhost(replay).advanceTo(500).tick).toBe(100);
+  });
+});
+
+describe('personal bests', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('rank finishes by time, and anything else by score', () => {
+    const best = { finished: true, time: 1000, score: 50, replay: record(1, 1).replay };
+    expect(isBetterRun(result({ finished: true, time: 900 }), best)).toBe(true);
+    expect(isBetterRun(result({ finished: true, time: 1100, score: 9999 }), best)).toBe(false);
+    expect(isBetterRun(result({ finished: false, score: 9999 }), best)).toBe(false);
+    expect(isBetterRun(result({ score: 60 }), { ...best, finished: false })).toBe(true);
+    expect(isBetterRun(result({}), null)).toBe(true);
+  });
+
+  it('are kept per track and mode', () => {
+    const run = record(1, 60);
+    expect(savePersonalBest(run.result, run.replay)).toBe(true);
+    expect(savePersonalBest(run.result, run.replay)).toBe(false); // Equal isn't better
+    expect(getPersonalBest('neon-boulevard', 'timeAttack')!.replay).toEqual(run.replay);
+    expect(getPersonalBest('neon-boulevard', 'race')).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { RaceMode, RunResult, SimState, createSimState, isRunOver, step } from './simulation';
+import { REPLAY_VERSION, Replay, createReplayReader } from './replayService';
+import { loadCourse } from './trackService';
+
+// Ghost cars: a recorded run re-simulated tick for tick alongside the live one.
+// The ghost never touches the live world; it's only drawn where its own simulation puts it.
+
+export interface Ghost {
+  replay: Replay;
+  // Catch the ghost up to the live run's tick; it stops where its own run ended
+  advanceTo: (tick: number) => SimState;
+  getState: () => SimState;
+}
+
+export const createGhost = (replay: Replay): Ghost => {
+  const read = createReplayReader(replay);
+  let state = createSimState(replay.seed, loadCourse(replay.trackId), replay.mode);
+
+  return {
+    replay,
+    advanceTo: (tick) => {
+      while (state.tick < tick && state.tick < replay.duration && !isRunOver(state)) {
+        state = step(state, read(state.tick)).state;
+      }
+      return state;
+    },
+    getState: () => state,
+  };
+};
+
+// --- Personal Bests ---
+// The best run per track and mode, kept in this browser with its replay so it can be raced
+
+export interface PersonalBest {
+  finished: boolean;
+  time: number; // Clock ticks
+  score: number;
+  replay: Replay;
+}
+
+// Finishing beats not finishing; between finishes the faster time wins, otherwise the higher score
+export const isBetterRun = (result: Pick<RunResult, 'finished' | 'time' | 'score'>, best: PersonalBest | null): boolean => {
+  if (!best) return true;
+  if (result.finished !== best.finished) return result.finished;
+  return result.finished ? result.time < best.time : result.score > best.score;
+};
+
+const PERSONAL_BESTS_KEY = 'neonRacer.personalBests';
+
+const bestKey = (trackId: string, mode: RaceMode) => `${trackId}/${mode}`;
+
+const loadPersonalBests = (): Record<string, PersonalBest> => {
+  try {
+    const stored = localStorage.getItem(PERSONAL_BESTS_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    console.error("Failed to load personal bests", e);
+    return {};
+  }
+};
+
+// A best recorded under older physics can't be re-simulated, so it no longer counts
+const usable = (best: PersonalBest | undefined): PersonalBest | null =>
+  best && best.replay.version === REPLAY_VERSION ? best : null;
+
+export const getPersonalBest = (trackId: string, mode: RaceMode): PersonalBest | null =>
+  usable(loadPersonalBests()[bestKey(trackId, mode)]);
+
+// Keeps the run only if it beats the stored one; returns whether it did
+export const savePersonalBest = (result: RunResult, replay: Replay): boolean => {
+  const bests = loadPersonalBests();
+  const key = bestKey(result.courseId, result.mode);
+  if (!isBetterRun(result, usable(bests[key]))) return false;
+  bests[key] = { finished: result.finished, time: result.time, score: result.score, replay };
+  try {
+    localStorage.setItem(PERSONAL_BESTS_KEY, JSON.stringify(bests));
+  } catch (e) {
+    // Long webcam runs make big replays; running out of storage shouldn't break the results screen
+    console.error("Failed to save personal best", e);
+    return false;
+  }
+  return true;
+};
+
+// --- Ghost Setting ---
+
+export type GhostSource = 'off' | 'best' | 'file';
+
+const GHOST_KEY = 'neonRacer.ghost';
+
+// A loaded file only lasts the session, so only off/best are remembered
+export const getGhostSource = (): GhostSource => localStorage.getItem(GHOST_KEY) === 'off' ? 'off' : 'best';
+
+export const setGhostSource = (source: GhostSource) => {
+  if (source !== 'file') localStorage.setItem(GHOST_KEY, source);
+};
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  approach, checkPauseGrace, getFallbackSource, isDrivingKey, loadPauseGrace, loadPreferredSource,
+  readGamepad, readKeyboard, savePauseGrace, savePreferredSource
+} from './inputService';
+
+// Just the parts of the Gamepad API the driver reads
+const gamepad = (axes: number[], pressed: Record<number, number> = {}): Gamepad => ({
+  axes,
+  buttons: Array.from({ length: 16 }, (_, i) => ({ value: pressed[i] ?? 0, pressed: (pressed[i] ?? 0) > 0.5, touched: false })),
+  connected: true,
+} as unknown as Gamepad);
+
+// jsdom reports touch support; the tests decide whether there's a touch screen
+const touchHandler = Object.getOwnPropertyDescriptor(window, 'ontouchstart');
+
+const setTouchScreen = (present: boolean) => {
+  Reflect.deleteProperty(window, 'ontouchstart');
+  if (present && touchHandler) Object.defineProperty(window, 'ontouchstart', touchHandler);
+  Object.defineProperty(navigator, 'maxTouchPoints', { configurable: true, value: present ? 5 : 0 });
+};
+
+const setGamepads = (pads: (Gamepad | null)[] | undefined) => {
+  Object.defineProperty(navigator, 'getGamepads', { configurable: true, value: pads && (() => pads) });
+};
+
+describe('keyboard', () => {
+  it('maps arrows and WASD to steering, throttle and brake', () => {
+    expect(readKeyboard(new Set(['ArrowLeft', 'ArrowUp']))).toEqual({ steering: -1, throttle: 1, brake: 0, boost: false });
+    expect(readKeyboard(new Set(['KeyD', 'KeyS', 'ShiftLeft']))).toEqual({ steering: 1, throttle: 0, brake: 1, boost: true });
+    expect(readKeyboard(new Set())).toEqual({ steering: 0, throttle: 0, brake: 0, boost: false });
+  });
+
+  it('cancels out left and right held together', () => {
+    expect(readKeyboard(new Set(['ArrowLeft', 'KeyD'])).steering).toBe(0);
+  });
+
+  it('only claims the keys it drives with', () => {
+    expect(isDrivingKey('KeyW')).toBe(true);
+    expect(isDrivingKey('ShiftRight')).toBe(true);
+    expect(isDrivingKey('Escape')).toBe(false);
+  });
+
+  it('eases towards a target at a fixed rate', () => {
+    expect(approach(0, 1, 4, 0.1)).toBeCloseTo(0.4);
+    expect(approach(0.9, 1, 4, 0.1)).toBe(1);
+    expect(approach(0, -1, 4, 0.1)).toBeCloseTo(-0.4);
+  });
+});
+
+describe('gamepad', () => {
+  it('ignores the stick inside the dead zone and rescales outside it', () => {
+    expect(readGamepad(gamepad([0.1])).steering).toBe(0);
+    expect(readGamepad(gamepad([-0.1])).steering).toBe(0);
+    expect(readGamepad(gamepad([1])).steering).toBe(1);
+    expect(readGamepad(gamepad([-1])).steering).toBe(-1);
+    const half = readGamepad(gamepad([0.56])).steering;
+    expect(half).toBeCloseTo(0.5, 2);
+  });
+
+  it('takes throttle and brake from the triggers or face buttons, and boost from the bumper', () => {
+    expect(readGamepad(gamepad([0], { 7: 0.6, 6: 0.3 }))).toMatchObject({ throttle: 0.6, brake: 0.3, boost: false });
+    expect(readGamepad(gamepad([0], { 0: 1, 1: 1, 5: 1 }))).toMatchObject({ throttle: 1, brake: 1, boost: true });
+  });
+
+  it('reads a pad with no axes or buttons as idle', () => {
+    expect(readGamepad({ axes: [], buttons: [] } as unknown as Gamepad)).toEqual({ steering: 0, throttle: 0, brake: 0, boost: false });
+  });
+});
+
+describe('input sources', () => {
+  beforeEach(() => localStorage.clear());
+
+  afterEach(() => {
+    setGamepads(undefined);
+    setTouchScreen(true);
+  });
+
+  it('remembers the preferred source, starting on the webcam', () => {
+    expect(loadPreferredSource()).toBe('webcam');
+    savePreferredSource('gamepad');
+    expect(loadPreferredSource()).toBe('gamepad');
+    localStorage.setItem('neonRacer.inputSource', 'joystick');
+    expect(loadPreferredSource()).toBe('webcam');
+  });
+
+  it('falls back to a connected gamepad, then touch, then the keyboard', () => {
+    setGamepads([null, gamepad([0])]);
+    setTouchScreen(true);
+    expect(getFallbackSource(['webcam'])).toBe('gamepad');
+    expect(getFallbackSource(['webcam', 'gamepad'])).toBe('touch');
+    expect(getFallbackSource(['webcam', 'gamepad', 'touch'])).toBe('keyboard');
+  });
+
+  it('skips a missing gamepad or touch screen', () => {
+    setGamepads([null]);
+    setTouchScreen(false);
+    expect(getFallbackSource(['webcam'])).toBe('keyboard');
+
+    setGamepads(undefined);
+    expect(getFallbackSource(['webcam'])).toBe('keyboard');
+  });
+
+  it('ends on the keyboard even when it was the one that failed', () => {
+    setGamepads(undefined);
+    setTouchScreen(false);
+    expect(getFallbackSource(['keyboard'])).toBe('keyboard');
+  });
+});
+
+describe('auto-pause grace', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('keeps a chosen grace period and falls back to one second for anything else', () => {
+    expect(loadPauseGrace()).toBe(1000);
+    savePauseGrace(4000);
+    expect(loadPauseGrace()).toBe(4000);
+    for (const stored of ['750', '-500', 'NaN', 'soon', '']) {
+      localStorage.setItem('neonRacer.pauseGrace', stored);
+      expect(loadPauseGrace()).toBe(1000);
+    }
+  });
+
+  it('pauses only once tracking has stayed lost for the whole grace period', () => {
+    let timer = checkPauseGrace(null, false, 10_000, 1000);
+    expect(timer).toEqual({ lostSince: 10_000, shouldPause: false });
+    timer = checkPauseGrace(timer.lostSince, false, 10_999, 1000);
+    expect(timer).toEqual({ lostSince: 10_000, shouldPause: false });
+    timer = checkPauseGrace(timer.lostSince, false, 11_000, 1000);
+    expect(timer).toEqual({ lostSince: 10_000, shouldPause: true });
+  });
+
+  it('starts the grace period over when tracking comes back in time', () => {
+    let timer = checkPauseGrace(null, false, 0, 500);
+    timer = checkPauseGrace(timer.lostSince, true, 400, 500);
+    expect(timer).toEqual({ lostSince: null, shouldPause: false });
+    timer = checkPauseGrace(timer.lostSince, false, 600, 500);
+    expect(timer).toEqual({ lostSince: 600, shouldPause: false });
+  });
+});
@@ -0,0 +1,137 @@
+import { ControlState, InputSourceId } from '../types';
+
+export interface InputSourceInfo {
+  id: InputSourceId;
+  label: string;
+  waitingLabel: string; // Shown under the START button while the source isn't ready
+}
+
+export const INPUT_SOURCES: InputSourceInfo[] = [
+  { id: 'webcam', label: 'Webcam', waitingLabel: 'WAITING FOR HANDS...' },
+  { id: 'keyboard', label: 'Keyboard', waitingLabel: 'PRESS ANY KEY...' },
+  { id: 'gamepad', label: 'Gamepad', waitingLabel: 'CONNECT A GAMEPAD...' },
+  { id: 'touch', label: 'Touch', waitingLabel: 'TOUCH TO BEGIN...' },
+];
+
+export const getInputSource = (id: InputSourceId): InputSourceInfo =>
+  INPUT_SOURCES.find(source => source.id === id) ?? INPUT_SOURCES[0];
+
+export const createIdleControlState = (debugMessage?: string): ControlState => ({
+  steering: 0,
+  throttle: 0,
+  brake: 0,
+  boost: false,
+  isTracking: false,
+  handsDetected: 0,
+  debugMessage
+});
+
+// Preferred source survives reloads so keyboard debugging sessions don't start on the camera
+const PREFERRED_SOURCE_KEY = 'neonRacer.inputSource';
+
+export const loadPreferredSource = (): InputSourceId => {
+  const stored = localStorage.getItem(PREFERRED_SOURCE_KEY);
+  return INPUT_SOURCES.some(source => source.id === stored) ? (stored as InputSourceId) : 'webcam';
+};
+
+export const savePreferredSource = (id: InputSourceId) => {
+  localStorage.setItem(PREFERRED_SOURCE_KEY, id);
+};
+
+// Auto-pause: how long tracking may drop out mid-race before the game pauses itself
+export const PAUSE_GRACE_OPTIONS = [500, 1000, 2000, 4000]; // Milliseconds
+const DEFAULT_PAUSE_GRACE = 1000;
+const PAUSE_GRACE_KEY = 'neonRacer.pauseGrace';
+
+export const loadPauseGrace = (): number => {
+  const stored = Number(localStorage.getItem(PAUSE_GRACE_KEY));
+  return PAUSE_GRACE_OPTIONS.includes(stored) ? stored : DEFAULT_PAUSE_GRACE;
+};
+
+export const savePauseGrace = (ms: number) => {
+  localStorage.setItem(PAUSE_GRACE_KEY, String(ms));
+};
+
+// One check of the grace timer: when tracking was first lost (null while tracked) and whether to pause now
+export const checkPauseGrace = (
+  lostSince: number | null, isTracked: boolean, now: number, grace: number
+): { lostSince: number | null; shouldPause: boolean } => {
+  if (isTracked) return { lostSince: null, shouldPause: false };
+  const since = lostSince ?? now;
+  return { lostSince: since, shouldPause: now - since >= grace };
+};
+
+export const hasConnectedGamepad = (): boolean => {
+  if (!navigator.getGamepads) return false;
+  return navigator.getGamepads().some(pad => pad && pad.connected);
+};
+
+export const isTouchDevice = (): boolean =>
+  'ontouchstart' in window || navigator.maxTouchPoints > 0;
+
+// Pick the best remaining driver when the current one becomes unavailable
+export const getFallbackSource = (unavailable: InputSourceId[]): InputSourceId => {
+  const candidates: InputSourceId[] = [];
+  if (hasConnectedGamepad()) candidates.push('gamepad');
+  if (isTouchDevice()) candidates.push('touch');
+  candidates.push('keyboard');
+  return candidates.find(id => !unavailable.includes(id)) ?? 'keyboard';
+};
+
+// Move a value towards a target at a fixed rate, so digital inputs feel analog
+export const approach = (current: number, target: number, rate: number, dt: number): number => {
+  const delta = target - current;
+  const maxStep = rate * dt;
+  if (Math.abs(delta) <= maxStep) return target;
+  return current + Math.sign(delta) * maxStep;
+};
+
+const LEFT_KEYS = ['ArrowLeft', 'KeyA'];
+const RIGHT_KEYS = ['ArrowRight', 'KeyD'];
+const THROTTLE_KEYS = ['ArrowUp', 'KeyW'];
+const BRAKE_KEYS = ['ArrowDown', 'KeyS'];
+const BOOST_KEYS = ['ShiftLeft', 'ShiftRight'];
+
+// Digital and analog drivers both produce these; the driver adds tracking status on top
+export type DriveInput = Pick<ControlState, 'steering' | 'throttle' | 'brake' | 'boost'>;
+
+export const isDrivingKey = (code: string): boolean =>
+  [...LEFT_KEYS, ...RIGHT_KEYS, ...THROTTLE_KEYS, ...BRAKE_KEYS, ...BOOST_KEYS].includes(code);
+
+// Keyboard: arrows / WASD give a -1, 0, 1 target that steering eases towards
+export const readKeyboard = (keys: Set<string>): DriveInput => {
+  const left = LEFT_KEYS.some(code => keys.has(code));
+  const right = RIGHT_KEYS.some(code => keys.has(code));
+  const gas = THROTTLE_KEYS.some(code => keys.has(code));
+  const brake = BRAKE_KEYS.some(code => keys.has(code));
+
+  return {
+    steering: (right ? 1 : 0) - (left ? 1 : 0),
+    throttle: gas ? 1 : 0,
+    brake: brake ? 1 : 0,
+    boost: BOOST_KEYS.some(code => keys.has(code))
+  };
+};
+
+const STICK_DEAD_ZONE = 0.12;
+
+// Gamepad: left stick steers, right trigger (or A / cross) accelerates, left trigger (or B / circle)
+// brakes, right bumper fires boost. Standard mapping layout.
+export const readGamepad = (pad: Gamepad): DriveInput => {
+  const rawX = pad.axes[0] ?? 0;
+  const steering = Math.abs(rawX) < STICK_DEAD_ZONE
+    ? 0
+    : Math.sign(rawX) * (Math.abs(rawX) - STICK_DEAD_ZONE) / (1 - STICK_DEAD_ZONE);
+
+  const trigger = pad.buttons[7]?.value ?? 0;
+  const faceButton = pad.buttons[0]?.pressed ? 1 : 0;
+  const brakeTrigger = pad.buttons[6]?.value ?? 0;
+  const brakeButton = pad.buttons[1]?.pressed ? 1 : 0;
+
+  return {
+    steering: Math.max(-1, Math.min(1, steering)),
+    throttle: Math.max(trigger, faceButton),
+    brake: Math.max(brakeTrigger, brakeButton),
+    boost: !!pad.buttons[5]?.pressed
+  };
+};
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { watchServer } from './kioskServerClient';
+
+// Stands in for the browser's WebSocket; the test opens, feeds and drops each connection by hand
+class FakeSocket {
+  static instances: FakeSocket[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  closed = false;
+  constructor(readonly url: string) {
+    FakeSocket.instances.push(this);
+  }
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.onclose?.();
+  }
+}
+
+const latest = () => FakeSocket.instances[FakeSocket.instances.length - 1];
+
+describe('watchServer', () => {
+  beforeEach(() => {
+    FakeSocket.instances = [];
+    vi.useFakeTimers();
+    vi.stubGlobal('WebSocket', FakeSocket);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('passes on live messages from the /live feed', () => {
+    const onMessage = vi.fn();
+    watchServer('http://kiosk:8787', onMessage);
+    expect(latest().url).toBe('ws://kiosk:8787/live');
+
+    latest().onmessage?.({ data: JSON.stringify({ type: 'tournament', tournament: { id: 't1' } }) });
+    expect(onMessage).toHaveBeenCalledWith({ type: 'tournament', tournament: { id: 't1' } });
+  });
+
+  it('reports a dropped feed once and reconnects with growing waits', () => {
+    const onStatus = vi.fn();
+    watchServer('http://kiosk:8787', () => {}, onStatus);
+    latest().onopen?.();
+    expect(onStatus).toHaveBeenLastCalledWith(true);
+
+    latest().onerror?.();
+    expect(onStatus).toHaveBeenLastCalledWith(false);
+    vi.advanceTimersByTime(1000);
+    expect(FakeSocket.instances).toHaveLength(2);
+
+    // The server is still down: wait longer each time, without reporting again
+    latest().close();
+    vi.advanceTimersByTime(1000);
+    expect(FakeSocket.instances).toHaveLength(2);
+    vi.advanceTimersByTime(1000);
+    expect(FakeSocket.instances).toHaveLength(3);
+    expect(onStatus.mock.calls.map(([connected]) => connected)).toEqual([true, false]);
+
+    latest().onopen?.();
+    expect(onStatus).toHaveBeenLastCalledWith(true);
+  });
+
+  it('stops for good when the caller disconnects', () => {
+    const onStatus = vi.fn();
+    const stop = watchServer('http://kiosk:8787', () => {}, onStatus);
+    latest().onopen?.();
+    stop();
+
+    vi.advanceTimersByTime(60000);
+    expect(FakeSocket.instances).toHaveLength(1);
+    expect(onStatus).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,109 @@
+import type { RaceMode, RunResult } from './simulation';
+import type { Replay } from './replayService';
+import type { RunSubmission, ServerMessage, ServerRun, SubmitResponse } from '../server/protocol';
+
+// Talks to the kiosk leaderboard server (server/), which keeps standings shared between machines at an event.
+// Runs are sent with their replay so the server can check them; the shared standings then update live.
+
+// --- Settings ---
+
+const SERVER_URL_KEY = 'neonRacer.kioskServer';
+const KIOSK_NAME_KEY = 'neonRacer.kioskName';
+
+// Empty when this machine isn't connected to a server
+export const getKioskServerUrl = (): string => localStorage.getItem(SERVER_URL_KEY) ?? '';
+
+export const setKioskServerUrl = (url: string) => {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  if (trimmed) localStorage.setItem(SERVER_URL_KEY, trimmed);
+  else localStorage.removeItem(SERVER_URL_KEY);
+};
+
+export const getKioskName = (): string => localStorage.getItem(KIOSK_NAME_KEY) ?? '';
+
+export const setKioskName = (name: string) => {
+  localStorage.setItem(KIOSK_NAME_KEY, name.trim());
+};
+
+// --- Requests ---
+
+const request = async <T>(serverUrl: string, path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${serverUrl}${path}`, init);
+  const body = await response.json().catch(() => null);
+  if (!response.ok) throw new Error(body?.error ?? `Leaderboard server answered ${response.status}`);
+  return body as T;
+};
+
+export const submitRun = (serverUrl: string, playerName: string, result: RunResult, replay: Replay): Promise<SubmitResponse> => {
+  const submission: RunSubmission = {
+    playerName,
+    kiosk: getKioskName(),
+    replay,
+    claimed: { score: result.score, time: result.time, finished: result.finished },
+  };
+  return request(serverUrl, '/runs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(submission),
+  });
+};
+
+export const fetchStandings = async (serverUrl: string, trackId: string, mode: RaceMode): Promise<ServerRun[]> => {
+  const query = new URLSearchParams({ trackId, mode });
+  return (await request<{ runs: ServerRun[] }>(serverUrl, `/standings?${query}`)).runs;
+};
+
+// --- Live Updates ---
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Live updates from the server. A dropped feed is retried with growing waits, and onStatus says
+// whenever it goes down or comes back, so callers can show that standings may be stale and reload
+// them once it's back. Returns a function that disconnects for good.
+export const watchServer = (
+  serverUrl: string,
+  onMessage: (message: ServerMessage) => void,
+  onStatus: (connected: boolean) => void = () => {}
+): () => void => {
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let retryDelay = RECONNECT_MIN_MS;
+  let connected: boolean | null = null; // As last reported; null before the first attempt settles
+
+  const connect = () => {
+    const ws = new WebSocket(`${serverUrl.replace(/^http/, 'ws')}/live`);
+    socket = ws;
+    ws.onopen = () => {
+      retryDelay = RECONNECT_MIN_MS;
+      connected = true;
+      onStatus(true);
+    };
+    ws.onmessage = (event) => {
+      try {
+        onMessage(JSON.parse(event.data));
+      } catch (err) {
+        console.error("Ignoring bad message from the leaderboard server", err);
+      }
+    };
+    // An error is always followed by a close, which does the retrying
+    ws.onerror = () => ws.close();
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      if (connected !== false) {
+        connected = false;
+        onStatus(false);
+      }
+      retryTimer = setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, RECONNECT_MAX_MS);
+    };
+  };
+
+  connect();
+  return () => {
+    clearTimeout(retryTimer);
+    const ws = socket;
+    socket = null;
+    ws?.close();
+  };
+};
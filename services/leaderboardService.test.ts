@@ -0,0 +1,90 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  GUEST_NAME, LeaderboardArchive, LeaderboardEntry, addEntry, createEntry, getLeaderboard, importArchive, parseArchive,
+  rankEntries
+} from './leaderboardService';
+import { createProfile, listProfiles } from './profileService';
+import { withStore } from './database';
+import { RunResult } from './simulation';
+
+const result = (values: Partial<RunResult>): RunResult => ({
+  score: 0, ticks: 0, time: 0, finished: false, courseId: 'neon-boulevard', mode: 'race', lapTimes: [], penalties: 0,
+  stats: { distance: 0, topSpeed: 0, orbs: 0, boostTime: 0 }, ...values,
+});
+
+const entry = (id: string, values: Partial<RunResult>, recordedAt = '2026-01-01T00:00:00.000Z'): LeaderboardEntry =>
+  ({ ...createEntry(result(values), null), id, recordedAt });
+
+describe('leaderboard', () => {
+  it('ranks finishes by time, then unfinished runs by score, then the earliest', () => {
+    const ranked = rankEntries([
+      entry('crashed-high', { score: 9000 }),
+      entry('slow', { finished: true, time: 2000 }),
+      entry('crashed-low', { score: 100 }),
+      entry('fast-later', { finished: true, time: 1000 }, '2026-02-01T00:00:00.000Z'),
+      entry('fast', { finished: true, time: 1000 }),
+    ]);
+    expect(ranked.map(e => e.id)).toEqual(['fast', 'fast-later', 'slow', 'crashed-high', 'crashed-low']);
+    expect(rankEntries(ranked, 2)).toHaveLength(2);
+  });
+
+  it('records guests under a guest name', () => {
+    const run = createEntry(result({ score: 10, stats: { distance: 5, topSpeed: 1.4, orbs: 2, boostTime: 1 } }), null);
+    expect(run.playerName).toBe(GUEST_NAME);
+    expect(run.profileId).toBeNull();
+    expect(run.stats.orbs).toBe(2);
+  });
+});
+
+describe('leaderboard files', () => {
+  const archive = { format: 'neon-racer-leaderboard', version: 1, exportedAt: '', profiles: [], runs: [entry('a', {})] };
+
+  it('round-trips through JSON', () => {
+    expect(parseArchive(JSON.stringify(archive))).toEqual(archive);
+  });
+
+  it('rejects anything that is not a leaderboard', () => {
+    expect(() => parseArchive('nope')).toThrow(/not valid JSON/);
+    expect(() => parseArchive(JSON.stringify({ version: 1 }))).toThrow(/Not a leaderboard/);
+    expect(() => parseArchive(JSON.stringify({ ...archive, version: 9 }))).toThrow(/version: 9/);
+    expect(() => parseArchive(JSON.stringify({ ...archive, runs: [{ id: 'b' }] }))).toThrow(/broken run \(#1\)/);
+    const { penalties: _, ...noPenalties } = entry('c', {});
+    for (const run of [noPenalties, { ...entry('d', {}), profileId: 7 }, { ...entry('e', {}), lapTimes: [61.2, '1:02'] }]) {
+      expect(() => parseArchive(JSON.stringify({ ...archive, runs: [entry('a', {}), run] }))).toThrow(/broken run \(#2\)/);
+    }
+    expect(() => parseArchive(JSON.stringify({ ...archive, profiles: [{ name: 'X' }] }))).toThrow(/broken profile/);
+  });
+});
+
+describe('importing a leaderboard file', () => {
+  beforeEach(async () => {
+    await withStore('profiles', 'readwrite', store => store.clear());
+    await withStore('runs', 'readwrite', store => store.clear());
+  });
+
+  const archive = (values: Partial<LeaderboardArchive>): LeaderboardArchive =>
+    ({ format: 'neon-racer-leaderboard', version: 1, exportedAt: '', profiles: [], runs: [], ...values });
+
+  it('adds new runs and profiles without doubling up or overwriting local ones', async () => {
+    const local = await createProfile('Ada');
+    await addEntry(entry('a', { finished: true, time: 1000 }));
+
+    const added = await importArchive(archive({
+      profiles: [{ ...local, name: 'Renamed' }, { ...local, id: 'visitor', name: 'Visitor' }],
+      runs: [entry('a', { finished: true, time: 1000 }), entry('b', { finished: true, time: 900 })],
+    }));
+
+    expect(added).toBe(1);
+    expect((await listProfiles()).map(profile => profile.name)).toEqual(['Ada', 'Visitor']);
+    expect((await getLeaderboard('neon-boulevard', 'race')).map(run => run.id)).toEqual(['b', 'a']);
+  });
+
+  it('lands nothing when part of the file cannot be stored', async () => {
+    const local = await createProfile('Ada');
+    const unstorable = { ...entry('c', {}), id: {} as string }; // Not a valid key
+
+    await expect(importArchive(archive({ profiles: [{ ...local, id: 'visitor' }], runs: [unstorable] }))).rejects.toThrow();
+    expect((await listProfiles()).map(profile => profile.id)).toEqual([local.id]);
+  });
+});
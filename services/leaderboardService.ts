@@ -0,0 +1,142 @@
+import { RaceMode, RunResult, RunStats } from './simulation';
+import { addMissing, createId, withStore } from './database';
+import { PlayerProfile, isPlayerProfile, listProfiles } from './profileService';
+import { RankedRun, rankRuns } from './ranking';
+
+// The local high-score table: every finished run, kept in IndexedDB with one table per track and mode.
+// Tables can be exported to a file and merged into another machine's, so a booth's leaderboard can travel.
+
+export const LEADERBOARD_SIZE = 10;
+export const GUEST_NAME = 'GUEST';
+
+export interface LeaderboardEntry extends RankedRun {
+  id: string;
+  profileId: string | null; // null for guest runs
+  playerName: string; // As it was when the run was set
+  trackId: string;
+  mode: RaceMode;
+  lapTimes: number[];
+  penalties: number;
+  stats: RunStats;
+}
+
+export const createEntry = (result: RunResult, profile: PlayerProfile | null): LeaderboardEntry => ({
+  id: createId(),
+  profileId: profile?.id ?? null,
+  playerName: profile?.name ?? GUEST_NAME,
+  trackId: result.courseId,
+  mode: result.mode,
+  score: result.score,
+  time: result.time,
+  finished: result.finished,
+  lapTimes: result.lapTimes,
+  penalties: result.penalties,
+  stats: result.stats,
+  recordedAt: new Date().toISOString(),
+});
+
+export const rankEntries = (entries: LeaderboardEntry[], limit: number = LEADERBOARD_SIZE): LeaderboardEntry[] =>
+  rankRuns(entries, limit);
+
+// --- Storage ---
+
+const getTable = (trackId: string, mode: RaceMode): Promise<LeaderboardEntry[]> =>
+  withStore('runs', 'readonly', store => store.index('table').getAll([trackId, mode]) as IDBRequest<LeaderboardEntry[]>);
+
+export const getLeaderboard = async (trackId: string, mode: RaceMode): Promise<LeaderboardEntry[]> =>
+  rankEntries(await getTable(trackId, mode));
+
+// Stores the run; returns its place in the table (1 is top), or null if it didn't make the table
+export const addEntry = async (entry: LeaderboardEntry): Promise<number | null> => {
+  await withStore('runs', 'readwrite', store => store.put(entry));
+  const index = rankEntries(await getTable(entry.trackId, entry.mode)).findIndex(ranked => ranked.id === entry.id);
+  return index < 0 ? null : index + 1;
+};
+
+// --- Export / Import ---
+
+const ARCHIVE_FORMAT = 'neon-racer-leaderboard';
+const ARCHIVE_VERSION = 1;
+const RACE_MODES: RaceMode[] = ['race', 'timeAttack'];
+
+export interface LeaderboardArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  profiles: PlayerProfile[];
+  runs: LeaderboardEntry[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isLeaderboardEntry = (data: unknown): data is LeaderboardEntry =>
+  isRecord(data)
+  && typeof data.id === 'string'
+  && (typeof data.profileId === 'string' || data.profileId === null)
+  && typeof data.playerName === 'string'
+  && typeof data.trackId === 'string'
+  && RACE_MODES.includes(data.mode as RaceMode)
+  && typeof data.score === 'number'
+  && typeof data.time === 'number'
+  && typeof data.finished === 'boolean'
+  && Array.isArray(data.lapTimes) && data.lapTimes.every(lap => typeof lap === 'number')
+  && typeof data.penalties === 'number'
+  && isRecord(data.stats)
+  && typeof data.recordedAt === 'string';
+
+export const exportArchive = async (): Promise<LeaderboardArchive> => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: new Date().toISOString(),
+  profiles: await listProfiles(),
+  runs: await withStore('runs', 'readonly', store => store.getAll() as IDBRequest<LeaderboardEntry[]>),
+});
+
+export const parseArchive = (json: string): LeaderboardArchive => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Leaderboard file is not valid JSON");
+  }
+
+  if (!isRecord(data) || data.format !== ARCHIVE_FORMAT) {
+    throw new Error("Not a leaderboard file");
+  }
+  if (data.version !== ARCHIVE_VERSION) throw new Error(`Unsupported leaderboard version: ${data.version}`);
+  const { exportedAt, profiles, runs } = data;
+  if (!Array.isArray(profiles) || !Array.isArray(runs)) {
+    throw new Error("Leaderboard file is missing profiles or runs");
+  }
+  const badRun = runs.findIndex(run => !isLeaderboardEntry(run));
+  if (badRun >= 0) throw new Error(`Leaderboard file has a broken run (#${badRun + 1})`);
+  const badProfile = profiles.findIndex(profile => !isPlayerProfile(profile));
+  if (badProfile >= 0) throw new Error(`Leaderboard file has a broken profile (#${badProfile + 1})`);
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: typeof exportedAt === 'string' ? exportedAt : '',
+    profiles: profiles as PlayerProfile[],
+    runs: runs as LeaderboardEntry[],
+  };
+};
+
+// Merges an archive into this machine's tables. Runs already here (same id) aren't doubled up, and
+// profiles already here keep their local settings. Returns how many runs were new.
+export const importArchive = async (archive: LeaderboardArchive): Promise<number> => {
+  const added = await addMissing({ profiles: archive.profiles, runs: archive.runs });
+  return added.runs ?? 0;
+};
+
+export const downloadArchive = (archive: LeaderboardArchive) => {
+  const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `neon-racer-leaderboard-${archive.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  // Revoking straight after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { BEATS_PER_BAR, MusicVoice, composeBar } from './musicService';
+
+const seeded = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+const voices = (intensity: number) => new Set(composeBar(0, intensity, seeded(7)).map(note => note.voice));
+
+describe('composeBar', () => {
+  it('brings the band in as the intensity rises', () => {
+    expect([...voices(0)].sort()).toEqual<MusicVoice[]>(['bass', 'kick', 'pad']);
+    expect(voices(0.5)).toContain('hat');
+    expect(voices(0.5)).not.toContain('lead');
+    expect([...voices(1)].sort()).toEqual<MusicVoice[]>(['bass', 'hat', 'kick', 'lead', 'pad', 'snare']);
+  });
+
+  it('plays a kick on every beat once it picks up', () => {
+    const kicks = (intensity: number) => composeBar(0, intensity, seeded(1)).filter(note => note.voice === 'kick').length;
+    expect(kicks(0)).toBe(2);
+    expect(kicks(0.5)).toBe(BEATS_PER_BAR);
+  });
+
+  it('follows the chord loop, with every note inside the bar', () => {
+    const roots = [0, 1, 2, 3, 4].map(bar => composeBar(bar, 0, seeded(1)).find(note => note.voice === 'bass')!.note);
+    expect(roots[4]).toBe(roots[0]);
+    expect(new Set(roots.slice(0, 4)).size).toBe(4);
+    for (const note of composeBar(2, 1, seeded(3))) {
+      expect(note.beat).toBeGreaterThanOrEqual(0);
+      expect(note.beat).toBeLessThan(BEATS_PER_BAR);
+    }
+  });
+
+  it('writes the same bar from the same random stream', () => {
+    expect(composeBar(5, 0.9, seeded(42))).toEqual(composeBar(5, 0.9, seeded(42)));
+  });
+});
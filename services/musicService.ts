@@ -0,0 +1,205 @@
+import { Mixer, getMixer } from './audioService';
+
+// The soundtrack: generative synthwave, composed a bar at a time over a minor-key chord loop.
+// How much of the band plays follows the race's intensity (0-1): cruising gets pads, bass and a kick on
+// the half bar; speed brings in four-on-the-floor and hats; HYPER BOOST adds the snare and an arpeggiated
+// lead, and opens the filter the whole mix runs through. Cars report their intensity every frame and
+// the loudest report wins, so a versus race plays one soundtrack for both halves.
+
+export type MusicVoice = 'pad' | 'bass' | 'lead' | 'kick' | 'snare' | 'hat';
+
+export interface MusicNote {
+  voice: MusicVoice;
+  beat: number; // Into the bar
+  length: number; // Beats
+  note: number; // MIDI note number; ignored by the drums
+}
+
+export const BEATS_PER_BAR = 4;
+const TEMPO = 112; // Beats per minute
+const SECONDS_PER_BEAT = 60 / TEMPO;
+
+// Am - F - C - G, as MIDI chords around middle C
+const PROGRESSION = [[57, 60, 64], [53, 57, 60], [48, 52, 55], [55, 59, 62]];
+
+// Intensity at which each part comes in
+const FULL_KICK = 0.3;
+const HATS = 0.45;
+const SNARE = 0.6;
+const LEAD = 0.7;
+const SIXTEENTH_HATS = 0.85;
+
+export const composeBar = (bar: number, intensity: number, random: () => number): MusicNote[] => {
+  const chord = PROGRESSION[bar % PROGRESSION.length];
+  const notes: MusicNote[] = chord.map(note => ({ voice: 'pad', beat: 0, length: BEATS_PER_BAR, note }));
+
+  // Driving eighth-note bass on the root, jumping the octave on the off-beats once things pick up
+  for (let eighth = 0; eighth < BEATS_PER_BAR * 2; eighth++) {
+    const octave = intensity >= FULL_KICK && eighth % 2 === 1 ? 12 : 0;
+    notes.push({ voice: 'bass', beat: eighth / 2, length: 0.4, note: chord[0] - 24 + octave });
+  }
+
+  for (let beat = 0; beat < BEATS_PER_BAR; beat++) {
+    if (intensity >= FULL_KICK || beat % 2 === 0) notes.push({ voice: 'kick', beat, length: 0.25, note: 0 });
+    if (intensity >= SNARE && beat % 2 === 1) notes.push({ voice: 'snare', beat, length: 0.25, note: 0 });
+  }
+
+  if (intensity >= HATS) {
+    const step = intensity >= SIXTEENTH_HATS ? 0.25 : 1;
+    for (let beat = intensity >= SIXTEENTH_HATS ? 0 : 0.5; beat < BEATS_PER_BAR; beat += step) {
+      notes.push({ voice: 'hat', beat, length: 0.1, note: 0 });
+    }
+  }
+
+  // Sixteenth-note arpeggio over the chord, an octave up, busier the harder it's pushed
+  if (intensity >= LEAD) {
+    const density = 0.35 + (intensity - LEAD) * 1.5;
+    for (let sixteenth = 0; sixteenth < BEATS_PER_BAR * 4; sixteenth++) {
+      if (sixteenth % 4 !== 0 && random() > density) continue;
+      const note = chord[Math.floor(random() * chord.length)] + (random() < 0.3 ? 24 : 12);
+      notes.push({ voice: 'lead', beat: sixteenth / 4, length: 0.2, note });
+    }
+  }
+
+  return notes;
+};
+
+const midiToFrequency = (note: number): number => 440 * 2 ** ((note - 69) / 12);
+
+// --- Playback ---
+
+const LOOKAHEAD_SECONDS = 0.2; // A bar is scheduled this long before it starts
+const SCHEDULE_INTERVAL_MS = 50;
+const INTENSITY_RESPONSE = 0.15; // Share of the way to the reported intensity covered per schedule tick
+
+interface Playback {
+  audio: Mixer;
+  timer: ReturnType<typeof setInterval>;
+  bus: GainNode; // Fades the soundtrack in and out
+  filter: BiquadFilterNode; // Opens up with intensity
+  bar: number;
+  nextBarAt: number; // Context time
+  intensity: number;
+}
+
+let playback: Playback | null = null;
+let reported: number | null = null; // Highest intensity reported since the last schedule tick
+
+const playNote = ({ ctx, noise }: Mixer, output: AudioNode, { voice, length, note }: MusicNote, at: number) => {
+  const duration = length * SECONDS_PER_BEAT;
+  const gain = ctx.createGain();
+  gain.connect(output);
+
+  if (voice === 'kick') {
+    const osc = ctx.createOscillator();
+    osc.frequency.setValueAtTime(150, at);
+    osc.frequency.exponentialRampToValueAtTime(40, at + 0.15);
+    gain.gain.setValueAtTime(0.6, at);
+    gain.gain.exponentialRampToValueAtTime(0.001, at + 0.25);
+    osc.connect(gain);
+    osc.start(at);
+    osc.stop(at + 0.25);
+    return;
+  }
+
+  if (voice === 'snare' || voice === 'hat') {
+    const source = ctx.createBufferSource();
+    source.buffer = noise;
+    const filter = ctx.createBiquadFilter();
+    filter.type = voice === 'hat' ? 'highpass' : 'bandpass';
+    filter.frequency.value = voice === 'hat' ? 7000 : 1800;
+    const decay = voice === 'hat' ? 0.05 : 0.18;
+    gain.gain.setValueAtTime(voice === 'hat' ? 0.12 : 0.3, at);
+    gain.gain.exponentialRampToValueAtTime(0.001, at + decay);
+    source.connect(filter);
+    filter.connect(gain);
+    source.start(at, Math.random() * 0.5);
+    source.stop(at + decay);
+    return;
+  }
+
+  // Pads are two detuned saws that swell in; bass and lead are plucked
+  const frequency = midiToFrequency(note);
+  const oscillators = voice === 'pad' ? [-8, 8] : [0];
+  oscillators.forEach(detune => {
+    const osc = ctx.createOscillator();
+    osc.type = voice === 'lead' ? 'square' : 'sawtooth';
+    osc.frequency.value = frequency;
+    osc.detune.value = detune;
+    osc.connect(gain);
+    osc.start(at);
+    osc.stop(at + duration + 0.05);
+  });
+  if (voice === 'pad') {
+    gain.gain.setValueAtTime(0.001, at);
+    gain.gain.linearRampToValueAtTime(0.05, at + duration * 0.3);
+    gain.gain.linearRampToValueAtTime(0.001, at + duration);
+  } else {
+    gain.gain.setValueAtTime(voice === 'bass' ? 0.18 : 0.07, at);
+    gain.gain.exponentialRampToValueAtTime(0.001, at + duration);
+  }
+};
+
+const schedule = () => {
+  if (!playback) return;
+  const { audio, filter } = playback;
+  const now = audio.ctx.currentTime;
+
+  if (reported !== null) {
+    playback.intensity += (reported - playback.intensity) * INTENSITY_RESPONSE;
+    reported = null;
+  }
+  filter.frequency.setTargetAtTime(600 + playback.intensity * 5400, now, 0.1);
+
+  // Catch up without a burst of notes if the tab was in the background
+  if (playback.nextBarAt < now) playback.nextBarAt = now + 0.05;
+  while (playback.nextBarAt < now + LOOKAHEAD_SECONDS) {
+    for (const note of composeBar(playback.bar, playback.intensity, Math.random)) {
+      playNote(audio, filter, note, playback.nextBarAt + note.beat * SECONDS_PER_BEAT);
+    }
+    playback.bar++;
+    playback.nextBarAt += BEATS_PER_BAR * SECONDS_PER_BEAT;
+  }
+};
+
+// Starting while it's already playing carries on with the same tune
+export const startMusic = () => {
+  if (playback) return;
+  const audio = getMixer();
+  if (!audio) return;
+  const { ctx } = audio;
+  const bus = ctx.createGain();
+  bus.gain.setValueAtTime(0.001, ctx.currentTime);
+  bus.gain.exponentialRampToValueAtTime(1, ctx.currentTime + 1);
+  bus.connect(audio.music);
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = 600;
+  filter.connect(bus);
+
+  reported = null;
+  playback = {
+    audio, bus, filter,
+    timer: setInterval(schedule, SCHEDULE_INTERVAL_MS),
+    bar: 0,
+    nextBarAt: ctx.currentTime + 0.1,
+    intensity: 0,
+  };
+  schedule();
+};
+
+// Fades out; notes already scheduled play into the fade
+export const stopMusic = () => {
+  if (!playback) return;
+  const { audio, bus, timer } = playback;
+  playback = null;
+  clearInterval(timer);
+  const now = audio.ctx.currentTime;
+  bus.gain.cancelScheduledValues(now);
+  bus.gain.setTargetAtTime(0, now, 0.3);
+  setTimeout(() => bus.disconnect(), 2000);
+};
+
+export const reportMusicIntensity = (intensity: number) => {
+  reported = Math.max(reported ?? 0, Math.min(1, Math.max(0, intensity)));
+};
@@ -0,0 +1,306 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LobbyState, NetSession, NetSessionEvents, createNetSession, parseNetMessage } from './netplayService';
+import { SimControls, createSimState, step } from './simulation';
+
+// --- Browser Stand-ins ---
+// jsdom has no WebRTC. These record what the session sends and let each test play the other side.
+
+class FakeSocket {
+  static OPEN = 1;
+  static latest: FakeSocket;
+  readyState = 0;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  constructor(readonly url: string) {
+    FakeSocket.latest = this;
+  }
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+  open() {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+  receive(message: unknown) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+  close() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+}
+
+class FakeChannel {
+  readyState = 'connecting';
+  sent: { type: string; [key: string]: unknown }[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+  open() {
+    this.readyState = 'open';
+    this.onopen?.();
+  }
+  receive(message: unknown) {
+    this.onmessage?.({ data: typeof message === 'string' ? message : JSON.stringify(message) });
+  }
+  close() {
+    this.readyState = 'closed';
+    this.onclose?.();
+  }
+}
+
+type Description = { type: string; sdp: string };
+
+// Applying a remote description takes a while, as it does in a browser
+class FakePeer {
+  static latest: FakePeer;
+  log: string[] = [];
+  channel: FakeChannel | null = null;
+  connectionState = 'new';
+  localDescription: (Description & { toJSON: () => Description }) | null = null;
+  remoteDescription: Description | null = null;
+  onicecandidate: ((event: { candidate: { toJSON: () => unknown } | null }) => void) | null = null;
+  ondatachannel: ((event: { channel: FakeChannel }) => void) | null = null;
+  onconnectionstatechange: (() => void) | null = null;
+  constructor() {
+    FakePeer.latest = this;
+  }
+  createDataChannel() {
+    this.channel = new FakeChannel();
+    return this.channel;
+  }
+  async createOffer() {
+    return { type: 'offer', sdp: 'host-sdp' };
+  }
+  async createAnswer() {
+    return { type: 'answer', sdp: 'guest-sdp' };
+  }
+  async setLocalDescription(description: Description) {
+    this.log.push(`local ${description.type}`);
+    this.localDescription = { ...description, toJSON: () => description };
+  }
+  async setRemoteDescription(description: Description) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    this.log.push(`remote ${description.type}`);
+    this.remoteDescription = description;
+  }
+  async addIceCandidate() {
+    if (!this.remoteDescription) throw new Error("Candidate before its description");
+    this.log.push('candidate');
+  }
+  close() {
+    this.connectionState = 'closed';
+  }
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+
+const RACE = { seed: 99, trackId: 'neon-boulevard', mode: 'race' };
+
+describe('createNetSession', () => {
+  let session: NetSession;
+  let events: NetSessionEvents & { [K in keyof NetSessionEvents]: ReturnType<typeof vi.fn> };
+  const lobby = (): LobbyState => events.onLobbyChange.mock.calls[events.onLobbyChange.mock.calls.length - 1][0];
+
+  beforeEach(() => {
+    vi.stubGlobal('WebSocket', FakeSocket);
+    vi.stubGlobal('RTCPeerConnection', FakePeer);
+    events = { onLobbyChange: vi.fn(), onRaceStart: vi.fn(), onOpponentRunOver: vi.fn() };
+    session = createNetSession(events);
+  });
+
+  afterEach(() => {
+    session.leave();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  // Hosts a room and plays the guest up to an open data channel
+  const connectAsHost = async () => {
+    session.host('ws://signal', 'ACE');
+    const socket = FakeSocket.latest;
+    socket.open();
+    socket.receive({ type: 'hosted', code: 'ABCD' });
+    socket.receive({ type: 'peer-joined', peerName: 'BOB' });
+    await settle();
+    const channel = FakePeer.latest.channel!;
+    channel.open();
+    return { socket, channel };
+  };
+
+  // Joins a room and plays the host up to an open data channel
+  const connectAsGuest = async () => {
+    session.join('ws://signal', 'abcd', 'BOB');
+    const socket = FakeSocket.latest;
+    socket.open();
+    socket.receive({ type: 'joined', code: 'ABCD', peerName: 'ACE' });
+    await settle();
+    const channel = new FakeChannel();
+    FakePeer.latest.ondatachannel?.({ channel });
+    channel.open();
+    return { socket, channel };
+  };
+
+  it('hosts a room, offers a connection to whoever joins and says hello over it', async () => {
+    session.host('ws://signal', 'ACE');
+    const socket = FakeSocket.latest;
+    expect(lobby()).toMatchObject({ status: 'connecting', isHost: true });
+    socket.open();
+    expect(socket.sent).toEqual([{ type: 'host', name: 'ACE' }]);
+
+    socket.receive({ type: 'hosted', code: 'ABCD' });
+    await settle();
+    expect(lobby()).toMatchObject({ status: 'waiting', code: 'ABCD' });
+
+    socket.receive({ type: 'peer-joined', peerName: 'BOB' });
+    await settle();
+    expect(lobby()).toMatchObject({ status: 'linking', opponentName: 'BOB' });
+    expect(socket.sent[1]).toEqual({ type: 'signal', payload: { description: { type: 'offer', sdp: 'host-sdp' } } });
+
+    FakePeer.latest.onicecandidate?.({ candidate: { toJSON: () => ({ candidate: 'c1' }) } });
+    expect(socket.sent[2]).toEqual({ type: 'signal', payload: { candidate: { candidate: 'c1' } } });
+
+    const channel = FakePeer.latest.channel!;
+    channel.open();
+    expect(lobby().status).toBe('connected');
+    expect(channel.sent[0]).toEqual({ type: 'hello', name: 'ACE' });
+  });
+
+  it('joins with a code and answers the offer before adding the candidates sent after it', async () => {
+    session.join('ws://signal', 'abcd', 'BOB');
+    const socket = FakeSocket.latest;
+    socket.open();
+    expect(socket.sent).toEqual([{ type: 'join', code: 'abcd', name: 'BOB' }]);
+
+    socket.receive({ type: 'joined', code: 'ABCD', peerName: 'ACE' });
+    socket.receive({ type: 'signal', payload: { description: { type: 'offer', sdp: 'host-sdp' } } });
+    socket.receive({ type: 'signal', payload: { candidate: { candidate: 'c1' } } });
+    await settle();
+
+    expect(FakePeer.latest.log).toEqual(['remote offer', 'local answer', 'candidate']);
+    expect(socket.sent[1]).toEqual({ type: 'signal', payload: { description: { type: 'answer', sdp: 'guest-sdp' } } });
+    expect(lobby()).toMatchObject({ status: 'linking', code: 'ABCD', opponentName: 'ACE', error: null });
+  });
+
+  it('closes the lobby when the other player leaves', async () => {
+    const { socket, channel } = await connectAsHost();
+    channel.receive({ type: 'hello', name: 'BOB' });
+
+    socket.receive({ type: 'peer-left' });
+    await settle();
+    expect(lobby()).toMatchObject({ status: 'closed', error: 'BOB left' });
+    expect(channel.readyState).toBe('closed');
+  });
+
+  it('closes the lobby when the connection fails or the signaling server is out of reach', async () => {
+    await connectAsHost();
+    FakePeer.latest.connectionState = 'failed';
+    FakePeer.latest.onconnectionstatechange?.();
+    expect(lobby()).toMatchObject({ status: 'closed', error: "Couldn't connect to the other player" });
+
+    session.join('ws://nowhere', 'abcd', 'BOB');
+    FakeSocket.latest.close();
+    expect(lobby()).toMatchObject({ status: 'closed', error: "Couldn't reach the signaling server at ws://nowhere" });
+  });
+
+  it('batches steps into one message per frame, sending each snapshot after the inputs that led to it', async () => {
+    const { channel } = await connectAsHost();
+    const controls: SimControls = { steering: 0.2, throttle: 1, brake: 0, boost: false };
+    let state = createSimState(1);
+    for (let i = 0; i < 31; i++) {
+      state = step(state, controls).state;
+      session.sendStep(controls, state);
+    }
+    await settle();
+
+    const [, first, snapshot, second] = channel.sent;
+    expect(channel.sent.map(message => message.type)).toEqual(['hello', 'inputs', 'snapshot', 'inputs']);
+    expect(first).toMatchObject({ tick: 0 });
+    expect(first.controls).toHaveLength(30);
+    expect(snapshot).toMatchObject({ snapshot: { tick: 30 } });
+    expect(second).toMatchObject({ tick: 30, controls: [controls] });
+  });
+
+  it('takes a start from the host only once this player is ready', async () => {
+    const { channel } = await connectAsGuest();
+    channel.receive({ type: 'hello', name: 'ACE' });
+
+    channel.receive({ type: 'start', race: RACE });
+    expect(events.onRaceStart).not.toHaveBeenCalled();
+
+    session.setReady(true);
+    channel.receive({ type: 'start', race: RACE });
+    expect(events.onRaceStart).toHaveBeenCalledWith(RACE, expect.anything(), 'ACE');
+    expect(lobby().ready).toBe(false);
+  });
+
+  it('ignores a start sent to the host', async () => {
+    const { channel } = await connectAsHost();
+    session.setReady(true);
+    channel.receive({ type: 'start', race: RACE });
+    expect(events.onRaceStart).not.toHaveBeenCalled();
+  });
+
+  it('drops malformed messages instead of feeding them to the race', async () => {
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { channel } = await connectAsGuest();
+    session.setReady(true);
+    channel.receive({ type: 'start', race: RACE });
+    const opponent = events.onRaceStart.mock.calls[0][1];
+
+    channel.receive({ type: 'inputs', tick: 0, controls: [{ steering: 'left' }] });
+    channel.receive({ type: 'inputs', tick: 0, controls: 'all of them' });
+    channel.receive('{ not json');
+    channel.receive({ type: 'inputs', tick: 100_000, controls: [{ steering: 0, throttle: 1, brake: 0, boost: false }] });
+    expect(logError).toHaveBeenCalledTimes(4);
+    expect(opponent.getConfirmed().tick).toBe(0);
+    expect(lobby().status).toBe('connected');
+  });
+});
+
+describe('parseNetMessage', () => {
+  it('accepts well-formed messages', () => {
+    const controls = { steering: -0.5, throttle: 1, brake: 0, boost: true };
+    expect(parseNetMessage({ type: 'inputs', tick: 12, controls: [controls] })).toEqual({ type: 'inputs', tick: 12, controls: [controls] });
+    expect(parseNetMessage({ type: 'start', race: RACE })).toEqual({ type: 'start', race: RACE });
+    expect(parseNetMessage({ type: 'ping', sentAt: 5 })).toEqual({ type: 'ping', sentAt: 5 });
+  });
+
+  it('turns away anything else', () => {
+    expect(parseNetMessage(null)).toBeNull();
+    expect(parseNetMessage({ type: 'teleport' })).toBeNull();
+    expect(parseNetMessage({ type: 'start', race: { ...RACE, trackId: 'nowhere' } })).toBeNull();
+    expect(parseNetMessage({ type: 'start', race: { ...RACE, seed: -1 } })).toBeNull();
+    expect(parseNetMessage({ type: 'inputs', tick: 1.5, controls: [] })).toBeNull();
+    expect(parseNetMessage({ type: 'inputs', tick: 0, controls: [{ steering: 2, throttle: 0, brake: 0, boost: false }] })).toBeNull();
+    expect(parseNetMessage({ type: 'snapshot', snapshot: { tick: 30 } })).toBeNull();
+    expect(parseNetMessage({ type: 'ready', ready: 'yes' })).toBeNull();
+  });
+
+  it('caps the inputs in one batch', () => {
+    const controls = { steering: 0, throttle: 1, brake: 0, boost: false };
+    const batch = (length: number) => ({ type: 'inputs', tick: 0, controls: Array.from({ length }, () => controls) });
+    expect(parseNetMessage(batch(30))).toEqual(batch(30));
+    expect(parseNetMessage(batch(31))).toBeNull();
+    expect(parseNetMessage(batch(0))).toBeNull();
+    expect(parseNetMessage(batch(100_000))).toBeNull();
+  });
+
+  it('only takes inputs for whole ticks within ten seconds of the current one', () => {
+    const inputs = (tick: number) => ({ type: 'inputs', tick, controls: [{ steering: 0, throttle: 1, brake: 0, boost: false }] });
+    expect(parseNetMessage(inputs(-1))).toBeNull();
+    expect(parseNetMessage(inputs(2.5), 2)).toBeNull();
+    expect(parseNetMessage(inputs(Infinity))).toBeNull();
+    expect(parseNetMessage(inputs(600))).toEqual(inputs(600));
+    expect(parseNetMessage(inputs(601))).toBeNull();
+    expect(parseNetMessage(inputs(400), 1000)).toEqual(inputs(400));
+    expect(parseNetMessage(inputs(399), 1000)).toBeNull();
+    expect(parseNetMessage(inputs(1600), 1000)).toEqual(inputs(1600));
+    expect(parseNetMessage(inputs(1601), 1000)).toBeNull();
+  });
+});
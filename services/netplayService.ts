@@ -0,0 +1,364 @@
+import { RaceMode, SIM_STEP, SimControls, SimState, createSeed, isRunOver } from './simulation';
+import { RacerSnapshot, RemoteRacer, createRemoteRacer, isRacerSnapshot, takeSnapshot } from './remoteRacer';
+import { ENDLESS_TRACK_ID, getTrack } from './trackService';
+import type { SignalRequest, SignalResponse } from '../server/protocol';
+
+// Online races between two machines. They find each other through the signaling server (server/signaling.ts),
+// then talk directly over a WebRTC data channel. Both run the whole race from one seed: our car from our
+// controls, theirs from the controls they send us (see remoteRacer). The host picks the track and starts
+// the race once both players are ready.
+
+// --- Settings ---
+
+const SIGNALING_URL_KEY = 'neonRacer.signalingServer';
+export const DEFAULT_SIGNALING_URL = 'ws://localhost:8788';
+
+export const getSignalingUrl = (): string => localStorage.getItem(SIGNALING_URL_KEY) ?? DEFAULT_SIGNALING_URL;
+
+export const setSignalingUrl = (url: string) => {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  if (trimmed) localStorage.setItem(SIGNALING_URL_KEY, trimmed);
+  else localStorage.removeItem(SIGNALING_URL_KEY);
+};
+
+// --- Messages ---
+
+export interface RaceStart {
+  seed: number;
+  trackId: string;
+  mode: RaceMode;
+}
+
+// Sent over the data channel, which delivers them reliably and in order
+export type NetMessage =
+  | { type: 'hello'; name: string }
+  | { type: 'ready'; ready: boolean }
+  | { type: 'start'; race: RaceStart }
+  | { type: 'inputs'; tick: number; controls: SimControls[] } // Consecutive ticks starting at `tick`
+  | { type: 'snapshot'; snapshot: RacerSnapshot }
+  | { type: 'ping'; sentAt: number }
+  | { type: 'pong'; sentAt: number };
+
+const MAX_NAME_LENGTH = 16; // Same as driver profiles
+const SNAPSHOT_INTERVAL = 30; // Ticks between snapshots; sendStep flushes its inputs batch at each one
+const MAX_INPUT_BATCH = SNAPSHOT_INTERVAL;
+const INPUT_TICK_WINDOW = Math.round(10 / SIM_STEP); // Ten seconds either side of the ticks we've confirmed
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && value >= min && value <= max;
+
+const isControls = (value: unknown): value is SimControls =>
+  isRecord(value)
+  && isNumberIn(value.steering, -1, 1)
+  && isNumberIn(value.throttle, 0, 1)
+  && isNumberIn(value.brake, 0, 1)
+  && typeof value.boost === 'boolean';
+
+const isRaceStart = (value: unknown): value is RaceStart =>
+  isRecord(value)
+  && Number.isInteger(value.seed) && isNumberIn(value.seed, 0, 0xFFFFFFFF)
+  && typeof value.trackId === 'string' && (value.trackId === ENDLESS_TRACK_ID || getTrack(value.trackId) !== null)
+  && (value.mode === 'race' || value.mode === 'timeAttack');
+
+// The other player's machine runs the same code, but what arrives is still checked before it reaches
+// the simulation. Returns null for anything that isn't a well-formed message. `currentTick` is how far
+// the opponent's run has been confirmed: inputs far from it would only pile up waiting for ticks that never come.
+export const parseNetMessage = (data: unknown, currentTick = 0): NetMessage | null => {
+  if (!isRecord(data)) return null;
+  switch (data.type) {
+    case 'hello':
+      return typeof data.name === 'string' ? { type: 'hello', name: data.name.slice(0, MAX_NAME_LENGTH) } : null;
+    case 'ready':
+      return typeof data.ready === 'boolean' ? { type: 'ready', ready: data.ready } : null;
+    case 'start':
+      return isRaceStart(data.race) ? { type: 'start', race: data.race } : null;
+    case 'inputs':
+      return Number.isInteger(data.tick)
+        && isNumberIn(data.tick, Math.max(0, currentTick - INPUT_TICK_WINDOW), currentTick + INPUT_TICK_WINDOW)
+        && Array.isArray(data.controls) && isNumberIn(data.controls.length, 1, MAX_INPUT_BATCH)
+        && data.controls.every(isControls)
+        ? { type: 'inputs', tick: data.tick, controls: data.controls }
+        : null;
+    case 'snapshot':
+      return isRacerSnapshot(data.snapshot) ? { type: 'snapshot', snapshot: data.snapshot } : null;
+    case 'ping':
+    case 'pong':
+      return Number.isFinite(data.sentAt) ? { type: data.type, sentAt: data.sentAt as number } : null;
+    default:
+      return null;
+  }
+};
+
+// --- Session ---
+
+// connecting: reaching the signaling server; waiting: hosting, nobody has joined yet;
+// linking: paired up, opening the data channel; closed: the other player left or something failed
+export type LobbyStatus = 'idle' | 'connecting' | 'waiting' | 'linking' | 'connected' | 'closed';
+
+export interface LobbyState {
+  status: LobbyStatus;
+  isHost: boolean;
+  code: string | null; // Room code for the guest to type in
+  opponentName: string | null;
+  ready: boolean;
+  opponentReady: boolean;
+  pingMs: number | null; // Round trip over the data channel
+  error: string | null;
+}
+
+export const IDLE_LOBBY: LobbyState = {
+  status: 'idle',
+  isHost: false,
+  code: null,
+  opponentName: null,
+  ready: false,
+  opponentReady: false,
+  pingMs: null,
+  error: null,
+};
+
+export interface NetSessionEvents {
+  onLobbyChange: (lobby: LobbyState) => void;
+  onRaceStart: (race: RaceStart, opponent: RemoteRacer, opponentName: string) => void;
+  onOpponentRunOver: (state: SimState) => void;
+}
+
+export interface NetSession {
+  host: (signalingUrl: string, name: string) => void;
+  join: (signalingUrl: string, code: string, name: string) => void;
+  setReady: (ready: boolean) => void;
+  // Host only, once both players are ready
+  startRace: (trackId: string, mode: RaceMode) => void;
+  // Every tick of our run: the controls and the state they stepped to
+  sendStep: (controls: SimControls, state: SimState) => void;
+  leave: () => void;
+}
+
+const PING_INTERVAL_MS = 1000;
+const RTC_CONFIG: RTCConfiguration = { iceServers: [] }; // Players share a network, so no STUN server is needed
+
+export const createNetSession = (events: NetSessionEvents): NetSession => {
+  let lobby = IDLE_LOBBY;
+  let socket: WebSocket | null = null;
+  let peer: RTCPeerConnection | null = null;
+  let channel: RTCDataChannel | null = null;
+  let pingTimer: ReturnType<typeof setInterval> | undefined;
+  let playerName = '';
+  let opponent: RemoteRacer | null = null;
+
+  // Steps are batched into one message per frame
+  let outbox: { tick: number; controls: SimControls[] } | null = null;
+
+  const update = (changes: Partial<LobbyState>) => {
+    lobby = { ...lobby, ...changes };
+    events.onLobbyChange(lobby);
+  };
+
+  const signal = (request: SignalRequest) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(request));
+  };
+
+  const send = (message: NetMessage) => {
+    if (channel?.readyState === 'open') channel.send(JSON.stringify(message));
+  };
+
+  const flush = () => {
+    if (outbox) send({ type: 'inputs', ...outbox });
+    outbox = null;
+  };
+
+  // Handlers check they still belong to the current connection, so closing one never reports an error
+  const hangUp = () => {
+    clearInterval(pingTimer);
+    const [oldChannel, oldPeer, oldSocket] = [channel, peer, socket];
+    channel = null;
+    peer = null;
+    socket = null;
+    opponent = null;
+    outbox = null;
+    oldChannel?.close();
+    oldPeer?.close();
+    oldSocket?.close();
+  };
+
+  const fail = (error: string) => {
+    hangUp();
+    update({ status: 'closed', ready: false, opponentReady: false, pingMs: null, error });
+  };
+
+  const beginRace = (race: RaceStart) => {
+    opponent = createRemoteRacer(race.seed, race.trackId, race.mode, events.onOpponentRunOver);
+    update({ ready: false, opponentReady: false });
+    events.onRaceStart(race, opponent, lobby.opponentName ?? 'OPPONENT');
+  };
+
+  const handleMessage = (message: NetMessage) => {
+    switch (message.type) {
+      case 'hello':
+        update({ opponentName: message.name });
+        break;
+      case 'ready':
+        update({ opponentReady: message.ready });
+        break;
+      case 'start':
+        // Only the host starts races, and only once we've said we're ready
+        if (!lobby.isHost && lobby.ready) beginRace(message.race);
+        break;
+      case 'inputs':
+        opponent?.receiveInputs(message.tick, message.controls);
+        break;
+      case 'snapshot':
+        opponent?.receiveSnapshot(message.snapshot);
+        break;
+      case 'ping':
+        send({ type: 'pong', sentAt: message.sentAt });
+        break;
+      case 'pong':
+        update({ pingMs: Math.round(performance.now() - message.sentAt) });
+        break;
+    }
+  };
+
+  const openChannel = (dataChannel: RTCDataChannel) => {
+    channel = dataChannel;
+    dataChannel.onopen = () => {
+      if (channel !== dataChannel) return;
+      update({ status: 'connected' });
+      send({ type: 'hello', name: playerName });
+      pingTimer = setInterval(() => send({ type: 'ping', sentAt: performance.now() }), PING_INTERVAL_MS);
+    };
+    dataChannel.onmessage = (event) => {
+      if (channel !== dataChannel) return;
+      let message: NetMessage | null = null;
+      try {
+        message = parseNetMessage(JSON.parse(event.data), opponent?.getConfirmed().tick);
+      } catch {
+        // Not JSON; reported below
+      }
+      if (message) handleMessage(message);
+      else console.error("Ignoring a bad message from the other player", event.data);
+    };
+    dataChannel.onclose = () => {
+      if (channel === dataChannel) fail(`${lobby.opponentName ?? 'The other player'} left`);
+    };
+  };
+
+  const createPeer = (): RTCPeerConnection => {
+    const connection = new RTCPeerConnection(RTC_CONFIG);
+    peer = connection;
+    connection.onicecandidate = (event) => {
+      if (event.candidate) signal({ type: 'signal', payload: { candidate: event.candidate.toJSON() } });
+    };
+    connection.ondatachannel = (event) => openChannel(event.channel);
+    connection.onconnectionstatechange = () => {
+      if (peer === connection && connection.connectionState === 'failed') fail("Couldn't connect to the other player");
+    };
+    return connection;
+  };
+
+  const handleSignal = async (response: SignalResponse) => {
+    switch (response.type) {
+      case 'hosted':
+        update({ status: 'waiting', code: response.code });
+        break;
+      case 'joined':
+        // The host sends the offer; we answer it when it arrives
+        update({ status: 'linking', code: response.code, opponentName: response.peerName });
+        createPeer();
+        break;
+      case 'peer-joined': {
+        update({ status: 'linking', opponentName: response.peerName });
+        const connection = createPeer();
+        openChannel(connection.createDataChannel('race', { ordered: true }));
+        await connection.setLocalDescription(await connection.createOffer());
+        signal({ type: 'signal', payload: { description: connection.localDescription!.toJSON() } });
+        break;
+      }
+      case 'signal': {
+        const connection = peer;
+        if (!connection) break;
+        if ('candidate' in response.payload) {
+          await connection.addIceCandidate(response.payload.candidate);
+        } else {
+          await connection.setRemoteDescription(response.payload.description);
+          if (response.payload.description.type === 'offer') {
+            await connection.setLocalDescription(await connection.createAnswer());
+            signal({ type: 'signal', payload: { description: connection.localDescription!.toJSON() } });
+          }
+        }
+        break;
+      }
+      case 'peer-left':
+        fail(`${lobby.opponentName ?? 'The other player'} left`);
+        break;
+      case 'error':
+        fail(response.message);
+        break;
+    }
+  };
+
+  const connect = (signalingUrl: string, request: Extract<SignalRequest, { type: 'host' | 'join' }>) => {
+    hangUp();
+    playerName = request.name;
+    update({ ...IDLE_LOBBY, status: 'connecting', isHost: request.type === 'host' });
+
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(signalingUrl);
+    } catch {
+      fail(`${signalingUrl} isn't a signaling server address`);
+      return;
+    }
+    socket = ws;
+    // Signals are handled one at a time: a candidate can't be added before the offer it belongs to
+    let queue = Promise.resolve();
+    ws.onopen = () => signal(request);
+    ws.onmessage = (event) => {
+      queue = queue
+        .then(() => socket === ws ? handleSignal(JSON.parse(event.data)) : undefined)
+        .catch(err => {
+          console.error("Failed to handle signal", err);
+          if (socket === ws) fail("Couldn't connect to the other player");
+        });
+    };
+    // Once the data channel is open the race doesn't need the signaling server
+    ws.onclose = () => {
+      if (socket === ws && lobby.status !== 'connected') fail(`Couldn't reach the signaling server at ${signalingUrl}`);
+    };
+  };
+
+  return {
+    host: (signalingUrl, name) => connect(signalingUrl, { type: 'host', name }),
+    join: (signalingUrl, code, name) => connect(signalingUrl, { type: 'join', code, name }),
+    setReady: (ready) => {
+      if (lobby.status !== 'connected') return;
+      update({ ready });
+      send({ type: 'ready', ready });
+    },
+    startRace: (trackId, mode) => {
+      if (!lobby.isHost || !lobby.ready || !lobby.opponentReady) return;
+      const race: RaceStart = { seed: createSeed(), trackId, mode };
+      send({ type: 'start', race });
+      beginRace(race);
+    },
+    sendStep: ({ steering, throttle, brake, boost }, state) => {
+      if (!outbox) {
+        outbox = { tick: state.tick - 1, controls: [] };
+        queueMicrotask(flush);
+      }
+      outbox.controls.push({ steering, throttle, brake, boost });
+      // A snapshot has to follow the controls that led to it
+      if (state.tick % SNAPSHOT_INTERVAL === 0 || isRunOver(state)) {
+        flush();
+        send({ type: 'snapshot', snapshot: takeSnapshot(state) });
+      }
+    },
+    leave: () => {
+      hangUp();
+      update(IDLE_LOBBY);
+    },
+  };
+};
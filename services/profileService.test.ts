@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PlayerProfile, applyProfile, captureProfileSettings, isPlayerProfile, normalizeProfileName } from './profileService';
+import { DEFAULT_CALIBRATION, getCalibration } from './calibrationService';
+import { DEFAULT_VISION_SETTINGS, getVisionSettings } from './visionSettingsService';
+import { getSmoothingPreset, getThrottleHand, setSmoothingPreset, setThrottleHand } from './gestureService';
+import { loadPauseGrace, loadPreferredSource, savePauseGrace, savePreferredSource } from './inputService';
+
+describe('profiles', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('tidy up names and refuse unusable ones', () => {
+    expect(normalizeProfileName('  Ace   Driver ')).toBe('Ace Driver');
+    expect(() => normalizeProfileName('   ')).toThrow(/Enter a name/);
+    expect(() => normalizeProfileName('x'.repeat(17))).toThrow(/at most 16/);
+  });
+
+  it('make their settings the live ones when applied', () => {
+    const profile: PlayerProfile = {
+      id: 'p1',
+      name: 'Lefty',
+      ...captureProfileSettings(),
+      calibration: { ...DEFAULT_CALIBRATION, neutralAngle: 4, calibratedAt: '2026-01-01T00:00:00.000Z' },
+      inputSource: 'keyboard',
+      createdAt: '2026-01-01T00:00:00.000Z',
+    };
+    profile.settings = { ...profile.settings, smoothing: 'smooth', throttleHand: 'left', pauseGrace: 4000 };
+
+    setSmoothingPreset('responsive');
+    setThrottleHand('right');
+    savePauseGrace(500);
+    savePreferredSource('webcam');
+    applyProfile(profile);
+
+    expect(getCalibration().neutralAngle).toBe(4);
+    expect(loadPreferredSource()).toBe('keyboard');
+    expect(getSmoothingPreset()).toBe('smooth');
+    expect(getThrottleHand()).toBe('left');
+    expect(loadPauseGrace()).toBe(4000);
+    expect(captureProfileSettings()).toEqual({
+      calibration: profile.calibration, inputSource: profile.inputSource, settings: profile.settings,
+    });
+  });
+
+  it('skip settings from an older build', () => {
+    const profile: PlayerProfile = {
+      id: 'p2', name: 'Old', ...captureProfileSettings(), createdAt: '',
+    };
+    applyProfile({ ...profile, calibration: { ...profile.calibration, version: 0, neutralAngle: 9 } });
+    expect(getCalibration()).toEqual(DEFAULT_CALIBRATION);
+  });
+
+  it('fall back field by field when an imported profile has unusable settings', () => {
+    const imported: unknown = JSON.parse(JSON.stringify({
+      id: 'p3',
+      name: 'Broken',
+      ...captureProfileSettings(),
+      calibration: { ...DEFAULT_CALIBRATION, neutralAngle: 'straight', leftAngle: -30, steeringDeadZone: 80 },
+      inputSource: 'joystick',
+      settings: {
+        smoothing: 'toString',
+        throttleHand: 'left',
+        pauseGrace: 2000,
+        vision: {
+          ...DEFAULT_VISION_SETTINGS,
+          delegate: 'TPU',
+          resolution: { width: 4096, height: 2160 },
+          numHands: 12,
+          minTrackingConfidence: null,
+          minHandPresenceConfidence: 0.7,
+        },
+      },
+      createdAt: '2026-01-01T00:00:00.000Z',
+    }));
+    expect(isPlayerProfile(imported)).toBe(true);
+
+    setSmoothingPreset('smooth');
+    savePreferredSource('gamepad');
+    applyProfile(imported as PlayerProfile);
+
+    expect(getCalibration()).toEqual({ ...DEFAULT_CALIBRATION, leftAngle: -30, steeringDeadZone: 10 });
+    expect(getVisionSettings()).toEqual({ ...DEFAULT_VISION_SETTINGS, minHandPresenceConfidence: 0.7 });
+    expect(getSmoothingPreset()).toBe('smooth');
+    expect(loadPreferredSource()).toBe('gamepad');
+    expect(getThrottleHand()).toBe('left');
+    expect(loadPauseGrace()).toBe(2000);
+  });
+
+  it('refuse an imported profile without the settings it needs', () => {
+    const profile = { id: 'p4', name: 'Bare', ...captureProfileSettings(), createdAt: '' };
+    expect(isPlayerProfile(profile)).toBe(true);
+    expect(isPlayerProfile({ ...profile, settings: { ...profile.settings, pauseGrace: '2s' } })).toBe(false);
+    expect(isPlayerProfile({ ...profile, settings: { smoothing: 'smooth' } })).toBe(false);
+    expect(isPlayerProfile({ ...profile, createdAt: undefined })).toBe(false);
+  });
+});
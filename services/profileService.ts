@@ -0,0 +1,116 @@
+import { InputSourceId } from '../types';
+import { createId, withStore } from './database';
+import { CalibrationProfile, cleanCalibration, getCalibration, saveCalibration } from './calibrationService';
+import { VisionSettings, cleanVisionSettings, getVisionSettings, saveVisionSettings } from './visionSettingsService';
+import { HandSide, SMOOTHING_PRESETS, SmoothingPreset, getSmoothingPreset, getThrottleHand, setSmoothingPreset, setThrottleHand } from './gestureService';
+import { INPUT_SOURCES, PAUSE_GRACE_OPTIONS, loadPauseGrace, loadPreferredSource, savePauseGrace, savePreferredSource } from './inputService';
+
+// Player profiles: a name plus everything a player tunes for themselves, so a shared machine
+// (an arcade booth, a family laptop) can switch between drivers without recalibrating.
+// The settings services keep the live values; a profile is a snapshot that's applied on switching
+// and refreshed whenever the active player changes a setting.
+
+export interface ProfileSettings {
+  smoothing: SmoothingPreset;
+  throttleHand: HandSide;
+  pauseGrace: number; // Milliseconds
+  vision: VisionSettings;
+}
+
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  calibration: CalibrationProfile;
+  inputSource: InputSourceId;
+  settings: ProfileSettings;
+  createdAt: string;
+}
+
+export const MAX_NAME_LENGTH = 16;
+
+// Throws with a player-facing message for a name that can't go on the leaderboard
+export const normalizeProfileName = (name: string): string => {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (!trimmed) throw new Error("Enter a name");
+  if (trimmed.length > MAX_NAME_LENGTH) throw new Error(`Names can be at most ${MAX_NAME_LENGTH} characters`);
+  return trimmed;
+};
+
+// The current live settings, as a profile would store them
+export const captureProfileSettings = (): Pick<PlayerProfile, 'calibration' | 'inputSource' | 'settings'> => ({
+  calibration: getCalibration(),
+  inputSource: loadPreferredSource(),
+  settings: {
+    smoothing: getSmoothingPreset(),
+    throttleHand: getThrottleHand(),
+    pauseGrace: loadPauseGrace(),
+    vision: getVisionSettings(),
+  },
+});
+
+// Makes the profile's settings the live ones. Profiles can come from an imported file, so every value is
+// checked: a bad calibration or vision field falls back to its default, any other bad setting to what's there now.
+export const applyProfile = (profile: PlayerProfile) => {
+  const { calibration, inputSource, settings } = profile;
+  saveCalibration(cleanCalibration(calibration));
+  if (INPUT_SOURCES.some(source => source.id === inputSource)) savePreferredSource(inputSource);
+  if (Object.hasOwn(SMOOTHING_PRESETS, settings.smoothing)) setSmoothingPreset(settings.smoothing);
+  setThrottleHand(settings.throttleHand === 'left' ? 'left' : 'right');
+  if (PAUSE_GRACE_OPTIONS.includes(settings.pauseGrace)) savePauseGrace(settings.pauseGrace);
+  saveVisionSettings(cleanVisionSettings(settings.vision));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Checks the shape of a profile read from an imported file; applyProfile checks the values inside it
+export const isPlayerProfile = (data: unknown): data is PlayerProfile =>
+  isRecord(data)
+  && typeof data.id === 'string'
+  && typeof data.name === 'string'
+  && isRecord(data.calibration)
+  && typeof data.inputSource === 'string'
+  && isRecord(data.settings)
+  && typeof data.settings.smoothing === 'string'
+  && typeof data.settings.throttleHand === 'string'
+  && typeof data.settings.pauseGrace === 'number'
+  && isRecord(data.settings.vision)
+  && typeof data.createdAt === 'string';
+
+// --- Storage ---
+
+export const listProfiles = async (): Promise<PlayerProfile[]> => {
+  const profiles = await withStore('profiles', 'readonly', store => store.getAll() as IDBRequest<PlayerProfile[]>);
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createProfile = async (name: string): Promise<PlayerProfile> => {
+  const profile: PlayerProfile = {
+    id: createId(),
+    name: normalizeProfileName(name),
+    ...captureProfileSettings(),
+    createdAt: new Date().toISOString(),
+  };
+  await withStore('profiles', 'readwrite', store => store.put(profile));
+  return profile;
+};
+
+export const saveProfile = async (profile: PlayerProfile): Promise<void> => {
+  await withStore('profiles', 'readwrite', store => store.put(profile));
+};
+
+// The player's runs stay on the leaderboard under the name they were set with
+export const deleteProfile = async (id: string): Promise<void> => {
+  await withStore('profiles', 'readwrite', store => store.delete(id));
+};
+
+// --- Active Profile ---
+
+const ACTIVE_PROFILE_KEY = 'neonRacer.profile';
+
+export const getActiveProfileId = (): string | null => localStorage.getItem(ACTIVE_PROFILE_KEY);
+
+export const setActiveProfileId = (id: string | null) => {
+  if (id) localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+  else localStorage.removeItem(ACTIVE_PROFILE_KEY);
+};
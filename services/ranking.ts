@@ -0,0 +1,19 @@
+// How runs are ordered on every leaderboard, local or shared: finishes first, fastest first;
+// then unfinished runs by score. Ties go to whoever set it first.
+// Kept free of browser APIs so the kiosk server ranks exactly like the game does.
+
+export interface RankedRun {
+  finished: boolean;
+  time: number; // Clock ticks, including penalties
+  score: number;
+  recordedAt: string; // ISO timestamp
+}
+
+export const compareRuns = (a: RankedRun, b: RankedRun): number => {
+  if (a.finished !== b.finished) return a.finished ? -1 : 1;
+  const byResult = a.finished ? a.time - b.time : b.score - a.score;
+  return byResult || a.recordedAt.localeCompare(b.recordedAt);
+};
+
+export const rankRuns = <T extends RankedRun>(runs: T[], limit: number = Infinity): T[] =>
+  [...runs].sort(compareRuns).slice(0, limit);
@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MAX_PREDICTION_TICKS, createRemoteRacer, isRacerSnapshot, takeSnapshot } from './remoteRacer';
+import { SIM_STEP, SimControls, SimState, createSimState, step } from './simulation';
+import { loadCourse } from './trackService';
+
+const SEED = 4242;
+const TRACK = 'neon-boulevard';
+
+const drive = (tick: number): SimControls =>
+  ({ steering: Math.sin(tick / 40) * 0.3, throttle: 1, brake: 0, boost: false });
+
+// The opponent's own machine: their run and every control they fed it
+const raceLocally = (ticks: number, controlsAt: (tick: number) => SimControls = drive) => {
+  let state: SimState = createSimState(SEED, loadCourse(TRACK), 'race');
+  const controls: SimControls[] = [];
+  while (state.tick < ticks) {
+    controls.push(controlsAt(state.tick));
+    state = step(state, controls[controls.length - 1]).state;
+  }
+  return { state, controls };
+};
+
+describe('createRemoteRacer', () => {
+  it('reaches the exact state the opponent did from their controls', () => {
+    const { state, controls } = raceLocally(300);
+    const remote = createRemoteRacer(SEED, TRACK, 'race');
+
+    for (let tick = 0; tick < controls.length; tick += 7) remote.receiveInputs(tick, controls.slice(tick, tick + 7));
+    expect(takeSnapshot(remote.getConfirmed())).toEqual(takeSnapshot(state));
+  });
+
+  it('waits for gaps to fill before simulating past them', () => {
+    const { controls } = raceLocally(20);
+    const remote = createRemoteRacer(SEED, TRACK, 'race');
+
+    remote.receiveInputs(10, controls.slice(10));
+    expect(remote.getConfirmed().tick).toBe(0);
+    remote.receiveInputs(0, controls.slice(0, 10));
+    expect(remote.getConfirmed().tick).toBe(20);
+  });
+
+  it('predicts the ticks still in flight, up to a limit', () => {
+    const { controls } = raceLocally(60);
+    const remote = createRemoteRacer(SEED, TRACK, 'race');
+    remote.receiveInputs(0, controls);
+
+    const view = remote.view(80, SIM_STEP);
+    expect(view.state.tick).toBe(80);
+    expect(view.behind).toBe(20);
+    expect(view.state.position).toBeGreaterThan(remote.getConfirmed().position);
+    expect(remote.view(500, SIM_STEP).state.tick).toBe(60 + MAX_PREDICTION_TICKS);
+  });
+
+  it('eases into a corrected prediction instead of jumping', () => {
+    const braking = (tick: number): SimControls => tick < 60 ? drive(tick) : { ...drive(tick), throttle: 0, brake: 1 };
+    const { controls } = raceLocally(90, braking);
+    const remote = createRemoteRacer(SEED, TRACK, 'race');
+    remote.receiveInputs(0, controls.slice(0, 60));
+    const guessed = remote.view(90, SIM_STEP);
+
+    remote.receiveInputs(60, controls.slice(60));
+    const corrected = remote.view(90, SIM_STEP);
+    const jump = guessed.state.position - corrected.state.position;
+    expect(jump).toBeGreaterThan(0);
+    expect(guessed.position - corrected.position).toBeLessThan(jump * 0.2);
+    for (let i = 0; i < 60; i++) remote.view(90, SIM_STEP);
+    expect(Math.abs(remote.view(90, SIM_STEP).position - corrected.state.position)).toBeLessThan(jump * 0.01);
+  });
+
+  it("takes the opponent's snapshot over its own copy, and reports the end of their run", () => {
+    const { controls } = raceLocally(30);
+    const onRunOver = vi.fn();
+    const remote = createRemoteRacer(SEED, TRACK, 'race', onRunOver);
+    remote.receiveInputs(0, controls);
+
+    const theirs = { ...takeSnapshot(remote.getConfirmed()), position: remote.getConfirmed().position + 50, crashed: true };
+    remote.receiveSnapshot(theirs);
+    expect(takeSnapshot(remote.getConfirmed())).toEqual(theirs);
+    expect(onRunOver).toHaveBeenCalledTimes(1);
+  });
+
+  it('carries on from the whole of their state once a snapshot corrects ours', () => {
+    const { controls } = raceLocally(60);
+    const remote = createRemoteRacer(SEED, TRACK, 'race');
+    remote.receiveInputs(0, controls.slice(0, 30));
+
+    // Their machine saw a different world: none of the obstacles we have, and another roll coming up
+    const mine = remote.getConfirmed();
+    expect(mine.entities.length).toBeGreaterThan(0);
+    const theirs = { ...takeSnapshot(mine), entities: [], rngState: mine.rngState + 1 };
+    remote.receiveSnapshot(theirs);
+    remote.receiveInputs(30, controls.slice(30));
+
+    let expected: SimState = { ...theirs, course: mine.course };
+    controls.slice(30).forEach(control => { expected = step(expected, control).state; });
+    expect(takeSnapshot(remote.getConfirmed())).toEqual(takeSnapshot(expected));
+  });
+});
+
+describe('isRacerSnapshot', () => {
+  it('accepts a real snapshot and turns away broken ones', () => {
+    const snapshot = takeSnapshot(raceLocally(30).state);
+    expect(isRacerSnapshot(JSON.parse(JSON.stringify(snapshot)))).toBe(true);
+    expect(isRacerSnapshot(null)).toBe(false);
+    expect(isRacerSnapshot({ ...snapshot, position: 'far' })).toBe(false);
+    expect(isRacerSnapshot({ ...snapshot, entities: [{ id: 1, x: 0, z: 10, type: 'piano' }] })).toBe(false);
+    expect(isRacerSnapshot({ ...snapshot, lapTimes: null })).toBe(false);
+    const { crashed: _crashed, ...missing } = snapshot;
+    expect(isRacerSnapshot(missing)).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+import { EntityType, RaceMode, SimControls, SimState, createSimState, isRunOver, step } from './simulation';
+import { ENTITY_TYPES } from './entities';
+import { loadCourse } from './trackService';
+
+// The opponent in an online race, simulated on this machine from the same seed as our own car.
+// Their controls arrive over the network a little late. Every tick we have controls for is simulated
+// exactly - the world is seeded and the simulation deterministic, so we reach the state they did.
+// Ticks still in flight are predicted by holding their last controls, which draws their car level with
+// ours instead of a round trip behind. When the real controls replace a guess, the car eases across to
+// the corrected spot rather than jumping. The snapshots they send now and then check all of this:
+// if our copy of their run ever disagrees (floating point differs between browsers), theirs wins.
+// A snapshot is their whole state, entities and random number generator included, so taking it
+// puts our copy back in step for the ticks that follow too.
+
+// Everything a run carries from tick to tick except the course, which both sides load from the track id
+export type RacerSnapshot = Omit<SimState, 'course'>;
+
+export interface RemoteView {
+  state: SimState; // Predicted up to the local tick, or as far ahead as prediction goes
+  position: number; // Where to draw the car, with corrections eased in
+  playerX: number;
+  behind: number; // Ticks between the local run and the opponent's last known controls
+}
+
+export interface RemoteRacer {
+  // Controls for consecutive ticks, starting at `tick`
+  receiveInputs: (tick: number, controls: SimControls[]) => void;
+  receiveSnapshot: (snapshot: RacerSnapshot) => void;
+  // Called once per frame with the local run's tick
+  view: (tick: number, dt: number) => RemoteView;
+  getConfirmed: () => SimState;
+}
+
+export const MAX_PREDICTION_TICKS = 30; // Beyond half a second of silence the car waits where it is
+const CORRECTION_SECONDS = 0.15; // Time constant for easing out a corrected prediction
+
+export const takeSnapshot = ({ course: _course, ...snapshot }: SimState): RacerSnapshot => snapshot;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isEntity = (value: unknown): boolean =>
+  isRecord(value) && Number.isInteger(value.id) && Number.isFinite(value.x) && Number.isFinite(value.z)
+  && ENTITY_TYPES.includes(value.type as EntityType);
+
+const SNAPSHOT_TEMPLATE = takeSnapshot(createSimState(0));
+
+// Checks a snapshot from the network has every field a real one has, with the same types
+export const isRacerSnapshot = (data: unknown): data is RacerSnapshot =>
+  isRecord(data)
+  && (data.mode === 'race' || data.mode === 'timeAttack')
+  && Object.entries(SNAPSHOT_TEMPLATE).every(([key, expected]) => {
+    const value = data[key];
+    if (key === 'entities') return Array.isArray(value) && value.every(isEntity);
+    if (Array.isArray(expected)) return Array.isArray(value) && value.every(n => Number.isFinite(n));
+    if (typeof expected === 'number') return Number.isFinite(value);
+    return typeof value === typeof expected;
+  });
+
+const sameSnapshot = (a: RacerSnapshot, b: RacerSnapshot): boolean =>
+  (Object.keys(a) as (keyof RacerSnapshot)[]).every(key => JSON.stringify(a[key]) === JSON.stringify(b[key]));
+
+export const createRemoteRacer = (
+  seed: number,
+  trackId: string,
+  mode: RaceMode,
+  onRunOver?: (state: SimState) => void
+): RemoteRacer => {
+  let confirmed = createSimState(seed, loadCourse(trackId), mode);
+  const inputs = new Map<number, SimControls>();
+  let lastControls: SimControls = { steering: 0, throttle: 0, brake: 0, boost: false };
+  let snapshot: RacerSnapshot | null = null;
+  let reported = false;
+
+  let predicted = confirmed;
+  let predictedFrom = confirmed; // The confirmed state `predicted` was run forward from
+  const offset = { position: 0, playerX: 0 };
+
+  const runForward = (from: SimState, tick: number): SimState => {
+    let state = from;
+    while (state.tick < tick && !isRunOver(state)) state = step(state, lastControls).state;
+    return state;
+  };
+
+  // Snapshots are sent after the controls that led to them, so they're checked once we've caught up
+  const reconcile = () => {
+    if (!snapshot || snapshot.tick > confirmed.tick) return;
+    const expected = snapshot;
+    snapshot = null;
+    if (expected.tick < confirmed.tick) return;
+    if (!sameSnapshot(takeSnapshot(confirmed), expected)) confirmed = { ...expected, course: confirmed.course };
+  };
+
+  const settle = () => {
+    reconcile();
+    if (!reported && isRunOver(confirmed)) {
+      reported = true;
+      onRunOver?.(confirmed);
+    }
+  };
+
+  return {
+    receiveInputs: (tick, controls) => {
+      controls.forEach((control, i) => inputs.set(tick + i, control));
+      while (inputs.has(confirmed.tick) && !isRunOver(confirmed)) {
+        lastControls = inputs.get(confirmed.tick)!;
+        inputs.delete(confirmed.tick);
+        confirmed = step(confirmed, lastControls).state;
+        if (snapshot?.tick === confirmed.tick) reconcile();
+      }
+      settle();
+    },
+    receiveSnapshot: (next) => {
+      snapshot = next;
+      settle();
+    },
+    view: (tick, dt) => {
+      if (predictedFrom !== confirmed) {
+        // New controls came in: redo the guess from what really happened, and ease out the difference
+        const shown = predicted;
+        predicted = runForward(confirmed, shown.tick);
+        predictedFrom = confirmed;
+        offset.position += shown.position - predicted.position;
+        offset.playerX += shown.playerX - predicted.playerX;
+      }
+      predicted = runForward(predicted, Math.min(tick, confirmed.tick + MAX_PREDICTION_TICKS));
+
+      const ease = Math.exp(-dt / CORRECTION_SECONDS);
+      offset.position *= ease;
+      offset.playerX *= ease;
+      return {
+        state: predicted,
+        position: predicted.position + offset.position,
+        playerX: predicted.playerX + offset.playerX,
+        behind: Math.max(0, tick - confirmed.tick),
+      };
+    },
+    getConfirmed: () => confirmed,
+  };
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { REPLAY_VERSION, createReplayRecorder, parseReplay, serializeReplay, simulateReplayTo } from './replayService';
+import { RaceMode, createSimState, step } from './simulation';
+import { ENDLESS_TRACK_ID, loadCourse } from './trackService';
+import { createIdleControlState } from './inputService';
+import { ControlState } from '../types';
+
+const drive = (values: Partial<ControlState>): ControlState => ({ ...createIdleControlState(), isTracking: true, ...values });
+
+// A short scripted run: accelerate, weave, brake, fire boost
+const script = (tick: number): ControlState => {
+  if (tick < 120) return drive({ throttle: 1 });
+  if (tick < 240) return drive({ throttle: 1, steering: Math.sin(tick / 20) });
+  if (tick < 300) return drive({ brake: 1 });
+  return drive({ throttle: 0.6, boost: tick % 30 === 0 });
+};
+
+const record = (seed: number, ticks: number, trackId = ENDLESS_TRACK_ID, mode: RaceMode = 'race') => {
+  const recorder = createReplayRecorder(seed);
+  let state = createSimState(seed, loadCourse(trackId), mode);
+  while (state.tick < ticks && !state.crashed) {
+    const control = script(state.tick);
+    recorder.record(state.tick, control);
+    state = step(state, control).state;
+  }
+  return { replay: recorder.finish(state), state };
+};
+
+describe('replays', () => {
+  it('rebuild the exact race from the seed and controls', () => {
+    const { replay, state } = record(1234, 600);
+    expect(replay.version).toBe(REPLAY_VERSION);
+    expect(simulateReplayTo(replay, replay.duration).state).toEqual(state);
+  });
+
+  it('rebuild time attack runs', () => {
+    const { replay, state } = record(7, 900, 'neon-boulevard', 'timeAttack');
+    expect(replay.mode).toBe('timeAttack');
+    expect(simulateReplayTo(replay, replay.duration).state).toEqual(state);
+  });
+
+  it('survive a round trip through JSON', () => {
+    const { replay } = record(99, 300);
+    expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+  });
+
+  it('reject flat-road replays from before curves and hills', () => {
+    expect(() => parseReplay(JSON.stringify({
+      version: 2, seed: 5, tickRate: 60, duration: 10, score: 0, recordedAt: '',
+      frames: [{ tick: 0, steering: 0, throttle: 1, brake: 0, boost: false, handsDetected: 2 }]
+    }))).toThrow('old flat road');
+  });
+
+  it('reject frames that would feed the simulation nonsense', () => {
+    const { replay } = record(99, 300);
+    const withFrames = (frames: unknown[]) => JSON.stringify({ ...replay, frames });
+    const [first, second] = replay.frames;
+
+    expect(() => parseReplay(withFrames([{ ...first, tick: 'soon' }]))).toThrow('frame 0 has a bad tick');
+    expect(() => parseReplay(withFrames([second, first]))).toThrow('frame 1 has a bad tick');
+    expect(() => parseReplay(withFrames([{ ...first, tick: replay.duration }]))).toThrow('frame 0 has a bad tick');
+    expect(() => parseReplay(withFrames([{ ...first, steering: undefined }]))).toThrow('frame 0 has bad controls');
+    expect(() => parseReplay(withFrames([{ ...first, throttle: 2 }]))).toThrow('frame 0 has bad controls');
+    expect(() => parseReplay(withFrames([first, 'boost']))).toThrow('frame 1 is not a frame');
+  });
+
+  it('reject unknown versions', () => {
+    expect(() => parseReplay(JSON.stringify({ version: 99 }))).toThrow('Unsupported replay version: 99');
+  });
+});
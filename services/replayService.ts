@@ -0,0 +1,194 @@
+import { ControlState } from '../types';
+import { RaceMode, SIM_STEP, SimControls, SimState, createSimState, isRunOver, step } from './simulation';
+import { ENDLESS_TRACK_ID, loadCourse } from './trackService';
+
+// Replays store the seed plus every control change keyed by simulation tick.
+// Because the simulation is deterministic, that is enough to rebuild the exact race.
+
+// Version 4 has per-type obstacle behaviours (slick oil, traffic, pickups). Older versions were recorded
+// under physics that no longer exist, so they can't be rebuilt.
+export const REPLAY_VERSION = 4;
+const SUPPORTED_REPLAY_VERSIONS = [4];
+const RETIRED_REPLAY_VERSIONS: Record<number, string> = {
+  1: "on the old flat road",
+  2: "on the old flat road",
+  3: "before obstacles had their own behaviours",
+};
+const RACE_MODES: RaceMode[] = ['race', 'timeAttack'];
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export interface ReplayFrame {
+  tick: number; // Timestamp in simulation ticks (tickRate per second)
+  steering: number;
+  throttle: number;
+  brake: number;
+  boost: boolean;
+  handsDetected: number;
+}
+
+export interface Replay {
+  version: number;
+  seed: number;
+  trackId: string; // Files without one raced the endless road
+  mode: RaceMode; // Files without one are races
+  tickRate: number;
+  duration: number; // Total ticks recorded
+  score: number;
+  recordedAt: string;
+  frames: ReplayFrame[];
+}
+
+export interface ReplayRecorder {
+  record: (tick: number, control: ControlState) => void;
+  finish: (state: SimState) => Replay;
+}
+
+export const createReplayRecorder = (seed: number): ReplayRecorder => {
+  const frames: ReplayFrame[] = [];
+
+  return {
+    // Only changes are stored; the previous frame stays in effect until the next one
+    record: (tick, control) => {
+      const last = frames[frames.length - 1];
+      if (last &&
+          last.steering === control.steering &&
+          last.throttle === control.throttle &&
+          last.brake === control.brake &&
+          last.boost === control.boost &&
+          last.handsDetected === control.handsDetected) return;
+
+      frames.push({
+        tick,
+        steering: control.steering,
+        throttle: control.throttle,
+        brake: control.brake,
+        boost: control.boost,
+        handsDetected: control.handsDetected
+      });
+    },
+    finish: (state) => ({
+      version: REPLAY_VERSION,
+      seed: state.seed,
+      trackId: state.course.id,
+      mode: state.mode,
+      tickRate: Math.round(1 / SIM_STEP),
+      duration: state.tick,
+      score: state.score,
+      recordedAt: new Date().toISOString(),
+      frames: [...frames]
+    })
+  };
+};
+
+// Sequential frame lookup. Ticks must be read in increasing order; create a new reader to rewind.
+export const createReplayReader = (replay: Replay) => {
+  let cursor = 0;
+  return (tick: number): SimControls => {
+    while (cursor + 1 < replay.frames.length && replay.frames[cursor + 1].tick <= tick) cursor++;
+    const frame = replay.frames[cursor];
+    if (!frame || frame.tick > tick) return { steering: 0, throttle: 0, brake: 0, boost: false };
+    return { steering: frame.steering, throttle: frame.throttle, brake: frame.brake, boost: frame.boost };
+  };
+};
+
+// Re-run the race from its seed up to the given tick (used for scrubbing)
+export const simulateReplayTo = (replay: Replay, targetTick: number) => {
+  const read = createReplayReader(replay);
+  let state = createSimState(replay.seed, loadCourse(replay.trackId), replay.mode);
+  const limit = Math.min(targetTick, replay.duration);
+  while (state.tick < limit && !isRunOver(state)) {
+    state = step(state, read(state.tick)).state;
+  }
+  return { state, read };
+};
+
+export const serializeReplay = (replay: Replay): string => JSON.stringify(replay);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+// Frames feed the simulation directly, so each one is checked: ticks in order within the run,
+// and every control in range. A bad one would otherwise turn into NaN on the road.
+const parseFrame = (frame: unknown, index: number, previousTick: number, duration: number): ReplayFrame => {
+  if (!isRecord(frame)) throw new Error(`Replay frame ${index} is not a frame`);
+  const { tick, steering, throttle, brake, boost, handsDetected } = frame;
+  if (!isCount(tick) || tick <= previousTick || tick >= duration) {
+    throw new Error(`Replay frame ${index} has a bad tick: ${String(tick)}`);
+  }
+  if (!isNumberIn(steering, -1, 1) || !isNumberIn(throttle, 0, 1) || !isNumberIn(brake, 0, 1)
+      || typeof boost !== 'boolean' || !isCount(handsDetected)) {
+    throw new Error(`Replay frame ${index} has bad controls`);
+  }
+  return { tick, steering, throttle, brake, boost, handsDetected };
+};
+
+export const parseReplay = (json: string): Replay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Replay file is not valid JSON");
+  }
+
+  if (!isRecord(data)) throw new Error("Replay file is empty");
+  const { version, seed, duration, frames, tickRate, score, recordedAt } = data;
+  if (typeof version === 'number' && RETIRED_REPLAY_VERSIONS[version]) {
+    throw new Error(`Replay version ${version} was recorded ${RETIRED_REPLAY_VERSIONS[version]} and can't be played back`);
+  }
+  if (typeof version !== 'number' || !SUPPORTED_REPLAY_VERSIONS.includes(version)) {
+    throw new Error(`Unsupported replay version: ${String(version)}`);
+  }
+  if (!isCount(seed) || !isCount(duration) || !Array.isArray(frames)) {
+    throw new Error("Replay file is missing seed, duration or frames");
+  }
+  if (tickRate !== Math.round(1 / SIM_STEP)) {
+    throw new Error(`Replay was recorded at ${String(tickRate)} ticks/s, expected ${Math.round(1 / SIM_STEP)}`);
+  }
+
+  const trackId = data.trackId ?? ENDLESS_TRACK_ID;
+  if (typeof trackId !== 'string') throw new Error("Replay track id is not a string");
+  loadCourse(trackId); // Throws for tracks this build doesn't have
+  const mode = data.mode ?? 'race';
+  if (!RACE_MODES.includes(mode as RaceMode)) throw new Error(`Unknown race mode: ${String(mode)}`);
+
+  let previousTick = -1;
+  const parsedFrames = frames.map((frame, i) => {
+    const parsed = parseFrame(frame, i, previousTick, duration);
+    previousTick = parsed.tick;
+    return parsed;
+  });
+
+  return {
+    version,
+    seed,
+    trackId,
+    mode: mode as RaceMode,
+    tickRate,
+    duration,
+    score: typeof score === 'number' ? score : 0,
+    recordedAt: typeof recordedAt === 'string' ? recordedAt : '',
+    frames: parsedFrames,
+  };
+};
+
+export const downloadReplay = (replay: Replay) => {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `neon-racer-${replay.seed}-${replay.score}.replay.json`;
+  link.click();
+  // Revoking straight after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const formatReplayTime = (ticks: number): string => {
+  const totalSeconds = Math.floor(ticks * SIM_STEP);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_ROAD, PLAYER_Z, ROAD_CURVE, ROAD_HILL, ROAD_LENGTH, SEGMENT_LENGTH, Viewport,
+  buildRoad, createRoadView, findSegment, placeOnRoad, project, roadHeight
+} from './road';
+
+const viewport: Viewport = { width: 1200, height: 800, horizonY: 280 };
+
+const straight = buildRoad([{ enter: 0, hold: ROAD_LENGTH.LONG * 3, leave: 0, curve: 0, hill: 0 }]);
+
+describe('road building', () => {
+  it('eases curves in and out', () => {
+    const road = buildRoad([{ enter: 10, hold: 10, leave: 10, curve: ROAD_CURVE.HARD, hill: 0 }]);
+    expect(road.segments).toHaveLength(30);
+    expect(road.segments[0].curve).toBe(0);
+    expect(road.segments[15].curve).toBe(ROAD_CURVE.HARD);
+    expect(road.segments[29].curve).toBeLessThan(1);
+  });
+
+  it('closes the lap at the height it started', () => {
+    const road = buildRoad([{ enter: 10, hold: 10, leave: 10, curve: 0, hill: ROAD_HILL.LOW }]);
+    expect(road.segments[29].y2).toBeCloseTo(ROAD_HILL.LOW * SEGMENT_LENGTH);
+    expect(road.segments[road.segments.length - 1].y2).toBeCloseTo(0);
+    expect(roadHeight(road, 0)).toBe(0);
+  });
+
+  it('keeps segment heights continuous', () => {
+    DEFAULT_ROAD.segments.forEach((segment, i) => {
+      const next = DEFAULT_ROAD.segments[(i + 1) % DEFAULT_ROAD.segments.length];
+      expect(next.y1).toBeCloseTo(segment.y2);
+    });
+  });
+
+  it('wraps positions past either end of the lap', () => {
+    expect(findSegment(straight, straight.length + SEGMENT_LENGTH * 2.5).index).toBe(2);
+    expect(findSegment(straight, -SEGMENT_LENGTH / 2).index).toBe(straight.segments.length - 1);
+  });
+
+  it('rejects an empty track', () => {
+    expect(() => buildRoad([])).toThrow('Road has no segments');
+  });
+});
+
+describe('projection', () => {
+  it('puts far points on the horizon and drops points behind the camera', () => {
+    const camera = { x: 0, y: 1000, z: 0 };
+    expect(project(0, 0, 1e9, camera, viewport)!.y).toBeCloseTo(viewport.horizonY);
+    expect(project(0, 0, -10, camera, viewport)).toBeNull();
+  });
+
+  it('places the car centred, half a screen below the horizon', () => {
+    const view = createRoadView(straight, 5000, 0.5, viewport);
+    const car = placeOnRoad(view, 0.5, view.playerZ)!;
+    expect(view.playerZ).toBe(5000 + PLAYER_Z);
+    expect(car.point.x).toBeCloseTo(viewport.width / 2);
+    expect(car.point.y).toBeCloseTo(viewport.horizonY + viewport.height / 2);
+  });
+
+  it('bends the road ahead in the direction of the curve', () => {
+    const right = buildRoad([{ enter: 0, hold: ROAD_LENGTH.LONG * 3, leave: 0, curve: ROAD_CURVE.MEDIUM, hill: 0 }]);
+    const ahead = (road: typeof right) => placeOnRoad(createRoadView(road, 0, 0, viewport), 0, SEGMENT_LENGTH * 40)!.point.x;
+    expect(ahead(right)).toBeGreaterThan(ahead(straight) + 50);
+  });
+
+  it('hides the road and anything on it beyond the crest of a hill', () => {
+    const crest = buildRoad([
+      { enter: 0, hold: 30, leave: 0, curve: 0, hill: ROAD_HILL.MEDIUM },
+      { enter: 0, hold: 30, leave: 0, curve: 0, hill: -ROAD_HILL.MEDIUM },
+      { enter: 0, hold: 100, leave: 0, curve: 0, hill: 0 },
+    ]);
+    const view = createRoadView(crest, 0, 0, viewport);
+    expect(view.segments.slice(35, 55).some(segment => !segment.visible)).toBe(true);
+
+    const beyond = placeOnRoad(view, 0, SEGMENT_LENGTH * 45)!;
+    expect(beyond.point.y).toBeGreaterThan(beyond.clip);
+  });
+});
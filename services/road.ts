@@ -0,0 +1,205 @@
+// Segment-based pseudo-3D road, OutRun style.
+// The track is a loop of short straight segments; each one can bend (curve) and climb (height).
+// World units: x is across the road (ROAD_WIDTH either side of the centre line), y is up, z is along the track.
+// Everything that is drawn - road, ground grid, entities, the player - goes through project().
+
+export const SEGMENT_LENGTH = 200;
+export const ROAD_WIDTH = 2000; // Half the road's width: road-space x of 1 is the right edge
+export const RUMBLE_LENGTH = 3; // Segments per rumble strip / lane-mark stripe
+export const DRAW_DISTANCE = 200; // Segments drawn ahead of the camera
+export const CAMERA_HEIGHT = 1800; // With ROAD_WIDTH, makes the road about a screen wide at the car
+export const FIELD_OF_VIEW = 100; // Degrees
+export const CAMERA_DEPTH = 1 / Math.tan((FIELD_OF_VIEW / 2) * Math.PI / 180);
+export const PLAYER_Z = CAMERA_HEIGHT * CAMERA_DEPTH; // The car sits this far in front of the camera
+
+// Section building blocks, in segments / curve per segment / height in segment lengths
+export const ROAD_LENGTH = { NONE: 0, SHORT: 25, MEDIUM: 50, LONG: 100 };
+export const ROAD_CURVE = { NONE: 0, EASY: 2, MEDIUM: 4, HARD: 6 };
+export const ROAD_HILL = { NONE: 0, LOW: 20, MEDIUM: 40, HIGH: 60 };
+
+export interface RoadSection {
+  enter: number; // Segments easing into the section's curve and height
+  hold: number;
+  leave: number; // Segments easing back out
+  curve: number; // Positive bends right
+  hill: number; // Height change across the section; negative goes downhill
+}
+
+export interface RoadSegment {
+  index: number;
+  curve: number;
+  y1: number; // Height at the segment's near edge
+  y2: number; // Height at the far edge
+}
+
+export interface Road {
+  segments: RoadSegment[];
+  length: number; // World length of one lap
+}
+
+const easeIn = (a: number, b: number, percent: number) => a + (b - a) * Math.pow(percent, 2);
+const easeInOut = (a: number, b: number, percent: number) => a + (b - a) * ((-Math.cos(percent * Math.PI) / 2) + 0.5);
+
+export const buildRoad = (sections: RoadSection[]): Road => {
+  const segments: RoadSegment[] = [];
+  const lastY = () => segments.length === 0 ? 0 : segments[segments.length - 1].y2;
+
+  const addSegment = (curve: number, y: number) => {
+    segments.push({ index: segments.length, curve, y1: lastY(), y2: y });
+  };
+
+  const addSection = ({ enter, hold, leave, curve, hill }: RoadSection) => {
+    const startY = lastY();
+    const endY = startY + hill * SEGMENT_LENGTH;
+    const total = enter + hold + leave;
+    // Heights are taken at each segment's far edge, so the section ends exactly at endY
+    const heightAt = (n: number) => easeInOut(startY, endY, (n + 1) / total);
+    for (let n = 0; n < enter; n++) addSegment(easeIn(0, curve, n / enter), heightAt(n));
+    for (let n = 0; n < hold; n++) addSegment(curve, heightAt(enter + n));
+    for (let n = 0; n < leave; n++) addSegment(easeInOut(curve, 0, n / leave), heightAt(enter + hold + n));
+  };
+
+  sections.forEach(addSection);
+
+  // The lap has to end at the height it started, or the seam shows as a cliff
+  const seam = lastY();
+  if (Math.abs(seam) > 1e-6) {
+    addSection({ enter: ROAD_LENGTH.SHORT, hold: ROAD_LENGTH.SHORT, leave: ROAD_LENGTH.SHORT, curve: 0, hill: -seam / SEGMENT_LENGTH });
+  }
+  if (segments.length === 0) throw new Error("Road has no segments");
+
+  return { segments, length: segments.length * SEGMENT_LENGTH };
+};
+
+// Segment under world position z; z may run past the end of the lap or (reversing) before its start
+export const findSegment = (road: Road, z: number): RoadSegment => {
+  const count = road.segments.length;
+  const index = Math.floor(z / SEGMENT_LENGTH) % count;
+  return road.segments[index < 0 ? index + count : index];
+};
+
+// Road height at world position z
+export const roadHeight = (road: Road, z: number): number => {
+  const segment = findSegment(road, z);
+  const within = z / SEGMENT_LENGTH - Math.floor(z / SEGMENT_LENGTH);
+  return segment.y1 + (segment.y2 - segment.y1) * within;
+};
+
+const DEFAULT_SECTIONS: RoadSection[] = [
+  { enter: 0, hold: ROAD_LENGTH.MEDIUM, leave: 0, curve: ROAD_CURVE.NONE, hill: ROAD_HILL.NONE },
+  { enter: ROAD_LENGTH.SHORT, hold: ROAD_LENGTH.MEDIUM, leave: ROAD_LENGTH.SHORT, curve: ROAD_CURVE.EASY, hill: ROAD_HILL.LOW },
+  { enter: ROAD_LENGTH.SHORT, hold: ROAD_LENGTH.SHORT, leave: ROAD_LENGTH.SHORT, curve: ROAD_CURVE.NONE, hill: -ROAD_HILL.LOW },
+  { enter: ROAD_LENGTH.MEDIUM, hold: ROAD_LENGTH.MEDIUM, leave: ROAD_LENGTH.MEDIUM, curve: -ROAD_CURVE.MEDIUM, hill: ROAD_HILL.NONE },
+  { enter: ROAD_LENGTH.SHORT, hold: ROAD_LENGTH.SHORT, leave: ROAD_LENGTH.SHORT, curve: ROAD_CURVE.NONE, hill: ROAD_HILL.MEDIUM },
+  { enter: ROAD_LENGTH.SHORT, hold: ROAD_LENGTH.SHORT, leave: ROAD_LENGTH.SHORT, curve: ROAD_CURVE.HARD, hill: -ROAD_HILL.MEDIUM },
+  { enter: ROAD_LENGTH.SHORT, hold: ROAD_LENGTH.MEDIUM, leave: ROAD_LENGTH.SHORT, curve: ROAD_CURVE.NONE, hill: ROAD_HILL.NONE },
+  { enter: ROAD_LENGTH.MEDIUM, hold: ROAD_LENGTH.SHORT, leave: ROAD_LENGTH.MEDIUM, curve: ROAD_CURVE.MEDIUM, hill: ROAD_HILL.HIGH },
+  { enter: ROAD_LENGTH.MEDIUM, hold: ROAD_LENGTH.SHORT, leave: ROAD_LENGTH.MEDIUM, curve: -ROAD_CURVE.EASY, hill: -ROAD_HILL.HIGH },
+];
+
+export const DEFAULT_ROAD: Road = buildRoad(DEFAULT_SECTIONS);
+
+// --- Projection ---
+
+export interface Camera {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Viewport {
+  width: number;
+  height: number;
+  horizonY: number; // Screen row where flat ground meets the sky
+}
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+  scale: number; // Screen pixels per world unit is scale * width / 2
+}
+
+// World point to screen; null when the point is at or behind the camera
+export const project = (x: number, y: number, z: number, camera: Camera, viewport: Viewport): ScreenPoint | null => {
+  const depth = z - camera.z;
+  if (depth <= CAMERA_DEPTH) return null;
+  const scale = CAMERA_DEPTH / depth;
+  return {
+    x: viewport.width / 2 + scale * (x - camera.x) * viewport.width / 2,
+    y: viewport.horizonY - scale * (y - camera.y) * viewport.height / 2,
+    scale,
+  };
+};
+
+// World size to screen pixels at a projected point
+export const projectedSize = (point: ScreenPoint, worldSize: number, viewport: Viewport): number =>
+  point.scale * worldSize * viewport.width / 2;
+
+// --- Road View ---
+// One frame's worth of projected segments, nearest first, from a camera that follows the car
+
+export interface ProjectedSegment {
+  index: number; // Segment number counted from the start of the race, not wrapped to the lap
+  z1: number;
+  z2: number;
+  y1: number;
+  y2: number;
+  off1: number; // Sideways shift of the centre line from accumulated curves, near and far edge
+  off2: number;
+  p1: ScreenPoint | null;
+  p2: ScreenPoint | null;
+  visible: boolean; // False when the road in front covers the segment completely
+  clip: number; // Screen row below which the nearer road covers this segment
+}
+
+export interface RoadView {
+  camera: Camera;
+  viewport: Viewport;
+  playerZ: number;
+  segments: ProjectedSegment[];
+}
+
+export const createRoadView = (road: Road, position: number, playerX: number, viewport: Viewport): RoadView => {
+  const playerZ = position + PLAYER_Z;
+  const camera: Camera = { x: playerX * ROAD_WIDTH, y: roadHeight(road, playerZ) + CAMERA_HEIGHT, z: position };
+  const first = Math.floor(position / SEGMENT_LENGTH);
+
+  const segments: ProjectedSegment[] = [];
+  let maxY = viewport.height;
+  let x = 0;
+  let dx = -findSegment(road, position).curve * (position / SEGMENT_LENGTH - first);
+
+  for (let n = 0; n < DRAW_DISTANCE; n++) {
+    const z1 = (first + n) * SEGMENT_LENGTH;
+    const z2 = z1 + SEGMENT_LENGTH;
+    const segment = findSegment(road, z1);
+    const off1 = x;
+    const off2 = x + dx;
+    x += dx;
+    dx += segment.curve;
+
+    const p1 = project(off1, segment.y1, z1, camera, viewport);
+    const p2 = project(off2, segment.y2, z2, camera, viewport);
+    const visible = !!p1 && !!p2 && p2.y < p1.y && p2.y < maxY;
+    segments.push({ index: first + n, z1, z2, y1: segment.y1, y2: segment.y2, off1, off2, p1, p2, visible, clip: maxY });
+    if (visible) maxY = p2!.y;
+  }
+
+  return { camera, viewport, playerZ, segments };
+};
+
+// Screen position of a point on the road surface (road-space x, world z), with the row it's clipped at
+export const placeOnRoad = (view: RoadView, x: number, z: number): { point: ScreenPoint; clip: number } | null => {
+  const n = Math.floor(z / SEGMENT_LENGTH) - view.segments[0].index;
+  const segment = view.segments[n];
+  if (!segment) return null;
+  const within = (z - segment.z1) / SEGMENT_LENGTH;
+  const point = project(
+    x * ROAD_WIDTH + segment.off1 + (segment.off2 - segment.off1) * within,
+    segment.y1 + (segment.y2 - segment.y1) * within,
+    z,
+    view.camera,
+    view.viewport
+  );
+  return point && { point, clip: segment.clip };
+};
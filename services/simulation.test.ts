@@ -0,0 +1,270 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ENDLESS_COURSE, EntityType, SIM_STEP, SimControls, SimEntity, SimState, TIME_ATTACK_LAPS, createSimState, getRunResult, step
+} from './simulation';
+import { PLAYER_Z, ROAD_CURVE, SEGMENT_LENGTH, buildRoad } from './road';
+
+const controls = (values: Partial<SimControls>): SimControls =>
+  ({ steering: 0, throttle: 0, brake: 0, boost: false, ...values });
+
+const run = (state: SimState, input: SimControls, seconds: number) => {
+  const events = [];
+  for (let i = 0; i < Math.round(seconds / SIM_STEP); i++) {
+    const result = step(state, input);
+    state = result.state;
+    events.push(...result.events);
+  }
+  return { state, events };
+};
+
+// An empty road, so tests aren't at the mercy of spawned rocks
+const clearRoad = (state: SimState): SimState => ({ ...state, entities: [] });
+
+describe('determinism', () => {
+  const weave = (tick: number) => controls({ steering: Math.sin(tick / 30), throttle: 1, boost: tick % 90 === 0 });
+
+  const race = (seed: number, ticks: number) => {
+    let state = createSimState(seed);
+    for (let tick = 0; tick < ticks; tick++) state = step(state, weave(tick)).state;
+    return state;
+  };
+
+  it('reaches the same state from the same seed and inputs', () => {
+    expect(race(42, 600)).toEqual(race(42, 600));
+  });
+
+  it('spawns a different road from another seed', () => {
+    expect(race(43, 600).entities).not.toEqual(race(42, 600).entities);
+  });
+
+  it('leaves the state it was given untouched', () => {
+    const start = createSimState(42);
+    const copy = structuredClone({ ...start, course: null });
+    run(start, controls({ throttle: 1, steering: 0.5 }), 1);
+    expect({ ...start, course: null }).toEqual(copy);
+  });
+});
+
+describe('scoring and game over', () => {
+  it('scores distance, double while boosting', () => {
+    const cruising = clearRoad({ ...createSimState(1), speed: 1 });
+    const plain = step(cruising, controls({ throttle: 1 })).state;
+    const boosted = step({ ...cruising, boost: 100 }, controls({ throttle: 1, boost: true })).state;
+    expect(plain.score).toBeGreaterThan(0);
+    expect(boosted.score).toBeGreaterThan(plain.score * 1.9);
+  });
+
+  it('scores an orb the car drives through and charges the boost bar', () => {
+    const start = clearRoad({ ...createSimState(1), speed: 1 });
+    const orb = { id: 0, x: 0, z: start.position + PLAYER_Z + 100, type: 'orb' as const };
+    const withOrb = run({ ...start, entities: [orb] }, controls({ throttle: 1 }), 0.5).state;
+    const without = run(start, controls({ throttle: 1 }), 0.5).state;
+    expect(withOrb.score - without.score).toBe(500);
+    expect(withOrb.orbs).toBe(1);
+    expect(withOrb.boost).toBeGreaterThan(without.boost);
+  });
+
+  it('ends a race on a crash and ignores everything after it', () => {
+    const start = clearRoad({ ...createSimState(1), speed: 1.5 });
+    const rock = { id: 0, x: 0, z: start.position + PLAYER_Z + 100, type: 'rock' as const };
+    const crashed = run({ ...start, entities: [rock] }, controls({ throttle: 1 }), 1).state;
+    expect(crashed.crashed).toBe(true);
+
+    const after = step(crashed, controls({ throttle: 1, steering: 1 }));
+    expect(after.state).toBe(crashed);
+    expect(after.events).toEqual([]);
+    expect(getRunResult(crashed)).toMatchObject({ finished: false, score: crashed.score, ticks: crashed.tick });
+  });
+
+  it('misses a rock in another lane', () => {
+    const start = clearRoad({ ...createSimState(1), speed: 1.5 });
+    const rock = { id: 0, x: 0.8, z: start.position + PLAYER_Z + 100, type: 'rock' as const };
+    expect(run({ ...start, entities: [rock] }, controls({ throttle: 1 }), 1).state.crashed).toBe(false);
+  });
+});
+
+describe('braking', () => {
+  it('stops the car much faster than coasting', () => {
+    const cruising = clearRoad({ ...createSimState(1), speed: 1.2 });
+    const coasted = run(cruising, controls({}), 0.5).state;
+    const braked = run(cruising, controls({ brake: 1 }), 0.5).state;
+    expect(braked.speed).toBeLessThan(coasted.speed);
+    expect(braked.isBraking).toBe(true);
+  });
+
+  it('reverses slowly once stopped, and coasts back to a halt', () => {
+    const reversing = run(createSimState(1), controls({ brake: 1 }), 2).state;
+    expect(reversing.speed).toBeLessThan(0);
+    expect(reversing.speed).toBeGreaterThanOrEqual(-0.3);
+    expect(reversing.score).toBe(0);
+
+    expect(run(reversing, controls({}), 2).state.speed).toBe(0);
+  });
+
+  it('never brakes while boosting', () => {
+    const boosting = { ...createSimState(1), speed: 1, boost: 100, isBoosting: true };
+    const next = step(boosting, controls({ brake: 1 })).state;
+    expect(next.isBraking).toBe(false);
+    expect(next.speed).toBeGreaterThan(1);
+  });
+});
+
+describe('boost trigger', () => {
+  it('waits for the player with a full bar', () => {
+    const full = { ...createSimState(1), boost: 100 };
+    const idle = step(full, controls({}));
+    expect(idle.state.isBoosting).toBe(false);
+    expect(idle.events).toEqual([]);
+
+    const fired = step(full, controls({ boost: true }));
+    expect(fired.state.isBoosting).toBe(true);
+    expect(fired.events).toContainEqual({ type: 'boost' });
+  });
+
+  it('does nothing until the bar is full', () => {
+    const partial = { ...createSimState(1), boost: 75 };
+    expect(step(partial, controls({ boost: true })).state.isBoosting).toBe(false);
+  });
+});
+
+describe('road', () => {
+  const bend = { ...ENDLESS_COURSE, road: buildRoad([{ enter: 0, hold: 500, leave: 0, curve: ROAD_CURVE.HARD, hill: 0 }]) };
+
+  it('pushes the car to the outside of a bend, harder at speed', () => {
+    const slow = run(clearRoad({ ...createSimState(1, bend), speed: 0.5 }), controls({}), 0.5).state;
+    const fast = run(clearRoad({ ...createSimState(1, bend), speed: 1.5 }), controls({ throttle: 1 }), 0.5).state;
+    expect(slow.playerX).toBeLessThan(0);
+    expect(fast.playerX).toBeLessThan(slow.playerX);
+  });
+
+  it('slows the car down off the tarmac', () => {
+    const offRoad = run(clearRoad({ ...createSimState(1), speed: 1.5, playerX: 1.15 }), controls({ throttle: 1 }), 1).state;
+    expect(offRoad.speed).toBeLessThan(1);
+  });
+
+  it('crashes into a rock the car drives through, however fast', () => {
+    const start = clearRoad({ ...createSimState(1), speed: 2.5, isBoosting: false });
+    const rock = { id: 0, x: 0, z: start.position + PLAYER_Z + 600, type: 'rock' as const };
+    const result = run({ ...start, entities: [rock] }, controls({ throttle: 1 }), 0.5);
+    expect(result.state.crashed).toBe(true);
+    expect(result.events).toContainEqual({ type: 'crash', x: 0 });
+  });
+});
+
+describe('time attack', () => {
+  const loop = {
+    ...ENDLESS_COURSE,
+    id: 'loop',
+    road: buildRoad([{ enter: 0, hold: 100, leave: 0, curve: 0, hill: 0 }]),
+    entities: [{ type: 'orb' as const, x: 0.8, z: 10 * SEGMENT_LENGTH }],
+    checkpoints: [50 * SEGMENT_LENGTH],
+    randomSpawns: false,
+  };
+
+  it('times every lap and finishes after the last one', () => {
+    const result = run(createSimState(1, loop, 'timeAttack'), controls({ throttle: 1 }), 20);
+    const laps = result.events.filter(event => event.type === 'lap');
+    expect(result.state.finished).toBe(true);
+    expect(laps).toHaveLength(TIME_ATTACK_LAPS);
+    expect(result.state.lapTimes).toHaveLength(TIME_ATTACK_LAPS);
+    expect(result.state.lapTimes.reduce((a, b) => a + b, 0)).toBe(result.state.clock);
+    // Standing start, then flying laps
+    expect(result.state.lapTimes[1]).toBeLessThan(result.state.lapTimes[0]);
+    expect(result.events.filter(event => event.type === 'checkpoint')).toHaveLength(TIME_ATTACK_LAPS);
+  });
+
+  it('lays the scripted entities out again every lap', () => {
+    const start = { ...createSimState(1, loop, 'timeAttack'), speed: 1.5 };
+    const placed = run(start, controls({ throttle: 1 }), 1).state;
+    expect(placed.entities.map(ent => ent.z)).toContain(loop.road.length + 10 * SEGMENT_LENGTH);
+  });
+
+  it('costs time instead of ending the run when the car crashes', () => {
+    const start = { ...createSimState(1, loop, 'timeAttack'), speed: 1.5 };
+    const rock = { id: 99, x: 0, z: start.position + PLAYER_Z + 600, type: 'rock' as const };
+    const crashed = run({ ...start, entities: [rock] }, controls({ throttle: 1 }), 0.5);
+    const wipeout = crashed.events.find(event => event.type === 'wipeout');
+    expect(wipeout).toBeDefined();
+    expect(crashed.state.crashed).toBe(false);
+    expect(crashed.state.penalties).toBe(1);
+    expect(crashed.state.clock).toBe(crashed.state.tick + (wipeout as { penalty: number }).penalty);
+    expect(crashed.state.speed).toBe(0);
+
+    // The car sits out the respawn, then drives on
+    const recovered = run(crashed.state, controls({ throttle: 1 }), 2);
+    expect(recovered.state.speed).toBeGreaterThan(0);
+    expect(recovered.state.crashed).toBe(false);
+  });
+});
+
+describe('entity behaviours', () => {
+  const cruising = clearRoad({ ...createSimState(1), speed: 1.2 });
+  const ahead = (type: EntityType, x = 0, distance = 600, from = cruising): SimEntity =>
+    ({ id: 99, x, z: from.position + PLAYER_Z + distance, type });
+  const through = (entity: SimEntity, input: Partial<SimControls> = { throttle: 1 }, seconds = 0.5, from = cruising) =>
+    run({ ...from, entities: [entity] }, controls(input), seconds);
+
+  it('spins the car on oil: no steering, a slide and lost speed, but no crash', () => {
+    const { state, events } = through(ahead('oil', -0.05, 0), { throttle: 1, steering: -1 }, 0.3);
+    expect(events.map(event => event.type)).toContain('slip');
+    expect(state.crashed).toBe(false);
+    expect(state.slip).toBeGreaterThan(0);
+    expect(state.playerX).toBeGreaterThan(0); // Slid away from the patch despite steering left
+    expect(state.speed).toBeLessThan(cruising.speed);
+
+    // Grip comes back
+    const recovered = run(state, controls({ steering: -1 }), 2).state;
+    expect(recovered.slip).toBe(0);
+    expect(recovered.playerX).toBeLessThan(state.playerX);
+  });
+
+  it('lets a boosting car over oil without losing grip', () => {
+    const { state } = through(ahead('oil'), { throttle: 1 }, 0.3, { ...cruising, boost: 100, isBoosting: true });
+    expect(state.slip).toBe(0);
+  });
+
+  it('drives traffic along the road, and crashes into it', () => {
+    const car = ahead('traffic', 0, 3000);
+    const moved = step({ ...clearRoad(createSimState(1)), entities: [car] }, controls({})).state;
+    expect(moved.entities[0].z).toBeGreaterThan(car.z);
+
+    const { state } = through(car, { throttle: 1 }, 3);
+    expect(state.crashed).toBe(true);
+  });
+
+  it('blocks a whole lane with a barrier', () => {
+    expect(through(ahead('barrier', 0.3)).state.crashed).toBe(true);
+    expect(through(ahead('rock', 0.3)).state.crashed).toBe(false);
+  });
+
+  it('kicks the car past top speed on a speed pad, then lets it settle back', () => {
+    const { state, events } = through(ahead('speedPad'), { throttle: 1 }, 0.3, { ...cruising, speed: 1.5 });
+    expect(events.map(event => event.type)).toContain('surge');
+    expect(state.speed).toBeGreaterThan(1.5);
+
+    const settled = run(state, controls({ throttle: 1 }), 4).state;
+    expect(settled.speed).toBeCloseTo(1.5);
+  });
+
+  it('smashes obstacles while a shield pickup lasts', () => {
+    const shielded = through(ahead('shield'), { throttle: 1 }, 0.2).state;
+    expect(shielded.shield).toBeGreaterThan(0);
+
+    const { state, events } = through(ahead('rock', 0, 800, shielded), { throttle: 1 }, 0.5, shielded);
+    expect(state.crashed).toBe(false);
+    expect(events.map(event => event.type)).toContain('smash');
+  });
+});
+
+describe('run stats', () => {
+  it('records top speed, orbs collected and time spent boosting', () => {
+    const start = clearRoad({ ...createSimState(1), speed: 1, boost: 75 });
+    const orb: SimEntity = { id: 99, x: 0, z: start.position + PLAYER_Z + 300, type: 'orb' };
+    const { state } = run({ ...start, entities: [orb] }, controls({ throttle: 1, boost: true }), 1);
+    const { stats } = getRunResult(state);
+    expect(stats.orbs).toBe(1);
+    expect(stats.boostTime).toBeGreaterThan(0.5);
+    expect(stats.topSpeed).toBe(state.speed); // Still speeding up under boost
+    expect(stats.distance).toBe(state.distance);
+  });
+});
@@ -0,0 +1,455 @@
+import { ControlState } from '../types';
+import { DEFAULT_ROAD, DRAW_DISTANCE, PLAYER_Z, Road, SEGMENT_LENGTH, findSegment } from './road';
+import { ENTITY_BEHAVIOURS, EntityType, pickSpawnType } from './entities';
+
+export type { EntityType };
+
+// Deterministic race simulation. No DOM, no canvas, no Math.random:
+// the same seed and the same control sequence always produce the same run.
+
+export const SIM_STEP = 1 / 60; // Fixed timestep in seconds
+
+// Positions across the road are in road space: x is -1 (left edge) to 1 (right edge).
+// Positions along it are world z (see road.ts); the camera sits at `position`, the car PLAYER_Z ahead of it.
+const HIT_DEPTH = 250; // World units either side of the car's z; more than one boosted step, so nothing tunnels
+const SPAWN_DISTANCE = DRAW_DISTANCE * SEGMENT_LENGTH * 0.75; // Ahead of the car, well inside the drawn road
+const DESPAWN_BEHIND = PLAYER_Z; // Behind the car = behind the camera
+const WORLD_SPEED = 6000; // World units per second per unit of speed
+
+// Physics Constants
+const STEERING_SENSITIVITY = 1.8;
+const ACCELERATION = 0.8;
+const FRICTION = 0.3;
+const MAX_SPEED = 1.5;
+const BOOST_MAX_SPEED = 2.5;
+const BOOST_DRAIN = 20; // Boost units per second
+const BRAKE_DECELERATION = 1.6;
+const REVERSE_ACCELERATION = 0.4;
+const REVERSE_MAX_SPEED = 0.3;
+const PLAYER_LIMIT = 1.2; // Slight allowance off-road
+const CENTRIFUGAL = 0.2; // Road-space drift per second per unit of curve at full speed
+const OFFROAD_MAX_SPEED = 0.6;
+const OFFROAD_DECELERATION = 2.0; // Outpaces full throttle
+const OVERSPEED_DECELERATION = 1.0; // Bleeds off speed above the current top speed, e.g. when a boost ends
+const BACKGROUND_PARALLAX = 40; // Sky scroll per unit of curve at full speed
+export const SPEED_TO_KMH = 180; // What the speedo shows per unit of speed; distance is in the same units per second
+
+// Time Attack
+// Laps run round the whole road loop, starting and finishing at z = 0. Crashing doesn't end the run:
+// the clock takes a penalty, the car sits out a moment and then carries on, briefly shielded.
+export const TIME_ATTACK_LAPS = 3;
+export const CRASH_PENALTY = 3; // Seconds added to the clock
+const RESPAWN_FREEZE = 1; // Seconds the wrecked car stands still
+const RESPAWN_SHIELD = 1.5; // Seconds after that when obstacles pass straight through
+
+// 'race' runs once to the course's finish (or until a crash on the endless road)
+export type RaceMode = 'race' | 'timeAttack';
+
+export interface SimEntity {
+  id: number;
+  x: number;
+  z: number; // World position along the track
+  type: EntityType;
+}
+
+// What a run is raced on: the road plus anything scripted along it.
+// Built-in tracks are turned into courses by trackService; the endless course spawns at random forever.
+export interface CourseEntity {
+  type: EntityType;
+  x: number;
+  z: number;
+}
+
+export interface Course {
+  id: string;
+  road: Road;
+  entities: CourseEntity[]; // Scripted placements, sorted by z
+  checkpoints: number[]; // World z of each checkpoint, ascending
+  finishZ: number | null; // null for a road with no end
+  randomSpawns: boolean;
+}
+
+export const ENDLESS_COURSE: Course = {
+  id: 'endless',
+  road: DEFAULT_ROAD,
+  entities: [],
+  checkpoints: [],
+  finishZ: null,
+  randomSpawns: true,
+};
+
+export interface SimState {
+  seed: number;
+  rngState: number;
+  tick: number;
+  course: Course;
+  mode: RaceMode;
+  clock: number; // Race time in ticks: one per step plus crash penalties
+  playerX: number;
+  speed: number;
+  position: number; // Camera z; grows without wrapping, the road loops under it
+  bgOffset: number;
+  score: number;
+  distance: number;
+  topSpeed: number; // Fastest the car has gone this run
+  orbs: number; // Orbs collected
+  boostTime: number; // Seconds spent in HYPER BOOST
+  boost: number; // 0 to 100
+  isBoosting: boolean;
+  isBraking: boolean;
+  slip: number; // Seconds of lost grip left (oil)
+  slipDrift: number; // Road-space x per second the car slides while it has no grip
+  surge: number; // Seconds left above normal top speed (speed pads)
+  surgeSpeed: number;
+  shield: number; // Seconds left of smashing obstacles instead of crashing
+  entities: SimEntity[];
+  entityIdCounter: number;
+  nextPlacement: number; // Index of the next scripted entity still to appear
+  placementLap: number; // Lap the scripted entities are being placed for (time attack repeats them)
+  checkpoint: number; // Checkpoints passed this lap
+  lap: number; // Laps completed
+  lapStart: number; // Clock at the start of the current lap
+  lapTimes: number[]; // Clock ticks per completed lap
+  splits: number[]; // Clock ticks from the lap start to each checkpoint passed this lap
+  penalties: number; // Crashes paid for with time
+  respawn: number; // Seconds left of a time attack respawn, frozen then shielded
+  crashed: boolean;
+  finished: boolean;
+}
+
+// How the run went, beyond the score and the clock; kept on the leaderboard
+export interface RunStats {
+  distance: number;
+  topSpeed: number;
+  orbs: number;
+  boostTime: number; // Seconds
+}
+
+export interface RunResult {
+  score: number;
+  ticks: number;
+  time: number; // Clock ticks, including penalties
+  finished: boolean;
+  courseId: string;
+  mode: RaceMode;
+  lapTimes: number[];
+  penalties: number;
+  stats: RunStats;
+}
+
+export type SimControls = Pick<ControlState, 'steering' | 'throttle' | 'brake' | 'boost'>;
+
+export type SimEvent =
+  | { type: 'collect'; x: number; z: number }
+  | { type: 'smash'; x: number; z: number }
+  | { type: 'slip'; x: number; z: number }
+  | { type: 'surge'; x: number; z: number }
+  | { type: 'shield'; x: number; z: number }
+  | { type: 'boost' }
+  | { type: 'crash'; x: number }
+  | { type: 'wipeout'; x: number; penalty: number } // Time attack crash; penalty in ticks
+  | { type: 'checkpoint'; index: number; split: number }
+  | { type: 'lap'; lap: number; ticks: number } // lap is the number just completed
+  | { type: 'finish' };
+
+export interface StepResult {
+  state: SimState;
+  events: SimEvent[];
+}
+
+// Mulberry32 - tiny, fast and good enough for gameplay randomness
+const nextRandom = (state: SimState): number => {
+  state.rngState = (state.rngState + 0x6D2B79F5) | 0;
+  let t = state.rngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const createSeed = (): number => Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+
+export const createSimState = (seed: number, course: Course = ENDLESS_COURSE, mode: RaceMode = 'race'): SimState => ({
+  seed,
+  rngState: seed | 0,
+  tick: 0,
+  course,
+  mode,
+  clock: 0,
+  playerX: 0,
+  speed: 0,
+  position: mode === 'timeAttack' ? -PLAYER_Z : 0, // Time attack starts with the car on the line
+  bgOffset: 0,
+  score: 0,
+  distance: 0,
+  topSpeed: 0,
+  orbs: 0,
+  boostTime: 0,
+  boost: 0,
+  isBoosting: false,
+  isBraking: false,
+  slip: 0,
+  slipDrift: 0,
+  surge: 0,
+  surgeSpeed: 0,
+  shield: 0,
+  entities: [],
+  entityIdCounter: 0,
+  nextPlacement: 0,
+  placementLap: 0,
+  checkpoint: 0,
+  lap: 0,
+  lapStart: 0,
+  lapTimes: [],
+  splits: [],
+  penalties: 0,
+  respawn: 0,
+  crashed: false,
+  finished: false,
+});
+
+export const isRunOver = (state: SimState): boolean => state.crashed || state.finished;
+
+export const getRunResult = (state: SimState): RunResult => ({
+  score: state.score,
+  ticks: state.tick,
+  time: state.clock,
+  finished: state.finished,
+  courseId: state.course.id,
+  mode: state.mode,
+  lapTimes: state.lapTimes,
+  penalties: state.penalties,
+  stats: { distance: state.distance, topSpeed: state.topSpeed, orbs: state.orbs, boostTime: state.boostTime },
+});
+
+// Advance the world by one fixed step. The input state is left untouched.
+export const step = (prev: SimState, controls: SimControls, dt: number = SIM_STEP): StepResult => {
+  const events: SimEvent[] = [];
+  if (isRunOver(prev)) return { state: prev, events };
+
+  const state: SimState = {
+    ...prev,
+    tick: prev.tick + 1,
+    clock: prev.clock + 1,
+    entities: prev.entities.map(ent => ({ ...ent })),
+  };
+  const { steering, throttle, brake, boost } = controls;
+
+  // A wrecked car waiting to respawn ignores the controls
+  const frozen = state.respawn > RESPAWN_SHIELD;
+  state.respawn = Math.max(0, state.respawn - dt);
+
+  // A full bar fires HYPER BOOST when the player asks for it
+  const fireBoost = () => {
+    if (!boost || frozen || state.isBoosting || state.boost < 100) return;
+    state.isBoosting = true;
+    state.boost = 100;
+    events.push({ type: 'boost' });
+  };
+  fireBoost();
+
+  // Boost Logic
+  let maxSpeed = MAX_SPEED;
+  if (state.isBoosting) {
+    maxSpeed = BOOST_MAX_SPEED;
+    state.boostTime += dt;
+    state.boost -= BOOST_DRAIN * dt;
+    if (state.boost <= 0) {
+      state.boost = 0;
+      state.isBoosting = false;
+    }
+  }
+
+  // Timed effects from things the car has hit
+  const slipping = state.slip > 0;
+  if (state.surge > 0) maxSpeed = Math.max(maxSpeed, state.surgeSpeed);
+  state.slip = Math.max(0, state.slip - dt);
+  state.surge = Math.max(0, state.surge - dt);
+  state.shield = Math.max(0, state.shield - dt);
+
+  // Speed Update
+  const startSpeed = state.speed;
+  // Braking slows the car to a stop; holding the brake once stopped reverses slowly
+  state.isBraking = brake > 0.1 && !state.isBoosting && !frozen;
+  if (frozen) {
+    state.speed = 0;
+  } else if (state.isBoosting) {
+    state.speed += ACCELERATION * dt;
+  } else if (state.isBraking) {
+    state.speed = state.speed > 0
+      ? Math.max(0, state.speed - brake * BRAKE_DECELERATION * dt)
+      : state.speed - brake * REVERSE_ACCELERATION * dt;
+  } else if (throttle > 0.1) {
+    state.speed += throttle * ACCELERATION * dt;
+  } else if (state.speed > 0) {
+    state.speed = Math.max(0, state.speed - FRICTION * dt);
+  } else {
+    state.speed = Math.min(0, state.speed + FRICTION * dt);
+  }
+  // Off the tarmac the car bogs down, even under boost
+  if (Math.abs(state.playerX) > 1 && state.speed > OFFROAD_MAX_SPEED) {
+    state.speed = Math.max(OFFROAD_MAX_SPEED, state.speed - OFFROAD_DECELERATION * dt);
+  }
+  // Above top speed (a boost or surge wearing off) the throttle can't hold the car there
+  if (state.speed > maxSpeed) state.speed = Math.max(maxSpeed, Math.min(state.speed, startSpeed - OVERSPEED_DECELERATION * dt));
+  state.speed = Math.max(-REVERSE_MAX_SPEED, state.speed);
+  state.topSpeed = Math.max(state.topSpeed, state.speed);
+
+  // Player X Update
+  // Curves fling the car towards the outside of the bend, harder the faster it goes
+  const { course } = state;
+  const curve = findSegment(course.road, state.position + PLAYER_Z).curve;
+  const speedRatio = state.speed / MAX_SPEED;
+  if (Math.abs(state.speed) > 0.05) {
+    // With no grip the steering does nothing and the car slides
+    state.playerX += slipping ? state.slipDrift * dt : steering * STEERING_SENSITIVITY * dt;
+    state.playerX -= curve * CENTRIFUGAL * speedRatio * speedRatio * dt;
+    state.playerX = Math.max(-PLAYER_LIMIT, Math.min(PLAYER_LIMIT, state.playerX));
+  }
+
+  // World Movement
+  const previousZ = state.position + PLAYER_Z;
+  state.position += state.speed * (state.isBoosting ? 1.5 : 1) * WORLD_SPEED * dt;
+  const playerZ = state.position + PLAYER_Z;
+  state.bgOffset += curve * speedRatio * BACKGROUND_PARALLAX * dt;
+  state.distance += state.speed * dt;
+  state.score += Math.floor(Math.max(0, state.speed) * 10 * (state.isBoosting ? 2 : 1));
+
+  // Spawning
+  // Scripted entities appear as they come within range; time attack lays them out again every lap.
+  // A lap is the whole road loop, not the distance to the finish line: the road only joins up with
+  // itself at its end, so lapping at the finish would jump the car onto a different stretch of road.
+  const lapLength = course.road.length;
+  while (course.entities.length > 0) {
+    if (state.nextPlacement === course.entities.length) {
+      if (state.mode !== 'timeAttack') break;
+      state.nextPlacement = 0;
+      state.placementLap++;
+    }
+    const placement = course.entities[state.nextPlacement];
+    const z = placement.z + state.placementLap * lapLength;
+    if (z > playerZ + SPAWN_DISTANCE) break;
+    state.entities.push({ id: state.entityIdCounter++, ...placement, z });
+    state.nextPlacement++;
+  }
+
+  // Hazards come more often the faster and further the car goes; pickups turn up steadily
+  const difficultyMultiplier = 1 + (state.distance / 500);
+  const spawnRandom = (group: 'hazard' | 'pickup') => {
+    state.entities.push({
+      id: state.entityIdCounter++,
+      x: (nextRandom(state) * 2 - 1) * 0.9,
+      z: playerZ + SPAWN_DISTANCE,
+      type: pickSpawnType(group, nextRandom(state)),
+    });
+  };
+  if (course.randomSpawns && nextRandom(state) < 0.02 * state.speed * difficultyMultiplier) spawnRandom('hazard');
+  if (course.randomSpawns && nextRandom(state) < 0.008) spawnRandom('pickup');
+
+  // Entity Updates
+  // Most entities stand still on the road and traffic drives along it; the car sweeps past them
+  const nearZ = Math.min(previousZ, playerZ) - HIT_DEPTH;
+  const farZ = Math.max(previousZ, playerZ) + HIT_DEPTH;
+  const survivors: SimEntity[] = [];
+  for (const ent of state.entities) {
+    const behaviour = ENTITY_BEHAVIOURS[ent.type];
+    const { effect } = behaviour;
+    ent.z += behaviour.speed * WORLD_SPEED * dt;
+    let active = true;
+    const inPlayerRow = ent.z > nearZ && ent.z < farZ;
+
+    if (inPlayerRow && Math.abs(ent.x - state.playerX) < behaviour.hitRadius) {
+      const hit = () => {
+        if (behaviour.consumed) active = false;
+        state.score += behaviour.score;
+      };
+      const invincible = state.isBoosting || state.shield > 0;
+
+      if (effect.type === 'charge') {
+        hit();
+        state.orbs++;
+        state.boost = Math.min(100, state.boost + effect.boost);
+        events.push({ type: 'collect', x: ent.x, z: ent.z });
+
+        // Holding the trigger while the bar fills fires straight away
+        fireBoost();
+      } else if (effect.type === 'surge') {
+        if (state.surge <= 0) {
+          hit();
+          events.push({ type: 'surge', x: ent.x, z: ent.z });
+        }
+        state.surge = effect.seconds;
+        state.surgeSpeed = effect.speed;
+        state.speed = Math.max(state.speed, effect.speed);
+      } else if (effect.type === 'shield') {
+        hit();
+        state.shield = effect.seconds;
+        events.push({ type: 'shield', x: ent.x, z: ent.z });
+      } else if (effect.type === 'slip') {
+        // One spin per patch: the car is still on it for a few steps
+        if (!invincible && !slipping) {
+          hit();
+          state.slip = effect.seconds;
+          state.slipDrift = (state.playerX >= ent.x ? 1 : -1) * effect.drift;
+          state.speed *= 1 - effect.speedLoss;
+          events.push({ type: 'slip', x: state.playerX, z: playerZ });
+        }
+      } else if (invincible) {
+        // Boosting or shielded: obstacles are smashed
+        active = false;
+        state.score += behaviour.score;
+        events.push({ type: 'smash', x: ent.x, z: ent.z });
+      } else if (state.respawn > 0) {
+        // Shielded after a respawn: obstacles pass straight through
+      } else if (state.mode === 'timeAttack') {
+        active = false;
+        const penalty = Math.round(CRASH_PENALTY / SIM_STEP);
+        state.clock += penalty;
+        state.penalties++;
+        state.speed = 0;
+        state.respawn = RESPAWN_FREEZE + RESPAWN_SHIELD;
+        state.playerX = Math.max(-1, Math.min(1, state.playerX));
+        events.push({ type: 'wipeout', x: state.playerX, penalty });
+      } else {
+        state.crashed = true;
+        events.push({ type: 'crash', x: state.playerX });
+        break;
+      }
+    }
+
+    // Passed entities go once they're behind the camera; reversing leaves them beyond the draw distance
+    const ahead = ent.z - playerZ;
+    if (active && ahead > -DESPAWN_BEHIND && ahead <= SPAWN_DISTANCE) survivors.push(ent);
+  }
+  if (state.crashed) return { state, events };
+  state.entities = survivors;
+
+  // Checkpoints count once per lap, in order; reversing back over one doesn't undo it
+  const lapZ = playerZ - state.lap * lapLength;
+  while (state.checkpoint < course.checkpoints.length && lapZ >= course.checkpoints[state.checkpoint]) {
+    const split = state.clock - state.lapStart;
+    state.splits = [...state.splits, split];
+    events.push({ type: 'checkpoint', index: state.checkpoint, split });
+    state.checkpoint++;
+  }
+
+  if (state.mode === 'timeAttack') {
+    if (lapZ >= lapLength) {
+      const ticks = state.clock - state.lapStart;
+      state.lapTimes = [...state.lapTimes, ticks];
+      state.lap++;
+      state.lapStart = state.clock;
+      state.checkpoint = 0;
+      state.splits = [];
+      events.push({ type: 'lap', lap: state.lap, ticks });
+      if (state.lap >= TIME_ATTACK_LAPS) {
+        state.finished = true;
+        events.push({ type: 'finish' });
+      }
+    }
+  } else if (course.finishZ !== null && playerZ >= course.finishZ) {
+    state.finished = true;
+    events.push({ type: 'finish' });
+  }
+
+  return { state, events };
+};
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildRoad } from './road';
+import { ENDLESS_COURSE, SimState, createSimState, step } from './simulation';
+import { LapRecord, LapTracer, createLapTracer, formatDelta, getBestLap, saveBestLap } from './timeAttackService';
+
+const loop = { ...ENDLESS_COURSE, id: 'loop', road: buildRoad([{ enter: 0, hold: 100, leave: 0, curve: 0, hill: 0 }]), randomSpawns: false };
+
+// Drives the loop at a steady throttle, feeding the tracer, until the given lap is completed
+const driveLaps = (tracer: LapTracer, throttle: number, laps: number) => {
+  let state: SimState = createSimState(1, loop, 'timeAttack');
+  const completed: LapRecord[] = [];
+  while (state.lap < laps) {
+    state = step(state, { steering: 0, throttle, brake: 0, boost: false }).state;
+    const lap = tracer.update(state);
+    if (lap) completed.push(lap);
+  }
+  return { state, completed };
+};
+
+describe('lap tracer', () => {
+  it('records each lap with its trace', () => {
+    const tracer = createLapTracer(null);
+    const { state, completed } = driveLaps(tracer, 1, 2);
+    expect(completed).toHaveLength(2);
+    expect(completed[0].ticks).toBe(state.lapTimes[0]);
+    expect(completed[0].trace).toHaveLength(loop.road.segments.length);
+    expect(tracer.getBest()!.ticks).toBe(Math.min(...state.lapTimes));
+  });
+
+  it('measures the gap to the best lap as the car goes', () => {
+    const best = driveLaps(createLapTracer(null), 1, 1).completed[0];
+
+    const tracer = createLapTracer(best);
+    let state: SimState = createSimState(1, loop, 'timeAttack');
+    for (let i = 0; i < 120; i++) {
+      state = step(state, { steering: 0, throttle: 0.5, brake: 0, boost: false }).state;
+      tracer.update(state);
+    }
+    expect(tracer.getDelta(state)).toBeGreaterThan(0); // Half throttle falls behind
+  });
+
+  it('ignores a lap it only saw part of', () => {
+    let state: SimState = { ...createSimState(1, loop, 'timeAttack'), position: loop.road.length / 2 };
+    const tracer = createLapTracer(null);
+    let completed: LapRecord | null = null;
+    while (state.lap < 1) {
+      state = step(state, { steering: 0, throttle: 1, brake: 0, boost: false }).state;
+      completed = tracer.update(state) ?? completed;
+    }
+    expect(completed).toBeNull();
+    expect(tracer.getBest()).toBeNull();
+  });
+});
+
+describe('best laps', () => {
+  beforeEach(() => localStorage.clear());
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const lap = (ticks: number): LapRecord => ({ ticks, splits: [], trace: [], recordedAt: '' });
+
+  it('only keep a lap that beats the stored one', () => {
+    expect(getBestLap('loop')).toBeNull();
+    expect(saveBestLap('loop', lap(600))).toBe(true);
+    expect(saveBestLap('loop', lap(700))).toBe(false);
+    expect(saveBestLap('loop', lap(550))).toBe(true);
+    expect(getBestLap('loop')!.ticks).toBe(550);
+    expect(getBestLap('other')).toBeNull();
+  });
+
+  it('report a lap that storage had no room for', () => {
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => { throw new DOMException('full', 'QuotaExceededError'); });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(saveBestLap('loop', lap(600))).toBe(false);
+    expect(getBestLap('loop')).toBeNull();
+  });
+
+  it('formats the gap in signed seconds', () => {
+    expect(formatDelta(-25)).toBe('-0.42');
+    expect(formatDelta(90)).toBe('+1.50');
+  });
+});
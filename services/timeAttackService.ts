@@ -0,0 +1,103 @@
+import { PLAYER_Z, SEGMENT_LENGTH } from './road';
+import { SIM_STEP, SimState } from './simulation';
+
+// Best laps and the live delta against them.
+// While a lap is driven, the lap clock is noted as the car enters each segment; comparing that trace
+// with the best lap's at the same segment gives the gap to the best lap's "ghost" anywhere on the road.
+
+export interface LapRecord {
+  ticks: number; // Lap time, including penalties
+  splits: number[]; // Lap clock at each checkpoint
+  trace: number[]; // Lap clock as the car entered each segment of the lap
+  recordedAt: string;
+}
+
+export interface LapTracer {
+  // Call after every simulation step; returns the lap just completed, if any
+  update: (state: SimState) => LapRecord | null;
+  // Ticks behind (positive) or ahead of (negative) the best lap at the car's position
+  getDelta: (state: SimState) => number | null;
+  getBest: () => LapRecord | null;
+}
+
+const lapSegment = (state: SimState): number =>
+  Math.floor((state.position + PLAYER_Z - state.lap * state.course.road.length) / SEGMENT_LENGTH);
+
+export const createLapTracer = (best: LapRecord | null): LapTracer => {
+  let lap = 0;
+  let trace: number[] = [];
+  let splits: number[] = [];
+  let joinedLate = false; // Picked up mid-lap (a replay scrubbed forward), so this lap's trace has gaps
+
+  return {
+    update: (state) => {
+      let completed: LapRecord | null = null;
+      if (state.lap > lap) {
+        if (!joinedLate && trace.length > 0 && state.lap === lap + 1) {
+          completed = {
+            ticks: state.lapTimes[state.lapTimes.length - 1],
+            splits,
+            trace,
+            recordedAt: new Date().toISOString(),
+          };
+          if (!best || completed.ticks < best.ticks) best = completed;
+        }
+        lap = state.lap;
+        trace = [];
+        joinedLate = false;
+      }
+      splits = state.splits;
+
+      // Reversing doesn't rewrite the trace; the first time through a segment is the one that counts
+      const segment = lapSegment(state);
+      if (trace.length === 0 && segment > 0) joinedLate = true;
+      for (let s = trace.length; s <= segment; s++) trace.push(state.clock - state.lapStart);
+      return completed;
+    },
+    getDelta: (state) => {
+      const segment = lapSegment(state);
+      if (!best || segment < 0 || segment >= best.trace.length) return null;
+      return (state.clock - state.lapStart) - best.trace[segment];
+    },
+    getBest: () => best,
+  };
+};
+
+// --- Best Lap Storage ---
+// One record per track, kept in this browser
+
+const BEST_LAPS_KEY = 'neonRacer.bestLaps';
+
+const loadBestLaps = (): Record<string, LapRecord> => {
+  try {
+    const stored = localStorage.getItem(BEST_LAPS_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    console.error("Failed to load best laps", e);
+    return {};
+  }
+};
+
+export const getBestLap = (trackId: string): LapRecord | null => loadBestLaps()[trackId] ?? null;
+
+// Keeps the record only if it beats the stored one; returns whether it did
+export const saveBestLap = (trackId: string, lap: LapRecord): boolean => {
+  const laps = loadBestLaps();
+  const current = laps[trackId];
+  if (current && current.ticks <= lap.ticks) return false;
+  laps[trackId] = lap;
+  try {
+    localStorage.setItem(BEST_LAPS_KEY, JSON.stringify(laps));
+  } catch (e) {
+    console.error("Failed to save best lap", e);
+    return false;
+  }
+  return true;
+};
+
+// Gap to the best lap, e.g. "-0.42" when ahead of it
+export const formatDelta = (ticks: number): string => {
+  const seconds = Math.abs(ticks) * SIM_STEP;
+  return `${ticks < 0 ? '-' : '+'}${seconds.toFixed(2)}`;
+};
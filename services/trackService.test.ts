@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { SEGMENT_LENGTH } from './road';
+import { createSimState, step } from './simulation';
+import {
+  BUILT_IN_TRACKS, ENDLESS_TRACK_ID, TRACK_FORMAT,
+  createCourse, formatRaceTime, loadCourse, parseTrack, validateTrack
+} from './trackService';
+
+const track = (overrides: Record<string, unknown> = {}) => ({
+  format: TRACK_FORMAT,
+  id: 'test-track',
+  name: 'Test Track',
+  description: 'A short straight',
+  sections: [{ enter: 0, hold: 100, leave: 0, curve: 0, hill: 0 }],
+  placements: [{ type: 'rock', segment: 60, x: 0.5 }, { type: 'orb', segment: 20, x: 0 }],
+  checkpoints: [40],
+  finish: 80,
+  ...overrides,
+});
+
+describe('track validation', () => {
+  it('accepts a well-formed track and fills in defaults', () => {
+    const parsed = validateTrack(track());
+    expect(parsed.randomSpawns).toBe(false);
+    expect(parsed.placements).toHaveLength(2);
+  });
+
+  it('names the problem and the track', () => {
+    expect(() => validateTrack(track({ format: 2 }))).toThrow('Unsupported track format');
+    expect(() => validateTrack(track({ id: 'Bad Id' }))).toThrow('lowercase');
+    expect(() => validateTrack(track({ id: ENDLESS_TRACK_ID }))).toThrow('reserved');
+    expect(() => validateTrack(track({ sections: [] }))).toThrow('Track "test-track": needs at least one section');
+    expect(() => validateTrack(track({ sections: [{ enter: 0, hold: 10, leave: 0, curve: 50, hill: 0 }] }))).toThrow('curve');
+    expect(() => validateTrack(track({ finish: 101 }))).toThrow('finish');
+    expect(() => validateTrack(track({ checkpoints: [50, 40] }))).toThrow('in order');
+    expect(() => validateTrack(track({ checkpoints: [80] }))).toThrow('before the finish');
+    expect(() => validateTrack(track({ placements: [{ type: 'tree', segment: 10, x: 0 }] }))).toThrow('unknown type');
+    expect(() => validateTrack(track({ placements: [{ type: 'rock', segment: 10, x: 2 }] }))).toThrow('x must be');
+    expect(() => validateTrack(track({ sections: [null] }))).toThrow('section 0 is not a section');
+    expect(() => validateTrack(track({ placements: ['rock'] }))).toThrow('placement 0 is not a placement');
+    expect(() => validateTrack(track({ checkpoints: ['10'] }))).toThrow('checkpoint 0');
+  });
+
+  it('rejects files that are not JSON', () => {
+    expect(() => parseTrack('{ nope')).toThrow('not valid JSON');
+  });
+});
+
+describe('courses', () => {
+  it('loads every built-in track', () => {
+    expect(BUILT_IN_TRACKS.length).toBeGreaterThan(0);
+    BUILT_IN_TRACKS.forEach(builtIn => expect(loadCourse(builtIn.id).finishZ).toBeGreaterThan(0));
+    expect(() => loadCourse('no-such-track')).toThrow('Unknown track: no-such-track');
+  });
+
+  it('places entities mid-segment in road order', () => {
+    const course = createCourse(validateTrack(track()));
+    expect(course.entities.map(e => e.type)).toEqual(['orb', 'rock']);
+    expect(course.entities[0].z).toBe(20.5 * SEGMENT_LENGTH);
+    expect(course.checkpoints).toEqual([40 * SEGMENT_LENGTH]);
+    expect(course.finishZ).toBe(80 * SEGMENT_LENGTH);
+  });
+
+  it('finishes a race after passing every checkpoint', () => {
+    const course = createCourse(validateTrack(track({ placements: [] })));
+    let state = createSimState(1, course);
+    const events: string[] = [];
+    for (let i = 0; i < 60 * 60 && !state.finished; i++) {
+      const result = step(state, { steering: 0, throttle: 1, brake: 0, boost: false });
+      state = result.state;
+      result.events.forEach(event => events.push(event.type));
+    }
+    expect(state.finished).toBe(true);
+    expect(events.filter(type => type === 'checkpoint')).toHaveLength(1);
+    expect(events[events.length - 1]).toBe('finish');
+  });
+});
+
+describe('race time', () => {
+  it('formats ticks as minutes, seconds and hundredths', () => {
+    expect(formatRaceTime(0)).toBe('0:00.00');
+    expect(formatRaceTime(90)).toBe('0:01.50');
+    expect(formatRaceTime(60 * 75 + 3)).toBe('1:15.05');
+  });
+});
@@ -0,0 +1,218 @@
+import { Course, ENDLESS_COURSE, EntityType, RaceMode, SIM_STEP } from './simulation';
+import { RoadSection, SEGMENT_LENGTH, buildRoad } from './road';
+import { ENTITY_TYPES } from './entities';
+
+// Handcrafted tracks: a fixed road, scripted obstacles and orbs, checkpoints and a finish line,
+// so every player races the same course. Built-ins live in /tracks as JSON in this format
+// and go through the same validation as anything loaded from elsewhere.
+//
+// {
+//   "format": 1,
+//   "id": "neon-boulevard",              lowercase letters, digits and dashes
+//   "name": "Neon Boulevard",
+//   "description": "...",
+//   "sections": [                        the road, in order (see RoadSection)
+//     { "enter": 25, "hold": 50, "leave": 25, "curve": 2, "hill": 20 }
+//   ],
+//   "placements": [                      scripted entities (types in entities.ts), by segment and road-space x (-1..1)
+//     { "type": "rock", "segment": 120, "x": -0.4 }
+//   ],
+//   "checkpoints": [150, 300],           segment numbers, ascending
+//   "finish": 460,                       segment number of the finish line
+//   "randomSpawns": false                optional: also spawn at random like the endless road
+// }
+
+export const TRACK_FORMAT = 1;
+export const ENDLESS_TRACK_ID = ENDLESS_COURSE.id;
+
+export interface TrackPlacement {
+  type: EntityType;
+  segment: number;
+  x: number;
+}
+
+export interface TrackDefinition {
+  format: number;
+  id: string;
+  name: string;
+  description: string;
+  sections: RoadSection[];
+  placements: TrackPlacement[];
+  checkpoints: number[];
+  finish: number;
+  randomSpawns: boolean;
+}
+
+// Validation limits
+const MAX_CURVE = 10;
+const MAX_HILL = 100;
+const MAX_SECTION_SEGMENTS = 1000;
+
+const isInteger = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const isNumber = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isEntityType = (value: unknown): value is EntityType => ENTITY_TYPES.includes(value as EntityType);
+
+export const validateTrack = (data: unknown): TrackDefinition => {
+  if (!isRecord(data)) throw new Error("Track is empty");
+  if (data.format !== TRACK_FORMAT) throw new Error(`Unsupported track format: ${data.format}`);
+  const { id, name, description, randomSpawns } = data;
+  if (typeof id !== 'string' || !/^[a-z0-9-]+$/.test(id)) {
+    throw new Error("Track id must be lowercase letters, digits and dashes");
+  }
+  const fail: (message: string) => never = (message) => {
+    throw new Error(`Track "${id}": ${message}`);
+  };
+
+  if (id === ENDLESS_TRACK_ID) fail("id is reserved for the endless road");
+  if (typeof name !== 'string' || !name.trim()) fail("missing name");
+  if (description !== undefined && typeof description !== 'string') fail("description must be text");
+
+  if (!Array.isArray(data.sections) || data.sections.length === 0) fail("needs at least one section");
+  const sections: RoadSection[] = (data.sections as unknown[]).map((section, i) => {
+    if (!isRecord(section)) fail(`section ${i} is not a section`);
+    const { enter, hold, leave, curve, hill } = section;
+    if (!isInteger(enter, 0, MAX_SECTION_SEGMENTS) || !isInteger(hold, 0, MAX_SECTION_SEGMENTS) || !isInteger(leave, 0, MAX_SECTION_SEGMENTS)) {
+      fail(`section ${i}: enter, hold and leave must be whole segment counts`);
+    }
+    if (enter + hold + leave === 0) fail(`section ${i} is empty`);
+    if (!isNumber(curve, -MAX_CURVE, MAX_CURVE)) fail(`section ${i}: curve must be between -${MAX_CURVE} and ${MAX_CURVE}`);
+    if (!isNumber(hill, -MAX_HILL, MAX_HILL)) fail(`section ${i}: hill must be between -${MAX_HILL} and ${MAX_HILL}`);
+    return { enter, hold, leave, curve, hill };
+  });
+  const segmentCount = sections.reduce((total, s) => total + s.enter + s.hold + s.leave, 0);
+
+  const { finish } = data;
+  if (!isInteger(finish, 1, segmentCount)) fail(`finish must be a segment between 1 and ${segmentCount}`);
+
+  const checkpointList = data.checkpoints ?? [];
+  if (!Array.isArray(checkpointList)) fail("checkpoints must be a list of segments");
+  const checkpoints = (checkpointList as unknown[]).map((checkpoint, i, all) => {
+    if (!isInteger(checkpoint, 1, finish - 1)) fail(`checkpoint ${i} must be a segment before the finish`);
+    if (i > 0 && checkpoint <= (all[i - 1] as number)) fail("checkpoints must be in order along the road");
+    return checkpoint;
+  });
+
+  const placementList = data.placements ?? [];
+  if (!Array.isArray(placementList)) fail("placements must be a list");
+  const placements = (placementList as unknown[]).map((placement, i): TrackPlacement => {
+    if (!isRecord(placement)) fail(`placement ${i} is not a placement`);
+    const { type, segment, x } = placement;
+    if (!isEntityType(type)) fail(`placement ${i}: unknown type ${type}`);
+    if (!isInteger(segment, 0, finish - 1)) fail(`placement ${i} must be on a segment before the finish`);
+    if (!isNumber(x, -1, 1)) fail(`placement ${i}: x must be between -1 and 1`);
+    return { type, segment, x };
+  });
+
+  if (randomSpawns !== undefined && typeof randomSpawns !== 'boolean') fail("randomSpawns must be true or false");
+
+  return {
+    format: TRACK_FORMAT,
+    id,
+    name,
+    description: typeof description === 'string' ? description : '',
+    sections,
+    placements,
+    checkpoints,
+    finish,
+    randomSpawns: randomSpawns === true,
+  };
+};
+
+export const parseTrack = (json: string): TrackDefinition => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Track file is not valid JSON");
+  }
+  return validateTrack(data);
+};
+
+export const createCourse = (track: TrackDefinition): Course => ({
+  id: track.id,
+  road: buildRoad(track.sections),
+  entities: track.placements
+    .map(({ type, segment, x }) => ({ type, x, z: (segment + 0.5) * SEGMENT_LENGTH }))
+    .sort((a, b) => a.z - b.z),
+  checkpoints: track.checkpoints.map(segment => segment * SEGMENT_LENGTH),
+  finishZ: track.finish * SEGMENT_LENGTH,
+  randomSpawns: track.randomSpawns,
+});
+
+// --- Built-in Tracks ---
+// Files are numbered to set their order in the track list
+
+const trackFiles = import.meta.glob('../tracks/*.json', { eager: true, import: 'default' });
+
+export const BUILT_IN_TRACKS: TrackDefinition[] = Object.keys(trackFiles)
+  .sort()
+  .map(path => validateTrack(trackFiles[path]));
+
+const courses = new Map<string, Course>([[ENDLESS_TRACK_ID, ENDLESS_COURSE]]);
+
+export const getTrack = (id: string): TrackDefinition | null =>
+  BUILT_IN_TRACKS.find(track => track.id === id) ?? null;
+
+// Courses are built once and shared; the simulation never modifies them
+export const loadCourse = (id: string): Course => {
+  let course = courses.get(id);
+  if (!course) {
+    const track = getTrack(id);
+    if (!track) throw new Error(`Unknown track: ${id}`);
+    course = createCourse(track);
+    courses.set(id, course);
+  }
+  return course;
+};
+
+export const getTrackName = (id: string): string =>
+  id === ENDLESS_TRACK_ID ? 'Endless' : getTrack(id)?.name ?? id;
+
+// --- Track Selection ---
+
+const SELECTED_TRACK_KEY = 'neonRacer.track';
+
+const loadSelectedTrack = (): string => {
+  const stored = localStorage.getItem(SELECTED_TRACK_KEY);
+  return stored && getTrack(stored) ? stored : ENDLESS_TRACK_ID;
+};
+
+// Read on first use rather than on import: the kiosk server loads tracks too, and has no localStorage
+let selectedTrack: string | null = null;
+
+export const getSelectedTrack = (): string => selectedTrack ??= loadSelectedTrack();
+
+export const setSelectedTrack = (id: string) => {
+  selectedTrack = id;
+  localStorage.setItem(SELECTED_TRACK_KEY, id);
+};
+
+// Time attack laps a track against the clock; the endless road has no lap to time
+const SELECTED_MODE_KEY = 'neonRacer.mode';
+
+export const canTimeAttack = (trackId: string): boolean => trackId !== ENDLESS_TRACK_ID;
+
+let selectedMode: RaceMode | null = null;
+
+export const getSelectedMode = (): RaceMode =>
+  selectedMode ??= localStorage.getItem(SELECTED_MODE_KEY) === 'timeAttack' ? 'timeAttack' : 'race';
+
+export const setSelectedMode = (mode: RaceMode) => {
+  selectedMode = mode;
+  localStorage.setItem(SELECTED_MODE_KEY, mode);
+};
+
+export const formatRaceTime = (ticks: number): string => {
+  const totalHundredths = Math.floor((ticks * 100) / Math.round(1 / SIM_STEP));
+  const minutes = Math.floor(totalHundredths / 6000);
+  const seconds = Math.floor(totalHundredths / 100) % 60;
+  const hundredths = totalHundredths % 100;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}.${hundredths.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,97 @@
+// Tuning for weak machines: camera resolution, hand count, thresholds and the inference delegate.
+// Persisted like the calibration profile, and read by the webcam driver when it (re)mounts.
+
+export type DelegatePreference = 'auto' | 'GPU' | 'CPU';
+
+export interface CameraResolution {
+  width: number;
+  height: number;
+}
+
+export interface VisionSettings {
+  version: number;
+  delegate: DelegatePreference;
+  resolution: CameraResolution;
+  numHands: number;
+  minHandDetectionConfidence: number;
+  minHandPresenceConfidence: number;
+  minTrackingConfidence: number;
+}
+
+// What the worker actually ended up running, which may differ from what was asked for
+export interface VisionDiagnostics {
+  delegate: 'GPU' | 'CPU';
+  model: string;
+  gpuAvailable: boolean;
+  fallbackReason: string | null;
+  numHands: number;
+}
+
+export const VISION_SETTINGS_VERSION = 1;
+
+export const RESOLUTION_OPTIONS: CameraResolution[] = [
+  { width: 640, height: 480 },
+  { width: 480, height: 360 },
+  { width: 320, height: 240 },
+];
+
+export const HAND_COUNT_OPTIONS = [1, 2];
+
+export const DEFAULT_VISION_SETTINGS: VisionSettings = {
+  version: VISION_SETTINGS_VERSION,
+  delegate: 'auto',
+  resolution: RESOLUTION_OPTIONS[0],
+  numHands: 2,
+  minHandDetectionConfidence: 0.5,
+  minHandPresenceConfidence: 0.5,
+  minTrackingConfidence: 0.5,
+};
+
+const STORAGE_KEY = 'neonRacer.visionSettings';
+
+const DELEGATES: DelegatePreference[] = ['auto', 'GPU', 'CPU'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const cleanConfidence = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+// Settings from storage or an imported profile, with anything the landmarker can't take replaced by its default.
+// Settings from another version are dropped whole.
+export const cleanVisionSettings = (data: unknown): VisionSettings => {
+  if (!isRecord(data) || data.version !== VISION_SETTINGS_VERSION) return DEFAULT_VISION_SETTINGS;
+  const resolution = isRecord(data.resolution) ? data.resolution : {};
+  const defaults = DEFAULT_VISION_SETTINGS;
+  return {
+    version: VISION_SETTINGS_VERSION,
+    delegate: DELEGATES.includes(data.delegate as DelegatePreference) ? data.delegate as DelegatePreference : defaults.delegate,
+    resolution: RESOLUTION_OPTIONS.find(option => option.width === resolution.width && option.height === resolution.height)
+      ?? defaults.resolution,
+    numHands: HAND_COUNT_OPTIONS.includes(data.numHands as number) ? data.numHands as number : defaults.numHands,
+    minHandDetectionConfidence: cleanConfidence(data.minHandDetectionConfidence, defaults.minHandDetectionConfidence),
+    minHandPresenceConfidence: cleanConfidence(data.minHandPresenceConfidence, defaults.minHandPresenceConfidence),
+    minTrackingConfidence: cleanConfidence(data.minTrackingConfidence, defaults.minTrackingConfidence),
+  };
+};
+
+const loadVisionSettings = (): VisionSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? cleanVisionSettings(JSON.parse(stored)) : DEFAULT_VISION_SETTINGS;
+  } catch (err) {
+    console.error("Ignoring corrupt vision settings", err);
+    return DEFAULT_VISION_SETTINGS;
+  }
+};
+
+let activeSettings: VisionSettings = loadVisionSettings();
+
+export const getVisionSettings = (): VisionSettings => activeSettings;
+
+export const saveVisionSettings = (settings: VisionSettings) => {
+  activeSettings = settings;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const formatResolution = ({ width, height }: CameraResolution): string => `${width}x${height}`;
@@ -0,0 +1,144 @@
+/// <reference lib="webworker" />
+import { FilesetResolver, HandLandmarker } from "@mediapipe/tasks-vision";
+import type { VisionWorkerRequest, VisionWorkerResponse } from "./gestureService";
+import type { VisionDiagnostics, VisionSettings } from "./visionSettingsService";
+
+// Hand-landmark inference off the main thread. Frames arrive as transferred ImageBitmaps,
+// results go back as plain landmark arrays, so a slow inference never blocks the game's render loop.
+
+// The project compiles against the DOM lib; this file also pulls in the WebWorker one for the worker's global
+declare const self: DedicatedWorkerGlobalScope;
+
+// Why the shim: this is a module worker (worker.format 'es' in vite.config.ts) because it imports
+// @mediapipe/tasks-vision, and a classic worker can't. But inside a worker MediaPipe loads its WASM glue
+// with importScripts(), which module workers forbid. The replacement has to behave the same way:
+// synchronous, since MediaPipe reads the glue's globals as soon as the call returns (hence the sync XHR),
+// and run in global scope so those globals land on the worker (hence the indirect eval).
+// The URLs are the WASM files under the wasmPath gestureService sends with the init message.
+self.importScripts = (url: string) => {
+  const request = new XMLHttpRequest();
+  request.open('GET', url, false);
+  request.send();
+  if (request.status !== 200) throw new Error(`Failed to load ${url} (HTTP ${request.status})`);
+  (0, eval)(request.responseText);
+};
+
+let handLandmarker: HandLandmarker | undefined = undefined;
+let fileset: Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>> | undefined = undefined;
+let diagnostics: VisionDiagnostics | null = null;
+
+const post = (message: VisionWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, transfer);
+};
+
+// Capability Detection - the GPU delegate needs WebGL2 on an OffscreenCanvas inside the worker
+const isGpuAvailable = (): boolean => {
+  try {
+    return typeof OffscreenCanvas !== 'undefined' && !!new OffscreenCanvas(1, 1).getContext('webgl2');
+  } catch {
+    return false;
+  }
+};
+
+const createLandmarker = (modelPath: string, delegate: 'GPU' | 'CPU', settings: VisionSettings) =>
+  HandLandmarker.createFromOptions(fileset!, {
+    baseOptions: {
+      modelAssetPath: modelPath,
+      delegate,
+    },
+    // The GPU delegate needs a canvas; workers only have OffscreenCanvas
+    canvas: delegate === 'GPU' ? new OffscreenCanvas(1, 1) : undefined,
+    runningMode: "VIDEO",
+    numHands: settings.numHands,
+    minHandDetectionConfidence: settings.minHandDetectionConfidence,
+    minHandPresenceConfidence: settings.minHandPresenceConfidence,
+    minTrackingConfidence: settings.minTrackingConfidence
+  });
+
+const initialize = async (
+  wasmPath: string,
+  modelPath: string,
+  modelVariant: string,
+  settings: VisionSettings
+): Promise<VisionDiagnostics> => {
+  if (!fileset) fileset = await FilesetResolver.forVisionTasks(wasmPath);
+
+  // Same delegate: thresholds and hand count can change in place without reloading the model
+  const keepDelegate = settings.delegate === 'auto' || settings.delegate === diagnostics?.delegate;
+  if (handLandmarker && diagnostics && keepDelegate) {
+    await handLandmarker.setOptions({
+      numHands: settings.numHands,
+      minHandDetectionConfidence: settings.minHandDetectionConfidence,
+      minHandPresenceConfidence: settings.minHandPresenceConfidence,
+      minTrackingConfidence: settings.minTrackingConfidence
+    });
+    diagnostics = { ...diagnostics, numHands: settings.numHands };
+    return diagnostics;
+  }
+
+  handLandmarker?.close();
+  handLandmarker = undefined;
+
+  const gpuAvailable = isGpuAvailable();
+  let fallbackReason: string | null = null;
+
+  // Try GPU first, fall back to CPU rather than leaving the player without controls
+  if (settings.delegate !== 'CPU') {
+    if (gpuAvailable) {
+      try {
+        handLandmarker = await createLandmarker(modelPath, 'GPU', settings);
+      } catch (err) {
+        fallbackReason = `GPU delegate failed: ${err instanceof Error ? err.message : String(err)}`;
+      }
+    } else {
+      fallbackReason = "WebGL2 is not available in workers on this device";
+    }
+  }
+
+  if (!handLandmarker) {
+    handLandmarker = await createLandmarker(modelPath, 'CPU', settings);
+  }
+
+  diagnostics = {
+    delegate: fallbackReason || settings.delegate === 'CPU' ? 'CPU' : 'GPU',
+    model: modelVariant,
+    gpuAvailable,
+    fallbackReason,
+    numHands: settings.numHands
+  };
+  return diagnostics;
+};
+
+self.addEventListener('message', async (event: MessageEvent<VisionWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'init') {
+    try {
+      const result = await initialize(message.wasmPath, message.modelPath, message.modelVariant, message.settings);
+      post({ type: 'ready', diagnostics: result });
+    } catch (err) {
+      post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+    return;
+  }
+
+  if (message.type === 'detect') {
+    const { frame, timestamp, id } = message;
+    try {
+      if (!handLandmarker) throw new Error("Hand landmarker not initialized");
+      const started = performance.now();
+      const result = handLandmarker.detectForVideo(frame, timestamp);
+      post({
+        type: 'result',
+        id,
+        landmarks: result.landmarks,
+        handednesses: result.handednesses,
+        inferenceMs: performance.now() - started
+      });
+    } catch (err) {
+      post({ type: 'detectError', id, message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      frame.close();
+    }
+  }
+});
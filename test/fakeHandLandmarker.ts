@@ -0,0 +1,32 @@
+import type { HandDetection } from '../services/gestureService';
+import { HandFixture } from './handFixtures';
+
+// Stand-in for MediaPipe's HandLandmarker: replays fixtures instead of running a model,
+// so code that consumes detections can run in jsdom without a camera, GPU or network.
+// Each call returns the next fixture; the last one repeats once the script runs out.
+
+export const createFakeHandLandmarker = (script: (HandFixture | null)[] = []) => {
+  let queue = [...script];
+  let last: HandFixture | null = null;
+  const calls: number[] = [];
+
+  const detectForVideo = (_frame: unknown, timestamp: number): HandDetection => {
+    calls.push(timestamp);
+    if (queue.length > 0) last = queue.shift() ?? null;
+    return {
+      landmarks: last?.landmarks ?? [],
+      handednesses: last?.handednesses ?? [],
+      inferenceMs: 1
+    };
+  };
+
+  return {
+    detectForVideo,
+    // Replace the remaining script, e.g. to change pose mid-test
+    play: (next: (HandFixture | null)[]) => { queue = [...next]; },
+    get calls() { return calls; },
+    close: () => { queue = []; }
+  };
+};
+
+export type FakeHandLandmarker = ReturnType<typeof createFakeHandLandmarker>;
@@ -0,0 +1,41 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { Category, NormalizedLandmark } from '@mediapipe/tasks-vision';
+
+// Recorded-style hand poses for tests. Coordinates are in the raw (unmirrored) camera image,
+// exactly as the vision worker reports them: the player's right hand sits at lower x.
+
+export type HandFixtureName =
+  | 'neutral'
+  | 'left-turn'
+  | 'right-turn'
+  | 'slight-right'
+  | 'pinch'
+  | 'half-pinch'
+  | 'crossed-hands'
+  | 'one-hand'
+  | 'one-hand-tilt-left'
+  | 'low-confidence'
+  | 'brake-fist'
+  | 'boost-point';
+
+export interface HandFixture {
+  description: string;
+  landmarks: NormalizedLandmark[][];
+  handednesses: Category[][];
+}
+
+export const loadHandFixture = (name: HandFixtureName): HandFixture =>
+  JSON.parse(readFileSync(path.resolve(__dirname, 'fixtures/hands', `${name}.json`), 'utf8'));
+
+// Two players side by side, each pose squeezed into one half of the image. Player 1 stands on the
+// left of the mirrored view, so their hands land in the raw image's right half.
+export const versusFixture = (player1: HandFixture, player2: HandFixture): HandFixture => {
+  const squeeze = (fixture: HandFixture, offset: number) =>
+    fixture.landmarks.map(hand => hand.map(point => ({ ...point, x: offset + point.x / 2 })));
+  return {
+    description: `${player1.description} | ${player2.description}`,
+    landmarks: [...squeeze(player1, 0.5), ...squeeze(player2, 0)],
+    handednesses: [...player1.handednesses, ...player2.handednesses]
+  };
+};
@@ -0,0 +1,18 @@
+import { createReplayRecorder } from '../services/replayService';
+import { RaceMode, createSimState, getRunResult, isRunOver, step } from '../services/simulation';
+import { loadCourse } from '../services/trackService';
+import { createIdleControlState } from '../services/inputService';
+import { ControlState } from '../types';
+
+// Plays a whole run the way the game does (record the controls, then step) until it crashes or finishes
+export const recordRun = (seed: number, trackId = 'endless', mode: RaceMode = 'race', maxTicks = 60 * 300) => {
+  const drive = (tick: number): ControlState =>
+    ({ ...createIdleControlState(), isTracking: true, throttle: 1, steering: Math.sin(tick / 50) * 0.4 });
+  const recorder = createReplayRecorder(seed);
+  let state = createSimState(seed, loadCourse(trackId), mode);
+  while (!isRunOver(state) && state.tick < maxTicks) {
+    recorder.record(state.tick, drive(state.tick));
+    state = step(state, drive(state.tick)).state;
+  }
+  return { replay: recorder.finish(state), result: getRunResult(state) };
+};
@@ -1,18 +1,46 @@
 export interface ControlState {
   steering: number; // -1 (Left) to 1 (Right)
   throttle: number; // 0 (Idle) to 1 (Full Speed)
+  brake: number; // 0 (Off) to 1 (Full Brake); held at a standstill it reverses
+  boost: boolean; // Fire HYPER BOOST (only does anything with a full bar)
   isTracking: boolean;
   handsDetected: number;
   debugMessage?: string;
+  gesture?: GestureSample; // Raw webcam measurements, used by calibration
+  pointer?: Point; // Index fingertip, 0-1 across the player's mirrored view; drives the menu cursor
+  players?: PlayerControls[]; // Versus: each player's own controls, player 1 (left of the view) first
 }
 
+// One player's share of the controls when two drive from the same input
+export type PlayerControls = Pick<ControlState, 'steering' | 'throttle' | 'brake' | 'boost' | 'isTracking' | 'handsDetected'>;
+
+export interface GestureSample {
+  steeringAngle: number; // Degrees between the two hands, 0 = level
+  pinchDistance: number; // Thumb tip to index tip, normalized image units
+}
+
+// Run lifecycle: MENU -> COUNTDOWN -> PLAYING (<-> PAUSED) -> CRASHED -> GAME_OVER
 export enum GameState {
   MENU,
   PLAYING,
-  GAME_OVER
+  GAME_OVER,
+  REPLAY,
+  PAUSED,
+  COUNTDOWN,
+  CRASHED
 }
 
 export interface Point {
   x: number;
   y: number;
 }
+
+export type InputSourceId = 'webcam' | 'keyboard' | 'gamepad' | 'touch';
+
+// Shared contract for every input driver (webcam, keyboard, gamepad, touch)
+export interface InputDriverProps {
+  onControlUpdate: (control: ControlState) => void;
+  isActive: boolean;
+  onUnavailable?: (reason: string) => void;
+  players?: number; // 2 for versus; drivers that can tell two players apart fill ControlState.players
+}
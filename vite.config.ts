@@ -1,6 +1,37 @@
+/// <reference types="vitest/config" />
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { Plugin, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
+
+// Writes the built asset list and a build version into the copied public/sw.js, so the service worker
+// precaches the hashed bundles and drops the previous build's cache when a new one is deployed
+const precacheServiceWorker = (): Plugin => {
+  let outDir = 'dist';
+  return {
+    name: 'neon-racer:precache-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    writeBundle(_options, bundle) {
+      const swPath = path.join(outDir, 'sw.js');
+      if (!fs.existsSync(swPath)) return;
+      const assets = Object.keys(bundle).filter(fileName => !fileName.endsWith('.map') && fileName !== 'index.html').sort();
+      const version = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12);
+      const template = fs.readFileSync(swPath, 'utf8');
+      if (!template.includes("const BUILD_VERSION = 'dev';") || !template.includes('const BUILD_ASSETS = [];')) {
+        this.error("sw.js no longer has the BUILD_VERSION / BUILD_ASSETS placeholders");
+      }
+      const source = template
+        .replace("const BUILD_VERSION = 'dev';", `const BUILD_VERSION = ${JSON.stringify(version)};`)
+        .replace('const BUILD_ASSETS = [];', `const BUILD_ASSETS = ${JSON.stringify(assets)};`);
+      fs.writeFileSync(swPath, source);
+    },
+  };
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +40,15 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), tailwindcss(), precacheServiceWorker()],
+      worker: {
+        format: 'es',
+      },
+      test: {
+        environment: 'jsdom',
+        include: ['**/*.test.{ts,tsx}'],
+        exclude: ['node_modules/**', 'dist/**'],
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)